@@ -6,7 +6,7 @@ import reactRefresh from 'eslint-plugin-react-refresh';
 
 export default [
   {
-    ignores: ['dist/**', 'node_modules/**', '.antlr-tmp/**', '*.config.js'],
+    ignores: ['dist/**', 'node_modules/**', '.antlr-tmp/**', '.antlr-cache/**', '.antlr-worker/**', '*.config.js', 'src/utils/antlr/meta/ANTLRv4*.js'],
   },
   js.configs.recommended,
   {
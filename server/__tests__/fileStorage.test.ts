@@ -167,6 +167,45 @@ describe('FileStorageService', () => {
         });
     });
 
+    describe('setTestCase', () => {
+        it('should store and remove test case settings', async () => {
+            const created = await service.createFile('sample.txt', 'text', '1 + 2');
+
+            const declared = await service.setTestCase(created.id, { startRule: 'expr', expect: 'fail' });
+            expect(declared!.testCase).toEqual({ startRule: 'expr', expect: 'fail' });
+            expect((await service.getMetadata(created.id))!.testCase).toEqual({ startRule: 'expr', expect: 'fail' });
+
+            const cleared = await service.setTestCase(created.id, null);
+            expect(cleared!.testCase).toBeUndefined();
+            expect((await service.getMetadata(created.id))!.testCase).toBeUndefined();
+        });
+
+        it('should return null for non-existent file', async () => {
+            const result = await service.setTestCase('non-existent', { startRule: 'expr', expect: 'pass' });
+            expect(result).toBeNull();
+        });
+    });
+
+    describe('saveGeneratedFiles', () => {
+        it('should create generated files and overwrite them by name', async () => {
+            const input = await service.createFile('ExprParser.java', 'text', 'not generated');
+            const [first] = await service.saveGeneratedFiles([{ name: 'ExprParser.java', content: 'class A {}' }]);
+
+            expect(first.type).toBe('generated');
+            expect(first.id).not.toBe(input.id);
+
+            const saved = await service.saveGeneratedFiles([
+                { name: 'ExprParser.java', content: 'class B {}' },
+                { name: 'ExprLexer.java', content: 'class L {}' },
+            ]);
+
+            expect(saved.map(f => f.name)).toEqual(['ExprParser.java', 'ExprLexer.java']);
+            expect(saved[0].id).toBe(first.id);
+            expect((await service.getFile(first.id))?.content).toBe('class B {}');
+            expect((await service.getFile(input.id))?.content).toBe('not generated');
+        });
+    });
+
     describe('deleteFile', () => {
         it('should delete file and metadata', async () => {
             const created = await service.createFile('test.g4', 'grammar', 'content');
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { validateGenerateOptions } from '../services/generateOptions.js';
+
+describe('validateGenerateOptions', () => {
+    it('should accept the tool languages with optional flags and package', () => {
+        expect(validateGenerateOptions({ language: 'Java' })).toBeNull();
+        expect(validateGenerateOptions({ language: 'Python3', visitor: true, listener: false })).toBeNull();
+        expect(validateGenerateOptions({ language: 'Java', packageName: 'com.example.parser' })).toBeNull();
+        expect(validateGenerateOptions({ language: 'Cpp', packageName: 'antlr::expr' })).toBeNull();
+        expect(validateGenerateOptions({ language: 'Go', packageName: '' })).toBeNull();
+    });
+
+    it('should reject unknown languages', () => {
+        expect(validateGenerateOptions({ language: 'java' })).toMatch(/^language must be one of Java, TypeScript/);
+        expect(validateGenerateOptions({})).toMatch(/^language must be one of/);
+    });
+
+    it('should reject flags that are not booleans', () => {
+        expect(validateGenerateOptions({ language: 'Java', visitor: 'yes' })).toBe('visitor must be a boolean');
+        expect(validateGenerateOptions({ language: 'Java', listener: 1 })).toBe('listener must be a boolean');
+    });
+
+    it('should reject package names that are not identifiers', () => {
+        expect(validateGenerateOptions({ language: 'Java', packageName: 'com.example;' })).toMatch(/^packageName must be/);
+        expect(validateGenerateOptions({ language: 'Java', packageName: '-o /tmp' })).toMatch(/^packageName must be/);
+        expect(validateGenerateOptions({ language: 'Java', packageName: 'com..example' })).toMatch(/^packageName must be/);
+        expect(validateGenerateOptions({ language: 'Java', packageName: 42 })).toMatch(/^packageName must be/);
+    });
+});
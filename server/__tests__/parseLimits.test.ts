@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { validateParseLimits, resolveParseLimits } from '../services/parseLimits.js';
+import { DEFAULT_PARSE_LIMITS } from '../../src/utils/antlr/index.js';
+
+describe('validateParseLimits', () => {
+    it('should accept missing and partial limits', () => {
+        expect(validateParseLimits(undefined)).toBeNull();
+        expect(validateParseLimits({})).toBeNull();
+        expect(validateParseLimits({ timeoutMs: 5000 })).toBeNull();
+        expect(validateParseLimits({ timeoutMs: 5000, maxInputBytes: 1024, maxTreeNodes: 100 })).toBeNull();
+    });
+
+    it('should reject values that are not positive integers', () => {
+        expect(validateParseLimits({ timeoutMs: 0 })).toBe('timeoutMs must be a positive integer');
+        expect(validateParseLimits({ maxTreeNodes: 1.5 })).toBe('maxTreeNodes must be a positive integer');
+        expect(validateParseLimits({ maxInputBytes: '1024' })).toBe('maxInputBytes must be a positive integer');
+    });
+
+    it('should reject unknown limits and non-objects', () => {
+        expect(validateParseLimits({ maxTokens: 10 })).toBe('Unknown parse limit: maxTokens');
+        expect(validateParseLimits(null)).toBe('parseLimits must be an object');
+        expect(validateParseLimits([1000])).toBe('parseLimits must be an object');
+    });
+});
+
+describe('resolveParseLimits', () => {
+    it('should fill in the defaults for limits the workspace does not set', () => {
+        expect(resolveParseLimits(undefined)).toEqual(DEFAULT_PARSE_LIMITS);
+        expect(resolveParseLimits({ timeoutMs: 5000 })).toEqual({ ...DEFAULT_PARSE_LIMITS, timeoutMs: 5000 });
+    });
+});
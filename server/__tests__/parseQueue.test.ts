@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { ParseQueue } from '../services/parseQueue.js';
+
+/** A task that finishes when `finish` is called */
+function deferredTask<T>(value: T) {
+    let finish!: () => void;
+    const done = new Promise<void>(resolve => {
+        finish = resolve;
+    });
+    const task = async () => {
+        await done;
+        return value;
+    };
+    return { task, finish };
+}
+
+describe('ParseQueue', () => {
+    it('should run tasks immediately while under the concurrency limit', async () => {
+        const queue = new ParseQueue(2);
+        const positions: number[] = [];
+
+        const result = await queue.run(async () => 'done', { onPosition: p => positions.push(p) });
+
+        expect(result).toBe('done');
+        expect(positions).toEqual([]);
+        expect(queue.getRunningCount()).toBe(0);
+    });
+
+    it('should queue tasks beyond the limit and report positions', async () => {
+        const queue = new ParseQueue(1);
+        const first = deferredTask('first');
+        const second = deferredTask('second');
+        const third = deferredTask('third');
+        const secondPositions: number[] = [];
+        const thirdPositions: number[] = [];
+
+        const firstResult = queue.run(first.task);
+        const secondResult = queue.run(second.task, { onPosition: p => secondPositions.push(p) });
+        const thirdResult = queue.run(third.task, { onPosition: p => thirdPositions.push(p) });
+
+        expect(queue.getRunningCount()).toBe(1);
+        expect(queue.getWaitingCount()).toBe(2);
+        expect(secondPositions).toEqual([1]);
+        expect(thirdPositions).toEqual([2]);
+
+        first.finish();
+        await expect(firstResult).resolves.toBe('first');
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        // Second task started, third moved up
+        expect(queue.getWaitingCount()).toBe(1);
+        expect(thirdPositions).toEqual([2, 1]);
+
+        second.finish();
+        third.finish();
+        await expect(secondResult).resolves.toBe('second');
+        await expect(thirdResult).resolves.toBe('third');
+    });
+
+    it('should start the next task when a task fails', async () => {
+        const queue = new ParseQueue(1);
+        const failing = queue.run(async () => {
+            throw new Error('boom');
+        });
+        const next = queue.run(async () => 'next');
+
+        await expect(failing).rejects.toThrow('boom');
+        await expect(next).resolves.toBe('next');
+    });
+
+    it('should remove a waiting task when its signal aborts', async () => {
+        const queue = new ParseQueue(1);
+        const first = deferredTask('first');
+        const abort = new AbortController();
+        let started = false;
+
+        const firstResult = queue.run(first.task);
+        const cancelled = queue.run(async () => {
+            started = true;
+        }, { signal: abort.signal });
+
+        abort.abort();
+        await expect(cancelled).rejects.toThrow('Parse request cancelled');
+        expect(queue.getWaitingCount()).toBe(0);
+
+        first.finish();
+        await firstResult;
+        expect(started).toBe(false);
+    });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { validateParseTarget, supportsParseDiagnostics } from '../services/parseTarget.js';
+
+describe('validateParseTarget', () => {
+    it('should accept known targets and a missing target', () => {
+        expect(validateParseTarget(undefined)).toBeNull();
+        expect(validateParseTarget('java')).toBeNull();
+        expect(validateParseTarget('typescript')).toBeNull();
+        expect(validateParseTarget('javascript')).toBeNull();
+    });
+
+    it('should reject unknown targets', () => {
+        expect(validateParseTarget('python')).toBe('target must be one of java, typescript, javascript');
+        expect(validateParseTarget('Java')).toBe('target must be one of java, typescript, javascript');
+        expect(validateParseTarget(null)).toBe('target must be one of java, typescript, javascript');
+    });
+});
+
+describe('supportsParseDiagnostics', () => {
+    it('should only allow profiling and tracing on the Java runtime', () => {
+        expect(supportsParseDiagnostics('java')).toBe(true);
+        expect(supportsParseDiagnostics('typescript')).toBe(false);
+        expect(supportsParseDiagnostics('javascript')).toBe(false);
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import { SnapshotService } from '../services/snapshotService.js';
+import type { SnapshotNode } from '../../src/utils/antlr/index.js';
+
+describe('SnapshotService', () => {
+    let service: SnapshotService;
+    const testDataDir = './data/test-snapshots';
+
+    const tree: SnapshotNode = {
+        type: 'rule',
+        name: 'expr',
+        children: [{ type: 'token', name: '1', tokenType: 'NUMBER' }],
+    };
+
+    beforeEach(async () => {
+        service = new SnapshotService(testDataDir);
+        await fs.mkdir(testDataDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+        // Clean up test directory
+        try {
+            await fs.rm(testDataDir, { recursive: true, force: true });
+        } catch {
+            // Ignore cleanup errors
+        }
+    });
+
+    it('should return null when no snapshot was approved', async () => {
+        expect(await service.getSnapshot('no-snapshot')).toBeNull();
+    });
+
+    it('should save and load a snapshot', async () => {
+        const saved = await service.saveSnapshot('file-1', 'expr', tree);
+
+        expect(saved.fileId).toBe('file-1');
+        expect(saved.startRule).toBe('expr');
+        expect(saved.approvedAt).toBeDefined();
+        expect(await service.getSnapshot('file-1')).toEqual(saved);
+    });
+
+    it('should replace the previous snapshot when approving again', async () => {
+        await service.saveSnapshot('file-1', 'expr', tree);
+        const other: SnapshotNode = { type: 'rule', name: 'term' };
+
+        await service.saveSnapshot('file-1', 'term', other);
+
+        const snapshot = await service.getSnapshot('file-1');
+        expect(snapshot!.startRule).toBe('term');
+        expect(snapshot!.tree).toEqual(other);
+    });
+
+    it('should delete a snapshot and tolerate missing ones', async () => {
+        await service.saveSnapshot('file-1', 'expr', tree);
+
+        expect(await service.deleteSnapshot('file-1')).toBe(true);
+        expect(await service.getSnapshot('file-1')).toBeNull();
+        expect(await service.deleteSnapshot('file-1')).toBe(true);
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateTestCase } from '../services/testCases.js';
+import type { ParseError, ParseResult } from '../../src/utils/antlr/index.js';
+import type { BatchParseCase } from '../types.js';
+
+function result(errors: ParseError[]): ParseResult {
+    return {
+        tree: { id: 'root', name: 'expr', type: 'rule', children: [] },
+        tokens: [],
+        errors,
+        duration: 12,
+    };
+}
+
+const syntaxError: ParseError = {
+    line: 1,
+    column: 4,
+    message: "mismatched input '+' expecting NUMBER",
+    severity: 'error',
+    source: 'parser',
+};
+
+function testCase(expect: BatchParseCase['expect']): BatchParseCase {
+    return { id: 'case-1', inputText: '1 +', startRule: 'expr', expect };
+}
+
+describe('evaluateTestCase', () => {
+    it('should pass a case expected to parse when there are no errors', () => {
+        expect(evaluateTestCase(testCase('pass'), result([]))).toEqual({
+            id: 'case-1',
+            status: 'passed',
+            errorCount: 0,
+            message: undefined,
+            duration: 12,
+        });
+    });
+
+    it('should fail a case expected to parse when the parser reports errors', () => {
+        const outcome = evaluateTestCase(testCase('pass'), result([syntaxError]));
+
+        expect(outcome.status).toBe('failed');
+        expect(outcome.errorCount).toBe(1);
+        expect(outcome.message).toBe("1:4 mismatched input '+' expecting NUMBER");
+    });
+
+    it('should pass a case expected to fail only when there are input errors', () => {
+        expect(evaluateTestCase(testCase('fail'), result([syntaxError])).status).toBe('passed');
+        expect(evaluateTestCase(testCase('fail'), result([])).status).toBe('failed');
+    });
+
+    it('should ignore warnings', () => {
+        const warning: ParseError = { ...syntaxError, severity: 'warning' };
+
+        expect(evaluateTestCase(testCase('pass'), result([warning])).status).toBe('passed');
+    });
+
+    it('should report grammar failures as errors whatever the expectation', () => {
+        const grammarError: ParseError = {
+            line: 3,
+            column: 8,
+            message: 'reference to undefined rule: foo',
+            severity: 'error',
+            source: 'grammar',
+        };
+
+        const outcome = evaluateTestCase(testCase('fail'), result([grammarError]));
+
+        expect(outcome.status).toBe('error');
+        expect(outcome.message).toBe('reference to undefined rule: foo');
+    });
+
+    it('should report parses stopped by a limit as errors', () => {
+        const limitError: ParseError = {
+            line: 40,
+            column: 2,
+            message: 'Parse stopped: the parse tree exceeded the limit of 1000 nodes',
+            severity: 'error',
+            source: 'limit',
+            limit: 'maxTreeNodes',
+        };
+
+        const outcome = evaluateTestCase(testCase('fail'), result([syntaxError, limitError]));
+
+        expect(outcome.status).toBe('error');
+        expect(outcome.errorCount).toBe(1);
+        expect(outcome.message).toBe(limitError.message);
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, inflateRawSync } from 'zlib';
+import { createZip } from '../services/zipArchive.js';
+
+/**
+ * Read the entries back through the central directory, as unzip tools do
+ */
+function readZip(zip: Buffer): Array<{ name: string; content: string; crcMatches: boolean }> {
+    const end = zip.length - 22;
+    expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+    const count = zip.readUInt16LE(end + 10);
+    let central = zip.readUInt32LE(end + 16);
+
+    const entries = [];
+    for (let i = 0; i < count; i++) {
+        expect(zip.readUInt32LE(central)).toBe(0x02014b50);
+        const checksum = zip.readUInt32LE(central + 16);
+        const compressedSize = zip.readUInt32LE(central + 20);
+        const nameLength = zip.readUInt16LE(central + 28);
+        const name = zip.toString('utf-8', central + 46, central + 46 + nameLength);
+        const local = zip.readUInt32LE(central + 42);
+
+        expect(zip.readUInt32LE(local)).toBe(0x04034b50);
+        const dataStart = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+        const content = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+        entries.push({ name, content: content.toString('utf-8'), crcMatches: crc32(content) === checksum });
+        central += 46 + nameLength;
+    }
+    return entries;
+}
+
+describe('createZip', () => {
+    it('should store every file so it can be read back', () => {
+        const zip = createZip([
+            { name: 'ExprParser.java', content: 'public class ExprParser {}\n'.repeat(50) },
+            { name: 'Expr.tokens', content: "T__0=1\n'+'=1\n" },
+            { name: 'Grüße.txt', content: Buffer.from('ü', 'utf-8') },
+        ]);
+
+        expect(readZip(zip)).toEqual([
+            { name: 'ExprParser.java', content: 'public class ExprParser {}\n'.repeat(50), crcMatches: true },
+            { name: 'Expr.tokens', content: "T__0=1\n'+'=1\n", crcMatches: true },
+            { name: 'Grüße.txt', content: 'ü', crcMatches: true },
+        ]);
+    });
+
+    it('should write an empty archive', () => {
+        const zip = createZip([]);
+
+        expect(zip.length).toBe(22);
+        expect(readZip(zip)).toEqual([]);
+    });
+
+    it('should record the modification time in MS-DOS format', () => {
+        const zip = createZip([{ name: 'a', content: '' }], new Date(2024, 2, 15, 13, 45, 30));
+
+        expect(zip.readUInt16LE(10)).toBe((13 << 11) | (45 << 5) | 15);
+        expect(zip.readUInt16LE(12)).toBe(((2024 - 1980) << 9) | (3 << 5) | 15);
+    });
+});
@@ -1,12 +1,15 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import { parseANTLRGrammar } from '../src/utils/antlr/index.js';
 import { fileStorage } from './services/fileStorage.js';
 import { historyService } from './services/historyService.js';
 import filesRouter from './routes/files.js';
 import historyRouter from './routes/history.js';
+import snapshotRouter from './routes/snapshot.js';
 import workspaceRouter from './routes/workspace.js';
 import aiRouter from './routes/ai.js';
+import parseRouter from './routes/parse.js';
+import compileRouter from './routes/compile.js';
+import generateRouter from './routes/generate.js';
 import { workspaceService } from './services/workspaceService.js';
 
 // Seed data for first-time users
@@ -37,62 +40,16 @@ app.get('/health', (req: Request, res: Response) => {
 // File persistence API routes
 app.use('/api/files', filesRouter);
 app.use('/api/files/:id/history', historyRouter);
+app.use('/api/files/:id/snapshot', snapshotRouter);
 app.use('/api/workspace', workspaceRouter);
 
 // AI proxy routes
 app.use('/api/ai', aiRouter);
 
-// Parse endpoint
-app.post('/api/parse', async (req: Request, res: Response) => {
-    try {
-        const { grammarFiles, inputText, startRule } = req.body;
-
-        // Validate request
-        if (!grammarFiles || !Array.isArray(grammarFiles)) {
-            return res.status(400).json({
-                error: 'Invalid request: grammarFiles must be an array'
-            });
-        }
-
-        if (!inputText || typeof inputText !== 'string') {
-            return res.status(400).json({
-                error: 'Invalid request: inputText must be a string'
-            });
-        }
-
-        if (!startRule || typeof startRule !== 'string') {
-            return res.status(400).json({
-                error: 'Invalid request: startRule must be a string'
-            });
-        }
-
-        // Validate grammar files format
-        for (const file of grammarFiles) {
-            if (!file.name || !file.content) {
-                return res.status(400).json({
-                    error: 'Invalid request: each grammar file must have name and content'
-                });
-            }
-        }
-
-        console.log(`[API] Parsing with ${grammarFiles.length} grammar file(s), start rule: ${startRule}`);
-
-        // Parse the grammar
-        const result = await parseANTLRGrammar(grammarFiles, inputText, startRule);
-
-        console.log(`[API] Parse completed in ${result.duration}ms`);
-
-        res.json(result);
-    } catch (err) {
-        const error = err as Error;
-        console.error('[API] Parse error:', error);
-        res.status(500).json({
-            error: 'Internal server error',
-            message: error.message,
-            stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
-        });
-    }
-});
+// Parse, compile and code generation endpoints
+app.use('/api/parse', parseRouter);
+app.use('/api/compile', compileRouter);
+app.use('/api/generate', generateRouter);
 
 /**
  * Create seed data for first-time users (empty data directory).
@@ -151,6 +108,7 @@ async function startServer() {
             console.log(`🚀 ANTLR4 Lab Backend Server running on http://localhost:${PORT}`);
             console.log(`   - Health check: http://localhost:${PORT}/health`);
             console.log(`   - Parse API: http://localhost:${PORT}/api/parse`);
+            console.log(`   - Compile API: http://localhost:${PORT}/api/compile`);
             console.log(`   - Files API: http://localhost:${PORT}/api/files`);
             console.log(`   - Workspace API: http://localhost:${PORT}/api/workspace`);
             console.log(`   - AI API: http://localhost:${PORT}/api/ai`);
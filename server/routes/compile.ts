@@ -0,0 +1,56 @@
+import { Router, Request, Response } from 'express';
+import { compileANTLRGrammar } from '../../src/utils/antlr/index.js';
+import { compileQueue } from '../services/parseQueue.js';
+import type { CompileRequest } from '../types.js';
+
+const router = Router();
+
+/**
+ * POST /api/compile
+ * Run only the ANTLR tool on the grammar files and return its diagnostics
+ * (error code, file, line and column for each message).
+ */
+router.post('/', async (req: Request, res: Response) => {
+    try {
+        const { grammarFiles } = req.body as CompileRequest;
+
+        // Validate request
+        if (!grammarFiles || !Array.isArray(grammarFiles) || grammarFiles.length === 0) {
+            return res.status(400).json({
+                error: 'Invalid request: grammarFiles must be a non-empty array'
+            });
+        }
+
+        for (const file of grammarFiles) {
+            if (!file.name || typeof file.content !== 'string') {
+                return res.status(400).json({
+                    error: 'Invalid request: each grammar file must have name and content'
+                });
+            }
+        }
+
+        // Checks run one at a time, apart from parses; a check replaced by a
+        // newer one is dropped from the queue when its client disconnects
+        const abort = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) abort.abort();
+        });
+
+        const result = await compileQueue.run(
+            () => compileANTLRGrammar(grammarFiles),
+            { signal: abort.signal }
+        );
+
+        res.json(result);
+    } catch (err) {
+        const error = err as Error;
+        console.error('[API] Compile error:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message,
+            stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+        });
+    }
+});
+
+export default router;
@@ -1,9 +1,12 @@
 import { Router, Request, Response } from 'express';
 import { fileStorage } from '../services/fileStorage.js';
 import { historyService } from '../services/historyService.js';
+import { snapshotService } from '../services/snapshotService.js';
 import type {
     CreateFileRequest,
+    SaveGeneratedFilesRequest,
     UpdateFileRequest,
+    PatchFileRequest,
     ListFilesResponse,
     GetFileResponse,
     ApiErrorResponse,
@@ -92,6 +95,35 @@ router.post('/', async (req: Request<object, object, CreateFileRequest>, res: Re
     }
 });
 
+/**
+ * POST /api/files/generated
+ * Save generated sources as read-only files. Generated files with the same
+ * name are overwritten.
+ */
+router.post('/generated', async (req: Request<object, object, SaveGeneratedFilesRequest>, res: Response) => {
+    try {
+        const { files } = req.body;
+
+        if (!Array.isArray(files) || files.length === 0
+            || files.some(f => !f || !f.name || typeof f.name !== 'string' || typeof f.content !== 'string')) {
+            return res.status(400).json({
+                error: 'Invalid request',
+                message: 'Files must be a non-empty array of files with name and content',
+            });
+        }
+
+        const saved = await fileStorage.saveGeneratedFiles(files);
+
+        res.status(201).json({ files: saved });
+    } catch (error) {
+        console.error('[Files API] Save generated files error:', error);
+        res.status(500).json({
+            error: 'Failed to save generated files',
+            message: (error as Error).message,
+        });
+    }
+});
+
 /**
  * PUT /api/files/:id
  * Update a file's content
@@ -117,6 +149,13 @@ router.put('/:id', async (req: Request<{ id: string }, object, UpdateFileRequest
             });
         }
 
+        if (existingFile.metadata.type === 'generated') {
+            return res.status(403).json({
+                error: 'File is read-only',
+                message: `${existingFile.metadata.name} was generated by the ANTLR tool and can't be edited`,
+            });
+        }
+
         // Create checkpoint before saving if requested
         if (createCheckpoint) {
             const description = checkpointLabel || 'Manual checkpoint';
@@ -137,34 +176,71 @@ router.put('/:id', async (req: Request<{ id: string }, object, UpdateFileRequest
 
 /**
  * PATCH /api/files/:id
- * Rename a file
+ * Rename a file and/or change its test case settings
  */
-router.patch('/:id', async (req: Request<{ id: string }, object, { name: string }>, res: Response) => {
+router.patch('/:id', async (req: Request<{ id: string }, object, PatchFileRequest>, res: Response) => {
     try {
         const { id } = req.params;
-        const { name } = req.body;
+        const { name, testCase } = req.body;
 
-        if (!name || typeof name !== 'string') {
+        if (name === undefined && testCase === undefined) {
             return res.status(400).json({
                 error: 'Invalid request',
-                message: 'Name is required and must be a string',
+                message: 'Name or testCase is required',
+            });
+        }
+
+        if (name !== undefined && (!name || typeof name !== 'string')) {
+            return res.status(400).json({
+                error: 'Invalid request',
+                message: 'Name must be a non-empty string',
             });
         }
 
-        const metadata = await fileStorage.renameFile(id, name);
+        if (testCase) {
+            if (!testCase.startRule || typeof testCase.startRule !== 'string') {
+                return res.status(400).json({
+                    error: 'Invalid request',
+                    message: 'testCase.startRule is required and must be a string',
+                });
+            }
+            if (testCase.expect !== 'pass' && testCase.expect !== 'fail') {
+                return res.status(400).json({
+                    error: 'Invalid request',
+                    message: "testCase.expect must be 'pass' or 'fail'",
+                });
+            }
+        }
+
+        const existing = await fileStorage.getMetadata(id);
 
-        if (!metadata) {
+        if (!existing) {
             return res.status(404).json({
                 error: 'File not found',
                 message: `No file found with ID: ${id}`,
             });
         }
 
+        if (testCase && existing.type !== 'text') {
+            return res.status(400).json({
+                error: 'Invalid request',
+                message: 'Only text files can be test cases',
+            });
+        }
+
+        let metadata = existing;
+        if (name !== undefined) {
+            metadata = (await fileStorage.renameFile(id, name)) ?? metadata;
+        }
+        if (testCase !== undefined) {
+            metadata = (await fileStorage.setTestCase(id, testCase)) ?? metadata;
+        }
+
         res.json({ metadata });
     } catch (error) {
-        console.error('[Files API] Rename file error:', error);
+        console.error('[Files API] Update file metadata error:', error);
         res.status(500).json({
-            error: 'Failed to rename file',
+            error: 'Failed to update file',
             message: (error as Error).message,
         });
     }
@@ -172,7 +248,7 @@ router.patch('/:id', async (req: Request<{ id: string }, object, { name: string
 
 /**
  * DELETE /api/files/:id
- * Delete a file and its history
+ * Delete a file, its history and its snapshot
  */
 router.delete('/:id', async (req: Request, res: Response) => {
     try {
@@ -187,8 +263,9 @@ router.delete('/:id', async (req: Request, res: Response) => {
             });
         }
 
-        // Also delete the file's history
+        // Also delete the file's history and approved snapshot
         await historyService.deleteHistory(id);
+        await snapshotService.deleteSnapshot(id);
 
         res.json({ success: true });
     } catch (error) {
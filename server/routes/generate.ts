@@ -0,0 +1,98 @@
+import { Router, Request, Response } from 'express';
+import { generateANTLRCode } from '../../src/utils/antlr/index.js';
+import { parseQueue } from '../services/parseQueue.js';
+import { fileStorage } from '../services/fileStorage.js';
+import { validateGenerateOptions } from '../services/generateOptions.js';
+import { createZip } from '../services/zipArchive.js';
+import type { GenerateRequest, GenerateFilesResponse } from '../types.js';
+
+const router = Router();
+
+/**
+ * POST /api/generate
+ * Run the ANTLR tool on the grammar files to generate recognizer sources for
+ * the requested language. Returns the sources as a zip archive, or with
+ * `output: 'files'` saves them as read-only project files. Grammar errors are
+ * answered with 422 and the tool's diagnostics in `details`.
+ */
+router.post('/', async (req: Request, res: Response) => {
+    try {
+        const { grammarFiles, language, visitor, listener, packageName, output = 'zip' } = req.body as GenerateRequest;
+
+        // Validate request
+        if (!grammarFiles || !Array.isArray(grammarFiles) || grammarFiles.length === 0) {
+            return res.status(400).json({
+                error: 'Invalid request: grammarFiles must be a non-empty array'
+            });
+        }
+
+        for (const file of grammarFiles) {
+            if (!file.name || typeof file.content !== 'string') {
+                return res.status(400).json({
+                    error: 'Invalid request: each grammar file must have name and content'
+                });
+            }
+        }
+
+        const optionsError = validateGenerateOptions({ language, visitor, listener, packageName });
+        if (optionsError) {
+            return res.status(400).json({
+                error: `Invalid request: ${optionsError}`
+            });
+        }
+
+        if (output !== 'zip' && output !== 'files') {
+            return res.status(400).json({
+                error: "Invalid request: output must be 'zip' or 'files'"
+            });
+        }
+
+        console.log(`[API] Generating ${language} sources for ${grammarFiles.length} grammar file(s)`);
+
+        // Tool runs share the parse concurrency limit
+        const abort = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) abort.abort();
+        });
+
+        const result = await parseQueue.run(
+            () => generateANTLRCode(grammarFiles, { language, visitor, listener, packageName: packageName || undefined }),
+            { signal: abort.signal }
+        );
+
+        if (!result.success) {
+            const errors = result.diagnostics.filter(d => d.severity === 'error');
+            return res.status(422).json({
+                error: 'Code generation failed',
+                message: errors[0]?.message ?? 'ANTLR tool failed',
+                details: result.diagnostics,
+            });
+        }
+
+        console.log(`[API] Generated ${result.files.length} file(s) in ${result.duration}ms`);
+
+        if (output === 'files') {
+            const response: GenerateFilesResponse = {
+                files: await fileStorage.saveGeneratedFiles(result.files),
+                diagnostics: result.diagnostics,
+                duration: result.duration,
+            };
+            return res.json(response);
+        }
+
+        const archiveName = `${grammarFiles[0].name.replace(/\.g4$/, '')}-${language}.zip`;
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename="${archiveName.replace(/[^\w.-]/g, '_')}"`);
+        res.send(createZip(result.files));
+    } catch (err) {
+        const error = err as Error;
+        console.error('[API] Generate error:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message,
+            stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,222 @@
+import { Router, Request, Response } from 'express';
+import { parseANTLRGrammar } from '../../src/utils/antlr/index.js';
+import { parseQueue } from '../services/parseQueue.js';
+import { evaluateTestCase } from '../services/testCases.js';
+import { workspaceService } from '../services/workspaceService.js';
+import { resolveParseLimits } from '../services/parseLimits.js';
+import { supportsParseDiagnostics } from '../services/parseTarget.js';
+import type {
+    ParseRequest,
+    ParseStreamEvent,
+    BatchParseRequest,
+    BatchParseResponse,
+    TestCaseResult,
+} from '../types.js';
+
+const router = Router();
+
+/**
+ * Parse limits and target configured for the workspace, completed with the defaults
+ */
+async function getParseSettings() {
+    const workspace = await workspaceService.getWorkspace();
+    return {
+        limits: resolveParseLimits(workspace?.settings.parseLimits),
+        target: workspace?.settings.target ?? 'java',
+    };
+}
+
+/**
+ * POST /api/parse
+ * Parse input text with the given grammar files.
+ * Parses run through a queue with a concurrency limit. With `stream: true`
+ * the response is an event stream reporting the queue position while the
+ * request waits, followed by the result.
+ */
+router.post('/', async (req: Request, res: Response) => {
+    try {
+        const { grammarFiles, inputText, startRule, profile, trace, ambiguities, stream } = req.body as ParseRequest;
+
+        // Validate request
+        if (!grammarFiles || !Array.isArray(grammarFiles)) {
+            return res.status(400).json({
+                error: 'Invalid request: grammarFiles must be an array'
+            });
+        }
+
+        if (typeof inputText !== 'string') {
+            return res.status(400).json({
+                error: 'Invalid request: inputText must be a string'
+            });
+        }
+
+        if (startRule !== undefined && typeof startRule !== 'string') {
+            return res.status(400).json({
+                error: 'Invalid request: startRule must be a string'
+            });
+        }
+
+        if (profile === true && trace === true) {
+            return res.status(400).json({
+                error: 'Invalid request: profile and trace cannot be combined'
+            });
+        }
+
+        if (profile === true && ambiguities === true) {
+            return res.status(400).json({
+                error: 'Invalid request: profile and ambiguities cannot be combined'
+            });
+        }
+
+        // Validate grammar files format
+        for (const file of grammarFiles) {
+            if (!file.name || !file.content) {
+                return res.status(400).json({
+                    error: 'Invalid request: each grammar file must have name and content'
+                });
+            }
+        }
+
+        const settings = await getParseSettings();
+        if ((profile === true || trace === true) && !supportsParseDiagnostics(settings.target)) {
+            return res.status(400).json({
+                error: `Invalid request: profile and trace need the java target, the workspace uses ${settings.target}`
+            });
+        }
+
+        const options = { profile: profile === true, trace: trace === true, ambiguities: ambiguities === true, ...settings };
+        const mode = options.profile
+            ? ' (profiling)'
+            : options.trace ? ' (tracing)' : options.ambiguities ? ' (detecting ambiguities)' : '';
+        console.log(`[API] Parsing with ${grammarFiles.length} grammar file(s), ${startRule ? `start rule: ${startRule}` : 'tokenize only'}${mode}`);
+
+        // Stop waiting in the queue if the client goes away
+        const abort = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) abort.abort();
+        });
+
+        if (stream) {
+            res.setHeader('Content-Type', 'text/event-stream');
+            res.setHeader('Cache-Control', 'no-cache');
+            res.setHeader('Connection', 'keep-alive');
+
+            const send = (event: ParseStreamEvent) => {
+                res.write(`data: ${JSON.stringify(event)}\n\n`);
+            };
+
+            try {
+                const result = await parseQueue.run(
+                    () => parseANTLRGrammar(grammarFiles, inputText, startRule, options),
+                    {
+                        onPosition: position => send({ type: 'queued', position }),
+                        signal: abort.signal,
+                    }
+                );
+                console.log(`[API] Parse completed in ${result.duration}ms`);
+                send({ type: 'result', result });
+            } catch (err) {
+                send({ type: 'error', message: (err as Error).message });
+            }
+            return res.end();
+        }
+
+        // Parse the grammar
+        const result = await parseQueue.run(
+            () => parseANTLRGrammar(grammarFiles, inputText, startRule, options),
+            { signal: abort.signal }
+        );
+
+        console.log(`[API] Parse completed in ${result.duration}ms`);
+
+        res.json(result);
+    } catch (err) {
+        const error = err as Error;
+        console.error('[API] Parse error:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message,
+            stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+        });
+    }
+});
+
+/**
+ * POST /api/parse/batch
+ * Parse every test case input with the same grammar files and report
+ * whether each outcome matched the case's expectation.
+ * Cases are queued one at a time so a large batch doesn't hold up other parses.
+ */
+router.post('/batch', async (req: Request, res: Response) => {
+    try {
+        const { grammarFiles, cases } = req.body as BatchParseRequest;
+
+        // Validate request
+        if (!grammarFiles || !Array.isArray(grammarFiles)) {
+            return res.status(400).json({
+                error: 'Invalid request: grammarFiles must be an array'
+            });
+        }
+
+        if (!cases || !Array.isArray(cases)) {
+            return res.status(400).json({
+                error: 'Invalid request: cases must be an array'
+            });
+        }
+
+        for (const file of grammarFiles) {
+            if (!file.name || !file.content) {
+                return res.status(400).json({
+                    error: 'Invalid request: each grammar file must have name and content'
+                });
+            }
+        }
+
+        for (const testCase of cases) {
+            if (!testCase.id || typeof testCase.inputText !== 'string' || !testCase.startRule
+                || (testCase.expect !== 'pass' && testCase.expect !== 'fail')) {
+                return res.status(400).json({
+                    error: 'Invalid request: each case must have id, inputText, startRule and expect'
+                });
+            }
+        }
+
+        console.log(`[API] Running ${cases.length} test case(s) with ${grammarFiles.length} grammar file(s)`);
+
+        const abort = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) abort.abort();
+        });
+
+        const settings = await getParseSettings();
+        const startTime = Date.now();
+        const results: TestCaseResult[] = [];
+
+        for (const testCase of cases) {
+            const result = await parseQueue.run(
+                () => parseANTLRGrammar(grammarFiles, testCase.inputText, testCase.startRule, settings),
+                { signal: abort.signal }
+            );
+            results.push(evaluateTestCase(testCase, result));
+        }
+
+        const response: BatchParseResponse = {
+            results,
+            duration: Date.now() - startTime,
+        };
+
+        console.log(`[API] Test cases completed in ${response.duration}ms`);
+
+        res.json(response);
+    } catch (err) {
+        const error = err as Error;
+        console.error('[API] Batch parse error:', error);
+        res.status(500).json({
+            error: 'Internal server error',
+            message: error.message,
+            stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,100 @@
+import { Router, Request, Response } from 'express';
+import { fileStorage } from '../services/fileStorage.js';
+import { snapshotService } from '../services/snapshotService.js';
+import type {
+    ApproveSnapshotRequest,
+    GetSnapshotResponse,
+    ApiErrorResponse,
+} from '../types.js';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * GET /api/files/:id/snapshot
+ * Get the approved parse tree snapshot for a file (null if none)
+ */
+router.get('/', async (req: Request, res: Response<GetSnapshotResponse | ApiErrorResponse>) => {
+    try {
+        const { id } = req.params;
+
+        const metadata = await fileStorage.getMetadata(id);
+        if (!metadata) {
+            return res.status(404).json({
+                error: 'File not found',
+                message: `No file found with ID: ${id}`,
+            });
+        }
+
+        const snapshot = await snapshotService.getSnapshot(id);
+        res.json({ snapshot });
+    } catch (error) {
+        console.error('[Snapshot API] Get snapshot error:', error);
+        res.status(500).json({
+            error: 'Failed to get snapshot',
+            message: (error as Error).message,
+        });
+    }
+});
+
+/**
+ * PUT /api/files/:id/snapshot
+ * Approve a parse tree as the expected result for a file
+ */
+router.put('/', async (req: Request<{ id: string }, object, ApproveSnapshotRequest>, res: Response) => {
+    try {
+        const { id } = req.params;
+        const { startRule, tree } = req.body;
+
+        if (!startRule || typeof startRule !== 'string') {
+            return res.status(400).json({
+                error: 'Invalid request',
+                message: 'startRule is required and must be a string',
+            });
+        }
+
+        if (!tree || typeof tree !== 'object' || typeof tree.name !== 'string' || !tree.type) {
+            return res.status(400).json({
+                error: 'Invalid request',
+                message: 'tree is required and must be a parse tree node',
+            });
+        }
+
+        const metadata = await fileStorage.getMetadata(id);
+        if (!metadata) {
+            return res.status(404).json({
+                error: 'File not found',
+                message: `No file found with ID: ${id}`,
+            });
+        }
+
+        const snapshot = await snapshotService.saveSnapshot(id, startRule, tree);
+        res.json({ snapshot });
+    } catch (error) {
+        console.error('[Snapshot API] Approve snapshot error:', error);
+        res.status(500).json({
+            error: 'Failed to approve snapshot',
+            message: (error as Error).message,
+        });
+    }
+});
+
+/**
+ * DELETE /api/files/:id/snapshot
+ * Remove the approved snapshot for a file
+ */
+router.delete('/', async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const success = await snapshotService.deleteSnapshot(id);
+        res.json({ success });
+    } catch (error) {
+        console.error('[Snapshot API] Delete snapshot error:', error);
+        res.status(500).json({
+            error: 'Failed to delete snapshot',
+            message: (error as Error).message,
+        });
+    }
+});
+
+export default router;
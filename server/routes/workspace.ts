@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { validateParseLimits } from '../services/parseLimits.js';
+import { validateParseTarget } from '../services/parseTarget.js';
 import type { WorkspaceState, ApiErrorResponse } from '../types.js';
 
 const router = Router();
@@ -10,7 +12,7 @@ const DEFAULT_WORKSPACE: WorkspaceState = {
     openTabs: [],
     activeTabId: null,
     settings: {
-        startRule: 'expr',
+        startRule: '',
     },
 };
 
@@ -65,6 +67,15 @@ router.get('/', async (_req: Request, res: Response<WorkspaceState | ApiErrorRes
  */
 router.put('/', async (req: Request<object, object, Partial<WorkspaceState>>, res: Response<WorkspaceState | ApiErrorResponse>) => {
     try {
+        const settingsError = validateParseLimits(req.body.settings?.parseLimits)
+            ?? validateParseTarget(req.body.settings?.target);
+        if (settingsError) {
+            return res.status(400).json({
+                error: 'Invalid request',
+                message: settingsError,
+            });
+        }
+
         await ensureDataDir();
         const workspacePath = getWorkspacePath();
 
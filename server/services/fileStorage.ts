@@ -1,7 +1,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import type { FileMetadata, FileType, FileWithContent } from '../types.js';
+import type { FileMetadata, FileType, FileWithContent, TestCaseSpec } from '../types.js';
 
 /**
  * Service for managing file storage on the filesystem.
@@ -186,6 +186,49 @@ export class FileStorageService {
         return metadata;
     }
 
+    /**
+     * Declare a text file as a test case, or remove it from the test cases with `null`.
+     */
+    async setTestCase(id: string, testCase: TestCaseSpec | null): Promise<FileMetadata | null> {
+        const metadata = await this.getMetadata(id);
+        if (!metadata) {
+            return null;
+        }
+
+        if (testCase) {
+            metadata.testCase = { startRule: testCase.startRule, expect: testCase.expect };
+        } else {
+            delete metadata.testCase;
+        }
+        metadata.modifiedAt = new Date().toISOString();
+        const metaPath = this.getMetadataPath(id);
+        await fs.writeFile(metaPath, JSON.stringify(metadata, null, 2), 'utf-8');
+
+        return metadata;
+    }
+
+    /**
+     * Save files written by the ANTLR tool as read-only project files.
+     * Generated files that already exist under the same name are overwritten,
+     * so generating again keeps their IDs and open tabs.
+     */
+    async saveGeneratedFiles(files: Array<{ name: string; content: string }>): Promise<FileMetadata[]> {
+        const existing = (await this.listFiles()).filter(f => f.type === 'generated');
+        const saved: FileMetadata[] = [];
+
+        for (const file of files) {
+            const previous = existing.find(f => f.name === file.name);
+            const metadata = previous
+                ? await this.updateFile(previous.id, file.content)
+                : await this.createFile(file.name, 'generated', file.content);
+            if (metadata) {
+                saved.push(metadata);
+            }
+        }
+
+        return saved;
+    }
+
     /**
      * Delete a file and its metadata.
      */
@@ -0,0 +1,36 @@
+import type { GenerateLanguage } from '../../src/utils/antlr/index.js';
+
+/** Languages the bundled ANTLR tool generates recognizers for */
+export const GENERATE_LANGUAGES: readonly GenerateLanguage[] = [
+    'Java', 'TypeScript', 'JavaScript', 'Python3', 'Go', 'CSharp', 'Cpp', 'Dart', 'PHP', 'Swift',
+];
+
+/** Dotted (Java, C#) or `::` separated (C++) package and namespace names */
+const PACKAGE_NAME = /^[A-Za-z_]\w*(?:(?:\.|::)[A-Za-z_]\w*)*$/;
+
+/**
+ * Check the options of a generate request.
+ * Returns an error message, or null if the options are valid.
+ */
+export function validateGenerateOptions(options: {
+    language?: unknown;
+    visitor?: unknown;
+    listener?: unknown;
+    packageName?: unknown;
+}): string | null {
+    if (!GENERATE_LANGUAGES.includes(options.language as GenerateLanguage)) {
+        return `language must be one of ${GENERATE_LANGUAGES.join(', ')}`;
+    }
+    for (const flag of ['visitor', 'listener'] as const) {
+        if (options[flag] !== undefined && typeof options[flag] !== 'boolean') {
+            return `${flag} must be a boolean`;
+        }
+    }
+    if (options.packageName !== undefined && options.packageName !== '') {
+        // The name ends up in a tool argument and in package declarations
+        if (typeof options.packageName !== 'string' || !PACKAGE_NAME.test(options.packageName)) {
+            return 'packageName must be a package or namespace name, e.g. com.example.parser';
+        }
+    }
+    return null;
+}
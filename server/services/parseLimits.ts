@@ -0,0 +1,12 @@
+import { DEFAULT_PARSE_LIMITS } from '../../src/utils/antlr/index.js';
+import type { ParseLimits } from '../../src/utils/antlr/index.js';
+
+// Shared with the editor, which checks the limits of imported projects
+export { validateParseLimits } from '../../src/utils/antlr/index.js';
+
+/**
+ * Limits for a parse: the workspace's own, completed with the defaults
+ */
+export function resolveParseLimits(limits: Partial<ParseLimits> | undefined): ParseLimits {
+    return { ...DEFAULT_PARSE_LIMITS, ...limits };
+}
@@ -0,0 +1,124 @@
+import { getParseConcurrency } from '../../src/utils/antlr/index.js';
+
+/**
+ * Options for a queued task
+ */
+export interface ParseQueueOptions {
+    /** Called with the 1-based queue position while the task waits */
+    onPosition?: (position: number) => void;
+    /** Aborting removes a waiting task from the queue */
+    signal?: AbortSignal;
+}
+
+interface WaitingTask {
+    start: () => void;
+    cancel: () => void;
+    onPosition?: (position: number) => void;
+}
+
+/**
+ * Limits how many parses run at the same time.
+ * Requests beyond the limit wait in FIFO order and are told their
+ * position whenever the queue moves.
+ */
+export class ParseQueue {
+    private maxConcurrency: number;
+    private running = 0;
+    private waiting: WaitingTask[] = [];
+
+    constructor(maxConcurrency?: number) {
+        // By default as many as the parse workers have processes
+        this.maxConcurrency = maxConcurrency || getParseConcurrency();
+    }
+
+    /**
+     * Number of tasks currently running
+     */
+    getRunningCount(): number {
+        return this.running;
+    }
+
+    /**
+     * Number of tasks waiting for a free slot
+     */
+    getWaitingCount(): number {
+        return this.waiting.length;
+    }
+
+    /**
+     * Run a task as soon as a slot is free.
+     * Rejects without running the task if the signal aborts while it waits.
+     */
+    run<T>(task: () => Promise<T>, options: ParseQueueOptions = {}): Promise<T> {
+        const { onPosition, signal } = options;
+
+        return new Promise<T>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new Error('Parse request cancelled'));
+                return;
+            }
+
+            const start = () => {
+                signal?.removeEventListener('abort', cancel);
+                this.running++;
+                Promise.resolve()
+                    .then(task)
+                    .finally(() => {
+                        // Free the slot before the caller sees the result
+                        this.running--;
+                        this.next();
+                    })
+                    .then(resolve, reject);
+            };
+
+            const cancel = () => {
+                const index = this.waiting.indexOf(waitingTask);
+                if (index === -1) return;
+                this.waiting.splice(index, 1);
+                reject(new Error('Parse request cancelled'));
+                this.notifyPositions(index);
+            };
+
+            const waitingTask: WaitingTask = { start, cancel, onPosition };
+
+            if (this.running < this.maxConcurrency) {
+                start();
+                return;
+            }
+
+            this.waiting.push(waitingTask);
+            signal?.addEventListener('abort', cancel);
+            onPosition?.(this.waiting.length);
+        });
+    }
+
+    /**
+     * Start waiting tasks while slots are free
+     */
+    private next(): void {
+        let started = false;
+        while (this.running < this.maxConcurrency && this.waiting.length > 0) {
+            this.waiting.shift()!.start();
+            started = true;
+        }
+        if (started) {
+            this.notifyPositions(0);
+        }
+    }
+
+    /**
+     * Tell tasks from `fromIndex` onwards about their new position
+     */
+    private notifyPositions(fromIndex: number): void {
+        for (let i = fromIndex; i < this.waiting.length; i++) {
+            this.waiting[i].onPosition?.(i + 1);
+        }
+    }
+}
+
+// Default singleton instance
+export const parseQueue = new ParseQueue();
+
+// Compile checks run while the user types, so they get a lane of their own
+// instead of holding up parses. Stale checks are cancelled by their clients.
+export const compileQueue = new ParseQueue(1);
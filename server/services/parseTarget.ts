@@ -0,0 +1,23 @@
+import type { ParseTarget } from '../../src/utils/antlr/index.js';
+
+/** Targets a workspace can generate and run its grammars with */
+export const PARSE_TARGETS: readonly ParseTarget[] = ['java', 'typescript', 'javascript'];
+
+/**
+ * Check the parse target sent for the workspace settings.
+ * Returns an error message, or null if the target is valid or not given.
+ */
+export function validateParseTarget(target: unknown): string | null {
+    if (target === undefined || PARSE_TARGETS.includes(target as ParseTarget)) {
+        return null;
+    }
+    return `target must be one of ${PARSE_TARGETS.join(', ')}`;
+}
+
+/**
+ * Whether the target's runtime supports profiling and tracing, which hook
+ * into the Java runtime
+ */
+export function supportsParseDiagnostics(target: ParseTarget): boolean {
+    return target === 'java';
+}
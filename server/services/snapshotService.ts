@@ -0,0 +1,76 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { SnapshotNode } from '../../src/utils/antlr/index.js';
+import type { TreeSnapshot } from '../types.js';
+
+/**
+ * Service for approved parse tree snapshots.
+ * Each input file has at most one snapshot JSON file next to its history.
+ */
+export class SnapshotService {
+    private dataDir: string;
+
+    constructor(dataDir?: string) {
+        this.dataDir = dataDir || process.env.DATA_DIR || './data/projects';
+    }
+
+    /**
+     * Get the path to a file's snapshot JSON file.
+     */
+    private getSnapshotPath(fileId: string): string {
+        return path.join(this.dataDir, `${fileId}.snapshot.json`);
+    }
+
+    /**
+     * Get the approved snapshot for a file, or null if none was approved.
+     */
+    async getSnapshot(fileId: string): Promise<TreeSnapshot | null> {
+        try {
+            const content = await fs.readFile(this.getSnapshotPath(fileId), 'utf-8');
+            return JSON.parse(content) as TreeSnapshot;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Approve a parse tree as the expected result, replacing any previous snapshot.
+     */
+    async saveSnapshot(fileId: string, startRule: string, tree: SnapshotNode): Promise<TreeSnapshot> {
+        const snapshot: TreeSnapshot = {
+            fileId,
+            startRule,
+            approvedAt: new Date().toISOString(),
+            tree,
+        };
+
+        await fs.writeFile(this.getSnapshotPath(fileId), JSON.stringify(snapshot), 'utf-8');
+
+        console.log(`[SnapshotService] Approved snapshot for file ${fileId} (start rule: ${startRule})`);
+
+        return snapshot;
+    }
+
+    /**
+     * Delete a file's snapshot.
+     */
+    async deleteSnapshot(fileId: string): Promise<boolean> {
+        try {
+            await fs.unlink(this.getSnapshotPath(fileId));
+            console.log(`[SnapshotService] Deleted snapshot for file ${fileId}`);
+            return true;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return true; // File didn't exist, consider it a success
+            }
+            console.error(`[SnapshotService] Failed to delete snapshot for file ${fileId}`, error);
+            return false;
+        }
+    }
+}
+
+// Default singleton instance
+export const snapshotService = new SnapshotService();
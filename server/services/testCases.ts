@@ -0,0 +1,35 @@
+import type { ParseResult } from '../../src/utils/antlr/index.js';
+import type { BatchParseCase, TestCaseResult } from '../types.js';
+
+/**
+ * Decide the outcome of a test case from its parse result.
+ * Lexer and parser errors count against the input; any other error means
+ * the input could not be parsed completely (broken grammar, worker failure,
+ * parse limit hit), which is reported as `error` whatever the expectation.
+ */
+export function evaluateTestCase(testCase: BatchParseCase, result: ParseResult): TestCaseResult {
+    const errors = result.errors.filter(e => e.severity === 'error');
+    const inputErrors = errors.filter(e => e.source === 'lexer' || e.source === 'parser');
+    const otherError = errors.find(e => e.source !== 'lexer' && e.source !== 'parser');
+
+    if (otherError) {
+        return {
+            id: testCase.id,
+            status: 'error',
+            errorCount: inputErrors.length,
+            message: otherError.message,
+            duration: result.duration,
+        };
+    }
+
+    const parsed = inputErrors.length === 0;
+    const passed = testCase.expect === 'pass' ? parsed : !parsed;
+
+    return {
+        id: testCase.id,
+        status: passed ? 'passed' : 'failed',
+        errorCount: inputErrors.length,
+        message: inputErrors[0] ? `${inputErrors[0].line}:${inputErrors[0].column} ${inputErrors[0].message}` : undefined,
+        duration: result.duration,
+    };
+}
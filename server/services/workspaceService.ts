@@ -45,7 +45,7 @@ export class WorkspaceService {
         const current = await this.getWorkspace() || {
             openTabs: [],
             activeTabId: null,
-            settings: { startRule: 'expr' },
+            settings: { startRule: '' },
         };
 
         // Merge updates
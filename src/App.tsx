@@ -1,27 +1,47 @@
 import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import {
   Play, FilePlus, FileText, Settings,
-  ChevronDown, Trash2, Clock, AlertTriangle, List, Edit2, FolderOpen, Info, Layers, Search, Loader2, Download, History, MessageSquare
+  ChevronDown, Trash2, Clock, AlertTriangle, List, Edit2, FolderOpen, Info, Layers, Search, Loader2, Download, History, MessageSquare, FlaskConical, Camera, GitCompare, Gauge, Bug, SlidersHorizontal, Code2, Braces, Network, Route
 } from 'lucide-react';
 import CodeEditor from '@/components/CodeEditor';
 import TreeVisualizer from '@/components/TreeVisualizer';
+import RailroadPanel from '@/components/RailroadPanel';
 import AnalysisPanel from '@/components/AnalysisPanel';
+import ProfilerPanel from '@/components/ProfilerPanel';
+import DebuggerPanel from '@/components/DebuggerPanel';
+import TokensPanel from '@/components/TokensPanel';
+import ParseLimitsDialog from '@/components/ParseLimitsDialog';
+import GenerateDialog from '@/components/GenerateDialog';
+import SkeletonDialog from '@/components/SkeletonDialog';
+import StartRuleSelect from '@/components/StartRuleSelect';
 import HistoryPanel from '@/components/HistoryPanel';
+import TestCasesPanel from '@/components/TestCasesPanel';
 import DiffViewer from '@/components/DiffViewer';
+import TreeChangeList from '@/components/TreeChangeList';
 import SaveStatus from '@/components/SaveStatus';
 import TabBar from '@/components/TabBar';
 import ConfirmDialog from '@/components/ConfirmDialog';
 import ToastContainer from '@/components/ToastContainer';
 import AIChatPanel from '@/components/AIChatPanel';
 import { useGrammarAnalysis } from '@/hooks/useGrammarAnalysis';
+import { grammarAnalyzer } from '@/services/grammarAnalysis';
+import { useGrammarCompile } from '@/hooks/useGrammarCompile';
 import { useAutoSave } from '@/hooks/useAutoSave';
 import { useToast } from '@/hooks/useToast';
 import { useAIChat } from '@/hooks/useAIChat';
 import type { GrammarContext } from '@/services/aiService.types';
-import { ProjectFile, ParseResult, Token, ParseNode, CodeEditorRef, EditorDecoration } from '@/types';
+import { ProjectFile, ParseResult, Token, ParseNode, CodeEditorRef, EditorDecoration, TestCaseSpec, TestCaseResult, TreeChange, ParseLimits, ParseTarget, GenerateLanguage, GenerateOptions, AnalysisFile, StubRuleFix } from '@/types';
 import * as fileService from '@/services/fileService';
 import * as workspaceService from '@/services/workspaceService';
-import type { FileMetadata } from '@/types/api'; 
+import { interpretInput, parseInput, runTestCases } from '@/services/parseService';
+import { generateArchive, generateProjectFiles } from '@/services/generateService';
+import { findParserGrammar, generateVisitorSkeleton, SkeletonKind, SkeletonLanguage } from '@/services/visitorSkeleton';
+import * as snapshotService from '@/services/snapshotService';
+import { toSnapshotTree, formatSnapshotTree, diffTrees } from '@/services/treeDiff';
+import { ruleStackAt } from '@/services/parseTrace';
+import { validateParseLimits } from '@/utils/antlr/limits';
+import { insertStubRule } from '@/services/stubRule';
+import type { FileMetadata, TreeSnapshot } from '@/types/api'; 
 
 // Initial Demo Data
 const INITIAL_GRAMMAR = `grammar Expr;
@@ -55,15 +75,55 @@ const loadState = <T,>(key: string, fallback: T): T => {
   }
 };
 
+// Grammar files of the project, analyzed together
+const toAnalysisFiles = (projectFiles: ProjectFile[]): AnalysisFile[] =>
+  projectFiles.filter(f => f.type === 'grammar').map(f => ({ fileId: f.id, content: f.content }));
+
 // Helper to convert FileMetadata to ProjectFile
 const metadataToProjectFile = (metadata: FileMetadata, content: string): ProjectFile => ({
   id: metadata.id,
   name: metadata.name,
   type: metadata.type,
   content,
-  isMain: false
+  isMain: false,
+  testCase: metadata.testCase
 });
 
+// Tool language matching the runtime the workspace runs grammars with
+const TARGET_LANGUAGES: Record<ParseTarget, GenerateLanguage> = {
+  java: 'Java',
+  typescript: 'TypeScript',
+  javascript: 'JavaScript',
+};
+
+// Editor language for generated sources, by file extension
+const GENERATED_FILE_LANGUAGES: Record<string, string> = {
+  java: 'java',
+  ts: 'typescript',
+  js: 'javascript',
+  py: 'python',
+  go: 'go',
+  cs: 'csharp',
+  cpp: 'cpp',
+  h: 'cpp',
+  dart: 'dart',
+  php: 'php',
+  swift: 'swift',
+};
+
+const editorLanguage = (file: ProjectFile): string => {
+  if (file.type === 'grammar') return 'antlr4';
+  if (file.type === 'text') return 'plaintext';
+  const extension = file.name.slice(file.name.lastIndexOf('.') + 1);
+  return GENERATED_FILE_LANGUAGES[extension] ?? 'plaintext';
+};
+
+const FileIcon: React.FC<{ type: ProjectFile['type'] }> = ({ type }) => {
+  if (type === 'grammar') return <Settings size={14} className="text-purple-400 shrink-0" />;
+  if (type === 'generated') return <Code2 size={14} className="text-green-400 shrink-0" />;
+  return <FileText size={14} className="text-blue-400 shrink-0" />;
+};
+
 // --- Sub-component for File List Items ---
 interface FileListItemProps {
   file: ProjectFile;
@@ -109,7 +169,7 @@ const FileListItem: React.FC<FileListItemProps> = ({
     return (
       <div className="px-2 py-1 bg-ide-activity border-l-2 border-ide-accent">
          <div className="flex items-center gap-2">
-            {file.type === 'grammar' ? <Settings size={14} className="text-purple-400 shrink-0" /> : <FileText size={14} className="text-blue-400 shrink-0" />}
+            <FileIcon type={file.type} />
             <input
                 ref={inputRef}
                 type="text"
@@ -136,7 +196,7 @@ const FileListItem: React.FC<FileListItemProps> = ({
       }`}
     >
       <div className="flex items-center gap-2 overflow-hidden">
-        {file.type === 'grammar' ? <Settings size={14} className="text-purple-400 shrink-0" /> : <FileText size={14} className="text-blue-400 shrink-0" />}
+        <FileIcon type={file.type} />
         <span className="truncate select-none">{file.name}</span>
       </div>
       <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -174,7 +234,15 @@ const App: React.FC = () => {
   const [activeFileId, setActiveFileId] = useState<string | null>(null);
   const [openTabs, setOpenTabs] = useState<string[]>([]); // File IDs in tab order
   const [renamingFileId, setRenamingFileId] = useState<string | null>(null);
-  const [startRule, setStartRule] = useState<string>('expr');
+  // Empty means the first entry rule of the grammar
+  const [startRule, setStartRule] = useState<string>('');
+  // Workspace parse limits (missing ones use the server defaults)
+  const [parseLimits, setParseLimits] = useState<Partial<ParseLimits>>({});
+  const [isLimitsDialogOpen, setIsLimitsDialogOpen] = useState(false);
+  const [isGenerateDialogOpen, setIsGenerateDialogOpen] = useState(false);
+  const [isSkeletonDialogOpen, setIsSkeletonDialogOpen] = useState(false);
+  // Runtime the grammar is generated for and run with
+  const [parseTarget, setParseTarget] = useState<ParseTarget>('java');
   const [consoleHeight, setConsoleHeight] = useState<number>(() => loadState(STORAGE_KEYS.LAYOUT, { consoleHeight: 250 }).consoleHeight);
 
   // Track dirty files for unsaved changes indicator
@@ -188,12 +256,29 @@ const App: React.FC = () => {
   }>({ isOpen: false, fileId: null, action: null });
 
   const [parseResult, setParseResult] = useState<ParseResult | null>(null);
+  // Input file the current parse result belongs to, so errors are only shown on that file
+  const [parsedInputFileId, setParsedInputFileId] = useState<string | null>(null);
+  const [parsedStartRule, setParsedStartRule] = useState<string>('');
+  // Approved parse tree for the parsed input file
+  const [snapshot, setSnapshot] = useState<TreeSnapshot | null>(null);
   const [selectedToken, setSelectedToken] = useState<Token | null>(null);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'console' | 'tokens' | 'analysis' | 'history'>('console');
+  // Right panel: the parse tree, or railroad diagrams of the grammar being edited
+  const [visualization, setVisualization] = useState<'tree' | 'railroad'>('tree');
+  // Cursor line in the last grammar edited, which picks the rule the railroad diagram shows
+  const [grammarCursor, setGrammarCursor] = useState<{ fileId: string; line: number } | null>(null);
+  const [activeTab, setActiveTab] = useState<'console' | 'tokens' | 'analysis' | 'profile' | 'debug' | 'history' | 'tests'>('console');
+  // Debugger step within parseResult.trace
+  const [traceStep, setTraceStep] = useState(0);
   const [isCompiling, setIsCompiling] = useState(false);
+  // Position in the server's parse queue while the request waits
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
   const [isResizing, setIsResizing] = useState(false);
 
+  // Results of the last test case run, by file ID
+  const [testResults, setTestResults] = useState<Record<string, TestCaseResult>>({});
+  const [isRunningTests, setIsRunningTests] = useState(false);
+
   // Diff viewer state
   const [diffState, setDiffState] = useState<{
     isOpen: boolean;
@@ -201,6 +286,8 @@ const App: React.FC = () => {
     newContent: string;
     oldLabel: string;
     newLabel: string;
+    title?: string;
+    treeChanges?: TreeChange[];
   } | null>(null);
 
   // Hidden input for file upload
@@ -230,27 +317,105 @@ const App: React.FC = () => {
     stopGeneration: stopAIGeneration,
   } = useAIChat();
 
+  // Contents of the grammar files, which stay the same while input files are edited
+  const grammarContentsKey = JSON.stringify(files.filter(f => f.type === 'grammar').map(f => f.content));
+  const grammarContents = useMemo(() => JSON.parse(grammarContentsKey) as string[], [grammarContentsKey]);
+
+  // Parser rules of all grammar files, entry rules first
+  const startRuleCandidates = useMemo(
+    () => grammarAnalyzer.findStartRules(grammarContents),
+    [grammarContents]
+  );
+  // Without any parser rules the input is only tokenized
+  const effectiveStartRule = startRule || startRuleCandidates[0]?.name || '';
+
   // Grammar analysis hook
   const mainGrammarFile = useMemo(() => files.find(f => f.type === 'grammar'), [files]);
+  const parserGrammar = useMemo(
+    () => findParserGrammar(grammarContents),
+    [grammarContents]
+  );
   const {
-    result: analysisResult,
+    result: grammarAnalysisResult,
     isAnalyzing,
     analyze: runAnalysis,
     getDecorations
-  } = useGrammarAnalysis({ analysisOptions: { startRule } });
+  } = useGrammarAnalysis({ analysisOptions: { startRule: effectiveStartRule } });
+
+  // Ambiguities the runtime reported during the last parse take precedence over guessed ones
+  const analysisResult = useMemo(() => {
+    if (!grammarAnalysisResult || !parseResult?.ambiguities) return grammarAnalysisResult;
+    return grammarAnalyzer.withParseAmbiguities(grammarAnalysisResult, parseResult.ambiguities);
+  }, [grammarAnalysisResult, parseResult?.ambiguities]);
 
   // Total issue count for badge display
   const totalAnalysisIssues = useMemo(() => {
     if (!analysisResult) return 0;
     const { summary } = analysisResult;
-    return summary.unusedRules + summary.performanceIssues + summary.highComplexityRules + summary.ambiguityHints;
+    return summary.definitionIssues + summary.unusedRules + summary.performanceIssues + summary.highComplexityRules + summary.ambiguityHints;
   }, [analysisResult]);
 
-  // Get decorations for the current grammar
-  const grammarDecorations = useMemo<EditorDecoration[]>(() => {
-    if (!analysisResult) return [];
-    return getDecorations();
-  }, [analysisResult, getDecorations]);
+  // Validate grammars with the ANTLR tool as they are edited
+  const grammarFilesForCompile = useMemo(
+    () => files.filter(f => f.type === 'grammar').map(f => ({ name: f.name, content: f.content })),
+    [files]
+  );
+  const { getDecorations: getCompileDecorations } = useGrammarCompile(grammarFilesForCompile);
+
+  // Syntax error and ambiguity markers for the input file that was parsed
+  const inputDecorations = useMemo<EditorDecoration[]>(() => {
+    if (!parseResult) return [];
+    const ambiguityMarkers = (parseResult.ambiguities ?? []).map(a => ({
+      startLine: a.startLine,
+      startColumn: a.startColumn + 1,
+      endLine: a.endLine,
+      endColumn: a.endColumn + 1,
+      severity: 'info' as const,
+      message: a.kind === 'ambiguity'
+        ? `Ambiguous input for rule ${a.ruleName}: alternatives ${a.alternatives.join(', ')} match, chose ${a.prediction}`
+        : `Context-sensitive decision in rule ${a.ruleName}: alternatives ${a.alternatives.join(', ')}, chose ${a.prediction}`,
+      source: 'Ambiguity',
+    }));
+    return parseResult.errors.filter(err => err.source !== 'grammar').map<EditorDecoration>(err => {
+      // ANTLR columns are 0-based, Monaco columns are 1-based
+      const startColumn = err.column + 1;
+      const length = Math.max(err.offendingToken?.length ?? 1, 1);
+      return {
+        startLine: err.line,
+        startColumn,
+        endLine: err.line,
+        endColumn: startColumn + length,
+        severity: err.severity,
+        message: err.message,
+        source: err.source === 'lexer' ? 'Lexer' : err.source === 'limit' ? 'Limit' : 'Parser',
+      };
+    }).concat(ambiguityMarkers);
+  }, [parseResult]);
+
+  // Set when a parse limit stopped the last parse, so the tree is partial
+  const parseLimitError = parseResult?.errors.find(err => err.source === 'limit');
+
+  // Load the approved snapshot whenever a different input file is parsed
+  useEffect(() => {
+    setSnapshot(null);
+    if (!parsedInputFileId) return;
+
+    let cancelled = false;
+    snapshotService.fetchSnapshot(parsedInputFileId)
+      .then(loaded => {
+        if (!cancelled) setSnapshot(loaded);
+      })
+      .catch(error => console.error('Failed to load snapshot:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [parsedInputFileId]);
+
+  // Structural changes of the current tree against the approved snapshot
+  const snapshotChanges = useMemo<TreeChange[] | null>(() => {
+    if (!snapshot || !parseResult) return null;
+    return diffTrees(snapshot.tree, toSnapshotTree(parseResult.tree));
+  }, [snapshot, parseResult]);
 
   // Build grammar context for AI chat
   const grammarContext = useMemo<GrammarContext>(() => {
@@ -258,17 +423,32 @@ const App: React.FC = () => {
     return {
       grammarContent: mainGrammarFile?.content || '',
       inputText: inputFile?.content || '',
-      startRule,
+      startRule: effectiveStartRule,
       parseErrors: parseResult?.errors?.map(e => `Line ${e.line}:${e.column} - ${e.message}`) || [],
       analysisIssues: analysisResult ? [
+        ...analysisResult.definitionIssues.map(i => i.message),
         ...analysisResult.unusedRules.map(r => `Unused rule: ${r.name}`),
         ...analysisResult.performanceIssues.map(i => `${i.issue}: ${i.rule}`),
       ] : [],
     };
-  }, [mainGrammarFile?.content, files, startRule, parseResult?.errors, analysisResult]);
+  }, [mainGrammarFile?.content, files, effectiveStartRule, parseResult?.errors, analysisResult]);
 
   // --- Derived State ---
   const activeFile = useMemo(() => files.find(f => f.id === activeFileId), [files, activeFileId]);
+  const projectGrammarFiles = useMemo(() => files.filter(f => f.type === 'grammar'), [files]);
+  // Railroad diagrams follow the grammar being edited, or the last one edited
+  const railroadFileId = activeFile?.type === 'grammar' ? activeFile.id : grammarCursor?.fileId ?? null;
+
+  const handleGrammarCursorLine = useCallback((line: number) => {
+    if (!activeFileId) return;
+    setGrammarCursor(prev => prev?.fileId === activeFileId && prev.line === line ? prev : { fileId: activeFileId, line });
+  }, [activeFileId]);
+
+  // Analysis markers plus ANTLR tool diagnostics for the grammar being edited
+  const activeGrammarDecorations = useMemo<EditorDecoration[]>(() => {
+    if (activeFile?.type !== 'grammar') return [];
+    return [...getDecorations(activeFile.id), ...getCompileDecorations(activeFile.name)];
+  }, [activeFile?.type, activeFile?.id, activeFile?.name, getDecorations, getCompileDecorations]);
 
   // --- Auto-save Hook ---
   const {
@@ -316,7 +496,7 @@ const App: React.FC = () => {
           await workspaceService.updateWorkspace({
             openTabs: [grammarMeta.id, inputMeta.id],
             activeTabId: grammarMeta.id,
-            settings: { startRule: 'expr' }
+            settings: { startRule: '' }
           });
         } else {
           // Load existing files
@@ -331,6 +511,8 @@ const App: React.FC = () => {
           // Load workspace state
           const workspace = await workspaceService.fetchWorkspace();
           setStartRule(workspace.settings.startRule);
+          setParseLimits(workspace.settings.parseLimits ?? {});
+          setParseTarget(workspace.settings.target ?? 'java');
 
           // Initialize open tabs from workspace or default to all files
           const tabs = workspace.openTabs && workspace.openTabs.length > 0
@@ -365,7 +547,7 @@ const App: React.FC = () => {
         await workspaceService.updateWorkspace({
           openTabs,
           activeTabId: activeFileId,
-          settings: { startRule }
+          settings: { startRule, parseLimits, target: parseTarget }
         });
       } catch (error) {
         console.error('Failed to save workspace:', error);
@@ -375,7 +557,7 @@ const App: React.FC = () => {
     // Debounce workspace updates
     const timeout = setTimeout(updateWorkspace, 500);
     return () => clearTimeout(timeout);
-  }, [activeFileId, openTabs, startRule, isLoading]);
+  }, [activeFileId, openTabs, startRule, parseLimits, parseTarget, isLoading]);
 
   // --- Handlers ---
   const handleFileContentChange = (val: string | undefined) => {
@@ -639,13 +821,27 @@ const App: React.FC = () => {
       }));
   }, [openTabs, files]);
 
-  const runParser = () => {
+  /**
+   * Name of a start rule that isn't a parser rule of the grammar, if any. Checked
+   * before sending a parse so a typo doesn't come back as a Java error.
+   */
+  const findUnknownStartRule = (rules: string[]): string | undefined => {
+    if (startRuleCandidates.length === 0) return undefined;
+    return rules.find(rule => rule && !startRuleCandidates.some(c => c.name === rule));
+  };
+
+  const runParser = (options: { profile?: boolean; trace?: boolean; ambiguities?: boolean } = {}) => {
+    if ((options.profile || options.trace) && parseTarget !== 'java') {
+      showToast('Profiling and tracing need the Java target', 'error');
+      return;
+    }
     setIsCompiling(true);
     // Clear previous selections when starting a new parse
     clearTreeSelection();
     // Slight delay to allow UI to show loading state
     setTimeout(async () => {
-        const inputFile = files.find(f => f.type === 'text');
+        // Parse the input being edited, falling back to the first input file
+        const inputFile = activeFile?.type === 'text' ? activeFile : files.find(f => f.type === 'text');
         // Collect all grammar files
         const grammarFiles = files
             .filter(f => f.type === 'grammar')
@@ -657,42 +853,189 @@ const App: React.FC = () => {
             return;
         }
 
-        try {
-            // Call the backend API
-            const response = await fetch('/api/parse', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    grammarFiles,
-                    inputText: inputFile.content,
-                    startRule
-                })
-            });
-
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(error.message || 'API request failed');
-            }
+        const inputStartRule = inputFile.testCase?.startRule || effectiveStartRule;
+        if (findUnknownStartRule([inputStartRule])) {
+            showToast(`Start rule '${inputStartRule}' is not a parser rule of the grammar`, 'error');
+            setIsCompiling(false);
+            return;
+        }
 
-            const result = await response.json();
+        try {
+            const request = {
+                grammarFiles,
+                inputText: inputFile.content,
+                // Without a start rule only the input is tokenized
+                startRule: inputStartRule || undefined,
+                ambiguities: options.ambiguities
+            };
+            // Small grammars without actions or predicates are interpreted in the browser;
+            // profiling, tracing and the other targets need the server
+            const interpreted = !options.profile && !options.trace && parseTarget === 'java'
+                ? await interpretInput(request, parseLimits)
+                : null;
+            // Call the backend API (reports queue position while the server is busy)
+            const result = interpreted ?? await parseInput(
+                { ...request, profile: options.profile, trace: options.trace },
+                setQueuePosition
+            );
             setParseResult(result);
-            // Switch to console to show loading status/errors
-            setActiveTab('console');
+            setParsedInputFileId(inputFile.id);
+            setParsedStartRule(inputStartRule);
+            setTraceStep(0);
+            // Switch to console to show loading status/errors, to the statistics, trace or
+            // ambiguities when requested, or to the tokens when only the lexer ran
+            setActiveTab(
+              options.profile ? 'profile'
+                : options.trace ? 'debug'
+                : options.ambiguities ? 'analysis'
+                : result.tokenizeOnly ? 'tokens' : 'console'
+            );
         } catch (error) {
             const e = error as Error;
             console.error(e);
             alert(`Error executing parser: ${e.message}`);
         }
+        setQueuePosition(null);
         setIsCompiling(false);
     }, 100);
   };
 
+  const approveSnapshot = async () => {
+    if (!parseResult || !parsedInputFileId) return;
+    try {
+      const approved = await snapshotService.approveSnapshot(
+        parsedInputFileId,
+        parsedStartRule,
+        toSnapshotTree(parseResult.tree)
+      );
+      setSnapshot(approved);
+      showToast('Parse tree approved as snapshot', 'success');
+    } catch (error) {
+      console.error('Failed to approve snapshot:', error);
+      showToast(`Failed to approve snapshot: ${(error as Error).message}`, 'error');
+    }
+  };
+
+  const showSnapshotDiff = () => {
+    if (!snapshot || !parseResult || !snapshotChanges) return;
+    setDiffState({
+      isOpen: true,
+      oldContent: formatSnapshotTree(snapshot.tree),
+      newContent: formatSnapshotTree(toSnapshotTree(parseResult.tree)),
+      oldLabel: `Snapshot (${snapshot.startRule}, approved ${new Date(snapshot.approvedAt).toLocaleString()})`,
+      newLabel: `Current parse (${parsedStartRule})`,
+      title: 'Parse Tree Snapshot',
+      treeChanges: snapshotChanges,
+    });
+  };
+
+  const runAllTestCases = async () => {
+    const grammarFiles = files
+        .filter(f => f.type === 'grammar')
+        .map(f => ({ name: f.name, content: f.content }));
+    const cases = files
+        .filter(f => f.type === 'text' && f.testCase)
+        .map(f => ({
+            id: f.id,
+            inputText: f.content,
+            startRule: f.testCase!.startRule,
+            expect: f.testCase!.expect,
+        }));
+
+    if (grammarFiles.length === 0 || cases.length === 0) return;
+
+    const unknownRule = findUnknownStartRule(cases.map(c => c.startRule));
+    if (unknownRule) {
+        showToast(`Start rule '${unknownRule}' is not a parser rule of the grammar`, 'error');
+        return;
+    }
+
+    setIsRunningTests(true);
+    try {
+        const { results } = await runTestCases({ grammarFiles, cases });
+        setTestResults(Object.fromEntries(results.map(r => [r.id, r])));
+        const passed = results.filter(r => r.status === 'passed').length;
+        showToast(`${passed}/${results.length} test cases passed`, passed === results.length ? 'success' : 'error');
+    } catch (error) {
+        console.error('Failed to run test cases:', error);
+        showToast(`Failed to run test cases: ${(error as Error).message}`, 'error');
+    }
+    setIsRunningTests(false);
+  };
+
+  const handleUpdateTestCase = async (id: string, testCase: TestCaseSpec | null) => {
+    try {
+      await fileService.updateTestCase(id, testCase);
+      setFiles(prev => prev.map(f => f.id === id ? { ...f, testCase: testCase ?? undefined } : f));
+      // The previous result no longer matches the case
+      setTestResults(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    } catch (error) {
+      console.error('Failed to update test case:', error);
+      showToast('Failed to update test case', 'error');
+    }
+  };
+
+  // Generate recognizers with the ANTLR tool, as a download or as read-only project files
+  const handleGenerate = async (options: GenerateOptions, output: 'zip' | 'files') => {
+    const grammarFiles = files
+      .filter(f => f.type === 'grammar')
+      .map(f => ({ name: f.name, content: f.content }));
+
+    if (output === 'zip') {
+      const { blob, fileName } = await generateArchive({ grammarFiles, ...options });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+      return;
+    }
+
+    const { files: generated } = await generateProjectFiles({ grammarFiles, ...options });
+    await addGeneratedFiles(generated);
+    showToast(`Generated ${generated.length} ${options.language} file(s)`, 'success');
+  };
+
+  // Add saved generated files to the project, replacing the ones regenerated under the same ID
+  const addGeneratedFiles = async (generated: FileMetadata[]) => {
+    const generatedFiles = await Promise.all(generated.map(async (meta) => {
+      const { content } = await fileService.fetchFile(meta.id);
+      return metadataToProjectFile(meta, content);
+    }));
+    setFiles(prev => [
+      ...prev.map(f => generatedFiles.find(g => g.id === f.id) ?? f),
+      ...generatedFiles.filter(g => !prev.some(f => f.id === g.id)),
+    ]);
+  };
+
+  // Write a visitor or listener skeleton for the parser grammar and open it in a tab
+  const handleCreateSkeleton = async (language: SkeletonLanguage, kind: SkeletonKind) => {
+    if (!parserGrammar) return;
+
+    try {
+      const rules = grammarAnalyzer.findParserRules(files.filter(f => f.type === 'grammar').map(f => f.content));
+      const skeleton = generateVisitorSkeleton(parserGrammar, rules, language, kind);
+      const [metadata] = await fileService.saveGeneratedFiles([{ name: skeleton.fileName, content: skeleton.content }]);
+      await addGeneratedFiles([metadata]);
+      setOpenTabs(prev => prev.includes(metadata.id) ? prev : [...prev, metadata.id]);
+      setActiveFileId(metadata.id);
+    } catch (error) {
+      console.error('Failed to create skeleton:', error);
+      showToast('Failed to create skeleton', 'error');
+    }
+  };
+
   const exportProject = () => {
     const projectData = {
         files,
-        startRule
+        startRule,
+        parseLimits,
+        target: parseTarget
     };
     const blob = new Blob([JSON.stringify(projectData, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -711,11 +1054,24 @@ const App: React.FC = () => {
     reader.onload = (event) => {
         try {
             const data = JSON.parse(event.target?.result as string);
+            // Workspace settings are missing from projects exported before they
+            // existed, but a project that has them must not get invalid ones saved
+            const limitsError = validateParseLimits(data.parseLimits);
+            if (limitsError) {
+                alert(`Failed to load project file. ${limitsError}.`);
+                return;
+            }
+            if (data.target !== undefined && !Object.keys(TARGET_LANGUAGES).includes(data.target)) {
+                alert(`Failed to load project file. Unknown target: ${data.target}.`);
+                return;
+            }
             if (data.files && Array.isArray(data.files)) {
                 setFiles(data.files);
                 if (data.files.length > 0) setActiveFileId(data.files[0].id);
             }
             if (data.startRule) setStartRule(data.startRule);
+            if (data.parseLimits) setParseLimits(data.parseLimits);
+            if (data.target) setParseTarget(data.target);
             // Reset state
             setParseResult(null);
             setSelectedToken(null);
@@ -782,13 +1138,12 @@ const App: React.FC = () => {
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, []);
 
-  // Handler for navigating to rules from AnalysisPanel
-  const handleNavigateToRule = useCallback((ruleName: string, line: number) => {
-    // Find the main grammar file
-    const grammarFile = files.find(f => f.type === 'grammar');
+  // Open the grammar file defining a rule, defaulting to the main grammar file, and select the rule
+  const revealRule = useCallback((definingFile: ProjectFile | undefined, ruleName: string, line: number) => {
+    const grammarFile = definingFile || files.find(f => f.type === 'grammar');
     if (grammarFile) {
       // Switch to the grammar file
-      setActiveFileId(grammarFile.id);
+      handleTabActivate(grammarFile.id);
       // Use setTimeout to ensure editor is ready
       setTimeout(() => {
         if (grammarEditorRef.current) {
@@ -802,7 +1157,45 @@ const App: React.FC = () => {
         }
       }, 50);
     }
-  }, [files]);
+  }, [files, handleTabActivate]);
+
+  // Profiler and debugger name the grammar file the rule is defined in
+  const handleNavigateToRule = useCallback((ruleName: string, line: number, fileName?: string) => {
+    revealRule(fileName ? files.find(f => f.type === 'grammar' && f.name === fileName) : undefined, ruleName, line);
+  }, [files, revealRule]);
+
+  // Analysis results carry the id of the grammar file they were found in
+  const handleNavigateToAnalysisRule = useCallback((ruleName: string, line: number, fileId?: string) => {
+    revealRule(fileId ? files.find(f => f.id === fileId) : undefined, ruleName, line);
+  }, [files, revealRule]);
+
+  // Quick fix for an undefined reference: add a stub rule to the grammar that should define it and show it
+  const handleCreateStubRule = useCallback((fix: StubRuleFix) => {
+    const grammarFile = files.find(f => f.type === 'grammar' && f.id === fix.fileId);
+    if (!grammarFile) return;
+
+    const { content, line } = insertStubRule(grammarFile.content, fix.name);
+    const updatedFiles = files.map(f => f.id === grammarFile.id ? { ...f, content } : f);
+    setFiles(updatedFiles);
+    setDirtyFileIds(prev => new Set(prev).add(grammarFile.id));
+    markDirty();
+    // Analyze again so the reference is no longer reported
+    runAnalysis(toAnalysisFiles(updatedFiles));
+    revealRule({ ...grammarFile, content }, fix.name, line);
+  }, [files, markDirty, runAnalysis, revealRule]);
+
+  // Select a span of the parsed input file, e.g. the input behind an ambiguity
+  const handleNavigateToInput = useCallback((startLine: number, startColumn: number, endLine: number, endColumn: number) => {
+    if (!parsedInputFileId) return;
+    handleTabActivate(parsedInputFileId);
+    setTimeout(() => {
+      if (inputEditorRef.current) {
+        // Columns are 0-based, Monaco columns are 1-based
+        inputEditorRef.current.revealLine(startLine);
+        inputEditorRef.current.selectRange(startLine, startColumn + 1, endLine, endColumn + 1);
+      }
+    }, 100);
+  }, [parsedInputFileId, handleTabActivate]);
 
   // Helper function to find rule definition line in grammar content
   const findRuleDefinitionLine = useCallback((grammarContent: string, ruleName: string): { line: number; column: number } | null => {
@@ -905,6 +1298,67 @@ const App: React.FC = () => {
     }
   }, [files, activeFileId, openTabs, handleTabActivate, findRuleDefinitionLine, showToast]);
 
+  // Highlight the debugger's current step in the editor showing `fileId`:
+  // the current token in the parsed input, or the current rule in a grammar
+  const highlightTraceStep = useCallback((fileId: string | null) => {
+    const event = parseResult?.trace?.[traceStep];
+    const file = files.find(f => f.id === fileId);
+    if (!event || !file) return;
+
+    if (file.id === parsedInputFileId) {
+      const token = parseResult.tokens[event.tokenIndex];
+      if (!token) return;
+      // Columns are 0-based, Monaco columns are 1-based
+      const lines = (token.type === 'EOF' ? '' : token.text).split('\n');
+      const endLine = token.line + lines.length - 1;
+      const endColumn = lines.length > 1 ? lines[lines.length - 1].length : token.column + lines[0].length;
+      setTimeout(() => {
+        inputEditorRef.current?.highlightRange(token.line, token.column + 1, endLine, endColumn + 1);
+        inputEditorRef.current?.revealLine(token.line);
+      }, 100);
+    } else if (file.type === 'grammar') {
+      const stack = ruleStackAt(parseResult.trace!, traceStep);
+      const ruleName = stack[stack.length - 1];
+      const ruleDef = ruleName ? findRuleDefinitionLine(file.content, ruleName) : null;
+      setTimeout(() => {
+        if (!grammarEditorRef.current) return;
+        if (!ruleDef) {
+          grammarEditorRef.current.clearHighlights();
+          return;
+        }
+        grammarEditorRef.current.highlightRange(ruleDef.line, ruleDef.column, ruleDef.line, ruleDef.column + ruleName.length);
+        grammarEditorRef.current.revealLine(ruleDef.line);
+      }, 100);
+    }
+  }, [parseResult, traceStep, files, parsedInputFileId, findRuleDefinitionLine]);
+
+  // Follow the debugger in whichever editor is open
+  useEffect(() => {
+    if (activeTab === 'debug') {
+      highlightTraceStep(activeFileId);
+    }
+  }, [activeTab, activeFileId, highlightTraceStep]);
+
+  const showTraceInput = () => {
+    if (!parsedInputFileId) return;
+    handleTabActivate(parsedInputFileId);
+    highlightTraceStep(parsedInputFileId);
+  };
+
+  const showTraceRule = () => {
+    if (!parseResult?.trace) return;
+    const stack = ruleStackAt(parseResult.trace, traceStep);
+    const ruleName = stack[stack.length - 1];
+    if (!ruleName) return;
+    const grammarFile = files.find(f => f.type === 'grammar' && findRuleDefinitionLine(f.content, ruleName));
+    if (!grammarFile) {
+      showToast(`Rule "${ruleName}" definition not found in grammar`, 'warning');
+      return;
+    }
+    handleTabActivate(grammarFile.id);
+    highlightTraceStep(grammarFile.id);
+  };
+
   // Clear selections when a new parse is run
   const clearTreeSelection = useCallback(() => {
     setSelectedNodeId(null);
@@ -974,6 +1428,21 @@ const App: React.FC = () => {
             >
                 <FolderOpen size={14} /> Import
             </button>
+            <button
+                onClick={() => setIsGenerateDialogOpen(true)}
+                disabled={!mainGrammarFile}
+                className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-gray-300 hover:text-white hover:bg-white/10 rounded transition disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Generate parser code for an ANTLR target"
+            >
+                <Code2 size={14} /> Generate
+            </button>
+            <button
+                onClick={() => setIsSkeletonDialogOpen(true)}
+                className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium text-gray-300 hover:text-white hover:bg-white/10 rounded transition"
+                title="Write a visitor or listener skeleton for the grammar"
+            >
+                <Braces size={14} /> Skeleton
+            </button>
             <input
                 type="file"
                 ref={fileInputRef}
@@ -987,16 +1456,34 @@ const App: React.FC = () => {
         <div className="flex items-center gap-4">
            <div className="flex items-center gap-2">
               <span className="text-xs text-gray-400">Start Rule:</span>
-              <input 
-                 type="text" 
+              <StartRuleSelect
                  value={startRule}
-                 onChange={(e) => setStartRule(e.target.value)}
-                 className="bg-[#1e1e1e] border border-ide-border text-xs px-2 py-1 rounded w-24 text-white focus:border-ide-accent outline-none font-mono"
+                 candidates={startRuleCandidates}
+                 onChange={setStartRule}
+                 allowAuto
+                 className="text-xs px-1 py-1 max-w-[10rem]"
               />
+              <select
+                 value={parseTarget}
+                 onChange={(e) => setParseTarget(e.target.value as ParseTarget)}
+                 className="bg-[#1e1e1e] border border-ide-border rounded text-white outline-none text-xs px-1 py-1 focus:border-ide-accent"
+                 title="Runtime the grammar is generated for and run with. Actions and predicates only run as written on the TypeScript and JavaScript targets."
+              >
+                 <option value="java">Java</option>
+                 <option value="typescript">TypeScript</option>
+                 <option value="javascript">JavaScript</option>
+              </select>
+              <button
+                 onClick={() => setIsLimitsDialogOpen(true)}
+                 className="p-1 text-gray-400 hover:text-white hover:bg-white/10 rounded transition"
+                 title="Parse limits"
+              >
+                 <SlidersHorizontal size={14} />
+              </button>
            </div>
 
            <button
-             onClick={runParser}
+             onClick={() => runParser()}
              disabled={isCompiling}
              className={`flex items-center gap-2 px-4 py-1.5 rounded transition ${
                  isCompiling ? 'bg-gray-600 cursor-not-allowed' : 'bg-green-700 hover:bg-green-600 text-white'
@@ -1007,13 +1494,13 @@ const App: React.FC = () => {
              ) : (
                 <Play size={16} fill="currentColor" />
              )}
-             <span className="text-sm font-medium">{isCompiling ? 'Running...' : 'Run'}</span>
+             <span className="text-sm font-medium">{isCompiling ? (queuePosition ? `Queued (#${queuePosition})...` : 'Running...') : 'Run'}</span>
            </button>
 
            <button
              onClick={() => {
                if (mainGrammarFile) {
-                 runAnalysis(mainGrammarFile.content);
+                 runAnalysis(toAnalysisFiles(files));
                  setActiveTab('analysis');
                }
              }}
@@ -1099,6 +1586,27 @@ const App: React.FC = () => {
                     />
                 ))}
              </div>
+             {files.some(f => f.type === 'generated') && (
+                <div className="mt-2">
+                    <div className="px-3 py-1 text-xs font-semibold text-gray-400 flex items-center gap-1">
+                        <ChevronDown size={12} /> Generated
+                    </div>
+                    {files.filter(f => f.type === 'generated').map(f => (
+                        <FileListItem
+                            key={f.id}
+                            file={f}
+                            isActive={activeFileId === f.id}
+                            isRenaming={renamingFileId === f.id}
+                            onActivate={() => handleTabActivate(f.id)}
+                            onRenameStart={() => setRenamingFileId(f.id)}
+                            onRenameComplete={handleRenameComplete}
+                            onRenameCancel={() => setRenamingFileId(null)}
+                            onDelete={(e) => deleteFile(e, f.id)}
+                            canDelete={files.length > 1}
+                        />
+                    ))}
+                </div>
+             )}
           </div>
         </aside>
 
@@ -1124,8 +1632,15 @@ const App: React.FC = () => {
                     ref={activeFile.type === 'grammar' ? grammarEditorRef : inputEditorRef}
                     value={activeFile.content}
                     onChange={handleFileContentChange}
-                    language={activeFile.type === 'grammar' ? 'antlr4' : 'plaintext'}
-                    decorations={activeFile.type === 'grammar' ? grammarDecorations : []}
+                    language={editorLanguage(activeFile)}
+                    readOnly={activeFile.type === 'generated'}
+                    decorations={
+                      activeFile.type === 'grammar'
+                        ? activeGrammarDecorations
+                        : activeFile.id === parsedInputFileId ? inputDecorations : []
+                    }
+                    onQuickFix={handleCreateStubRule}
+                    onCursorLineChange={activeFile.type === 'grammar' ? handleGrammarCursorLine : undefined}
                 />
             </div>
           ) : (
@@ -1173,14 +1688,42 @@ const App: React.FC = () => {
                         <span className="bg-purple-600 text-white rounded-full px-1.5 py-0.5 text-[10px]">{totalAnalysisIssues}</span>
                     )}
                 </button>
+                <button
+                  onClick={() => setActiveTab('profile')}
+                  className={`px-3 h-full text-xs font-medium flex items-center gap-2 border-r border-ide-border transition ${activeTab === 'profile' ? 'text-white bg-ide-bg' : 'text-gray-400 hover:text-gray-200'}`}
+                >
+                    <Gauge size={12} /> Profiler
+                </button>
+                <button
+                  onClick={() => setActiveTab('debug')}
+                  className={`px-3 h-full text-xs font-medium flex items-center gap-2 border-r border-ide-border transition ${activeTab === 'debug' ? 'text-white bg-ide-bg' : 'text-gray-400 hover:text-gray-200'}`}
+                >
+                    <Bug size={12} /> Debugger
+                </button>
                 <button
                   onClick={() => setActiveTab('history')}
                   className={`px-3 h-full text-xs font-medium flex items-center gap-2 border-r border-ide-border transition ${activeTab === 'history' ? 'text-white bg-ide-bg' : 'text-gray-400 hover:text-gray-200'}`}
                 >
                     <History size={12} /> History
                 </button>
+                <button
+                  onClick={() => setActiveTab('tests')}
+                  className={`px-3 h-full text-xs font-medium flex items-center gap-2 border-r border-ide-border transition ${activeTab === 'tests' ? 'text-white bg-ide-bg' : 'text-gray-400 hover:text-gray-200'}`}
+                >
+                    <FlaskConical size={12} /> Tests
+                    {Object.values(testResults).some(r => r.status !== 'passed') && (
+                        <span className="bg-red-500 text-white rounded-full px-1.5 py-0.5 text-[10px]">
+                            {Object.values(testResults).filter(r => r.status !== 'passed').length}
+                        </span>
+                    )}
+                </button>
                 {parseResult && (
-                    <div className="ml-auto flex items-center gap-2 text-xs text-gray-400 px-2">
+                    <div
+                        className="ml-auto flex items-center gap-2 text-xs text-gray-400 px-2"
+                        title={parseResult.timing
+                            ? `Lexing ${parseResult.timing.lexMs.toFixed(2)}ms, parsing ${parseResult.timing.parseMs.toFixed(2)}ms`
+                            : undefined}
+                    >
                         <Clock size={12} /> {parseResult.duration.toFixed(2)}ms
                     </div>
                 )}
@@ -1207,40 +1750,49 @@ const App: React.FC = () => {
                 )}
                 
                 {activeTab === 'tokens' && parseResult && (
-                    <table className="w-full text-left border-collapse select-text">
-                        <thead>
-                            <tr className="text-gray-500 border-b border-gray-700 select-text">
-                                <th className="py-1">Index</th>
-                                <th className="py-1">Type</th>
-                                <th className="py-1">Text</th>
-                                <th className="py-1">Line:Col</th>
-                            </tr>
-                        </thead>
-                        <tbody>
-                            {parseResult.tokens.map((t) => (
-                                <tr
-                                    key={t.tokenIndex}
-                                    className={`hover:bg-white/5 cursor-pointer ${selectedToken?.tokenIndex === t.tokenIndex ? 'bg-blue-900/30 text-blue-200' : ''}`}
-                                    onClick={() => setSelectedToken(t)}
-                                >
-                                    <td className="py-1 text-gray-500">{t.tokenIndex}</td>
-                                    <td className="py-1 text-yellow-500">{t.type}</td>
-                                    <td className="py-1 text-white">'{t.text}'</td>
-                                    <td className="py-1 text-gray-500">{t.line}:{t.column}</td>
-                                </tr>
-                            ))}
-                        </tbody>
-                    </table>
+                    <TokensPanel
+                        tokens={parseResult.tokens}
+                        modeTransitions={parseResult.modeTransitions}
+                        selectedToken={selectedToken}
+                        onSelectToken={setSelectedToken}
+                    />
                 )}
 
                 {activeTab === 'analysis' && (
                     <AnalysisPanel
                         result={analysisResult}
                         isAnalyzing={isAnalyzing}
+                        onNavigateToRule={handleNavigateToAnalysisRule}
+                        onNavigateToInput={handleNavigateToInput}
+                        onApplyFix={handleCreateStubRule}
+                        onFindAmbiguities={() => runParser({ ambiguities: true })}
+                        isParsing={isCompiling}
+                    />
+                )}
+
+                {activeTab === 'profile' && (
+                    <ProfilerPanel
+                        profile={parseResult?.profile}
+                        isProfiling={isCompiling}
+                        onProfile={() => runParser({ profile: true })}
                         onNavigateToRule={handleNavigateToRule}
                     />
                 )}
 
+                {activeTab === 'debug' && (
+                    <DebuggerPanel
+                        trace={parseResult?.trace}
+                        truncated={parseResult?.traceTruncated}
+                        tokens={parseResult?.tokens ?? []}
+                        step={traceStep}
+                        onStepChange={setTraceStep}
+                        isTracing={isCompiling}
+                        onTrace={() => runParser({ trace: true })}
+                        onShowInput={showTraceInput}
+                        onShowRule={showTraceRule}
+                    />
+                )}
+
                 {activeTab === 'history' && (
                     <HistoryPanel
                         fileId={activeFileId}
@@ -1257,6 +1809,19 @@ const App: React.FC = () => {
                         }}
                     />
                 )}
+
+                {activeTab === 'tests' && (
+                    <TestCasesPanel
+                        files={files.filter(f => f.type === 'text')}
+                        results={testResults}
+                        isRunning={isRunningTests}
+                        defaultStartRule={effectiveStartRule}
+                        startRuleCandidates={startRuleCandidates}
+                        onRunAll={runAllTestCases}
+                        onUpdateTestCase={handleUpdateTestCase}
+                        onOpenFile={handleTabActivate}
+                    />
+                )}
              </div>
           </div>
         </div>
@@ -1264,21 +1829,76 @@ const App: React.FC = () => {
         {/* Right: Visualization */}
         <div className="flex-1 bg-[#151515] flex flex-col border-l border-ide-border min-w-0">
              <div className="h-9 flex items-center justify-between px-4 bg-ide-sidebar border-b border-ide-border text-sm text-gray-300 shrink-0">
-                <span className="font-semibold">Parse Tree</span>
-                {selectedToken && (
-                    <span className="text-xs text-blue-400 font-mono">
-                        Selected: '{selectedToken.text}' ({selectedToken.type})
-                    </span>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={() => setVisualization('tree')}
+                        className={`flex items-center gap-1.5 px-2 py-0.5 rounded transition ${visualization === 'tree' ? 'font-semibold text-white bg-white/10' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        <Network size={12} /> Parse Tree
+                    </button>
+                    <button
+                        onClick={() => setVisualization('railroad')}
+                        className={`flex items-center gap-1.5 px-2 py-0.5 rounded transition ${visualization === 'railroad' ? 'font-semibold text-white bg-white/10' : 'text-gray-400 hover:text-white'}`}
+                        title="Railroad diagrams of the grammar rules"
+                    >
+                        <Route size={12} /> Railroad
+                    </button>
+                </div>
+                {visualization === 'tree' && (
+                <div className="flex items-center gap-3">
+                    {parseLimitError && (
+                        <span className="text-xs text-yellow-400" title={parseLimitError.message}>
+                            Partial tree
+                        </span>
+                    )}
+                    {selectedToken && (
+                        <span className="text-xs text-blue-400 font-mono">
+                            Selected: '{selectedToken.text}' ({selectedToken.type})
+                        </span>
+                    )}
+                    {parseResult && parsedInputFileId && (
+                        <div className="flex items-center gap-1 text-xs">
+                            {snapshotChanges && (
+                                <button
+                                    onClick={showSnapshotDiff}
+                                    className={`flex items-center gap-1 px-2 py-0.5 rounded transition hover:bg-white/10 ${snapshotChanges.length === 0 ? 'text-green-400' : 'text-yellow-400'}`}
+                                    title="Compare with the approved snapshot"
+                                >
+                                    <GitCompare size={12} />
+                                    {snapshotChanges.length === 0
+                                        ? 'Matches snapshot'
+                                        : `${snapshotChanges.length} change${snapshotChanges.length !== 1 ? 's' : ''} vs snapshot`}
+                                </button>
+                            )}
+                            <button
+                                onClick={approveSnapshot}
+                                className="flex items-center gap-1 px-2 py-0.5 rounded text-gray-400 hover:text-white hover:bg-white/10 transition"
+                                title="Approve the current tree as the expected result for this input"
+                            >
+                                <Camera size={12} /> Approve
+                            </button>
+                        </div>
+                    )}
+                </div>
                 )}
              </div>
              <div className="flex-1 relative overflow-hidden">
-                <TreeVisualizer
-                    data={parseResult?.tree || null}
-                    selectedToken={selectedToken}
-                    onSelectToken={setSelectedToken}
-                    onNodeClick={handleTreeNodeClick}
-                    selectedNodeId={selectedNodeId}
-                />
+                {visualization === 'tree' ? (
+                    <TreeVisualizer
+                        data={parseResult?.tree || null}
+                        selectedToken={selectedToken}
+                        onSelectToken={setSelectedToken}
+                        onNodeClick={handleTreeNodeClick}
+                        selectedNodeId={selectedNodeId}
+                    />
+                ) : (
+                    <RailroadPanel
+                        grammarFiles={projectGrammarFiles}
+                        fileId={railroadFileId}
+                        cursorLine={grammarCursor?.fileId === railroadFileId ? grammarCursor.line : null}
+                        onNavigateToRule={handleNavigateToAnalysisRule}
+                    />
+                )}
              </div>
         </div>
 
@@ -1307,7 +1927,7 @@ const App: React.FC = () => {
          <div className="flex gap-4 items-center">
              <span>ready</span>
              <span>UTF-8</span>
-             {activeFile && <span>{activeFile.type === 'grammar' ? 'ANTLR4' : 'Plain Text'}</span>}
+             {activeFile && <span>{activeFile.type === 'grammar' ? 'ANTLR4' : activeFile.type === 'generated' ? 'Generated (read-only)' : 'Plain Text'}</span>}
              <div className="h-3 w-[1px] bg-white/30" />
              <SaveStatus status={saveStatus} lastSaved={lastSaved} error={saveError} onRetry={saveNow} />
          </div>
@@ -1329,6 +1949,33 @@ const App: React.FC = () => {
         onDangerous={handleConfirmDiscard}
       />
 
+      {/* Workspace parse limits */}
+      <ParseLimitsDialog
+        isOpen={isLimitsDialogOpen}
+        limits={parseLimits}
+        onSave={(limits) => {
+          setParseLimits(limits);
+          setIsLimitsDialogOpen(false);
+        }}
+        onCancel={() => setIsLimitsDialogOpen(false)}
+      />
+
+      {/* Code generation for any ANTLR target */}
+      <GenerateDialog
+        isOpen={isGenerateDialogOpen}
+        defaultLanguage={TARGET_LANGUAGES[parseTarget]}
+        onGenerate={handleGenerate}
+        onClose={() => setIsGenerateDialogOpen(false)}
+      />
+
+      {/* Visitor and listener skeletons */}
+      <SkeletonDialog
+        isOpen={isSkeletonDialogOpen}
+        grammarName={parserGrammar?.name}
+        onCreate={handleCreateSkeleton}
+        onClose={() => setIsSkeletonDialogOpen(false)}
+      />
+
       {/* Toast notifications */}
       <ToastContainer toasts={toasts} onDismiss={dismissToast} />
 
@@ -1339,8 +1986,11 @@ const App: React.FC = () => {
           newContent={diffState.newContent}
           oldLabel={diffState.oldLabel}
           newLabel={diffState.newLabel}
+          title={diffState.title}
           onClose={() => setDiffState(null)}
-        />
+        >
+          {diffState.treeChanges && <TreeChangeList changes={diffState.treeChanges} />}
+        </DiffViewer>
       )}
     </div>
   );
@@ -10,13 +10,20 @@ import {
   Zap,
   FileWarning,
   Layers,
+  FilePlus,
+  GitBranch,
+  Play,
+  Loader2,
 } from 'lucide-react';
 import type {
   AnalysisResult,
   UnusedRule,
+  DefinitionIssue,
+  StubRuleFix,
   ComplexityMetrics,
   PerformanceIssue,
   AmbiguityHint,
+  RuleLookahead,
   Severity,
   ComplexityScore,
 } from '@/types';
@@ -24,7 +31,15 @@ import type {
 interface AnalysisPanelProps {
   result: AnalysisResult | null;
   isAnalyzing: boolean;
-  onNavigateToRule: (ruleName: string, line: number) => void;
+  /** Open the rule in the grammar file it is defined in */
+  onNavigateToRule: (ruleName: string, line: number, fileId?: string) => void;
+  /** Select the input span behind an ambiguity found while parsing */
+  onNavigateToInput?: (startLine: number, startColumn: number, endLine: number, endColumn: number) => void;
+  /** Add the stub rule that defines an undefined reference */
+  onApplyFix?: (fix: StubRuleFix) => void;
+  /** Parse the input with exact ambiguity detection, which is slower than a normal parse */
+  onFindAmbiguities?: () => void;
+  isParsing?: boolean;
 }
 
 type SortField = 'name' | 'line' | 'score' | 'depth' | 'alternatives';
@@ -48,13 +63,19 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
   result,
   isAnalyzing,
   onNavigateToRule,
+  onNavigateToInput,
+  onApplyFix,
+  onFindAmbiguities,
+  isParsing = false,
 }) => {
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     summary: true,
+    definition: true,
     unused: true,
     complexity: true,
     performance: true,
     ambiguity: false,
+    lookahead: false,
   });
 
   const [complexitySort, setComplexitySort] = useState<{ field: SortField; direction: SortDirection }>({
@@ -145,6 +166,11 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
           <StatCard label="Parser Rules" value={result.summary.parserRules} />
           <StatCard label="Lexer Rules" value={result.summary.lexerRules} />
           <StatCard label="Fragments" value={result.summary.fragmentRules} />
+          <StatCard
+            label="Definition Errors"
+            value={result.summary.definitionIssues}
+            highlight={result.summary.definitionIssues > 0 ? 'error' : undefined}
+          />
           <StatCard
             label="Unused Rules"
             value={result.summary.unusedRules}
@@ -167,6 +193,27 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
         </div>
       </Section>
 
+      {/* Definition Errors Section */}
+      {result.definitionIssues.length > 0 && (
+        <Section
+          title={`Definition Errors (${result.definitionIssues.length})`}
+          icon={<AlertCircle className="w-4 h-4 text-orange-400" />}
+          expanded={expandedSections.definition}
+          onToggle={() => toggleSection('definition')}
+        >
+          <div className="divide-y divide-ide-border">
+            {result.definitionIssues.map((issue, idx) => (
+              <DefinitionIssueItem
+                key={`${issue.fileId}-${issue.line}-${issue.column}-${idx}`}
+                issue={issue}
+                onClick={() => onNavigateToRule(issue.rule, issue.line, issue.fileId)}
+                onApplyFix={issue.fix && onApplyFix ? () => onApplyFix(issue.fix!) : undefined}
+              />
+            ))}
+          </div>
+        </Section>
+      )}
+
       {/* Unused Rules Section */}
       {result.unusedRules.length > 0 && (
         <Section
@@ -180,7 +227,7 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
               <UnusedRuleItem
                 key={rule.name}
                 rule={rule}
-                onClick={() => onNavigateToRule(rule.name, rule.line)}
+                onClick={() => onNavigateToRule(rule.name, rule.line, rule.fileId)}
               />
             ))}
           </div>
@@ -249,7 +296,7 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
             <ComplexityRow
               key={metric.name}
               metric={metric}
-              onClick={() => onNavigateToRule(metric.name, metric.line)}
+              onClick={() => onNavigateToRule(metric.name, metric.line, metric.fileId)}
             />
           ))}
         </div>
@@ -268,7 +315,7 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
               <PerformanceIssueItem
                 key={`${issue.rule}-${idx}`}
                 issue={issue}
-                onClick={() => onNavigateToRule(issue.rule, issue.line)}
+                onClick={() => onNavigateToRule(issue.rule, issue.line, issue.fileId)}
               />
             ))}
           </div>
@@ -276,19 +323,63 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
       )}
 
       {/* Ambiguity Hints Section */}
-      {result.ambiguityHints.length > 0 && (
+      {(result.ambiguityHints.length > 0 || onFindAmbiguities) && (
         <Section
           title={`Ambiguity Hints (${result.ambiguityHints.length})`}
           icon={<Info className="w-4 h-4 text-blue-400" />}
           expanded={expandedSections.ambiguity}
           onToggle={() => toggleSection('ambiguity')}
         >
+          {onFindAmbiguities && (
+            <div className="flex items-center gap-2 px-3 py-2 border-b border-ide-border bg-ide-bg/50">
+              <button
+                onClick={onFindAmbiguities}
+                disabled={isParsing}
+                className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-ide-sidebar hover:bg-ide-sidebar/70 disabled:opacity-50 transition-colors"
+                title="Parse the input with exact ambiguity detection"
+              >
+                {isParsing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Play className="w-3 h-3" />}
+                Find in Input
+              </button>
+              <span className="text-xs text-ide-textSecondary">
+                Slower than a normal parse; reports what the input runs into
+              </span>
+            </div>
+          )}
           <div className="divide-y divide-ide-border">
             {result.ambiguityHints.map((hint, idx) => (
               <AmbiguityHintItem
                 key={`${hint.rule}-${idx}`}
                 hint={hint}
-                onClick={() => onNavigateToRule(hint.rule, hint.line)}
+                onClick={() => onNavigateToRule(hint.rule, hint.line, hint.fileId)}
+                onShowInput={hint.evidence && onNavigateToInput
+                  ? () => onNavigateToInput(
+                      hint.evidence!.startLine,
+                      hint.evidence!.startColumn,
+                      hint.evidence!.endLine,
+                      hint.evidence!.endColumn
+                    )
+                  : undefined}
+              />
+            ))}
+          </div>
+        </Section>
+      )}
+
+      {/* Lookahead Sets Section */}
+      {result.lookahead.length > 0 && (
+        <Section
+          title={`Lookahead Sets (${result.lookahead.length})`}
+          icon={<GitBranch className="w-4 h-4 text-blue-400" />}
+          expanded={expandedSections.lookahead}
+          onToggle={() => toggleSection('lookahead')}
+        >
+          <div className="divide-y divide-ide-border">
+            {result.lookahead.map((rule) => (
+              <LookaheadRow
+                key={rule.name}
+                rule={rule}
+                onClick={() => onNavigateToRule(rule.name, rule.line, rule.fileId)}
               />
             ))}
           </div>
@@ -395,6 +486,51 @@ const UnusedRuleItem: React.FC<UnusedRuleItemProps> = ({ rule, onClick }) => (
   </button>
 );
 
+interface DefinitionIssueItemProps {
+  issue: DefinitionIssue;
+  onClick: () => void;
+  onApplyFix?: () => void;
+}
+
+const definitionKindLabels: Record<DefinitionIssue['kind'], string> = {
+  undefined: 'undefined',
+  duplicate: 'duplicate',
+  parserRuleInLexer: 'parser rule in lexer',
+  fragmentInParser: 'fragment in parser',
+};
+
+const DefinitionIssueItem: React.FC<DefinitionIssueItemProps> = ({ issue, onClick, onApplyFix }) => (
+  <div
+    role="button"
+    onClick={onClick}
+    className="w-full flex items-start gap-2 px-3 py-2 hover:bg-ide-sidebar/50 text-left transition-colors cursor-pointer"
+  >
+    {severityIcons[issue.severity]}
+    <div className="flex-1 min-w-0">
+      <div className="flex items-center gap-2">
+        <span className="font-mono text-ide-text">{issue.name}</span>
+        <span className="text-xs px-1.5 py-0.5 rounded bg-ide-sidebar text-ide-textSecondary">
+          {definitionKindLabels[issue.kind]}
+        </span>
+        <span className="text-xs text-ide-textSecondary">Line {issue.line}</span>
+      </div>
+      <div className="text-xs text-ide-textSecondary mt-1">{issue.message}</div>
+      {issue.fix && onApplyFix && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onApplyFix();
+          }}
+          className="flex items-center gap-1 text-xs text-blue-300 hover:underline mt-1"
+        >
+          <FilePlus className="w-3 h-3" />
+          {issue.fix.title}
+        </button>
+      )}
+    </div>
+  </div>
+);
+
 interface ComplexityRowProps {
   metric: ComplexityMetrics;
   onClick: () => void;
@@ -424,7 +560,7 @@ const ComplexityRow: React.FC<ComplexityRowProps> = ({ metric, onClick }) => (
           I
         </span>
       )}
-      {metric.lookahead > 2 && (
+      {metric.lookahead > 1 && (
         <span title={`Lookahead: ${metric.lookahead}`} className="text-xs px-1 rounded bg-yellow-500/20 text-yellow-400">
           L{metric.lookahead}
         </span>
@@ -464,25 +600,123 @@ const PerformanceIssueItem: React.FC<PerformanceIssueItemProps> = ({ issue, onCl
 interface AmbiguityHintItemProps {
   hint: AmbiguityHint;
   onClick: () => void;
+  onShowInput?: () => void;
 }
 
-const AmbiguityHintItem: React.FC<AmbiguityHintItemProps> = ({ hint, onClick }) => (
-  <button
+const AmbiguityHintItem: React.FC<AmbiguityHintItemProps> = ({ hint, onClick, onShowInput }) => (
+  <div
+    role="button"
     onClick={onClick}
-    className="w-full flex items-start gap-2 px-3 py-2 hover:bg-ide-sidebar/50 text-left transition-colors"
+    className="w-full flex items-start gap-2 px-3 py-2 hover:bg-ide-sidebar/50 text-left transition-colors cursor-pointer"
   >
-    <Info className="w-4 h-4 text-blue-400 mt-0.5 flex-shrink-0" />
+    <Info className={`w-4 h-4 mt-0.5 flex-shrink-0 ${hint.evidence ? 'text-orange-400' : 'text-blue-400'}`} />
     <div className="flex-1 min-w-0">
       <div className="flex items-center gap-2">
         <span className="font-mono text-ide-text">{hint.rule}</span>
         <span className="text-xs text-ide-textSecondary">Line {hint.line}</span>
+        {hint.evidence && (
+          <span className="text-xs px-1.5 py-0.5 rounded bg-ide-sidebar text-ide-textSecondary">
+            {hint.evidence.kind === 'ambiguity' ? 'ambiguity' : 'context sensitivity'}
+          </span>
+        )}
       </div>
       <div className="text-xs text-ide-textSecondary mt-1">{hint.description}</div>
       <div className="text-xs text-ide-textSecondary mt-1">
         Alternatives: {hint.alternativeIndices.map((i) => i + 1).join(', ')}
       </div>
+      {hint.evidence && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onShowInput?.();
+          }}
+          disabled={!onShowInput}
+          className="text-xs font-mono text-blue-300 hover:underline disabled:no-underline mt-1"
+        >
+          Input {hint.evidence.startLine}:{hint.evidence.startColumn}-{hint.evidence.endLine}:{hint.evidence.endColumn}
+        </button>
+      )}
     </div>
-  </button>
+  </div>
+);
+
+interface LookaheadRowProps {
+  rule: RuleLookahead;
+  onClick: () => void;
+}
+
+const LookaheadRow: React.FC<LookaheadRowProps> = ({ rule, onClick }) => {
+  const [expanded, setExpanded] = useState(false);
+  const conflicting = new Set(rule.conflicts.flatMap((c) => c.alternativeIndices));
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 px-3 py-2 hover:bg-ide-sidebar/50">
+        <button onClick={() => setExpanded(!expanded)} title={expanded ? 'Hide sets' : 'Show sets'}>
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        <button onClick={onClick} className="font-mono text-ide-text hover:underline">
+          {rule.name}
+        </button>
+        <span className="text-xs text-ide-textSecondary">Line {rule.line}</span>
+        {rule.nullable && (
+          <span title="Can match the empty input" className="text-xs px-1 rounded bg-purple-500/20 text-purple-400">
+            nullable
+          </span>
+        )}
+        {rule.conflicts.length > 0 ? (
+          <span
+            title={`Alternatives conflict on the next token; at least ${rule.lookahead} tokens of lookahead are needed`}
+            className="text-xs px-1 rounded bg-yellow-500/20 text-yellow-400"
+          >
+            k≥{rule.lookahead}
+          </span>
+        ) : (
+          <span title="One token chooses every alternative" className="text-xs px-1 rounded bg-green-500/20 text-green-400">
+            LL(1)
+          </span>
+        )}
+      </div>
+      {expanded && (
+        <div className="pl-9 pr-3 pb-2 space-y-1 text-xs">
+          <TokenSetLine label="FIRST" tokens={rule.first} nullable={rule.nullable} />
+          <TokenSetLine label="FOLLOW" tokens={rule.follow} />
+          {rule.alternatives.map((alternative, idx) => (
+            <TokenSetLine
+              key={idx}
+              label={`Alt ${idx + 1}`}
+              tokens={alternative.first}
+              nullable={alternative.nullable}
+              conflict={conflicting.has(idx)}
+            />
+          ))}
+          {rule.conflicts.map((conflict, idx) => (
+            <div key={idx} className="text-yellow-400">
+              Alternatives {conflict.alternativeIndices.map((i) => i + 1).join(', ')} conflict on{' '}
+              <span className="font-mono">{conflict.tokens.join(' ')}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface TokenSetLineProps {
+  label: string;
+  tokens: string[];
+  /** Adds ε for sets of rules and alternatives that can match nothing */
+  nullable?: boolean;
+  conflict?: boolean;
+}
+
+const TokenSetLine: React.FC<TokenSetLineProps> = ({ label, tokens, nullable, conflict }) => (
+  <div className="flex gap-2">
+    <span className={`w-14 flex-shrink-0 ${conflict ? 'text-yellow-400' : 'text-ide-textSecondary'}`}>{label}</span>
+    <span className="font-mono text-ide-text break-all">
+      {[...tokens, ...(nullable ? ['ε'] : [])].join(' ') || '∅'}
+    </span>
+  </div>
 );
 
 export default AnalysisPanel;
@@ -1,7 +1,7 @@
-import React, { useRef, useImperativeHandle, forwardRef, useCallback } from 'react';
+import React, { useRef, useImperativeHandle, forwardRef, useCallback, useId } from 'react';
 import Editor, { useMonaco, OnMount } from '@monaco-editor/react';
 import type { editor } from 'monaco-editor';
-import type { EditorDecoration, CodeEditorRef } from '@/types';
+import type { EditorDecoration, CodeEditorRef, StubRuleFix } from '@/types';
 
 interface CodeEditorProps {
   value: string;
@@ -9,18 +9,28 @@ interface CodeEditorProps {
   language?: string;
   readOnly?: boolean;
   decorations?: EditorDecoration[];
+  /** Apply the quick fix of a decoration, offered as a code action on its range */
+  onQuickFix?: (fix: StubRuleFix) => void;
+  /** Called with the line (1-based) the cursor moves to */
+  onCursorLineChange?: (line: number) => void;
 }
 
 const CodeEditor = forwardRef<CodeEditorRef, CodeEditorProps>(
-  ({ value, onChange, language = 'antlr4', readOnly = false, decorations = [] }, ref) => {
+  ({ value, onChange, language = 'antlr4', readOnly = false, decorations = [], onQuickFix, onCursorLineChange }, ref) => {
     const monaco = useMonaco();
     const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
     const decorationIdsRef = useRef<string[]>([]);
     const highlightDecorationIdsRef = useRef<string[]>([]);
+    // Read by the code action provider, which is registered once
+    const decorationsRef = useRef<EditorDecoration[]>(decorations);
+    const onQuickFixRef = useRef(onQuickFix);
+    const onCursorLineChangeRef = useRef(onCursorLineChange);
+    const quickFixCommandId = `antlr4.applyQuickFix${useId()}`;
 
     // Handle editor mount
     const handleEditorDidMount: OnMount = (editor) => {
       editorRef.current = editor;
+      editor.onDidChangeCursorPosition((e) => onCursorLineChangeRef.current?.(e.position.lineNumber));
     };
 
     // Apply decorations when they change
@@ -46,6 +56,8 @@ const CodeEditor = forwardRef<CodeEditorRef, CodeEditorProps>(
             break;
         }
 
+        const quickFixHint = dec.quickFix ? `\n\nQuick fix (Ctrl+.): ${dec.quickFix.title}` : '';
+
         return {
           range: new monaco.Range(
             dec.startLine,
@@ -56,7 +68,7 @@ const CodeEditor = forwardRef<CodeEditorRef, CodeEditorProps>(
           options: {
             className,
             glyphMarginClassName: glyphClassName,
-            hoverMessage: { value: `**${dec.source}**: ${dec.message}` },
+            hoverMessage: { value: `**${dec.source}**: ${dec.message}${quickFixHint}` },
             overviewRuler: {
               color: dec.severity === 'critical' ? '#ef4444' :
                      dec.severity === 'error' ? '#f97316' :
@@ -73,6 +85,43 @@ const CodeEditor = forwardRef<CodeEditorRef, CodeEditorProps>(
       );
     }, [decorations, monaco]);
 
+    React.useEffect(() => {
+      decorationsRef.current = decorations;
+      onQuickFixRef.current = onQuickFix;
+      onCursorLineChangeRef.current = onCursorLineChange;
+    }, [decorations, onQuickFix, onCursorLineChange]);
+
+    // Offer the quick fixes of the decorations under the cursor as code actions
+    React.useEffect(() => {
+      if (!monaco) return;
+
+      const command = monaco.editor.addCommand({
+        id: quickFixCommandId,
+        run: (_accessor: unknown, fix: StubRuleFix) => onQuickFixRef.current?.(fix),
+      });
+      const provider = monaco.languages.registerCodeActionProvider('antlr4', {
+        provideCodeActions: (model, range) => {
+          const actions = model !== editorRef.current?.getModel() ? [] : decorationsRef.current
+            .filter((dec) => dec.quickFix && monaco.Range.areIntersectingOrTouching(
+              range,
+              new monaco.Range(dec.startLine, dec.startColumn, dec.endLine, dec.endColumn)
+            ))
+            .map((dec) => ({
+              title: dec.quickFix!.title,
+              kind: 'quickfix',
+              isPreferred: true,
+              command: { id: quickFixCommandId, title: dec.quickFix!.title, arguments: [dec.quickFix] },
+            }));
+          return { actions, dispose: () => {} };
+        },
+      });
+
+      return () => {
+        command.dispose();
+        provider.dispose();
+      };
+    }, [monaco, quickFixCommandId]);
+
     // Expose imperative methods
     const selectRange = useCallback(
       (startLine: number, startCol: number, endLine: number, endCol: number) => {
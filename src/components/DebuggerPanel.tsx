@@ -0,0 +1,221 @@
+import React, { useMemo, useEffect, useRef } from 'react';
+import {
+  Bug, Play, Loader2, SkipBack, SkipForward, StepBack, StepForward,
+  CornerDownRight, CornerUpLeft, AlertTriangle, FileText, Code
+} from 'lucide-react';
+import type { Token, TraceEvent } from '@/types';
+import {
+  ruleStackAt,
+  traceDepths,
+  stepOverIndex,
+  stepOutIndex,
+  nextEventIndex,
+  describeTraceEvent,
+} from '@/services/parseTrace';
+
+interface DebuggerPanelProps {
+  /** Steps of the last traced parse */
+  trace: TraceEvent[] | undefined;
+  /** True if the trace was cut off by the server */
+  truncated?: boolean;
+  tokens: Token[];
+  step: number;
+  onStepChange: (step: number) => void;
+  isTracing: boolean;
+  onTrace: () => void;
+  /** Show the current token in the input editor */
+  onShowInput: () => void;
+  /** Show the current rule in the grammar editor */
+  onShowRule: () => void;
+}
+
+/** Steps listed before and after the current one */
+const LIST_WINDOW = 100;
+
+const kindColors: Record<TraceEvent['kind'], string> = {
+  enterRule: 'text-green-400',
+  exitRule: 'text-gray-500',
+  consume: 'text-ide-text',
+  decision: 'text-purple-400',
+  recover: 'text-red-400',
+};
+
+const DebuggerPanel: React.FC<DebuggerPanelProps> = ({
+  trace,
+  truncated,
+  tokens,
+  step,
+  onStepChange,
+  isTracing,
+  onTrace,
+  onShowInput,
+  onShowRule,
+}) => {
+  const currentRowRef = useRef<HTMLButtonElement>(null);
+
+  const depths = useMemo(() => (trace ? traceDepths(trace) : []), [trace]);
+  const ruleStack = useMemo(() => (trace ? ruleStackAt(trace, step) : []), [trace, step]);
+
+  useEffect(() => {
+    currentRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [step]);
+
+  const traceButton = (
+    <button
+      onClick={onTrace}
+      disabled={isTracing}
+      className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium bg-indigo-700 hover:bg-indigo-600 text-white rounded transition disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isTracing ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+      Trace Parse
+    </button>
+  );
+
+  if (!trace || trace.length === 0) {
+    return (
+      <div className="p-4 text-center text-ide-textSecondary">
+        <Bug className="w-8 h-8 mx-auto mb-2 opacity-50" />
+        <p>No trace yet.</p>
+        <p className="text-sm mt-1 mb-3">
+          Trace a parse to step through rule entries and exits, consumed tokens, decisions and error recovery.
+        </p>
+        <div className="flex justify-center">{traceButton}</div>
+      </div>
+    );
+  }
+
+  const last = trace.length - 1;
+  const event = trace[step];
+  const token = tokens[event.tokenIndex];
+  const nextRecovery = nextEventIndex(trace, step, 'recover');
+  const listStart = Math.max(0, step - LIST_WINDOW);
+  const listEnd = Math.min(trace.length, step + LIST_WINDOW + 1);
+
+  const controls: Array<{ icon: React.ReactNode; title: string; target: number; disabled: boolean }> = [
+    { icon: <SkipBack size={14} />, title: 'First step', target: 0, disabled: step === 0 },
+    { icon: <StepBack size={14} />, title: 'Step back', target: step - 1, disabled: step === 0 },
+    { icon: <StepForward size={14} />, title: 'Step forward', target: step + 1, disabled: step === last },
+    {
+      icon: <CornerDownRight size={14} />,
+      title: 'Step over (skip to the exit of the entered rule)',
+      target: stepOverIndex(trace, step),
+      disabled: step === last,
+    },
+    {
+      icon: <CornerUpLeft size={14} />,
+      title: 'Step out (skip to the exit of the current rule)',
+      target: stepOutIndex(trace, step),
+      disabled: step === last,
+    },
+    {
+      icon: <AlertTriangle size={14} />,
+      title: 'Next error recovery',
+      target: nextRecovery,
+      disabled: nextRecovery < 0,
+    },
+    { icon: <SkipForward size={14} />, title: 'Last step', target: last, disabled: step === last },
+  ];
+
+  return (
+    <div className="h-full flex flex-col text-sm font-sans">
+      {/* Controls */}
+      <div className="flex items-center gap-3 px-3 py-2 border-b border-ide-border shrink-0">
+        <div className="flex items-center gap-1">
+          {controls.map(({ icon, title, target, disabled }) => (
+            <button
+              key={title}
+              onClick={() => onStepChange(target)}
+              disabled={disabled}
+              title={title}
+              className="p-1 rounded text-ide-text hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+            >
+              {icon}
+            </button>
+          ))}
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={last}
+          value={step}
+          onChange={(e) => onStepChange(Number(e.target.value))}
+          className="flex-1 min-w-0"
+        />
+        <span className="text-xs text-ide-textSecondary font-mono shrink-0">
+          {step + 1}/{trace.length}
+        </span>
+        {traceButton}
+      </div>
+
+      {truncated && (
+        <div className="px-3 py-1 text-xs text-yellow-400 border-b border-ide-border shrink-0">
+          The trace was cut off after {trace.length} steps.
+        </div>
+      )}
+
+      <div className="flex-1 flex min-h-0">
+        {/* Current step */}
+        <div className="w-72 shrink-0 border-r border-ide-border p-3 space-y-3 overflow-auto text-xs">
+          <div>
+            <div className="text-ide-textSecondary mb-1">Step</div>
+            <div className={`font-mono ${kindColors[event.kind]}`}>{describeTraceEvent(event, tokens)}</div>
+          </div>
+          <div>
+            <div className="text-ide-textSecondary mb-1">Rule stack</div>
+            <div className="font-mono text-ide-text break-words">
+              {ruleStack.length > 0 ? ruleStack.join(' › ') : '(none)'}
+            </div>
+          </div>
+          <div>
+            <div className="text-ide-textSecondary mb-1">Token</div>
+            <div className="font-mono text-ide-text">
+              {token ? `#${token.tokenIndex} ${token.type} '${token.text}' at ${token.line}:${token.column}` : '(conjured)'}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onShowInput}
+              disabled={!token}
+              className="flex items-center gap-1 px-2 py-1 rounded bg-ide-sidebar hover:bg-white/10 text-ide-text disabled:opacity-50 transition-colors"
+            >
+              <FileText size={12} /> Show input
+            </button>
+            <button
+              onClick={onShowRule}
+              disabled={ruleStack.length === 0}
+              className="flex items-center gap-1 px-2 py-1 rounded bg-ide-sidebar hover:bg-white/10 text-ide-text disabled:opacity-50 transition-colors"
+            >
+              <Code size={12} /> Show rule
+            </button>
+          </div>
+        </div>
+
+        {/* Steps around the current one */}
+        <div className="flex-1 overflow-auto font-mono text-xs">
+          {trace.slice(listStart, listEnd).map((e, offset) => {
+            const index = listStart + offset;
+            const isCurrent = index === step;
+            return (
+              <button
+                key={index}
+                ref={isCurrent ? currentRowRef : undefined}
+                onClick={() => onStepChange(index)}
+                className={`w-full flex gap-2 px-2 py-0.5 text-left hover:bg-white/5 ${isCurrent ? 'bg-blue-900/40' : ''}`}
+              >
+                <span className="w-12 shrink-0 text-right text-ide-textSecondary">{index + 1}</span>
+                <span
+                  className={kindColors[e.kind]}
+                  style={{ paddingLeft: `${Math.max(0, depths[index] - 1) * 12}px` }}
+                >
+                  {describeTraceEvent(e, tokens)}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DebuggerPanel;
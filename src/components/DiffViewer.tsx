@@ -6,6 +6,10 @@ interface DiffViewerProps {
     newContent: string;
     oldLabel: string;
     newLabel: string;
+    /** Heading shown instead of "Diff View" */
+    title?: string;
+    /** Extra content shown above the line diff, e.g. a summary of the changes */
+    children?: React.ReactNode;
     onClose: () => void;
 }
 
@@ -111,6 +115,8 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
     newContent,
     oldLabel,
     newLabel,
+    title = 'Diff View',
+    children,
     onClose
 }) => {
     const diffLines = useMemo(() => computeDiff(oldContent, newContent), [oldContent, newContent]);
@@ -131,7 +137,7 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
                 {/* Header */}
                 <div className="flex items-center justify-between px-4 py-3 border-b border-ide-border shrink-0">
                     <div className="flex items-center gap-4">
-                        <h2 className="text-sm font-semibold text-white">Diff View</h2>
+                        <h2 className="text-sm font-semibold text-white">{title}</h2>
                         <div className="flex items-center gap-3 text-xs">
                             <span className="flex items-center gap-1 text-red-400">
                                 <Minus size={12} /> {stats.deletions} deletion{stats.deletions !== 1 ? 's' : ''}
@@ -149,6 +155,12 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
                     </button>
                 </div>
 
+                {children && (
+                    <div className="max-h-48 overflow-auto border-b border-ide-border shrink-0">
+                        {children}
+                    </div>
+                )}
+
                 {/* Labels */}
                 <div className="flex border-b border-ide-border shrink-0">
                     <div className="flex-1 px-4 py-2 text-xs font-medium text-red-400 bg-red-900/20">
@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { Code2, Download, FilePlus, Loader2 } from 'lucide-react';
+import type { GenerateLanguage, GenerateOptions, GrammarDiagnostic } from '@/types';
+import { GenerateError } from '@/services/generateService';
+
+interface GenerateDialogProps {
+    isOpen: boolean;
+    /** Language selected when the dialog opens */
+    defaultLanguage: GenerateLanguage;
+    /** Rejects with a GenerateError when the tool can't generate the grammar */
+    onGenerate: (options: GenerateOptions, output: 'zip' | 'files') => Promise<void>;
+    onClose: () => void;
+}
+
+const languages: Array<{ value: GenerateLanguage; label: string }> = [
+    { value: 'Java', label: 'Java' },
+    { value: 'TypeScript', label: 'TypeScript' },
+    { value: 'JavaScript', label: 'JavaScript' },
+    { value: 'Python3', label: 'Python 3' },
+    { value: 'Go', label: 'Go' },
+    { value: 'CSharp', label: 'C#' },
+    { value: 'Cpp', label: 'C++' },
+    { value: 'Dart', label: 'Dart' },
+    { value: 'PHP', label: 'PHP' },
+    { value: 'Swift', label: 'Swift' },
+];
+
+/**
+ * Generate the project's recognizers for any ANTLR target, either as a zip
+ * download or as read-only files added to the project. Grammars are generated
+ * as written, including their actions.
+ */
+const GenerateDialog: React.FC<GenerateDialogProps> = ({
+    isOpen,
+    defaultLanguage,
+    onGenerate,
+    onClose,
+}) => {
+    const [language, setLanguage] = useState<GenerateLanguage>(defaultLanguage);
+    const [visitor, setVisitor] = useState(false);
+    const [listener, setListener] = useState(true);
+    const [packageName, setPackageName] = useState('');
+    const [running, setRunning] = useState<'zip' | 'files' | null>(null);
+    const [error, setError] = useState<{ message: string; diagnostics: GrammarDiagnostic[] } | null>(null);
+
+    // Follow the workspace target and clear the last error every time the dialog opens
+    useEffect(() => {
+        if (isOpen) {
+            setLanguage(defaultLanguage);
+            setError(null);
+        }
+    }, [isOpen, defaultLanguage]);
+
+    if (!isOpen) return null;
+
+    const invalidPackage = packageName.trim() !== '' && !/^[A-Za-z_]\w*(?:(?:\.|::)[A-Za-z_]\w*)*$/.test(packageName.trim());
+
+    const handleGenerate = async (output: 'zip' | 'files') => {
+        setRunning(output);
+        setError(null);
+        try {
+            await onGenerate({ language, visitor, listener, packageName: packageName.trim() || undefined }, output);
+            onClose();
+        } catch (e) {
+            const diagnostics = e instanceof GenerateError ? e.diagnostics.filter(d => d.severity === 'error') : [];
+            setError({ message: (e as Error).message, diagnostics });
+        } finally {
+            setRunning(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            {/* Backdrop */}
+            <div
+                className="absolute inset-0 bg-black/60"
+                onClick={running ? undefined : onClose}
+            />
+
+            {/* Dialog */}
+            <div className="relative bg-ide-sidebar border border-ide-border rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+                <div className="flex items-start gap-4">
+                    <div className="p-2 bg-blue-500/20 rounded-full shrink-0">
+                        <Code2 className="w-6 h-6 text-blue-400" />
+                    </div>
+                    <div className="flex-1">
+                        <h3 className="text-lg font-semibold text-white mb-2">Generate Code</h3>
+                        <p className="text-gray-400 text-sm">
+                            Run the ANTLR tool on the project's grammars, with their actions as written.
+                            Files added to the project are read-only and replaced when generated again.
+                        </p>
+                    </div>
+                </div>
+
+                <div className="mt-4 space-y-3">
+                    <label className="block">
+                        <span className="text-sm text-gray-300">Target language</span>
+                        <select
+                            value={language}
+                            onChange={(e) => setLanguage(e.target.value as GenerateLanguage)}
+                            className="mt-1 w-full bg-[#1e1e1e] border border-ide-border text-sm px-2 py-1 rounded text-white outline-none focus:border-ide-accent"
+                        >
+                            {languages.map(({ value, label }) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <div className="flex gap-6">
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input type="checkbox" checked={listener} onChange={(e) => setListener(e.target.checked)} />
+                            Listener
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input type="checkbox" checked={visitor} onChange={(e) => setVisitor(e.target.checked)} />
+                            Visitor
+                        </label>
+                    </div>
+
+                    <label className="block">
+                        <span className="text-sm text-gray-300">Package / namespace</span>
+                        <input
+                            type="text"
+                            value={packageName}
+                            placeholder="None"
+                            onChange={(e) => setPackageName(e.target.value)}
+                            className={`mt-1 w-full bg-[#1e1e1e] border text-sm px-2 py-1 rounded text-white outline-none font-mono ${
+                                invalidPackage ? 'border-red-500' : 'border-ide-border focus:border-ide-accent'
+                            }`}
+                        />
+                        <span className="text-xs text-gray-500">Passed to the tool as -package, e.g. com.example.parser</span>
+                    </label>
+                </div>
+
+                {error && (
+                    <div className="mt-4 max-h-40 overflow-y-auto text-xs font-mono text-red-400 bg-red-500/10 border border-red-500/30 rounded p-2 select-text">
+                        {error.diagnostics.length > 0
+                            ? error.diagnostics.map((d, i) => (
+                                <div key={i}>{d.file ? `${d.file}:${d.line ?? 0}:${d.column ?? 0}: ` : ''}{d.message}</div>
+                            ))
+                            : error.message}
+                    </div>
+                )}
+
+                <div className="flex justify-end gap-2 mt-6">
+                    <button
+                        onClick={onClose}
+                        disabled={running !== null}
+                        className="px-4 py-2 text-sm text-gray-300 hover:text-white hover:bg-ide-activity rounded transition disabled:opacity-50"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => handleGenerate('files')}
+                        disabled={running !== null || invalidPackage}
+                        className="flex items-center gap-1.5 px-4 py-2 text-sm bg-gray-700 text-white rounded hover:bg-gray-600 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Add the generated files to the project as read-only files"
+                    >
+                        {running === 'files' ? <Loader2 size={14} className="animate-spin" /> : <FilePlus size={14} />}
+                        Add to Project
+                    </button>
+                    <button
+                        onClick={() => handleGenerate('zip')}
+                        disabled={running !== null || invalidPackage}
+                        className="flex items-center gap-1.5 px-4 py-2 text-sm bg-ide-accent text-white rounded hover:bg-blue-600 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {running === 'zip' ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+                        Download ZIP
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default GenerateDialog;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import type { ParseLimits } from '@/types';
+
+interface ParseLimitsDialogProps {
+    isOpen: boolean;
+    /** Limits set for the workspace; missing ones use the server defaults */
+    limits: Partial<ParseLimits>;
+    onSave: (limits: Partial<ParseLimits>) => void;
+    onCancel: () => void;
+}
+
+const fields: Array<{ key: keyof ParseLimits; label: string; hint: string }> = [
+    { key: 'timeoutMs', label: 'Time limit (ms)', hint: 'Lexing and parsing time before the parse is stopped' },
+    { key: 'maxInputBytes', label: 'Max input size (bytes)', hint: 'Larger inputs are rejected without parsing' },
+    { key: 'maxTreeNodes', label: 'Max tree nodes', hint: 'Rule and token nodes before the parse is stopped' },
+];
+
+type FieldValues = Record<keyof ParseLimits, string>;
+
+function toFieldValues(limits: Partial<ParseLimits>): FieldValues {
+    return {
+        timeoutMs: limits.timeoutMs?.toString() ?? '',
+        maxInputBytes: limits.maxInputBytes?.toString() ?? '',
+        maxTreeNodes: limits.maxTreeNodes?.toString() ?? '',
+    };
+}
+
+/**
+ * Edit the workspace's parse resource limits. When a limit is hit the parse
+ * stops and returns what it produced so far.
+ */
+const ParseLimitsDialog: React.FC<ParseLimitsDialogProps> = ({
+    isOpen,
+    limits,
+    onSave,
+    onCancel,
+}) => {
+    const [values, setValues] = useState<FieldValues>(() => toFieldValues(limits));
+
+    // Start from the saved limits every time the dialog opens
+    useEffect(() => {
+        if (isOpen) {
+            setValues(toFieldValues(limits));
+        }
+    }, [isOpen, limits]);
+
+    if (!isOpen) return null;
+
+    const invalid = fields.filter(({ key }) => values[key] !== '' && !/^[1-9]\d*$/.test(values[key].trim()));
+
+    const handleSave = () => {
+        const updated: Partial<ParseLimits> = {};
+        for (const { key } of fields) {
+            if (values[key].trim() !== '') {
+                updated[key] = parseInt(values[key], 10);
+            }
+        }
+        onSave(updated);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            {/* Backdrop */}
+            <div
+                className="absolute inset-0 bg-black/60"
+                onClick={onCancel}
+            />
+
+            {/* Dialog */}
+            <div className="relative bg-ide-sidebar border border-ide-border rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+                <div className="flex items-start gap-4">
+                    <div className="p-2 bg-blue-500/20 rounded-full shrink-0">
+                        <SlidersHorizontal className="w-6 h-6 text-blue-400" />
+                    </div>
+                    <div className="flex-1">
+                        <h3 className="text-lg font-semibold text-white mb-2">Parse Limits</h3>
+                        <p className="text-gray-400 text-sm">
+                            A parse that hits a limit stops and shows the tokens and partial tree produced so far.
+                            Leave a field empty to use the server default.
+                        </p>
+                    </div>
+                </div>
+
+                <div className="mt-4 space-y-3">
+                    {fields.map(({ key, label, hint }) => (
+                        <label key={key} className="block">
+                            <span className="text-sm text-gray-300">{label}</span>
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                value={values[key]}
+                                placeholder="Default"
+                                onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+                                className={`mt-1 w-full bg-[#1e1e1e] border text-sm px-2 py-1 rounded text-white outline-none font-mono ${
+                                    invalid.some(f => f.key === key) ? 'border-red-500' : 'border-ide-border focus:border-ide-accent'
+                                }`}
+                            />
+                            <span className="text-xs text-gray-500">{hint}</span>
+                        </label>
+                    ))}
+                </div>
+
+                <div className="flex justify-end gap-2 mt-6">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 text-sm text-gray-300 hover:text-white hover:bg-ide-activity rounded transition"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={invalid.length > 0}
+                        className="px-4 py-2 text-sm bg-ide-accent text-white rounded hover:bg-blue-600 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ParseLimitsDialog;
@@ -0,0 +1,178 @@
+import React, { useState, useMemo } from 'react';
+import { Gauge, ArrowUpDown, Play, Loader2 } from 'lucide-react';
+import type { DecisionProfile } from '@/types';
+
+interface ProfilerPanelProps {
+  /** Decision statistics of the last profiled parse */
+  profile: DecisionProfile[] | undefined;
+  isProfiling: boolean;
+  onProfile: () => void;
+  onNavigateToRule: (ruleName: string, line: number, fileName?: string) => void;
+}
+
+type SortField =
+  | 'ruleName'
+  | 'decision'
+  | 'invocations'
+  | 'timeMs'
+  | 'sllTotalLook'
+  | 'sllMaxLook'
+  | 'llTotalLook'
+  | 'llMaxLook'
+  | 'fullContextFallbacks'
+  | 'ambiguities';
+type SortDirection = 'asc' | 'desc';
+
+const columns: Array<{ field: SortField; label: string; title: string }> = [
+  { field: 'ruleName', label: 'Rule', title: 'Rule containing the decision' },
+  { field: 'decision', label: 'Dec', title: 'Decision number' },
+  { field: 'invocations', label: 'Invocations', title: 'Times the decision was predicted' },
+  { field: 'timeMs', label: 'Time', title: 'Time spent in prediction' },
+  { field: 'sllTotalLook', label: 'SLL Total', title: 'Total SLL lookahead depth' },
+  { field: 'sllMaxLook', label: 'SLL Max', title: 'Maximum SLL lookahead depth' },
+  { field: 'llTotalLook', label: 'LL Total', title: 'Total full-context LL lookahead depth' },
+  { field: 'llMaxLook', label: 'LL Max', title: 'Maximum full-context LL lookahead depth' },
+  { field: 'fullContextFallbacks', label: 'Fallbacks', title: 'SLL conflicts that fell back to full-context LL' },
+  { field: 'ambiguities', label: 'Ambig', title: 'Ambiguities detected' },
+];
+
+const ProfilerPanel: React.FC<ProfilerPanelProps> = ({
+  profile,
+  isProfiling,
+  onProfile,
+  onNavigateToRule,
+}) => {
+  const [sort, setSort] = useState<{ field: SortField; direction: SortDirection }>({
+    field: 'timeMs',
+    direction: 'desc',
+  });
+
+  const sortedDecisions = useMemo(() => {
+    if (!profile) return [];
+
+    return [...profile].sort((a, b) => {
+      const comparison = sort.field === 'ruleName'
+        ? a.ruleName.localeCompare(b.ruleName)
+        : a[sort.field] - b[sort.field];
+      return sort.direction === 'asc' ? comparison : -comparison;
+    });
+  }, [profile, sort]);
+
+  const totals = useMemo(() => {
+    if (!profile) return null;
+    return {
+      timeMs: profile.reduce((sum, d) => sum + d.timeMs, 0),
+      invocations: profile.reduce((sum, d) => sum + d.invocations, 0),
+      fallbacks: profile.reduce((sum, d) => sum + d.fullContextFallbacks, 0),
+      ambiguities: profile.reduce((sum, d) => sum + d.ambiguities, 0),
+    };
+  }, [profile]);
+
+  const handleSort = (field: SortField) => {
+    setSort((prev) => ({
+      field,
+      direction: prev.field === field && prev.direction === 'desc' ? 'asc' : 'desc',
+    }));
+  };
+
+  const profileButton = (
+    <button
+      onClick={onProfile}
+      disabled={isProfiling}
+      className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium bg-indigo-700 hover:bg-indigo-600 text-white rounded transition disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isProfiling ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+      Profile Parse
+    </button>
+  );
+
+  if (!profile || !totals) {
+    return (
+      <div className="p-4 text-center text-ide-textSecondary">
+        <Gauge className="w-8 h-8 mx-auto mb-2 opacity-50" />
+        <p>No profiling data yet.</p>
+        <p className="text-sm mt-1 mb-3">
+          Profile a parse to see how much lookahead each decision of the grammar needs.
+        </p>
+        <div className="flex justify-center">{profileButton}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col text-sm font-sans">
+      {/* Summary */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-ide-border shrink-0">
+        <div className="flex items-center gap-4 text-xs text-ide-textSecondary">
+          <span className="flex items-center gap-1.5">
+            <Gauge className="w-4 h-4 text-indigo-400" />
+            {profile.length} decision{profile.length !== 1 ? 's' : ''}
+          </span>
+          <span>{totals.invocations} invocations</span>
+          <span>{totals.timeMs.toFixed(2)}ms in prediction</span>
+          <span className={totals.fallbacks > 0 ? 'text-yellow-400' : ''}>{totals.fallbacks} LL fallbacks</span>
+          <span className={totals.ambiguities > 0 ? 'text-orange-400' : ''}>{totals.ambiguities} ambiguities</span>
+        </div>
+        {profileButton}
+      </div>
+
+      {/* Decision table */}
+      <div className="flex-1 overflow-auto">
+        <table className="w-full text-left border-collapse text-xs">
+          <thead className="sticky top-0 bg-ide-panel">
+            <tr className="text-ide-textSecondary border-b border-ide-border">
+              {columns.map(({ field, label, title }) => (
+                <th key={field} className={`py-1 px-2 font-normal ${field === 'ruleName' ? '' : 'text-right'}`} title={title}>
+                  <button
+                    onClick={() => handleSort(field)}
+                    className={`inline-flex items-center gap-1 hover:text-ide-text transition-colors ${field === 'ruleName' ? '' : 'flex-row-reverse'}`}
+                  >
+                    {label}
+                    {sort.field === field && (
+                      <ArrowUpDown className={`w-3 h-3 ${sort.direction === 'asc' ? 'rotate-180' : ''}`} />
+                    )}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {sortedDecisions.map((d) => (
+              <tr key={d.decision} className="border-b border-ide-border/50 hover:bg-white/5">
+                <td className="py-1 px-2">
+                  <button
+                    onClick={() => d.line && onNavigateToRule(d.ruleName, d.line, d.file)}
+                    disabled={!d.line}
+                    className="text-ide-text hover:underline disabled:no-underline text-left"
+                  >
+                    {d.ruleName}
+                  </button>
+                  {d.line && (
+                    <span className="ml-2 text-ide-textSecondary">
+                      {d.file ? `${d.file}:` : 'Line '}{d.line}
+                    </span>
+                  )}
+                </td>
+                <td className="py-1 px-2 text-right text-ide-textSecondary">{d.decision}</td>
+                <td className="py-1 px-2 text-right">{d.invocations}</td>
+                <td className="py-1 px-2 text-right">{d.timeMs.toFixed(3)}ms</td>
+                <td className="py-1 px-2 text-right">{d.sllTotalLook}</td>
+                <td className="py-1 px-2 text-right">{d.sllMaxLook}</td>
+                <td className="py-1 px-2 text-right">{d.llTotalLook}</td>
+                <td className="py-1 px-2 text-right">{d.llMaxLook}</td>
+                <td className={`py-1 px-2 text-right ${d.fullContextFallbacks > 0 ? 'text-yellow-400' : ''}`}>
+                  {d.fullContextFallbacks}
+                </td>
+                <td className={`py-1 px-2 text-right ${d.ambiguities > 0 ? 'text-orange-400' : ''}`}>
+                  {d.ambiguities}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilerPanel;
@@ -0,0 +1,202 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Download } from 'lucide-react';
+import type { ProjectFile } from '@/types';
+import { parseGrammar } from '@/utils/antlr/grammarParser';
+import { buildRailroadDiagram } from '@/services/railroadDiagram';
+
+interface RailroadPanelProps {
+  /** Grammar files of the project; rule boxes open the file defining the rule */
+  grammarFiles: ProjectFile[];
+  /** Grammar file whose rules are shown, defaulting to the first one */
+  fileId: string | null;
+  /** Line of the cursor in that grammar, which picks the rule shown */
+  cursorLine: number | null;
+  /** Open the rule in the grammar file it is defined in */
+  onNavigateToRule: (ruleName: string, line: number, fileId?: string) => void;
+}
+
+type DiagramScope = 'rule' | 'grammar';
+
+const BACKGROUND = '#151515';
+const TRACK_COLOR = '#9ca3af';
+
+const RailroadPanel: React.FC<RailroadPanelProps> = ({
+  grammarFiles,
+  fileId,
+  cursorLine,
+  onNavigateToRule,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [scope, setScope] = useState<DiagramScope>('rule');
+
+  const grammars = useMemo(
+    () => grammarFiles.map((file) => ({ file, grammar: parseGrammar(file.content).grammar })),
+    [grammarFiles]
+  );
+
+  // Where each rule is defined; a rule redefined in an importing grammar opens the first definition
+  const definitions = useMemo(() => {
+    const byName = new Map<string, { line: number; fileId: string }>();
+    for (const { file, grammar } of grammars) {
+      for (const rule of grammar.rules) {
+        if (!byName.has(rule.name)) byName.set(rule.name, { line: rule.nameSpan.line, fileId: file.id });
+      }
+    }
+    return byName;
+  }, [grammars]);
+
+  const shown = grammars.find((g) => g.file.id === fileId) ?? grammars[0];
+
+  // The rule the cursor is in, or else the last one before it
+  const cursorRule = useMemo(() => {
+    const rules = shown?.grammar.rules ?? [];
+    const before = cursorLine === null ? [] : rules.filter((r) => r.span.line <= cursorLine);
+    return before[before.length - 1] ?? rules[0];
+  }, [shown, cursorLine]);
+
+  const diagrams = useMemo(() => {
+    const rules = scope === 'rule' ? (cursorRule ? [cursorRule] : []) : shown?.grammar.rules ?? [];
+    return rules.map(buildRailroadDiagram);
+  }, [scope, cursorRule, shown]);
+
+  // Draw the diagrams one below the other
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const width = Math.max(0, ...diagrams.map((d) => d.width));
+    const height = diagrams.reduce((sum, d) => sum + d.height, 0);
+    svg
+      .attr('xmlns', 'http://www.w3.org/2000/svg')
+      .attr('width', width)
+      .attr('height', height)
+      .attr('viewBox', `0 0 ${width} ${height}`);
+    svg.append('rect').attr('width', width).attr('height', height).attr('fill', BACKGROUND);
+
+    let top = 0;
+    for (const diagram of diagrams) {
+      const g = svg.append('g').attr('transform', `translate(0,${top})`);
+      top += diagram.height;
+
+      g.append('text')
+        .attr('x', diagram.title.x)
+        .attr('y', diagram.title.y)
+        .attr('fill', '#e5e7eb')
+        .attr('font-family', 'monospace')
+        .attr('font-size', 13)
+        .attr('font-weight', 'bold')
+        .text(diagram.rule);
+
+      g.selectAll('path')
+        .data(diagram.paths)
+        .enter().append('path')
+        .attr('d', (d) => d)
+        .attr('fill', 'none')
+        .attr('stroke', TRACK_COLOR)
+        .attr('stroke-width', 1.5);
+
+      const box = g.selectAll('g.box')
+        .data(diagram.boxes)
+        .enter().append('g')
+        .attr('class', 'box')
+        .attr('transform', (d) => `translate(${d.x},${d.y})`);
+
+      box.filter((d) => d.kind !== 'comment')
+        .append('rect')
+        .attr('width', (d) => d.width)
+        .attr('height', (d) => d.height)
+        .attr('rx', (d) => (d.kind === 'terminal' ? d.height / 2 : 0))
+        .attr('fill', (d) => (d.kind === 'terminal' ? '#1e3a5f' : '#1f3d2f'))
+        .attr('stroke', (d) => (d.kind === 'terminal' ? '#3b82f6' : '#10b981'))
+        .attr('stroke-width', 1.5);
+
+      box.append('text')
+        .attr('x', (d) => d.width / 2)
+        .attr('y', (d) => d.height / 2)
+        .attr('dy', '0.35em')
+        .attr('text-anchor', 'middle')
+        .attr('font-family', 'monospace')
+        .attr('font-size', (d) => (d.kind === 'comment' ? 11 : 12))
+        .attr('fill', (d) => (d.kind === 'comment' ? '#9ca3af' : '#e5e7eb'))
+        .text((d) => d.text);
+
+      // Rule and token boxes open their rule
+      box.filter((d) => !!d.rule && definitions.has(d.rule))
+        .style('cursor', 'pointer')
+        .on('click', (_event, d) => {
+          const definition = definitions.get(d.rule!)!;
+          onNavigateToRule(d.rule!, definition.line, definition.fileId);
+        })
+        .append('title')
+        .text((d) => `Go to ${d.rule}`);
+    }
+  }, [diagrams, definitions, onNavigateToRule]);
+
+  const handleExport = () => {
+    if (!svgRef.current || !shown) return;
+    const source = new XMLSerializer().serializeToString(svgRef.current);
+    const blob = new Blob([source], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${shown.grammar.name || 'grammar'}${scope === 'rule' && cursorRule ? `-${cursorRule.name}` : ''}.svg`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!shown) {
+    return (
+      <div className="flex items-center justify-center h-full text-gray-500">
+        <div className="text-center">
+          <p className="mb-2">No Grammar</p>
+          <p className="text-sm">Create a grammar file to see its railroad diagrams.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col w-full h-full">
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-ide-border text-xs text-gray-400 shrink-0">
+        <div className="flex rounded border border-ide-border overflow-hidden">
+          <button
+            onClick={() => setScope('rule')}
+            className={`px-2 py-0.5 transition ${scope === 'rule' ? 'bg-ide-activity text-white' : 'hover:text-white'}`}
+            title="Show the rule under the cursor"
+          >
+            Rule
+          </button>
+          <button
+            onClick={() => setScope('grammar')}
+            className={`px-2 py-0.5 transition ${scope === 'grammar' ? 'bg-ide-activity text-white' : 'hover:text-white'}`}
+            title="Show every rule of the grammar"
+          >
+            Grammar
+          </button>
+        </div>
+        <span className="font-mono truncate">
+          {scope === 'rule' ? cursorRule?.name ?? '' : `${shown.file.name} (${diagrams.length} rules)`}
+        </span>
+        <button
+          onClick={handleExport}
+          disabled={diagrams.length === 0}
+          className="ml-auto flex items-center gap-1 px-2 py-0.5 rounded hover:text-white hover:bg-white/10 transition disabled:opacity-50"
+          title="Download the diagrams as SVG"
+        >
+          <Download size={12} /> SVG
+        </button>
+      </div>
+      <div className="flex-1 overflow-auto">
+        {diagrams.length === 0 && (
+          <div className="p-4 text-center text-gray-500 text-sm">The grammar has no rules yet.</div>
+        )}
+        <svg ref={svgRef} className="block" />
+      </div>
+    </div>
+  );
+};
+
+export default RailroadPanel;
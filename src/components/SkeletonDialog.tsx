@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Braces, Loader2 } from 'lucide-react';
+import type { SkeletonKind, SkeletonLanguage } from '@/services/visitorSkeleton';
+
+interface SkeletonDialogProps {
+    isOpen: boolean;
+    /** Grammar the parser is generated from; without one there is nothing to write */
+    grammarName?: string;
+    onCreate: (language: SkeletonLanguage, kind: SkeletonKind) => Promise<void>;
+    onClose: () => void;
+}
+
+const languages: Array<{ value: SkeletonLanguage; label: string }> = [
+    { value: 'typescript', label: 'TypeScript' },
+    { value: 'java', label: 'Java' },
+    { value: 'python', label: 'Python 3' },
+];
+
+/**
+ * Pick the language and kind of a visitor or listener skeleton to write for
+ * the project's parser grammar
+ */
+const SkeletonDialog: React.FC<SkeletonDialogProps> = ({
+    isOpen,
+    grammarName,
+    onCreate,
+    onClose,
+}) => {
+    const [language, setLanguage] = useState<SkeletonLanguage>('typescript');
+    const [kind, setKind] = useState<SkeletonKind>('visitor');
+    const [isCreating, setIsCreating] = useState(false);
+
+    if (!isOpen) return null;
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        try {
+            await onCreate(language, kind);
+            onClose();
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            {/* Backdrop */}
+            <div
+                className="absolute inset-0 bg-black/60"
+                onClick={onClose}
+            />
+
+            {/* Dialog */}
+            <div className="relative bg-ide-sidebar border border-ide-border rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+                <div className="flex items-start gap-4">
+                    <div className="p-2 bg-blue-500/20 rounded-full shrink-0">
+                        <Braces className="w-6 h-6 text-blue-400" />
+                    </div>
+                    <div className="flex-1">
+                        <h3 className="text-lg font-semibold text-white mb-2">Visitor / Listener Skeleton</h3>
+                        <p className="text-gray-400 text-sm">
+                            {grammarName
+                                ? <>Write a class extending the {kind} ANTLR generates for <span className="font-mono">{grammarName}</span>, with a stub for every rule and labeled alternative.</>
+                                : 'The project has no parser or combined grammar to write a skeleton for.'}
+                        </p>
+                    </div>
+                </div>
+
+                <div className="mt-4 grid grid-cols-2 gap-3">
+                    <label className="block">
+                        <span className="text-sm text-gray-300">Language</span>
+                        <select
+                            value={language}
+                            onChange={(e) => setLanguage(e.target.value as SkeletonLanguage)}
+                            className="mt-1 w-full bg-[#1e1e1e] border border-ide-border text-sm px-2 py-1 rounded text-white outline-none focus:border-ide-accent"
+                        >
+                            {languages.map(({ value, label }) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="text-sm text-gray-300">Kind</span>
+                        <select
+                            value={kind}
+                            onChange={(e) => setKind(e.target.value as SkeletonKind)}
+                            className="mt-1 w-full bg-[#1e1e1e] border border-ide-border text-sm px-2 py-1 rounded text-white outline-none focus:border-ide-accent"
+                        >
+                            <option value="visitor">Visitor</option>
+                            <option value="listener">Listener</option>
+                        </select>
+                    </label>
+                </div>
+
+                <div className="flex justify-end gap-2 mt-6">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm text-gray-300 hover:text-white hover:bg-ide-activity rounded transition"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleCreate}
+                        disabled={!grammarName || isCreating}
+                        className="flex items-center gap-1.5 px-4 py-2 text-sm bg-ide-accent text-white rounded hover:bg-blue-600 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isCreating && <Loader2 size={14} className="animate-spin" />}
+                        Open in Tab
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SkeletonDialog;
@@ -0,0 +1,62 @@
+import React from 'react';
+import type { StartRuleCandidate } from '@/services/grammarAnalysis.types';
+
+interface StartRuleSelectProps {
+    value: string;
+    /** Parser rules of the project, entry rules first */
+    candidates: StartRuleCandidate[];
+    onChange: (rule: string) => void;
+    /**
+     * Offer an empty value that stands for the first entry rule, or for
+     * tokenizing when the project has no parser rules
+     */
+    allowAuto?: boolean;
+    className?: string;
+}
+
+/**
+ * Start rule picker listing the parser rules found in the project's grammars.
+ * A rule that isn't in the grammar stays selected but is marked, so a renamed
+ * rule doesn't silently switch the parse to another one.
+ */
+const StartRuleSelect: React.FC<StartRuleSelectProps> = ({
+    value,
+    candidates,
+    onChange,
+    allowAuto = false,
+    className = '',
+}) => {
+    const entries = candidates.filter(c => c.isEntry);
+    const others = candidates.filter(c => !c.isEntry);
+    const isUnknown = value !== '' && !candidates.some(c => c.name === value);
+
+    return (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            title={isUnknown ? `Rule ${value} is not defined in the grammar` : undefined}
+            className={`bg-[#1e1e1e] border rounded text-white outline-none font-mono ${
+                isUnknown ? 'border-red-500' : 'border-ide-border focus:border-ide-accent'
+            } ${className}`}
+        >
+            {allowAuto && (
+                <option value="">
+                    {candidates.length > 0 ? `auto (${candidates[0].name})` : 'tokenize only'}
+                </option>
+            )}
+            {isUnknown && <option value={value}>{value} (not in grammar)</option>}
+            {entries.length > 0 && (
+                <optgroup label="Entry rules">
+                    {entries.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+                </optgroup>
+            )}
+            {others.length > 0 && (
+                <optgroup label="Other rules">
+                    {others.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+                </optgroup>
+            )}
+        </select>
+    );
+};
+
+export default StartRuleSelect;
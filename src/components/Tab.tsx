@@ -1,5 +1,5 @@
 import React, { useState, useRef } from 'react';
-import { X, FileText, Settings } from 'lucide-react';
+import { X, FileText, Settings, Code2 } from 'lucide-react';
 import type { FileMetadata } from '@/types/api';
 
 interface TabProps {
@@ -45,8 +45,8 @@ const Tab: React.FC<TabProps> = ({
     };
 
     // Get appropriate icon based on file type
-    const FileIcon = file.type === 'grammar' ? Settings : FileText;
-    const iconColor = file.type === 'grammar' ? 'text-purple-400' : 'text-blue-400';
+    const FileIcon = file.type === 'grammar' ? Settings : file.type === 'generated' ? Code2 : FileText;
+    const iconColor = file.type === 'grammar' ? 'text-purple-400' : file.type === 'generated' ? 'text-green-400' : 'text-blue-400';
 
     return (
         <div
@@ -0,0 +1,169 @@
+import React from 'react';
+import { FlaskConical, Play, Loader2, CheckCircle2, XCircle, AlertCircle, Circle } from 'lucide-react';
+import type { ProjectFile, TestCaseSpec, TestCaseResult } from '@/types';
+import type { StartRuleCandidate } from '@/services/grammarAnalysis.types';
+import StartRuleSelect from './StartRuleSelect';
+
+interface TestCasesPanelProps {
+    /** Text files of the project; the ones with `testCase` set are test cases */
+    files: ProjectFile[];
+    /** Results of the last run, by file ID */
+    results: Record<string, TestCaseResult>;
+    isRunning: boolean;
+    /** Start rule suggested when a file is declared as a test case */
+    defaultStartRule: string;
+    /** Parser rules of the project, entry rules first */
+    startRuleCandidates: StartRuleCandidate[];
+    onRunAll: () => void;
+    onUpdateTestCase: (fileId: string, testCase: TestCaseSpec | null) => void;
+    onOpenFile: (fileId: string) => void;
+}
+
+const statusIcons: Record<TestCaseResult['status'], React.ReactNode> = {
+    passed: <CheckCircle2 size={14} className="text-green-400" />,
+    failed: <XCircle size={14} className="text-red-400" />,
+    error: <AlertCircle size={14} className="text-orange-400" />,
+};
+
+const TestCasesPanel: React.FC<TestCasesPanelProps> = ({
+    files,
+    results,
+    isRunning,
+    defaultStartRule,
+    startRuleCandidates,
+    onRunAll,
+    onUpdateTestCase,
+    onOpenFile,
+}) => {
+    const testCases = files.filter(f => f.testCase);
+    const ranResults = testCases.map(f => results[f.id]).filter(Boolean);
+    const passedCount = ranResults.filter(r => r.status === 'passed').length;
+    const totalDuration = ranResults.reduce((sum, r) => sum + r.duration, 0);
+
+    if (files.length === 0) {
+        return (
+            <div className="flex items-center justify-center h-full text-gray-500">
+                <div className="text-center">
+                    <FlaskConical size={24} className="mx-auto mb-2 opacity-50" />
+                    <p className="text-sm">No input files</p>
+                    <p className="text-xs mt-1 opacity-75">Create a text file to use it as a test case</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex flex-col h-full font-sans">
+            {/* Header */}
+            <div className="flex items-center justify-between px-3 py-2 border-b border-ide-border shrink-0">
+                <div className="flex items-center gap-2 text-xs text-gray-300">
+                    <FlaskConical size={14} className="text-teal-400" />
+                    <span>{testCases.length} test case{testCases.length !== 1 ? 's' : ''}</span>
+                    {ranResults.length > 0 && (
+                        <span className={passedCount === ranResults.length ? 'text-green-400' : 'text-red-400'}>
+                            {passedCount}/{ranResults.length} passed in {totalDuration.toFixed(0)}ms
+                        </span>
+                    )}
+                </div>
+                <button
+                    onClick={onRunAll}
+                    disabled={isRunning || testCases.length === 0}
+                    className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium bg-teal-700 hover:bg-teal-600 text-white rounded transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isRunning ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+                    Run All
+                </button>
+            </div>
+
+            {/* Pass/fail matrix */}
+            <div className="flex-1 overflow-auto">
+                <table className="w-full text-left border-collapse text-xs">
+                    <thead>
+                        <tr className="text-gray-500 border-b border-gray-700">
+                            <th className="py-1 px-2 w-8" title="Use as test case">Test</th>
+                            <th className="py-1 px-2">Input</th>
+                            <th className="py-1 px-2">Start Rule</th>
+                            <th className="py-1 px-2">Expect</th>
+                            <th className="py-1 px-2">Result</th>
+                            <th className="py-1 px-2 text-right">Errors</th>
+                            <th className="py-1 px-2 text-right">Duration</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {files.map(file => {
+                            const testCase = file.testCase;
+                            const result = testCase ? results[file.id] : undefined;
+
+                            return (
+                                <tr key={file.id} className="hover:bg-white/5 border-b border-ide-border/50">
+                                    <td className="py-1 px-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={!!testCase}
+                                            onChange={e => onUpdateTestCase(
+                                                file.id,
+                                                e.target.checked ? { startRule: defaultStartRule, expect: 'pass' } : null
+                                            )}
+                                            className="accent-teal-500"
+                                        />
+                                    </td>
+                                    <td className="py-1 px-2">
+                                        <button
+                                            onClick={() => onOpenFile(file.id)}
+                                            className="text-blue-300 hover:underline truncate max-w-[200px] text-left"
+                                        >
+                                            {file.name}
+                                        </button>
+                                    </td>
+                                    <td className="py-1 px-2">
+                                        {testCase && (
+                                            <StartRuleSelect
+                                                value={testCase.startRule}
+                                                candidates={startRuleCandidates}
+                                                onChange={rule => onUpdateTestCase(file.id, { ...testCase, startRule: rule })}
+                                                className="px-1 py-0.5 w-28"
+                                            />
+                                        )}
+                                    </td>
+                                    <td className="py-1 px-2">
+                                        {testCase && (
+                                            <select
+                                                value={testCase.expect}
+                                                onChange={e => onUpdateTestCase(file.id, {
+                                                    ...testCase,
+                                                    expect: e.target.value as TestCaseSpec['expect'],
+                                                })}
+                                                className="bg-ide-bg border border-ide-border rounded px-1 py-0.5 text-gray-200 outline-none"
+                                            >
+                                                <option value="pass">Parses</option>
+                                                <option value="fail">Fails</option>
+                                            </select>
+                                        )}
+                                    </td>
+                                    <td className="py-1 px-2">
+                                        {testCase && (
+                                            <span className="flex items-center gap-1.5" title={result?.message}>
+                                                {result ? statusIcons[result.status] : <Circle size={14} className="text-gray-600" />}
+                                                <span className="text-gray-400 truncate max-w-[260px]">
+                                                    {result ? result.message || result.status : 'Not run'}
+                                                </span>
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="py-1 px-2 text-right font-mono text-gray-400">
+                                        {result?.errorCount ?? ''}
+                                    </td>
+                                    <td className="py-1 px-2 text-right font-mono text-gray-400">
+                                        {result ? `${result.duration.toFixed(0)}ms` : ''}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default TestCasesPanel;
@@ -0,0 +1,141 @@
+import React, { useState, useMemo } from 'react';
+import type { Token, ModeTransition } from '@/types';
+
+interface TokensPanelProps {
+    tokens: Token[];
+    /** Lexer mode changes of the last run, listed below the tokens */
+    modeTransitions?: ModeTransition[];
+    selectedToken: Token | null;
+    onSelectToken: (token: Token) => void;
+}
+
+const ALL = '';
+
+/**
+ * Token table of the last parse with channel and lexer mode filters
+ */
+const TokensPanel: React.FC<TokensPanelProps> = ({ tokens, modeTransitions, selectedToken, onSelectToken }) => {
+    const [channelFilter, setChannelFilter] = useState(ALL);
+    const [modeFilter, setModeFilter] = useState(ALL);
+
+    const channels = useMemo(() => {
+        const names = new Map<string, number>();
+        for (const t of tokens) {
+            if (t.channelName !== undefined) names.set(t.channelName, t.channel ?? 0);
+        }
+        return [...names.entries()].sort((a, b) => a[1] - b[1]).map(([name]) => name);
+    }, [tokens]);
+
+    const modes = useMemo(
+        () => [...new Set(tokens.map(t => t.mode).filter((m): m is string => m !== undefined))],
+        [tokens]
+    );
+
+    const visibleTokens = useMemo(
+        () => tokens.filter(t =>
+            (channelFilter === ALL || t.channelName === channelFilter)
+            && (modeFilter === ALL || t.mode === modeFilter)
+        ),
+        [tokens, channelFilter, modeFilter]
+    );
+
+    // Only offer filters that can narrow the list down
+    const showChannels = channels.length > 1 || channelFilter !== ALL;
+    const showModes = modes.length > 1 || modeFilter !== ALL;
+
+    return (
+        <div className="select-text">
+            {(showChannels || showModes) && (
+                <div className="flex items-center gap-4 pb-2 mb-1 border-b border-gray-700 text-gray-400 font-sans">
+                    {showChannels && (
+                        <label className="flex items-center gap-1.5">
+                            Channel
+                            <select
+                                value={channelFilter}
+                                onChange={(e) => setChannelFilter(e.target.value)}
+                                className="bg-[#1e1e1e] border border-ide-border rounded px-1 py-0.5 text-white outline-none"
+                            >
+                                <option value={ALL}>All</option>
+                                {channels.map(name => <option key={name} value={name}>{name}</option>)}
+                            </select>
+                        </label>
+                    )}
+                    {showModes && (
+                        <label className="flex items-center gap-1.5">
+                            Mode
+                            <select
+                                value={modeFilter}
+                                onChange={(e) => setModeFilter(e.target.value)}
+                                className="bg-[#1e1e1e] border border-ide-border rounded px-1 py-0.5 text-white outline-none"
+                            >
+                                <option value={ALL}>All</option>
+                                {modes.map(name => <option key={name} value={name}>{name}</option>)}
+                            </select>
+                        </label>
+                    )}
+                    {visibleTokens.length !== tokens.length && (
+                        <span>{visibleTokens.length} of {tokens.length} tokens</span>
+                    )}
+                </div>
+            )}
+            <table className="w-full text-left border-collapse select-text">
+                <thead>
+                    <tr className="text-gray-500 border-b border-gray-700 select-text">
+                        <th className="py-1">Index</th>
+                        <th className="py-1">Type</th>
+                        <th className="py-1">Rule</th>
+                        <th className="py-1">Text</th>
+                        <th className="py-1">Line:Col</th>
+                        <th className="py-1">Channel</th>
+                        <th className="py-1">Mode</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {visibleTokens.map((t) => (
+                        <tr
+                            key={t.tokenIndex}
+                            className={`hover:bg-white/5 cursor-pointer ${selectedToken?.tokenIndex === t.tokenIndex ? 'bg-blue-900/30 text-blue-200' : ''} ${t.channel ? 'opacity-60' : ''}`}
+                            onClick={() => onSelectToken(t)}
+                        >
+                            <td className="py-1 text-gray-500">{t.tokenIndex}</td>
+                            <td className="py-1 text-yellow-500" title={t.literal && t.typeName ? `${t.typeName} ${t.literal}` : undefined}>
+                                {t.type}
+                            </td>
+                            <td className="py-1 text-gray-400">{t.rule}</td>
+                            <td className="py-1 text-white">'{t.text}'</td>
+                            <td className="py-1 text-gray-500">{t.line}:{t.column}</td>
+                            <td className="py-1 text-gray-500">{t.channelName ?? t.channel}</td>
+                            <td className="py-1 text-gray-500" title={t.modeStack ? `Mode stack: ${t.modeStack.join(' › ')}` : undefined}>
+                                {t.mode}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {modeTransitions && modeTransitions.length > 0 && (
+                <div className="mt-3">
+                    <div className="text-gray-500 border-b border-gray-700 py-1 font-sans">Mode transitions</div>
+                    {modeTransitions.map((m, i) => {
+                        // Skipped matches have no token to select
+                        const token = tokens.find(t => t.start === m.startIndex);
+                        return (
+                            <div
+                                key={i}
+                                className={`flex gap-3 py-0.5 ${token ? 'hover:bg-white/5 cursor-pointer' : ''}`}
+                                onClick={token ? () => onSelectToken(token) : undefined}
+                            >
+                                <span className="text-gray-500 w-16 shrink-0">{m.line}:{m.column}</span>
+                                <span className="text-gray-400 w-32 shrink-0 truncate">{m.rule}</span>
+                                <span className="text-white">
+                                    {m.from.join(' › ')} <span className="text-gray-500">→</span> {m.to.join(' › ')}
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TokensPanel;
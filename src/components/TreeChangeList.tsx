@@ -0,0 +1,49 @@
+import React from 'react';
+import { Plus, Minus, PenLine, Type } from 'lucide-react';
+import type { TreeChange } from '@/types';
+
+interface TreeChangeListProps {
+    changes: TreeChange[];
+}
+
+const kindStyles: Record<TreeChange['kind'], { icon: React.ReactNode; label: string }> = {
+    added: { icon: <Plus size={12} className="text-green-400" />, label: 'Added' },
+    removed: { icon: <Minus size={12} className="text-red-400" />, label: 'Removed' },
+    renamed: { icon: <PenLine size={12} className="text-yellow-400" />, label: 'Renamed' },
+    textChanged: { icon: <Type size={12} className="text-blue-400" />, label: 'Text changed' },
+};
+
+/**
+ * Structural changes between a parse tree snapshot and the current tree
+ */
+const TreeChangeList: React.FC<TreeChangeListProps> = ({ changes }) => {
+    if (changes.length === 0) {
+        return (
+            <div className="px-4 py-2 text-xs text-green-400">
+                The parse tree matches the approved snapshot.
+            </div>
+        );
+    }
+
+    return (
+        <ul className="divide-y divide-ide-border/50 text-xs font-mono">
+            {changes.map((change, idx) => {
+                const { icon, label } = kindStyles[change.kind];
+                return (
+                    <li key={idx} className="flex items-center gap-2 px-4 py-1">
+                        {icon}
+                        <span className="text-gray-400 w-24 shrink-0 font-sans">{label}</span>
+                        <span className="text-gray-500 truncate">{change.path.join(' › ') || '(root)'}</span>
+                        <span className="text-gray-200 ml-auto shrink-0">
+                            {change.before && <span className="text-red-300">{change.before}</span>}
+                            {change.before && change.after && <span className="text-gray-500"> → </span>}
+                            {change.after && <span className="text-green-300">{change.after}</span>}
+                        </span>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+export default TreeChangeList;
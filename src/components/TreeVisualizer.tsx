@@ -120,13 +120,17 @@ const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
           const pos = formatPosition(nodeData);
           const text = truncateText(nodeData.matchedText);
 
-          let tooltipContent = `<div class="font-semibold">${nodeData.type === 'token' ? 'Token' : 'Rule'}: ${nodeData.name}</div>`;
+          const label = nodeData.type === 'error' ? 'Error' : nodeData.type === 'token' ? 'Token' : 'Rule';
+          let tooltipContent = `<div class="font-semibold">${label}: ${nodeData.name}</div>`;
           if (text) {
             tooltipContent += `<div class="text-gray-300 mt-1">Text: "${text}"</div>`;
           }
           if (pos) {
             tooltipContent += `<div class="text-gray-400 text-xs mt-1">Position: ${pos}</div>`;
           }
+          if (nodeData.error) {
+            tooltipContent += `<div class="text-red-400 text-xs mt-1">${nodeData.error}</div>`;
+          }
 
           tooltipRef.current.innerHTML = tooltipContent;
           tooltipRef.current.style.display = 'block';
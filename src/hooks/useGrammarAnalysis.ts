@@ -8,6 +8,7 @@ import {
   AnalysisResult,
   AnalysisOptions,
   AnalysisDecoration,
+  AnalysisFile,
 } from '../services/grammarAnalysis.types';
 
 export interface UseGrammarAnalysisOptions {
@@ -26,12 +27,12 @@ export interface UseGrammarAnalysisReturn {
   isAnalyzing: boolean;
   /** Error message if analysis failed */
   error: string | null;
-  /** Trigger manual analysis */
-  analyze: (grammarContent: string) => void;
+  /** Trigger manual analysis of all project grammar files */
+  analyze: (grammarFiles: AnalysisFile[]) => void;
   /** Clear analysis results */
   clearAnalysis: () => void;
-  /** Get decorations for Monaco editor */
-  getDecorations: () => AnalysisDecoration[];
+  /** Get decorations for Monaco editor, for one grammar file */
+  getDecorations: (fileId: string) => AnalysisDecoration[];
   /** Set analysis options */
   setOptions: (options: AnalysisOptions) => void;
 }
@@ -62,11 +63,11 @@ export function useGrammarAnalysis(
   const lastGrammarRef = useRef<string>('');
 
   /**
-   * Perform analysis on grammar content
+   * Perform analysis on grammar files
    */
   const performAnalysis = useCallback(
-    (grammarContent: string) => {
-      if (!grammarContent.trim()) {
+    (grammarFiles: AnalysisFile[], grammarKey: string) => {
+      if (grammarFiles.every((f) => !f.content.trim())) {
         setResult(null);
         setError(null);
         return;
@@ -77,11 +78,11 @@ export function useGrammarAnalysis(
 
       try {
         const analysisResult = analyzerRef.current.analyze(
-          grammarContent,
+          grammarFiles,
           analysisOptions
         );
         setResult(analysisResult);
-        lastGrammarRef.current = grammarContent;
+        lastGrammarRef.current = grammarKey;
       } catch (err) {
         const errorMessage =
           err instanceof Error ? err.message : 'Analysis failed';
@@ -98,24 +99,25 @@ export function useGrammarAnalysis(
    * Analyze grammar with optional debouncing
    */
   const analyze = useCallback(
-    (grammarContent: string) => {
+    (grammarFiles: AnalysisFile[]) => {
       // Clear any pending debounce
       if (debounceTimerRef.current) {
         clearTimeout(debounceTimerRef.current);
         debounceTimerRef.current = null;
       }
 
-      // Skip if content hasn't changed
-      if (grammarContent === lastGrammarRef.current && result) {
+      // Skip if no file has changed
+      const grammarKey = JSON.stringify(grammarFiles.map((f) => [f.fileId, f.content]));
+      if (grammarKey === lastGrammarRef.current && result) {
         return;
       }
 
       if (options.autoAnalyze && options.debounceMs && options.debounceMs > 0) {
         debounceTimerRef.current = setTimeout(() => {
-          performAnalysis(grammarContent);
+          performAnalysis(grammarFiles, grammarKey);
         }, options.debounceMs);
       } else {
-        performAnalysis(grammarContent);
+        performAnalysis(grammarFiles, grammarKey);
       }
     },
     [options.autoAnalyze, options.debounceMs, performAnalysis, result]
@@ -135,9 +137,10 @@ export function useGrammarAnalysis(
   }, []);
 
   /**
-   * Generate Monaco editor decorations from analysis results
+   * Generate Monaco editor decorations from analysis results. Results of a
+   * single grammar carry no file id and decorate any file.
    */
-  const getDecorations = useCallback((): AnalysisDecoration[] => {
+  const getDecorations = useCallback((fileId: string): AnalysisDecoration[] => {
     if (!result) return [];
 
     const decorations: AnalysisDecoration[] = [];
@@ -152,6 +155,22 @@ export function useGrammarAnalysis(
         severity: 'warning',
         message: unused.suggestion,
         source: 'unused',
+        fileId: unused.fileId,
+      });
+    }
+
+    // Undefined references and duplicate rules - errors, with a stub rule fix for undefined ones
+    for (const issue of result.definitionIssues) {
+      decorations.push({
+        startLine: issue.line,
+        startColumn: issue.column + 1,
+        endLine: issue.line,
+        endColumn: issue.column + issue.name.length + 1,
+        severity: issue.severity,
+        message: issue.message,
+        source: 'definition',
+        quickFix: issue.fix,
+        fileId: issue.fileId,
       });
     }
 
@@ -165,6 +184,7 @@ export function useGrammarAnalysis(
         severity: issue.severity,
         message: `${issue.issue}: ${issue.description}\n\nSuggestion: ${issue.suggestion}`,
         source: 'performance',
+        fileId: issue.fileId,
       });
     }
 
@@ -181,6 +201,7 @@ export function useGrammarAnalysis(
             severity: metric.score === 'critical' ? 'error' : 'warning',
             message: `Complexity: ${metric.score} (score: ${metric.complexityValue})\nDepth: ${metric.depth}, Alternatives: ${metric.alternatives}, References: ${metric.referenceCount}${metric.directlyRecursive ? '\nDirectly recursive' : ''}${metric.indirectlyRecursive ? '\nIndirectly recursive' : ''}`,
             source: 'complexity',
+            fileId: rule.fileId,
           });
         }
       }
@@ -198,11 +219,12 @@ export function useGrammarAnalysis(
           severity: 'info',
           message: hint.description,
           source: 'ambiguity',
+          fileId: rule.fileId,
         });
       }
     }
 
-    return decorations;
+    return decorations.filter((d) => d.fileId === undefined || d.fileId === fileId);
   }, [result]);
 
   /**
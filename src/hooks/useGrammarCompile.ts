@@ -0,0 +1,157 @@
+/**
+ * React hook that validates grammars with the ANTLR tool as they are edited
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { compileGrammar } from '../services/compileService';
+import type { CompileResult, EditorDecoration } from '../types';
+
+export interface UseGrammarCompileOptions {
+  /** Compile automatically when the grammar files change */
+  enabled?: boolean;
+  /** Debounce delay in ms after the last change */
+  debounceMs?: number;
+}
+
+export interface UseGrammarCompileReturn {
+  /** Result of the latest compile */
+  result: CompileResult | null;
+  /** Whether a compile is in progress */
+  isCompiling: boolean;
+  /** Error message if the compile request failed */
+  error: string | null;
+  /** Get Monaco decorations for the diagnostics of one grammar file */
+  getDecorations: (fileName: string) => EditorDecoration[];
+}
+
+const DEFAULT_OPTIONS: UseGrammarCompileOptions = {
+  enabled: true,
+  debounceMs: 800,
+};
+
+/**
+ * Length of the grammar element starting at a column, so the marker covers
+ * a whole rule name, token reference or literal
+ */
+function elementLength(line: string, column: number): number {
+  const rest = line.slice(column);
+  const match = rest.match(/^(?:\w+|'(?:\\.|[^'\\])*'|\S)/);
+  return match ? match[0].length : 1;
+}
+
+/**
+ * Hook for compiling grammar files in the background and exposing
+ * tool diagnostics as editor markers
+ */
+export function useGrammarCompile(
+  grammarFiles: Array<{ name: string; content: string }>,
+  initialOptions: UseGrammarCompileOptions = {}
+): UseGrammarCompileReturn {
+  const options = { ...DEFAULT_OPTIONS, ...initialOptions };
+
+  const [result, setResult] = useState<CompileResult | null>(null);
+  const [isCompiling, setIsCompiling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Content the current result belongs to, used to place markers
+  const compiledFilesRef = useRef<Array<{ name: string; content: string }>>([]);
+  // Names and contents of the files the current result belongs to
+  const compiledKeyRef = useRef<string | null>(null);
+
+  // Only recompile when names or contents actually change
+  const filesKey = JSON.stringify(grammarFiles.map(f => [f.name, f.content]));
+
+  useEffect(() => {
+    if (!options.enabled) return;
+
+    const files = JSON.parse(filesKey) as Array<[string, string]>;
+    if (files.length === 0 || files.every(([, content]) => !content.trim())) {
+      compiledKeyRef.current = null;
+      setResult(null);
+      setError(null);
+      return;
+    }
+
+    // Edits that were undone before the debounce ran need no new check
+    if (filesKey === compiledKeyRef.current) {
+      abortRef.current?.abort();
+      setIsCompiling(false);
+      return;
+    }
+
+    debounceTimerRef.current = setTimeout(async () => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      const grammarFilesToCompile = files.map(([name, content]) => ({ name, content }));
+      setIsCompiling(true);
+      try {
+        const compileResult = await compileGrammar(grammarFilesToCompile, controller.signal);
+        compiledFilesRef.current = grammarFilesToCompile;
+        compiledKeyRef.current = filesKey;
+        setResult(compileResult);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Compile failed');
+      } finally {
+        if (abortRef.current === controller) {
+          setIsCompiling(false);
+        }
+      }
+    }, options.debounceMs);
+
+    return () => {
+      if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current);
+        debounceTimerRef.current = null;
+      }
+    };
+  }, [filesKey, options.enabled, options.debounceMs]);
+
+  // Cancel any in-flight request on unmount
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  /**
+   * Generate Monaco editor decorations for a grammar file's diagnostics
+   */
+  const getDecorations = useCallback(
+    (fileName: string): EditorDecoration[] => {
+      if (!result) return [];
+
+      const file = compiledFilesRef.current.find(f => f.name === fileName);
+      const lines = file?.content.split('\n') ?? [];
+
+      return result.diagnostics
+        .filter(d => d.file === fileName || (!d.file && compiledFilesRef.current.length === 1))
+        .map(d => {
+          const line = d.line || 1;
+          const column = d.column ?? 0;
+          return {
+            startLine: line,
+            startColumn: column + 1,
+            endLine: line,
+            endColumn: column + 1 + elementLength(lines[line - 1] ?? '', column),
+            severity: d.severity,
+            message: d.code !== undefined ? `${d.message} (${d.severity} ${d.code})` : d.message,
+            source: 'ANTLR',
+          };
+        });
+    },
+    [result]
+  );
+
+  return {
+    result,
+    isCompiling,
+    error,
+    getDecorations,
+  };
+}
+
+export default useGrammarCompile;
@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { GrammarAnalyzer } from '../grammarAnalysis';
+import type { InputAmbiguity } from '../../types';
 
 describe('GrammarAnalyzer', () => {
   let analyzer: GrammarAnalyzer;
@@ -81,6 +82,69 @@ ID : [a-z]+ ;
       expect(statement?.alternativeCount).toBe(3);
     });
 
+    it('should read alternative labels of parser rules', () => {
+      const grammar = `
+grammar Test;
+expr : expr '*' expr # Mul
+     | expr '+' expr # Add
+     | ID            # Id
+     ;
+list : ID (',' ID)* ;
+ID : [a-z]+ ;
+`;
+      const result = analyzer.analyze(grammar);
+
+      expect(result.rules.find((r) => r.name === 'expr')?.labels).toEqual([
+        { name: 'Mul', alternative: "expr '*' expr" },
+        { name: 'Add', alternative: "expr '+' expr" },
+        { name: 'Id', alternative: 'ID' },
+      ]);
+      expect(result.rules.find((r) => r.name === 'list')?.labels).toEqual([]);
+    });
+
+    it('should not end rules at semicolons in literals, char sets, actions or arguments', () => {
+      const grammar = `
+grammar Test;
+stat[int depth] returns [int value; String text] locals [int n;]
+    : expr ';' { $value = 1; } # ExprStat
+    | '{' stat* '}'            # Block
+    ;
+expr : ID ;
+SEMI : [;] ;
+ID : [a-z]+ { System.out.println(";"); } ;
+`;
+      const result = analyzer.analyze(grammar);
+
+      expect(result.rules.map((r) => r.name)).toEqual(['stat', 'expr', 'SEMI', 'ID']);
+      const stat = result.rules.find((r) => r.name === 'stat');
+      expect(stat?.alternativeCount).toBe(2);
+      expect(stat?.references).toEqual(['expr', 'stat']);
+      expect(stat?.labels).toEqual([
+        { name: 'ExprStat', alternative: "expr ';' { $value = 1; }" },
+        { name: 'Block', alternative: "'{' stat* '}'" },
+      ]);
+      expect(stat).toMatchObject({ line: 3, column: 0, endLine: 6, endColumn: 5 });
+    });
+
+    it('should keep comment markers in literals and report rule name positions', () => {
+      const grammar = `
+grammar Test;
+comment : '/*' ID '*/' ;
+  fragment LETTER : [a-z] ; // letters
+ID : LETTER+ ;
+`;
+      const result = analyzer.analyze(grammar);
+
+      expect(result.rules.find((r) => r.name === 'comment')?.text).toBe("comment : '/*' ID '*/' ;");
+      expect(result.rules.find((r) => r.name === 'LETTER')).toMatchObject({
+        type: 'fragment',
+        line: 4,
+        column: 11,
+        text: 'fragment LETTER : [a-z] ;',
+      });
+      expect(result.unusedRules).toHaveLength(0);
+    });
+
     it('should skip grammar header and options', () => {
       const grammar = `
 grammar Test;
@@ -350,6 +414,256 @@ ID : [a-z]+ ;
       expect(stmtHint).toBeDefined();
       expect(stmtHint?.commonPrefix).toContain("'return'");
     });
+
+    it('should detect alternatives whose rules begin with the same token', () => {
+      const grammar = `
+grammar Test;
+stmt : call | assign | ';' ;
+call : ID '(' ')' ;
+assign : ID '=' INT ;
+ID : [a-z]+ ;
+INT : [0-9]+ ;
+`;
+      const result = analyzer.analyze(grammar);
+
+      expect(result.ambiguityHints).toMatchObject([
+        { rule: 'stmt', line: 3, alternativeIndices: [0, 1], commonPrefix: ['ID'] },
+      ]);
+      expect(result.lookahead.find((l) => l.name === 'stmt')).toMatchObject({
+        first: ['ID', "';'"],
+        follow: ['EOF'],
+        lookahead: 2,
+      });
+      expect(result.complexity.find((c) => c.name === 'stmt')?.lookahead).toBe(2);
+    });
+  });
+
+  describe('withParseAmbiguities', () => {
+    const grammar = `
+grammar Test;
+stmt
+    : 'return' expr
+    | 'return'
+    ;
+expr : ID | ID ;
+ID : [a-z]+ ;
+`;
+
+    const ambiguity: InputAmbiguity = {
+      kind: 'ambiguity',
+      decision: 1,
+      ruleName: 'expr',
+      alternatives: [1, 2],
+      prediction: 1,
+      exact: true,
+      startIndex: 7,
+      stopIndex: 9,
+      startLine: 1,
+      startColumn: 7,
+      endLine: 1,
+      endColumn: 10,
+      text: 'foo',
+    };
+
+    it('should add hints backed by input evidence', () => {
+      const result = analyzer.withParseAmbiguities(analyzer.analyze(grammar), [ambiguity]);
+
+      const exprHint = result.ambiguityHints[0];
+      expect(exprHint.rule).toBe('expr');
+      expect(exprHint.line).toBe(7);
+      expect(exprHint.alternativeIndices).toEqual([0, 1]);
+      expect(exprHint.description).toContain('"foo"');
+      expect(exprHint.evidence).toMatchObject({ kind: 'ambiguity', startLine: 1, startColumn: 7, text: 'foo' });
+      expect(result.summary.ambiguityHints).toBe(result.ambiguityHints.length);
+    });
+
+    it('should replace prefix-based hints for rules with evidence', () => {
+      const analysis = analyzer.analyze(grammar);
+      const result = analyzer.withParseAmbiguities(analysis, [{ ...ambiguity, ruleName: 'stmt' }]);
+
+      const stmtHints = result.ambiguityHints.filter((h) => h.rule === 'stmt');
+      expect(stmtHints).toHaveLength(1);
+      expect(stmtHints[0].evidence).toBeDefined();
+    });
+
+    it('should return the result unchanged without ambiguities', () => {
+      const analysis = analyzer.analyze(grammar);
+      expect(analyzer.withParseAmbiguities(analysis, [])).toBe(analysis);
+    });
+  });
+
+  describe('findStartRules', () => {
+    it('should rank rules no other rule references first', () => {
+      const grammar = `
+grammar Test;
+expr : expr '+' term | term ;
+term : ID ;
+program : stmt* EOF ;
+stmt : expr ';' ;
+ID : [a-z]+ ;
+`;
+      expect(analyzer.findStartRules([grammar])).toEqual([
+        { name: 'program', isEntry: true },
+        { name: 'expr', isEntry: false },
+        { name: 'term', isEntry: false },
+        { name: 'stmt', isEntry: false },
+      ]);
+    });
+
+    it('should count references across grammar files', () => {
+      const parser = `
+parser grammar CalcParser;
+options { tokenVocab = CalcLexer; }
+calc : sum EOF ;
+`;
+      const module = `
+parser grammar Sums;
+sum : NUMBER ('+' NUMBER)* ;
+`;
+      const lexer = `
+lexer grammar CalcLexer;
+NUMBER : [0-9]+ ;
+`;
+      expect(analyzer.findStartRules([parser, module, lexer])).toEqual([
+        { name: 'calc', isEntry: true },
+        { name: 'sum', isEntry: false },
+      ]);
+    });
+  });
+
+  describe('findParserRules', () => {
+    it('should list parser rules of all grammar files once', () => {
+      const parser = `
+parser grammar CalcParser;
+import Sums;
+calc : sum EOF ;
+sum : NUMBER ;
+`;
+      const module = `
+parser grammar Sums;
+sum : NUMBER ('+' NUMBER)* ;
+`;
+      expect(analyzer.findParserRules([parser, module, 'lexer grammar L;\nNUMBER : [0-9]+ ;']).map((r) => r.text)).toEqual([
+        'calc : sum EOF ;',
+        'sum : NUMBER ;',
+      ]);
+    });
+  });
+
+  describe('cross-file analysis', () => {
+    const lexer = `
+lexer grammar CalcLexer;
+tokens { INDENT }
+PLUS : '+' ;
+NUMBER : [0-9]+ ;
+`;
+    const parser = `
+parser grammar CalcParser;
+options { tokenVocab = CalcLexer; }
+calc : NUMBER ('+' NUMBER)* INDENT? EOF ;
+`;
+    const files = [
+      { fileId: 'parser-id', content: parser },
+      { fileId: 'lexer-id', content: lexer },
+    ];
+
+    it('should resolve tokens and literals to lexer rules of other files', () => {
+      const result = analyzer.analyze(files);
+
+      expect(result.rules.find((r) => r.name === 'calc')?.references).toEqual(['NUMBER', 'PLUS', 'INDENT']);
+      expect(result.rules.find((r) => r.name === 'PLUS')?.referencedBy).toEqual(['calc']);
+      expect(result.unusedRules).toHaveLength(0);
+    });
+
+    it('should carry the file id on rules, tokens and issues', () => {
+      const result = analyzer.analyze([
+        ...files,
+        { fileId: 'extra-id', content: 'parser grammar Extra;\nunused : NUMBER ;' },
+      ]);
+
+      expect(result.rules.map((r) => [r.name, r.fileId])).toEqual([
+        ['calc', 'parser-id'],
+        ['PLUS', 'lexer-id'],
+        ['NUMBER', 'lexer-id'],
+        ['unused', 'extra-id'],
+      ]);
+      expect(result.tokens).toEqual([{ name: 'INDENT', line: 3, column: 9, fileId: 'lexer-id' }]);
+      expect(result.unusedRules.map((r) => [r.name, r.fileId])).toEqual([['unused', 'extra-id']]);
+      expect(result.complexity.every((c) => c.fileId !== undefined)).toBe(true);
+    });
+
+    it('should not resolve literals to lexer rules matching more than the literal', () => {
+      const result = analyzer.analyze([
+        { fileId: 'g', content: "grammar G;\ns : 'a' ;\nA : 'a'+ ;\nB : 'b' -> skip ;" },
+      ]);
+
+      expect(result.rules.find((r) => r.name === 's')?.references).toEqual([]);
+    });
+  });
+
+  describe('detectDefinitionIssues', () => {
+    it('should report undefined rules and tokens with a stub rule fix', () => {
+      const grammar = `
+grammar Test;
+prog : stmt* EOF ;
+stmt : e=expr SEMI ;
+`;
+      const result = analyzer.analyze(grammar);
+
+      expect(result.definitionIssues).toEqual([
+        expect.objectContaining({ kind: 'undefined', rule: 'stmt', name: 'expr', line: 4, column: 9, severity: 'error' }),
+        expect.objectContaining({ kind: 'undefined', rule: 'stmt', name: 'SEMI', line: 4, column: 14 }),
+      ]);
+      expect(result.definitionIssues[0].fix).toEqual({ title: "Create rule 'expr'", name: 'expr', fileId: undefined });
+      expect(result.summary.definitionIssues).toBe(2);
+      expect(result.summary.issuesBySeverity.error).toBe(2);
+    });
+
+    it('should report duplicate rules, parser rules in lexer rules and fragments in parser rules', () => {
+      const grammar = `
+grammar Test;
+prog : ID DIGIT ;
+prog : ID ;
+ID : [a-z]+ prog ;
+fragment DIGIT : [0-9] ;
+`;
+      const result = analyzer.analyze(grammar);
+
+      expect(result.definitionIssues.map((i) => [i.kind, i.rule, i.name, i.line])).toEqual([
+        ['fragmentInParser', 'prog', 'DIGIT', 3],
+        ['duplicate', 'prog', 'prog', 4],
+        ['parserRuleInLexer', 'ID', 'prog', 5],
+      ]);
+    });
+
+    it('should resolve references across files and add token stubs to the lexer grammar', () => {
+      const result = analyzer.analyze([
+        { fileId: 'lexer', content: 'lexer grammar CalcLexer;\ntokens { INDENT }\nNUMBER : [0-9]+ ;' },
+        { fileId: 'parser', content: 'parser grammar CalcParser;\noptions { tokenVocab = CalcLexer; }\ncalc : NUMBER INDENT PLUS EOF ;' },
+      ]);
+
+      expect(result.definitionIssues).toHaveLength(1);
+      expect(result.definitionIssues[0]).toMatchObject({
+        name: 'PLUS',
+        fileId: 'parser',
+        fix: { title: "Create token 'PLUS'", name: 'PLUS', fileId: 'lexer' },
+      });
+    });
+
+    it('should not check tokens of a vocabulary outside the project or rules overridden by imports', () => {
+      const result = analyzer.analyze([
+        { fileId: 'main', content: 'parser grammar Main;\noptions { tokenVocab = ExternalLexer; }\nimport Base;\ns : ID ;' },
+        { fileId: 'base', content: 'parser grammar Base;\ns : NUMBER ;' },
+      ]);
+
+      expect(result.definitionIssues).toEqual([]);
+    });
+
+    it('should respect detectDefinitionIssues option', () => {
+      const result = analyzer.analyze('grammar Test;\ns : missing ;', { detectDefinitionIssues: false });
+
+      expect(result.definitionIssues).toHaveLength(0);
+    });
   });
 
   describe('summary', () => {
@@ -406,6 +720,22 @@ NUMBER : [0-9]+ ;
       expect(result1.grammarHash).not.toBe(result2.grammarHash);
     });
 
+    it('should not reuse results analyzed with another start rule', () => {
+      const grammar = `
+grammar Test;
+prog : stmt ;
+stmt : ID ;
+other : ID ;
+ID : [a-z]+ ;
+`;
+      const fromProg = analyzer.analyze(grammar, { startRule: 'prog' });
+      const fromOther = analyzer.analyze(grammar, { startRule: 'other' });
+
+      expect(fromOther.grammarHash).not.toBe(fromProg.grammarHash);
+      expect(fromProg.unusedRules.map((r) => r.name)).toEqual(['other']);
+      expect(fromOther.unusedRules.map((r) => r.name)).toEqual(['prog']);
+    });
+
     it('should clear cache on clearCache call', () => {
       const grammar = `
 grammar Test;
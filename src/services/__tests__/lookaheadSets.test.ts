@@ -0,0 +1,85 @@
+/**
+ * Unit tests for lookahead sets
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeLookaheadSets } from '../lookaheadSets';
+import { parseGrammar } from '../../utils/antlr/grammarParser';
+
+const lookaheadOf = (grammar: string, entryRules: string[]) =>
+  computeLookaheadSets(parseGrammar(grammar).grammar.rules, entryRules);
+
+describe('computeLookaheadSets', () => {
+  it('should compute FIRST and FOLLOW sets and nullable rules', () => {
+    const sets = lookaheadOf(`
+grammar Test;
+prog : stmt* EOF ;
+stmt : ID '=' expr ';' | block ;
+block : '{' stmt* '}' ;
+expr : term (PLUS term)* ;
+term : ID | NUMBER | '(' expr ')' ;
+args : (expr (',' expr)*)? ;
+PLUS : '+' ;
+ID : [a-z]+ ;
+NUMBER : [0-9]+ ;
+`, ['prog', 'args']);
+    const byName = new Map(sets.map((s) => [s.name, s]));
+
+    expect(byName.get('prog')).toMatchObject({ first: ['ID', "'{'", 'EOF'], follow: ['EOF'], nullable: false });
+    expect(byName.get('stmt')?.follow).toEqual(expect.arrayContaining(['ID', "'{'", 'EOF', "'}'"]));
+    expect(byName.get('stmt')?.alternatives.map((a) => a.first)).toEqual([['ID'], ["'{'"]]);
+    expect(byName.get('term')?.follow).toEqual(expect.arrayContaining(["'+'", "';'", "')'", "','", 'EOF']));
+    expect(byName.get('args')).toMatchObject({ nullable: true, first: ['ID', 'NUMBER', "'('"] });
+    expect(sets.every((s) => s.conflicts.length === 0 && s.lookahead === 1)).toBe(true);
+  });
+
+  it('should report alternatives beginning with the same token', () => {
+    const [stmt] = lookaheadOf(`
+grammar Test;
+stmt : 'if' expr 'then' stmt | 'if' expr 'then' stmt 'else' stmt | call | assign ;
+call : ID '(' ')' ;
+assign : ID '=' expr ;
+expr : ID ;
+`, ['stmt']);
+
+    expect(stmt.conflicts).toEqual([
+      { alternativeIndices: [0, 1], tokens: ["'if'"], lookahead: 5 },
+      { alternativeIndices: [2, 3], tokens: ['ID'], lookahead: 2 },
+    ]);
+    expect(stmt.lookahead).toBe(5);
+  });
+
+  it('should predict alternatives matching nothing by the tokens following the rule', () => {
+    const [, modifier] = lookaheadOf(`
+grammar Test;
+decl : modifier 'static'? ID ;
+modifier : 'static' | ;
+`, ['decl']);
+
+    expect(modifier.alternatives[1]).toEqual({ first: [], nullable: true });
+    expect(modifier.follow).toEqual(["'static'", 'ID']);
+    expect(modifier.conflicts).toMatchObject([{ alternativeIndices: [0, 1], tokens: ["'static'"] }]);
+  });
+
+  it('should compare left-recursive alternatives after the recursive reference', () => {
+    const [expr] = lookaheadOf(`
+grammar Test;
+expr : expr '*' expr | expr '+' expr | expr '+' '+' | '-' expr | INT ;
+INT : [0-9]+ ;
+`, ['expr']);
+
+    expect(expr.first).toEqual(["'-'", 'INT']);
+    expect(expr.conflicts).toEqual([{ alternativeIndices: [1, 2], tokens: ["'+'"], lookahead: 2 }]);
+  });
+
+  it('should name tokens defined by a single literal by their literal', () => {
+    const [sum] = lookaheadOf(`
+grammar Test;
+sum : INT PLUS INT | INT '+' '+' ;
+PLUS : '+' ;
+INT : [0-9]+ ;
+`, ['sum']);
+
+    expect(sum.conflicts).toEqual([{ alternativeIndices: [0, 1], tokens: ['INT'], lookahead: 3 }]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for parse trace navigation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ruleStackAt,
+  traceDepths,
+  stepOverIndex,
+  stepOutIndex,
+  nextEventIndex,
+  previousEventIndex,
+  describeTraceEvent,
+} from '../parseTrace';
+import type { Token, TraceEvent } from '../../types';
+
+const tokens: Token[] = [
+  { type: 'NUMBER', text: '1', start: 0, stop: 0, line: 1, column: 0, tokenIndex: 0 },
+  { type: "'+'", text: '+', start: 1, stop: 1, line: 1, column: 1, tokenIndex: 1 },
+  { type: 'NUMBER', text: '2', start: 2, stop: 2, line: 1, column: 2, tokenIndex: 2 },
+  { type: 'EOF', text: '<EOF>', start: 3, stop: 2, line: 1, column: 3, tokenIndex: 3 },
+];
+
+// expr: term ('+' term)* ; term: NUMBER ;
+const trace: TraceEvent[] = [
+  { kind: 'enterRule', ruleName: 'expr', tokenIndex: 0 },   // 0
+  { kind: 'enterRule', ruleName: 'term', tokenIndex: 0 },   // 1
+  { kind: 'consume', tokenIndex: 0 },                       // 2
+  { kind: 'exitRule', ruleName: 'term', tokenIndex: 1 },    // 3
+  { kind: 'decision', ruleName: 'expr', tokenIndex: 1, decision: 0, alternative: 1 }, // 4
+  { kind: 'consume', tokenIndex: 1 },                       // 5
+  { kind: 'enterRule', ruleName: 'term', tokenIndex: 2 },   // 6
+  { kind: 'consume', tokenIndex: 2 },                       // 7
+  { kind: 'exitRule', ruleName: 'term', tokenIndex: 3 },    // 8
+  { kind: 'exitRule', ruleName: 'expr', tokenIndex: 3 },    // 9
+];
+
+describe('ruleStackAt', () => {
+  it('should include a rule from its entry up to its exit', () => {
+    expect(ruleStackAt(trace, 0)).toEqual(['expr']);
+    expect(ruleStackAt(trace, 2)).toEqual(['expr', 'term']);
+    expect(ruleStackAt(trace, 3)).toEqual(['expr', 'term']);
+    expect(ruleStackAt(trace, 4)).toEqual(['expr']);
+    expect(ruleStackAt(trace, 9)).toEqual(['expr']);
+  });
+});
+
+describe('traceDepths', () => {
+  it('should match the rule stack size at every step', () => {
+    expect(traceDepths(trace)).toEqual(trace.map((_, i) => ruleStackAt(trace, i).length));
+  });
+});
+
+describe('stepOverIndex', () => {
+  it('should jump from a rule entry to its exit', () => {
+    expect(stepOverIndex(trace, 1)).toBe(3);
+    expect(stepOverIndex(trace, 0)).toBe(9);
+  });
+
+  it('should move to the next step otherwise', () => {
+    expect(stepOverIndex(trace, 4)).toBe(5);
+    expect(stepOverIndex(trace, 9)).toBe(9);
+  });
+});
+
+describe('stepOutIndex', () => {
+  it('should jump to the exit of the innermost rule', () => {
+    expect(stepOutIndex(trace, 7)).toBe(8);
+    expect(stepOutIndex(trace, 4)).toBe(9);
+  });
+
+  it('should leave the caller when already exiting a rule', () => {
+    expect(stepOutIndex(trace, 3)).toBe(9);
+  });
+
+  it('should stop at the last step of a truncated trace', () => {
+    expect(stepOutIndex(trace.slice(0, 6), 2)).toBe(3);
+    expect(stepOutIndex(trace.slice(0, 6), 4)).toBe(5);
+  });
+});
+
+describe('nextEventIndex / previousEventIndex', () => {
+  it('should find steps of a kind in either direction', () => {
+    expect(nextEventIndex(trace, 2, 'consume')).toBe(5);
+    expect(nextEventIndex(trace, 7, 'consume')).toBe(-1);
+    expect(previousEventIndex(trace, 5, 'consume')).toBe(2);
+    expect(previousEventIndex(trace, 2, 'consume')).toBe(-1);
+  });
+});
+
+describe('describeTraceEvent', () => {
+  it('should describe each kind of step', () => {
+    expect(describeTraceEvent(trace[0], tokens)).toBe('enter expr');
+    expect(describeTraceEvent(trace[2], tokens)).toBe("consume NUMBER '1'");
+    expect(describeTraceEvent(trace[4], tokens)).toBe("predict alt 1 in expr (decision 0) at '+' '+'");
+    expect(describeTraceEvent({ kind: 'consume', tokenIndex: -1, text: '<missing NUMBER>' }, tokens))
+      .toBe("consume '<missing NUMBER>' (conjured)");
+    expect(describeTraceEvent({ kind: 'recover', ruleName: 'expr', tokenIndex: 1, stopTokenIndex: 2 }, tokens))
+      .toBe('recover in expr, skipped 2 token(s)');
+  });
+});
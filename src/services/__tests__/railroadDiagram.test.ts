@@ -0,0 +1,66 @@
+/**
+ * Unit tests for railroad diagrams
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildRailroadDiagram } from '../railroadDiagram';
+import { parseGrammar } from '../../utils/antlr/grammarParser';
+
+const diagramOf = (grammar: string, rule = 0) =>
+  buildRailroadDiagram(parseGrammar(grammar).grammar.rules[rule]);
+
+describe('buildRailroadDiagram', () => {
+  it('should lay out a sequence left to right on one track', () => {
+    const diagram = diagramOf("grammar G;\nassign : ID '=' expr EOF ;");
+    const { boxes } = diagram;
+
+    expect(diagram.rule).toBe('assign');
+    expect(boxes.map((b) => [b.kind, b.text, b.rule])).toEqual([
+      ['terminal', 'ID', 'ID'],
+      ['terminal', "'='", undefined],
+      ['nonterminal', 'expr', 'expr'],
+      ['terminal', 'EOF', undefined],
+    ]);
+    expect(new Set(boxes.map((b) => b.y)).size).toBe(1);
+    boxes.slice(1).forEach((box, i) => expect(box.x).toBeGreaterThan(boxes[i].x + boxes[i].width));
+    expect(diagram.width).toBeGreaterThan(boxes[3].x + boxes[3].width);
+  });
+
+  it('should stack alternatives below the first one', () => {
+    const { boxes, height } = diagramOf("grammar G;\natom : INT | ID | '(' atom ')' ;");
+
+    expect(boxes.map((b) => b.text)).toEqual(['INT', 'ID', "'('", 'atom', "')'"]);
+    expect(boxes[0].x).toBe(boxes[1].x);
+    expect(boxes[1].y).toBeGreaterThan(boxes[0].y + boxes[0].height);
+    expect(boxes[2].y).toBeGreaterThan(boxes[1].y + boxes[1].height);
+    expect(height).toBeGreaterThan(boxes[4].y + boxes[4].height);
+  });
+
+  it('should make room for bypasses above and loops below', () => {
+    const plain = diagramOf('grammar G;\nlist : ID ;');
+    const optional = diagramOf('grammar G;\nlist : ID? ;');
+    const repeated = diagramOf('grammar G;\nlist : ID+ ;');
+    const any = diagramOf('grammar G;\nlist : ID* ;');
+
+    expect(optional.boxes[0].y).toBeGreaterThan(plain.boxes[0].y);
+    expect(repeated.boxes[0].y).toBe(plain.boxes[0].y);
+    expect(repeated.height).toBeGreaterThan(plain.height);
+    expect(any.height).toBeGreaterThan(optional.height);
+    expect(any.paths.length).toBeGreaterThan(repeated.paths.length);
+  });
+
+  it('should show labels, lexer commands and predicates as comments', () => {
+    const expr = diagramOf("grammar G;\nexpr : {this.ok()}? expr '+' expr # Add | INT {count++;} # Int ;");
+    const ws = diagramOf('lexer grammar L;\nWS : [ \\t]+ -> channel(HIDDEN) ;');
+
+    expect(expr.boxes.filter((b) => b.kind === 'comment').map((b) => b.text)).toEqual([
+      '{this.ok()}?',
+      '# Add',
+      '# Int',
+    ]);
+    expect(ws.boxes.map((b) => [b.kind, b.text])).toEqual([
+      ['terminal', '[ \\t]'],
+      ['comment', '-> channel(HIDDEN)'],
+    ]);
+  });
+});
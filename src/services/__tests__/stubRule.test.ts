@@ -0,0 +1,32 @@
+/**
+ * Unit tests for stub rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { insertStubRule, stubRuleText } from '../stubRule';
+
+describe('stubRuleText', () => {
+  it('should write an empty parser rule and a lexer rule matching its name', () => {
+    expect(stubRuleText('expr')).toBe('expr : ;');
+    expect(stubRuleText('RETURN')).toBe("RETURN : 'return' ;");
+  });
+});
+
+describe('insertStubRule', () => {
+  it('should add the rule at the end of the grammar', () => {
+    expect(insertStubRule('grammar G;\ns : expr ;\n\n\n', 'expr')).toEqual({
+      content: 'grammar G;\ns : expr ;\n\nexpr : ;\n',
+      line: 4,
+    });
+    expect(insertStubRule('grammar G;\ns : expr ;', 'expr').content).toBe('grammar G;\ns : expr ;\n\nexpr : ;\n');
+  });
+
+  it('should add lexer rules before the first mode', () => {
+    const lexer = "lexer grammar L;\nA : 'a' ;\n\nmode INSIDE;\nB : 'b' ;\n";
+
+    expect(insertStubRule(lexer, 'C')).toEqual({
+      content: "lexer grammar L;\nA : 'a' ;\n\nC : 'c' ;\n\nmode INSIDE;\nB : 'b' ;\n",
+      line: 4,
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for the parse tree snapshot diff
+ */
+
+import { describe, it, expect } from 'vitest';
+import { toSnapshotTree, formatSnapshotTree, diffTrees } from '../treeDiff';
+import type { ParseNode, SnapshotNode } from '../../types';
+
+function rule(name: string, ...children: SnapshotNode[]): SnapshotNode {
+  return { type: 'rule', name, children };
+}
+
+function token(tokenType: string, text: string): SnapshotNode {
+  return { type: 'token', name: text, tokenType };
+}
+
+// expr: term ('+' term)*
+const sum = rule('expr',
+  rule('term', rule('factor', token('NUMBER', '1'))),
+  token("'+'", '+'),
+  rule('term', rule('factor', token('NUMBER', '2'))),
+);
+
+describe('toSnapshotTree', () => {
+  it('should keep only structure, names and token types', () => {
+    const tree: ParseNode = {
+      id: 'rule_0',
+      name: 'expr',
+      type: 'rule',
+      startIndex: 0,
+      stopIndex: 0,
+      children: [
+        {
+          id: 'token_1',
+          name: '1',
+          type: 'token',
+          token: { type: 'NUMBER', text: '1', start: 0, stop: 0, line: 1, column: 0, tokenIndex: 0 },
+        },
+      ],
+    };
+
+    expect(toSnapshotTree(tree)).toEqual({
+      type: 'rule',
+      name: 'expr',
+      children: [{ type: 'token', name: '1', tokenType: 'NUMBER' }],
+    });
+  });
+});
+
+describe('formatSnapshotTree', () => {
+  it('should render one indented line per node', () => {
+    expect(formatSnapshotTree(rule('expr', rule('term', token('NUMBER', '1'))))).toBe(
+      "expr\n  term\n    NUMBER '1'"
+    );
+  });
+});
+
+describe('diffTrees', () => {
+  it('should report no changes for identical trees', () => {
+    expect(diffTrees(sum, structuredClone(sum))).toEqual([]);
+  });
+
+  it('should report changed token text', () => {
+    const changed = structuredClone(sum);
+    changed.children![2].children![0].children![0].name = '3';
+
+    expect(diffTrees(sum, changed)).toEqual([
+      { kind: 'textChanged', path: ['expr', 'term', 'factor'], before: "NUMBER '2'", after: "NUMBER '3'" },
+    ]);
+  });
+
+  it('should report renamed rule nodes and keep diffing their children', () => {
+    const renamed = rule('expr',
+      rule('term', rule('factor', token('NUMBER', '1'))),
+      token("'+'", '+'),
+      rule('term', rule('atom', token('NUMBER', '5'))),
+    );
+
+    expect(diffTrees(sum, renamed)).toEqual([
+      { kind: 'renamed', path: ['expr', 'term'], before: 'factor', after: 'atom' },
+      { kind: 'textChanged', path: ['expr', 'term', 'atom'], before: "NUMBER '2'", after: "NUMBER '5'" },
+    ]);
+  });
+
+  it('should report added and removed nodes', () => {
+    const longer = rule('expr',
+      ...sum.children!,
+      token("'+'", '+'),
+      rule('term', rule('factor', token('NUMBER', '3'))),
+    );
+
+    expect(diffTrees(sum, longer)).toEqual([
+      { kind: 'added', path: ['expr'], after: "'+' '+'" },
+      { kind: 'added', path: ['expr'], after: 'term' },
+    ]);
+    expect(diffTrees(longer, sum)).toEqual([
+      { kind: 'removed', path: ['expr'], before: "'+' '+'" },
+      { kind: 'removed', path: ['expr'], before: 'term' },
+    ]);
+  });
+
+  it('should line up children around an insertion in the middle', () => {
+    const before = rule('list', token('ID', 'a'), token('ID', 'b'));
+    const after = rule('list', token('ID', 'a'), rule('nested'), token('ID', 'b'));
+
+    expect(diffTrees(before, after)).toEqual([
+      { kind: 'added', path: ['list'], after: 'nested' },
+    ]);
+  });
+
+  it('should pair a large renamed sibling list by position', () => {
+    const rows = (name: string) => rule('file', ...Array.from({ length: 6000 }, (_, i) => rule(name, token('ID', `v${i}`))));
+    const changes = diffTrees(rows('row'), rows('line'));
+
+    expect(changes).toHaveLength(6000);
+    expect(changes.every(c => c.kind === 'renamed' && c.before === 'row' && c.after === 'line')).toBe(true);
+  });
+
+  it('should line up a large sibling list around scattered edits', () => {
+    const before = Array.from({ length: 5000 }, (_, i) => rule(`r${i % 7}`));
+    const after = [...before.slice(0, 100), rule('added'), ...before.slice(100, 3000), ...before.slice(3001)];
+
+    expect(diffTrees(rule('file', ...before), rule('file', ...after))).toEqual([
+      { kind: 'added', path: ['file'], after: 'added' },
+      { kind: 'removed', path: ['file'], before: 'r4' },
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for visitor and listener skeletons
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findParserGrammar, generateVisitorSkeleton } from '../visitorSkeleton';
+import { GrammarAnalyzer } from '../grammarAnalysis';
+
+const EXPR = `
+grammar Expr;
+prog : expr+ EOF ;
+expr : expr '*' expr # Mul
+     | expr '+' expr # Add
+     | expr '-' expr # Add
+     | INT           # Int
+     ;
+INT : [0-9]+ ;
+`;
+
+const rules = new GrammarAnalyzer().findParserRules([EXPR]);
+
+describe('findParserGrammar', () => {
+  it('should find a combined grammar', () => {
+    expect(findParserGrammar([EXPR])).toEqual({ name: 'Expr', combined: true });
+  });
+
+  it('should skip lexer grammars and imported modules', () => {
+    const lexer = 'lexer grammar CalcLexer;\nINT : [0-9]+ ;';
+    const module = 'parser grammar Sums;\nsum : INT ;';
+    const parser = 'parser grammar CalcParser;\noptions { tokenVocab = CalcLexer; }\nimport Sums;\ncalc : sum ;';
+
+    expect(findParserGrammar([lexer, module, parser])).toEqual({ name: 'CalcParser', combined: false });
+    expect(findParserGrammar([lexer])).toBeUndefined();
+  });
+
+  it('should ignore declarations in comments and follow aliased imports', () => {
+    const module = '/*\ngrammar Old;\n*/\nparser grammar Sums;\nsum : INT ;';
+    const parser = 'grammar Calc;\nimport S = Sums;\ncalc : sum ;\nINT : [0-9]+ ;';
+
+    expect(findParserGrammar([module, parser])).toEqual({ name: 'Calc', combined: true });
+  });
+});
+
+describe('generateVisitorSkeleton', () => {
+  it('should write a TypeScript visitor with a method per rule and label', () => {
+    const skeleton = generateVisitorSkeleton({ name: 'Expr', combined: true }, rules, 'typescript', 'visitor');
+
+    expect(skeleton.fileName).toBe('ExprVisitorImpl.ts');
+    expect(skeleton.content).toContain("import ExprVisitor from './ExprVisitor.js';");
+    expect(skeleton.content).toContain("import { ProgContext, MulContext, AddContext, IntContext } from './ExprParser.js';");
+    expect(skeleton.content).toContain('export default class ExprVisitorImpl extends ExprVisitor<void> {');
+    expect(skeleton.content).toContain([
+      '  /**',
+      "   * expr : expr '+' expr # Add",
+      "   * expr : expr '-' expr # Add",
+      '   */',
+      '  visitAdd = (ctx: AddContext): void => {',
+      '    this.visitChildren(ctx);',
+      '  };',
+    ].join('\n'));
+    // Labeled rules have no method of their own
+    expect(skeleton.content).not.toContain('visitExpr');
+  });
+
+  it('should write a Java listener against the parser of a split grammar', () => {
+    const skeleton = generateVisitorSkeleton({ name: 'ExprParser', combined: false }, rules, 'java', 'listener');
+
+    expect(skeleton.fileName).toBe('ExprListenerImpl.java');
+    expect(skeleton.content).toContain('public class ExprListenerImpl extends ExprParserBaseListener {');
+    expect(skeleton.content).toContain([
+      '    /**',
+      '     * prog : expr+ EOF ;',
+      '     */',
+      '    @Override',
+      '    public void enterProg(ExprParser.ProgContext ctx) {',
+      '    }',
+    ].join('\n'));
+    expect(skeleton.content).toContain('    public void exitInt(ExprParser.IntContext ctx) {');
+  });
+
+  it('should write a Python visitor with the rule text as docstrings', () => {
+    const skeleton = generateVisitorSkeleton({ name: 'Expr', combined: true }, rules, 'python', 'visitor');
+
+    expect(skeleton.fileName).toBe('ExprVisitorImpl.py');
+    expect(skeleton.content).toContain('from ExprParser import ExprParser\nfrom ExprVisitor import ExprVisitor');
+    expect(skeleton.content).toContain([
+      '    def visitMul(self, ctx: ExprParser.MulContext):',
+      `        """expr : expr '*' expr # Mul"""`,
+      '        return self.visitChildren(ctx)',
+    ].join('\n'));
+  });
+
+  it('should escape comment terminators in the rule text', () => {
+    const comment = [{ ...rules[0], name: 'c', text: "c : '/*' ID '*/' ;", labels: [] }];
+
+    const java = generateVisitorSkeleton({ name: 'C', combined: true }, comment, 'java', 'visitor');
+    expect(java.content).toContain("     * c : '/*' ID '*\\/' ;");
+  });
+});
@@ -0,0 +1,31 @@
+import type { CompileResult } from '../types';
+import type { CompileRequest } from '../types/api';
+
+const API_BASE = '/api';
+
+/**
+ * Helper to handle API errors consistently
+ */
+async function handleResponse<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || errorData.error || `API error: ${response.status}`);
+    }
+    return response.json();
+}
+
+/**
+ * Run the ANTLR tool on the grammar files and return its diagnostics
+ */
+export async function compileGrammar(
+    grammarFiles: CompileRequest['grammarFiles'],
+    signal?: AbortSignal
+): Promise<CompileResult> {
+    const response = await fetch(`${API_BASE}/compile`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ grammarFiles }),
+        signal,
+    });
+    return handleResponse<CompileResult>(response);
+}
@@ -2,6 +2,7 @@ import type {
     FileMetadata,
     FileType,
     FileWithContent,
+    TestCaseSpec,
     ListFilesResponse,
     CreateFileResponse,
     UpdateFileResponse,
@@ -58,6 +59,21 @@ export async function createFile(
     return data.metadata;
 }
 
+/**
+ * Save generated sources as read-only files, replacing generated files of the same name
+ */
+export async function saveGeneratedFiles(
+    files: Array<{ name: string; content: string }>
+): Promise<FileMetadata[]> {
+    const response = await fetch(`${API_BASE}/files/generated`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ files }),
+    });
+    const data = await handleResponse<ListFilesResponse>(response);
+    return data.files;
+}
+
 /**
  * Update a file's content
  * @param id - File ID
@@ -93,6 +109,19 @@ export async function renameFile(id: string, newName: string): Promise<FileMetad
     return data.metadata;
 }
 
+/**
+ * Declare a text file as a test case, or pass `null` to remove it from the test cases
+ */
+export async function updateTestCase(id: string, testCase: TestCaseSpec | null): Promise<FileMetadata> {
+    const response = await fetch(`${API_BASE}/files/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ testCase }),
+    });
+    const data = await handleResponse<UpdateFileResponse>(response);
+    return data.metadata;
+}
+
 /**
  * Delete a file
  */
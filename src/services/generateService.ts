@@ -0,0 +1,56 @@
+import type { GrammarDiagnostic } from '../types';
+import type { GenerateRequest, GenerateFilesResponse } from '../types/api';
+
+const API_BASE = '/api';
+
+/**
+ * Error for a failed generate request. When the tool rejected the grammar,
+ * `diagnostics` holds its messages.
+ */
+export class GenerateError extends Error {
+    diagnostics: GrammarDiagnostic[];
+
+    constructor(message: string, diagnostics: GrammarDiagnostic[] = []) {
+        super(message);
+        this.name = 'GenerateError';
+        this.diagnostics = diagnostics;
+    }
+}
+
+async function postGenerate(request: GenerateRequest): Promise<Response> {
+    const response = await fetch(`${API_BASE}/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new GenerateError(
+            errorData.message || errorData.error || `API error: ${response.status}`,
+            Array.isArray(errorData.details) ? errorData.details : []
+        );
+    }
+    return response;
+}
+
+/**
+ * Generate recognizer sources and return them as a zip archive with its file name
+ */
+export async function generateArchive(
+    request: Omit<GenerateRequest, 'output'>
+): Promise<{ blob: Blob; fileName: string }> {
+    const response = await postGenerate({ ...request, output: 'zip' });
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `${request.language}.zip`;
+    return { blob: await response.blob(), fileName };
+}
+
+/**
+ * Generate recognizer sources and save them as read-only project files
+ */
+export async function generateProjectFiles(
+    request: Omit<GenerateRequest, 'output'>
+): Promise<GenerateFilesResponse> {
+    const response = await postGenerate({ ...request, output: 'files' });
+    return response.json();
+}
@@ -1,7 +1,9 @@
 /**
  * Grammar Analysis Engine
  * Analyzes ANTLR4 grammars for unused rules, complexity metrics,
- * performance bottlenecks, and potential ambiguities.
+ * performance bottlenecks, and LL(1) conflicts between alternatives. Rules,
+ * references and positions are read from the grammar AST built by the
+ * meta-grammar parser.
  */
 
 import {
@@ -9,16 +11,41 @@ import {
   AnalysisOptions,
   AnalysisSummary,
   RuleInfo,
+  DeclaredToken,
+  AnalysisFile,
+  AlternativeLabel,
   UnusedRule,
+  DefinitionIssue,
   ComplexityMetrics,
   PerformanceIssue,
   AmbiguityHint,
+  RuleLookahead,
   ReferenceGraph,
   RuleType,
   ComplexityScore,
   Severity,
+  StartRuleCandidate,
   DEFAULT_ANALYSIS_OPTIONS,
 } from './grammarAnalysis.types';
+import type { InputAmbiguity } from '../types';
+import { parseGrammar } from '../utils/antlr/grammarParser';
+import { computeLookaheadSets, singleLiteral } from './lookaheadSets';
+import type { AlternativeAst, ElementAst, GrammarAst, RuleAst } from '../utils/antlr/grammarParser';
+
+/**
+ * Grammar content to analyze, with the id of its project file if it has one
+ */
+interface GrammarSource {
+  fileId?: string;
+  content: string;
+}
+
+/**
+ * Grammar file with its AST
+ */
+interface ParsedGrammar extends GrammarSource {
+  grammar: GrammarAst;
+}
 
 /**
  * Cache entry for analysis results
@@ -34,21 +61,28 @@ interface CacheEntry {
  */
 export class GrammarAnalyzer {
   private cache: Map<string, CacheEntry> = new Map();
+  /** AST each parsed rule was read from, for the metrics computed from its structure */
+  private ruleAsts: WeakMap<RuleInfo, RuleAst> = new WeakMap();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
   /**
    * Main analysis method - analyzes grammar content and returns results
-   * @param grammarContent - The full grammar file content
+   * @param grammar - The full grammar file content, or every grammar file of
+   *   a project; rules and issues found in a file carry its id
    * @param options - Analysis configuration options
    * @returns Complete analysis result
    */
   public analyze(
-    grammarContent: string,
+    grammar: string | AnalysisFile[],
     options: AnalysisOptions = {}
   ): AnalysisResult {
     const startTime = performance.now();
     const mergedOptions = { ...DEFAULT_ANALYSIS_OPTIONS, ...options };
-    const grammarHash = this.hashGrammar(grammarContent);
+    const files: GrammarSource[] = typeof grammar === 'string' ? [{ content: grammar }] : grammar;
+    // The start rule and the other options change the results, so they are part of the key
+    const grammarHash = this.hashGrammar(
+      [JSON.stringify(mergedOptions), ...files.map((f) => `${f.fileId ?? ''}\n${f.content}`)].join('\n')
+    );
 
     // Check cache
     const cached = this.getFromCache(grammarHash);
@@ -56,8 +90,8 @@ export class GrammarAnalyzer {
       return cached;
     }
 
-    // Parse grammar to extract rules
-    const rules = this.parseGrammar(grammarContent);
+    // Parse grammars to extract rules and declared tokens
+    const { rules, tokens, grammars } = this.parseGrammarFiles(files);
 
     // Build reference graph
     const referenceGraph = this.buildReferenceGraph(rules);
@@ -65,14 +99,22 @@ export class GrammarAnalyzer {
     // Update rules with reference information
     this.updateRuleReferences(rules, referenceGraph);
 
+    // Compute FIRST and FOLLOW sets and LL(1) conflicts
+    const lookahead = this.computeLookahead(rules, mergedOptions.startRule);
+
     // Detect unused rules
     const unusedRules = mergedOptions.detectUnusedRules
       ? this.detectUnusedRules(rules, referenceGraph, mergedOptions.startRule)
       : [];
 
+    // Detect undefined references and duplicate rules
+    const definitionIssues = mergedOptions.detectDefinitionIssues
+      ? this.detectDefinitionIssues(grammars, rules, tokens)
+      : [];
+
     // Calculate complexity metrics
     const complexity = mergedOptions.analyzeComplexity
-      ? this.calculateComplexityMetrics(rules, referenceGraph, mergedOptions)
+      ? this.calculateComplexityMetrics(rules, referenceGraph, lookahead, mergedOptions)
       : [];
 
     // Detect performance issues
@@ -82,13 +124,14 @@ export class GrammarAnalyzer {
 
     // Detect ambiguity hints
     const ambiguityHints = mergedOptions.detectAmbiguity
-      ? this.detectAmbiguityHints(rules, grammarContent)
+      ? this.detectAmbiguityHints(lookahead)
       : [];
 
     // Calculate summary
     const summary = this.calculateSummary(
       rules,
       unusedRules,
+      definitionIssues,
       complexity,
       performanceIssues,
       ambiguityHints
@@ -99,10 +142,13 @@ export class GrammarAnalyzer {
     const result: AnalysisResult = {
       summary,
       rules,
+      tokens,
       unusedRules,
+      definitionIssues,
       complexity,
       performanceIssues,
       ambiguityHints,
+      lookahead,
       timestamp: Date.now(),
       duration,
       grammarHash,
@@ -115,274 +161,111 @@ export class GrammarAnalyzer {
   }
 
   /**
-   * Parse grammar content to extract all rule definitions
+   * Parse a project's grammar files into rules and declared tokens. A rule
+   * defined in several files, as when an importing grammar redefines it, is
+   * listed once. References resolve across the files: a string literal in a
+   * parser rule references the lexer rule defining it, as in a split grammar.
    */
-  private parseGrammar(content: string): RuleInfo[] {
-    const rules: RuleInfo[] = [];
-
-    // First, remove comments and clean up the content
-    const cleanedContent = this.removeComments(content);
-
-    // Remove header blocks (@header, @members, options, etc.)
-    const contentWithoutHeaders = this.removeHeaderBlocks(cleanedContent);
-
-    // Extract rules using regex
-    // Fragment rule pattern
-    const fragmentPattern = /fragment\s+([A-Z][a-zA-Z0-9_]*)\s*:([\s\S]*?);/g;
-    // Lexer rule pattern (uppercase, at start of line or after whitespace/newline)
-    const lexerRulePattern = /(?:^|\n)\s*([A-Z][a-zA-Z0-9_]*)\s*:([\s\S]*?);/g;
-    // Parser rule pattern (lowercase, at start of line or after whitespace/newline)
-    const parserRulePattern = /(?:^|\n)\s*([a-z][a-zA-Z0-9_]*)\s*:([\s\S]*?);/g;
-
-    // Helper to find line number for a position in original content
-    const getLineNumber = (pos: number): number => {
-      let lineNum = 1;
-      for (let i = 0; i < pos && i < content.length; i++) {
-        if (content[i] === '\n') lineNum++;
+  private parseGrammarFiles(
+    files: GrammarSource[]
+  ): { rules: RuleInfo[]; tokens: DeclaredToken[]; grammars: ParsedGrammar[] } {
+    const parsed = files.map((file) => this.parseGrammar(file.content, file.fileId));
+    const rules = parsed
+      .flatMap((p) => p.rules)
+      .filter((rule, index, all) => all.findIndex((r) => r.name === rule.name) === index);
+
+    // Lexer rules matching a single literal define the token for that literal
+    const literalTokens = new Map<string, string>();
+    for (const rule of rules) {
+      const ast = this.ruleAsts.get(rule);
+      const literal = ast && singleLiteral(ast);
+      if (literal && !literalTokens.has(literal.value)) {
+        literalTokens.set(literal.value, rule.name);
       }
-      return lineNum;
-    };
-
-    // Helper to find column in original content
-    const getColumn = (pos: number): number => {
-      let lastNewline = content.lastIndexOf('\n', pos - 1);
-      return pos - lastNewline - 1;
-    };
-
-    // Track processed rule names to avoid duplicates
-    const processedRules = new Set<string>();
-
-    // Process fragment rules first
-    let match;
-    while ((match = fragmentPattern.exec(contentWithoutHeaders)) !== null) {
-      const ruleName = match[1];
-      if (processedRules.has(ruleName)) continue;
-      processedRules.add(ruleName);
-
-      const ruleBody = match[2];
-      const ruleText = `fragment ${ruleName} :${ruleBody};`;
-
-      // Find position in original content
-      const originalPos = content.indexOf(`fragment ${ruleName}`);
-      const lineNumber = originalPos >= 0 ? getLineNumber(originalPos) : 1;
-      const column = originalPos >= 0 ? getColumn(originalPos) : 0;
-
-      // Find end position
-      const endPos = content.indexOf(';', originalPos + ruleName.length);
-      const endLine = endPos >= 0 ? getLineNumber(endPos) : lineNumber;
-      const endColumn = endPos >= 0 ? getColumn(endPos) + 1 : ruleText.length;
-
-      rules.push({
-        name: ruleName,
-        type: 'fragment',
-        line: lineNumber,
-        column,
-        endLine,
-        endColumn,
-        text: ruleText.trim(),
-        alternativeCount: this.countAlternatives(ruleText),
-        references: [],
-        referencedBy: [],
-      });
     }
 
-    // Process lexer rules (but exclude fragments)
-    // First, collect all fragment names
-    const fragmentNames = new Set(rules.filter(r => r.type === 'fragment').map(r => r.name));
-
-    while ((match = lexerRulePattern.exec(contentWithoutHeaders)) !== null) {
-      const ruleName = match[1];
-      if (processedRules.has(ruleName) || fragmentNames.has(ruleName)) continue;
-
-      // Skip if this is actually a fragment (check original content)
-      const fragCheck = new RegExp(`fragment\\s+${ruleName}\\s*:`);
-      if (fragCheck.test(content)) continue;
-
-      processedRules.add(ruleName);
-
-      const ruleBody = match[2];
-      const ruleText = `${ruleName} :${ruleBody};`;
-
-      // Find position in original content
-      const originalPos = this.findRulePosition(content, ruleName);
-      const lineNumber = originalPos >= 0 ? getLineNumber(originalPos) : 1;
-      const column = originalPos >= 0 ? getColumn(originalPos) : 0;
-
-      // Find end position
-      const endPos = content.indexOf(';', originalPos + ruleName.length);
-      const endLine = endPos >= 0 ? getLineNumber(endPos) : lineNumber;
-      const endColumn = endPos >= 0 ? getColumn(endPos) + 1 : ruleText.length;
-
-      rules.push({
-        name: ruleName,
-        type: 'lexer',
-        line: lineNumber,
-        column,
-        endLine,
-        endColumn,
-        text: ruleText.trim(),
-        alternativeCount: this.countAlternatives(ruleText),
-        references: [],
-        referencedBy: [],
-      });
+    for (const rule of rules) {
+      const ast = this.ruleAsts.get(rule);
+      rule.references = ast
+        ? this.extractReferences(ast.alternatives, rule.type === 'parser' ? literalTokens : new Map())
+        : [];
     }
 
-    // Process parser rules
-    while ((match = parserRulePattern.exec(contentWithoutHeaders)) !== null) {
-      const ruleName = match[1];
-      if (processedRules.has(ruleName)) continue;
-
-      // Skip ANTLR keywords
-      if (this.isKeyword(ruleName)) continue;
-
-      processedRules.add(ruleName);
-
-      const ruleBody = match[2];
-      const ruleText = `${ruleName} :${ruleBody};`;
-
-      // Find position in original content
-      const originalPos = this.findRulePosition(content, ruleName);
-      const lineNumber = originalPos >= 0 ? getLineNumber(originalPos) : 1;
-      const column = originalPos >= 0 ? getColumn(originalPos) : 0;
-
-      // Find end position
-      const endPos = content.indexOf(';', originalPos + ruleName.length);
-      const endLine = endPos >= 0 ? getLineNumber(endPos) : lineNumber;
-      const endColumn = endPos >= 0 ? getColumn(endPos) + 1 : ruleText.length;
+    return {
+      rules,
+      tokens: parsed.flatMap((p) => p.tokens),
+      grammars: files.map((file, i) => ({ ...file, grammar: parsed[i].grammar })),
+    };
+  }
 
-      rules.push({
-        name: ruleName,
-        type: 'parser',
-        line: lineNumber,
-        column,
+  /**
+   * Parse grammar content into rules. Rules are read from the grammar's AST,
+   * so literals, char sets, actions and rule arguments never cut a rule short.
+   * Rules with syntax errors are left out; a rule defined twice is listed once.
+   */
+  private parseGrammar(
+    content: string,
+    fileId?: string
+  ): { rules: RuleInfo[]; tokens: DeclaredToken[]; grammar: GrammarAst } {
+    const rules: RuleInfo[] = [];
+    const processedRules = new Set<string>();
+    const { grammar } = parseGrammar(content);
+
+    for (const ast of grammar.rules) {
+      if (processedRules.has(ast.name)) continue;
+      processedRules.add(ast.name);
+
+      const type: RuleType = ast.kind === 'parser'
+        ? 'parser'
+        : ast.modifiers.includes('fragment') ? 'fragment' : 'lexer';
+
+      // The span ends after the semicolon (or exception handlers)
+      const beforeEnd = content.slice(0, ast.span.end);
+      const endLine = beforeEnd.split('\n').length;
+      const endColumn = beforeEnd.length - beforeEnd.lastIndexOf('\n') - 1;
+
+      const rule: RuleInfo = {
+        name: ast.name,
+        type,
+        line: ast.nameSpan.line,
+        column: ast.nameSpan.column,
         endLine,
         endColumn,
-        text: ruleText.trim(),
-        alternativeCount: this.countAlternatives(ruleText),
+        text: content.slice(ast.span.start, ast.span.end),
+        alternativeCount: ast.alternatives.length,
+        labels: type === 'parser' ? this.extractLabels(ast, content) : [],
         references: [],
         referencedBy: [],
-      });
-    }
-
-    return rules;
-  }
-
-  /**
-   * Find the position of a rule definition in the content
-   */
-  private findRulePosition(content: string, ruleName: string): number {
-    // Look for the rule name followed by optional whitespace and colon
-    const pattern = new RegExp(`(^|\\n|\\s)(${ruleName})\\s*:`, 'm');
-    const match = content.match(pattern);
-    if (match && match.index !== undefined) {
-      return match.index + match[0].indexOf(ruleName);
+        fileId,
+      };
+      this.ruleAsts.set(rule, ast);
+      rules.push(rule);
     }
-    return -1;
-  }
-
-  /**
-   * Remove comments from content
-   */
-  private removeComments(content: string): string {
-    // Remove single-line comments
-    let result = content.replace(/\/\/[^\n]*/g, '');
-    // Remove multi-line comments
-    result = result.replace(/\/\*[\s\S]*?\*\//g, '');
-    return result;
-  }
 
-  /**
-   * Remove header blocks like grammar declaration, options, @header, etc.
-   */
-  private removeHeaderBlocks(content: string): string {
-    let result = content;
-
-    // Remove grammar declaration (including the grammar name)
-    result = result.replace(/(grammar|lexer\s+grammar|parser\s+grammar)\s+[a-zA-Z_][a-zA-Z0-9_]*\s*;/g, '');
-
-    // Remove options blocks (handle nested braces)
-    result = this.removeBlock(result, /options\s*\{/g);
-
-    // Remove tokens blocks
-    result = this.removeBlock(result, /tokens\s*\{/g);
-
-    // Remove @header, @members, etc. blocks
-    result = result.replace(/@[a-zA-Z_][a-zA-Z0-9_:]*\s*\{[^}]*\}/g, '');
-
-    // Remove import statements
-    result = result.replace(/import\s+[^;]+;/g, '');
+    const tokens = grammar.tokens.map((token): DeclaredToken => ({
+      name: token.name,
+      line: token.span.line,
+      column: token.span.column,
+      fileId,
+    }));
 
-    // Remove channels blocks
-    result = this.removeBlock(result, /channels\s*\{/g);
-
-    // Remove mode declarations (but not mode actions)
-    result = result.replace(/^mode\s+[a-zA-Z_][a-zA-Z0-9_]*\s*;/gm, '');
-
-    return result;
+    return { rules, tokens, grammar };
   }
 
   /**
-   * Remove a block starting with a pattern and ending with matching brace
+   * Walk the elements of alternatives, including those nested in blocks
    */
-  private removeBlock(content: string, startPattern: RegExp): string {
-    let result = content;
-    let match;
-
-    while ((match = startPattern.exec(result)) !== null) {
-      const startIdx = match.index;
-      let braceCount = 1;
-      let endIdx = startIdx + match[0].length;
-
-      while (endIdx < result.length && braceCount > 0) {
-        if (result[endIdx] === '{') braceCount++;
-        else if (result[endIdx] === '}') braceCount--;
-        endIdx++;
-      }
-
-      result = result.substring(0, startIdx) + result.substring(endIdx);
-      startPattern.lastIndex = 0; // Reset regex state
-    }
-
-    return result;
-  }
-
-  /**
-   * Count alternatives (|) in a rule
-   */
-  private countAlternatives(ruleText: string): number {
-    let count = 1;
-    let depth = 0;
-    let inString = false;
-    let stringChar = '';
-
-    for (let i = 0; i < ruleText.length; i++) {
-      const char = ruleText[i];
-      const prevChar = ruleText[i - 1];
-
-      // Track strings
-      if ((char === '"' || char === "'") && prevChar !== '\\') {
-        if (!inString) {
-          inString = true;
-          stringChar = char;
-        } else if (char === stringChar) {
-          inString = false;
+  private *walkElements(alternatives: AlternativeAst[]): Generator<ElementAst> {
+    for (const alternative of alternatives) {
+      for (const element of alternative.elements) {
+        yield element;
+        if (element.kind === 'block') {
+          yield* this.walkElements(element.alternatives);
+        } else if (element.kind === 'not') {
+          yield* element.elements;
         }
-        continue;
-      }
-
-      if (inString) continue;
-
-      // Track parentheses depth
-      if (char === '(') depth++;
-      if (char === ')') depth--;
-
-      // Count top-level alternatives only
-      if (char === '|' && depth === 0) {
-        count++;
       }
     }
-
-    return count;
   }
 
   /**
@@ -403,10 +286,9 @@ export class GrammarAnalyzer {
 
     // Build references
     for (const rule of rules) {
-      const refs = this.extractReferences(rule.text, rule.type);
       const node = graph.get(rule.name)!;
 
-      for (const ref of refs) {
+      for (const ref of rule.references) {
         node.references.add(ref);
 
         // Update referenced rule's referencedBy
@@ -421,100 +303,25 @@ export class GrammarAnalyzer {
   }
 
   /**
-   * Extract rule/token references from rule text
+   * Extract the rules and tokens referenced by a rule's alternatives, in order
+   * @param literalTokens - Lexer rule defining the token of each literal value
    */
-  private extractReferences(ruleText: string, _ruleType: RuleType): string[] {
+  private extractReferences(
+    alternatives: AlternativeAst[],
+    literalTokens: Map<string, string>
+  ): string[] {
     const references: Set<string> = new Set();
 
-    // Remove the rule name and colon
-    const colonIndex = ruleText.indexOf(':');
-    if (colonIndex === -1) return [];
-
-    const body = ruleText.substring(colonIndex + 1);
-
-    // Remove strings
-    const withoutStrings = body.replace(/'[^']*'|"[^"]*"/g, '');
-
-    // Remove comments
-    const withoutComments = withoutStrings
-      .replace(/\/\/[^\n]*/g, '')
-      .replace(/\/\*[\s\S]*?\*\//g, '');
-
-    // Remove action blocks
-    const withoutActions = this.removeActionBlocks(withoutComments);
-
-    // Find identifiers
-    // Parser rules: lowercase start
-    // Lexer rules/tokens: uppercase start
-    const identifierPattern = /\b([a-zA-Z_][a-zA-Z0-9_]*)\b/g;
-    let match;
-
-    while ((match = identifierPattern.exec(withoutActions)) !== null) {
-      const name = match[1];
-      // Skip keywords
-      if (this.isKeyword(name)) continue;
-      // Skip if it's a semantic predicate or action reference
-      if (name.startsWith('$')) continue;
-
-      references.add(name);
-    }
-
-    return Array.from(references);
-  }
-
-  /**
-   * Remove action blocks {...} from text
-   */
-  private removeActionBlocks(text: string): string {
-    let result = '';
-    let braceDepth = 0;
-
-    for (let i = 0; i < text.length; i++) {
-      const char = text[i];
-
-      if (char === '{') {
-        braceDepth++;
-      } else if (char === '}') {
-        braceDepth--;
-      } else if (braceDepth === 0) {
-        result += char;
+    for (const element of this.walkElements(alternatives)) {
+      // EOF is predefined, not a rule of the grammar
+      if ((element.kind === 'ruleRef' || element.kind === 'tokenRef') && element.name !== 'EOF') {
+        references.add(element.name);
+      } else if (element.kind === 'literal' && literalTokens.has(element.value)) {
+        references.add(literalTokens.get(element.value)!);
       }
     }
 
-    return result;
-  }
-
-  /**
-   * Check if identifier is an ANTLR keyword
-   */
-  private isKeyword(name: string): boolean {
-    const keywords = [
-      'fragment',
-      'grammar',
-      'lexer',
-      'parser',
-      'options',
-      'tokens',
-      'channels',
-      'import',
-      'mode',
-      'returns',
-      'locals',
-      'throws',
-      'catch',
-      'finally',
-      'true',
-      'false',
-      'null',
-      'skip',
-      'channel',
-      'type',
-      'more',
-      'popMode',
-      'pushMode',
-      'EOF',
-    ];
-    return keywords.includes(name);
+    return Array.from(references);
   }
 
   /**
@@ -570,6 +377,7 @@ export class GrammarAnalyzer {
         type: rule.type,
         line: rule.line,
         column: rule.column,
+        fileId: rule.fileId,
         suggestion:
           rule.type === 'fragment'
             ? `Fragment '${rule.name}' is never used by other lexer rules. Consider removing it.`
@@ -580,24 +388,161 @@ export class GrammarAnalyzer {
     return unusedRules;
   }
 
+  /**
+   * Detect the references and definitions the ANTLR tool rejects: undefined
+   * rules and tokens, rules defined twice in a grammar, parser rules used in
+   * lexer rules and fragments used in parser rules. A rule redefined in an
+   * importing grammar overrides the imported one and isn't a duplicate.
+   */
+  private detectDefinitionIssues(
+    grammars: ParsedGrammar[],
+    rules: RuleInfo[],
+    tokens: DeclaredToken[]
+  ): DefinitionIssue[] {
+    const issues: DefinitionIssue[] = [];
+    const rulesByName = new Map(rules.map((r) => [r.name, r]));
+    const tokenNames = new Set(tokens.map((t) => t.name));
+    const grammarsByName = new Map(grammars.map((g) => [g.grammar.name, g]));
+
+    // Tokens of a lexer grammar outside the project can't be checked, in the
+    // grammar using it nor in the grammars it imports
+    const externalVocabulary = new Set<string>();
+    const addExternal = (name: string) => {
+      if (externalVocabulary.has(name)) return;
+      externalVocabulary.add(name);
+      grammarsByName.get(name)?.grammar.imports.forEach((i) => addExternal(i.name));
+    };
+    for (const { grammar } of grammars) {
+      const tokenVocab = grammar.options.find((o) => o.name === 'tokenVocab')?.value;
+      if (tokenVocab && !grammarsByName.has(tokenVocab)) addExternal(grammar.name);
+    }
+
+    for (const { grammar, content, fileId } of grammars) {
+      const tokenVocab = grammar.options.find((o) => o.name === 'tokenVocab')?.value;
+      const checkTokens = !externalVocabulary.has(grammar.name);
+      const defined = new Map<string, RuleAst>();
+
+      for (const ast of grammar.rules) {
+        const first = defined.get(ast.name);
+        if (first) {
+          issues.push({
+            kind: 'duplicate',
+            rule: ast.name,
+            name: ast.name,
+            line: ast.nameSpan.line,
+            column: ast.nameSpan.column,
+            severity: 'error',
+            message: `Rule '${ast.name}' is already defined at line ${first.nameSpan.line}.`,
+            fileId,
+          });
+          continue;
+        }
+        defined.set(ast.name, ast);
+
+        for (const element of this.walkElements(ast.alternatives)) {
+          if (element.kind !== 'ruleRef' && element.kind !== 'tokenRef') continue;
+          const { name } = element;
+          // A labeled element's span starts at its label
+          const offset = element.label
+            ? content.indexOf(name, element.label.span.end)
+            : element.span.start;
+          const before = content.slice(0, offset);
+          const position = {
+            rule: ast.name,
+            name,
+            line: before.split('\n').length,
+            column: offset - before.lastIndexOf('\n') - 1,
+            severity: 'error' as Severity,
+            fileId,
+          };
+          const target = rulesByName.get(name);
+
+          if (ast.kind === 'lexer' && element.kind === 'ruleRef') {
+            issues.push({
+              ...position,
+              kind: 'parserRuleInLexer',
+              message: `Lexer rule '${ast.name}' references parser rule '${name}'; lexer rules can only reference lexer rules and fragments.`,
+            });
+          } else if (!target && !tokenNames.has(name) && name !== 'EOF') {
+            if (element.kind === 'tokenRef' && !checkTokens) continue;
+            issues.push({
+              ...position,
+              kind: 'undefined',
+              message: element.kind === 'ruleRef'
+                ? `Rule '${name}' is referenced but never defined.`
+                : `Token '${name}' is referenced but never defined.`,
+              fix: {
+                title: `Create ${element.kind === 'ruleRef' ? 'rule' : 'token'} '${name}'`,
+                name,
+                fileId: element.kind === 'tokenRef' && grammar.type === 'parser'
+                  ? this.findLexerGrammar(grammars, tokenVocab)?.fileId ?? fileId
+                  : fileId,
+              },
+            });
+          } else if (ast.kind === 'parser' && target?.type === 'fragment') {
+            issues.push({
+              ...position,
+              kind: 'fragmentInParser',
+              message: `Fragment '${name}' is not a token and can't be used in parser rule '${ast.name}'.`,
+            });
+          }
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Find the lexer grammar a parser grammar takes its tokens from: its
+   * tokenVocab, or else the project's lexer grammar
+   */
+  private findLexerGrammar(
+    grammars: ParsedGrammar[],
+    tokenVocab: string | undefined
+  ): ParsedGrammar | undefined {
+    return grammars.find((g) => g.grammar.name === tokenVocab)
+      ?? grammars.find((g) => g.grammar.type === 'lexer');
+  }
+
+  /**
+   * Compute the FIRST and FOLLOW sets of the parser rules. The start rule
+   * and the rules no other rule references can end the input.
+   */
+  private computeLookahead(rules: RuleInfo[], startRule: string): RuleLookahead[] {
+    const asts = rules.map((rule) => this.ruleAsts.get(rule)).filter((ast): ast is RuleAst => !!ast);
+    const entryRules = rules
+      .filter((rule) => rule.name === startRule || rule.referencedBy.every((name) => name === rule.name))
+      .map((rule) => rule.name);
+    const fileIds = new Map(rules.map((rule) => [rule.name, rule.fileId]));
+
+    return computeLookaheadSets(asts, entryRules).map((sets) => ({
+      ...sets,
+      fileId: fileIds.get(sets.name),
+    }));
+  }
+
   /**
    * Calculate complexity metrics for each rule
    */
   private calculateComplexityMetrics(
     rules: RuleInfo[],
     graph: ReferenceGraph,
+    lookaheadSets: RuleLookahead[],
     options: Required<AnalysisOptions>
   ): ComplexityMetrics[] {
     const metrics: ComplexityMetrics[] = [];
+    const lookaheadByRule = new Map(lookaheadSets.map((l) => [l.name, l.lookahead]));
 
     // Detect recursion first
     const recursionInfo = this.detectRecursion(rules, graph);
 
     for (const rule of rules) {
-      const depth = this.calculateRuleDepth(rule.text);
+      const alternatives = this.ruleAsts.get(rule)?.alternatives ?? [];
+      const depth = this.calculateRuleDepth(alternatives);
       const node = graph.get(rule.name);
       const referenceCount = node ? node.references.size : 0;
-      const lookahead = this.estimateLookahead(rule.text);
+      const lookahead = lookaheadByRule.get(rule.name) ?? 1;
 
       const { complexityValue, score } = this.calculateComplexityScore(
         depth,
@@ -621,6 +566,7 @@ export class GrammarAnalyzer {
         lookahead,
         score,
         complexityValue,
+        fileId: rule.fileId,
       });
     }
 
@@ -631,36 +577,16 @@ export class GrammarAnalyzer {
   }
 
   /**
-   * Calculate nesting depth of a rule
+   * Calculate the nesting depth of blocks in a rule
    */
-  private calculateRuleDepth(ruleText: string): number {
+  private calculateRuleDepth(alternatives: AlternativeAst[]): number {
     let maxDepth = 0;
-    let currentDepth = 0;
-    let inString = false;
-    let stringChar = '';
-
-    for (let i = 0; i < ruleText.length; i++) {
-      const char = ruleText[i];
-      const prevChar = ruleText[i - 1];
-
-      // Track strings
-      if ((char === '"' || char === "'") && prevChar !== '\\') {
-        if (!inString) {
-          inString = true;
-          stringChar = char;
-        } else if (char === stringChar) {
-          inString = false;
-        }
-        continue;
-      }
 
-      if (inString) continue;
-
-      if (char === '(' || char === '[') {
-        currentDepth++;
-        maxDepth = Math.max(maxDepth, currentDepth);
-      } else if (char === ')' || char === ']') {
-        currentDepth--;
+    for (const alternative of alternatives) {
+      for (const element of alternative.elements) {
+        if (element.kind === 'block') {
+          maxDepth = Math.max(maxDepth, 1 + this.calculateRuleDepth(element.alternatives));
+        }
       }
     }
 
@@ -746,100 +672,20 @@ export class GrammarAnalyzer {
   }
 
   /**
-   * Estimate lookahead requirement for a rule
+   * Find the labeled alternatives (`expr '+' expr # Add`) of a parser rule
    */
-  private estimateLookahead(ruleText: string): number {
-    // Simple heuristic based on rule structure
-    let lookahead = 1;
-
-    // Count optional elements at the start of alternatives
-    const alternatives = this.splitAlternatives(ruleText);
-
-    if (alternatives.length > 1) {
-      // Check for common prefixes
-      const prefixes = alternatives.map((alt) =>
-        this.extractPrefix(alt).toLowerCase()
-      );
-      const uniquePrefixes = new Set(prefixes);
-
-      if (uniquePrefixes.size < alternatives.length) {
-        // Common prefixes increase lookahead
-        lookahead = Math.min(lookahead + 2, 5);
-      }
+  private extractLabels(rule: RuleAst, content: string): AlternativeLabel[] {
+    const labels: AlternativeLabel[] = [];
+    for (const alternative of rule.alternatives) {
+      if (!alternative.label) continue;
+      // The alternative's span runs through the label
+      const text = content
+        .slice(alternative.span.start, alternative.label.span.start)
+        .replace(/#\s*$/, '')
+        .trim();
+      labels.push({ name: alternative.label.name, alternative: text });
     }
-
-    // Optional elements at start increase lookahead
-    if (ruleText.includes('?') || ruleText.includes('*')) {
-      lookahead++;
-    }
-
-    // Nested rules increase lookahead
-    const depth = this.calculateRuleDepth(ruleText);
-    if (depth > 2) {
-      lookahead += Math.floor(depth / 2);
-    }
-
-    return Math.min(lookahead, 10); // Cap at 10
-  }
-
-  /**
-   * Split rule body into alternatives
-   */
-  private splitAlternatives(ruleText: string): string[] {
-    const colonIndex = ruleText.indexOf(':');
-    if (colonIndex === -1) return [ruleText];
-
-    const body = ruleText.substring(colonIndex + 1);
-    const alternatives: string[] = [];
-    let current = '';
-    let depth = 0;
-    let inString = false;
-    let stringChar = '';
-
-    for (let i = 0; i < body.length; i++) {
-      const char = body[i];
-      const prevChar = body[i - 1];
-
-      // Track strings
-      if ((char === '"' || char === "'") && prevChar !== '\\') {
-        if (!inString) {
-          inString = true;
-          stringChar = char;
-        } else if (char === stringChar) {
-          inString = false;
-        }
-      }
-
-      if (!inString) {
-        if (char === '(' || char === '[' || char === '{') depth++;
-        if (char === ')' || char === ']' || char === '}') depth--;
-
-        if (char === '|' && depth === 0) {
-          alternatives.push(current.trim());
-          current = '';
-          continue;
-        }
-      }
-
-      current += char;
-    }
-
-    if (current.trim()) {
-      alternatives.push(current.trim().replace(/;$/, ''));
-    }
-
-    return alternatives;
-  }
-
-  /**
-   * Extract the first token/rule reference from an alternative
-   */
-  private extractPrefix(alternative: string): string {
-    // Find first identifier or string literal
-    const match = alternative.match(
-      /^\s*(?:'[^']*'|"[^"]*"|[a-zA-Z_][a-zA-Z0-9_]*)/
-    );
-    return match ? match[0].trim() : '';
+    return labels;
   }
 
   /**
@@ -900,6 +746,7 @@ export class GrammarAnalyzer {
           type: rule.type,
           line: rule.line,
           column: rule.column,
+          fileId: rule.fileId,
           severity: 'warning',
           issue: 'High backtracking potential',
           description: `Rule has ${metrics.alternatives} alternatives with lookahead of ${metrics.lookahead}, which may cause excessive backtracking.`,
@@ -916,6 +763,7 @@ export class GrammarAnalyzer {
           type: rule.type,
           line: rule.line,
           column: rule.column,
+          fileId: rule.fileId,
           severity: 'warning',
           issue: 'High lookahead requirement',
           description: `Rule requires estimated lookahead of ${metrics.lookahead} tokens.`,
@@ -932,6 +780,7 @@ export class GrammarAnalyzer {
           type: rule.type,
           line: rule.line,
           column: rule.column,
+          fileId: rule.fileId,
           severity: 'info',
           issue: 'Deep indirect recursion',
           description: `Rule has indirect recursion with depth ${metrics.depth}, which may cause deep stack usage.`,
@@ -948,6 +797,7 @@ export class GrammarAnalyzer {
           type: rule.type,
           line: rule.line,
           column: rule.column,
+          fileId: rule.fileId,
           severity: 'info',
           issue: 'Deep nesting',
           description: `Rule has nesting depth of ${metrics.depth}, which increases memory usage.`,
@@ -963,6 +813,7 @@ export class GrammarAnalyzer {
           type: rule.type,
           line: rule.line,
           column: rule.column,
+          fileId: rule.fileId,
           severity: 'error',
           issue: 'Critical complexity',
           description: `Rule has critical complexity score (${metrics.complexityValue}). This may severely impact parse performance.`,
@@ -988,51 +839,123 @@ export class GrammarAnalyzer {
   }
 
   /**
-   * Detect potential ambiguity hints
+   * Report the LL(1) conflicts as ambiguity hints: alternatives the next
+   * token can't choose between, which ANTLR resolves with more lookahead
    */
-  private detectAmbiguityHints(
-    rules: RuleInfo[],
-    _grammarContent: string
-  ): AmbiguityHint[] {
-    const hints: AmbiguityHint[] = [];
+  private detectAmbiguityHints(lookahead: RuleLookahead[]): AmbiguityHint[] {
+    return lookahead.flatMap((rule) =>
+      rule.conflicts.map((conflict): AmbiguityHint => {
+        const alternatives = conflict.alternativeIndices.map((i) => i + 1).join(', ');
+        const tokens = conflict.tokens.length > 5
+          ? `${conflict.tokens.slice(0, 5).join(', ')} and ${conflict.tokens.length - 5} more`
+          : conflict.tokens.join(', ');
+
+        return {
+          rule: rule.name,
+          line: rule.line,
+          fileId: rule.fileId,
+          alternativeIndices: conflict.alternativeIndices,
+          commonPrefix: conflict.tokens,
+          description: `Alternatives ${alternatives} can each begin with ${tokens}, so choosing between them takes at least ${conflict.lookahead} tokens of lookahead.`,
+        };
+      })
+    );
+  }
 
-    for (const rule of rules) {
-      if (rule.type !== 'parser') continue;
-
-      const alternatives = this.splitAlternatives(rule.text);
-      if (alternatives.length < 2) continue;
-
-      // Extract first tokens of each alternative
-      const prefixes = alternatives.map((alt, idx) => ({
-        index: idx,
-        prefix: this.extractPrefix(alt),
-      }));
-
-      // Group by common prefix
-      const groups = new Map<string, number[]>();
-      for (const { index, prefix } of prefixes) {
-        const normalized = prefix.toLowerCase();
-        if (!groups.has(normalized)) {
-          groups.set(normalized, []);
-        }
-        groups.get(normalized)!.push(index);
-      }
+  /**
+   * List the parser rules of a project's grammars as start rule candidates.
+   * Entry rules, which no other rule references, come first; otherwise rules
+   * keep their definition order.
+   * @param grammarContents - Content of every grammar file in the project
+   */
+  public findStartRules(grammarContents: string[]): StartRuleCandidate[] {
+    const { rules } = this.parseGrammarFiles(grammarContents.map((content) => ({ content })));
+    const graph = this.buildReferenceGraph(rules);
+
+    const candidates = rules
+      .filter((rule) => rule.type === 'parser')
+      .map((rule) => {
+        const referencedBy = graph.get(rule.name)?.referencedBy ?? new Set<string>();
+        // Recursion alone doesn't make a rule part of another one
+        const isEntry = [...referencedBy].every((name) => name === rule.name);
+        return { name: rule.name, isEntry };
+      });
 
-      // Find groups with multiple alternatives
-      for (const [prefix, indices] of groups) {
-        if (indices.length > 1 && prefix) {
-          hints.push({
-            rule: rule.name,
-            line: rule.line,
-            alternativeIndices: indices,
-            commonPrefix: [prefix],
-            description: `Alternatives ${indices.map((i) => i + 1).join(', ')} start with the same token '${prefix}', which may cause ambiguity.`,
-          });
-        }
-      }
-    }
+    return [
+      ...candidates.filter((c) => c.isEntry),
+      ...candidates.filter((c) => !c.isEntry),
+    ];
+  }
 
-    return hints;
+  /**
+   * List the parser rules of a project's grammars in definition order, with
+   * their labeled alternatives. A rule redefined in an importing grammar is
+   * listed once.
+   * @param grammarContents - Content of every grammar file in the project
+   */
+  public findParserRules(grammarContents: string[]): RuleInfo[] {
+    const { rules } = this.parseGrammarFiles(grammarContents.map((content) => ({ content })));
+    return rules.filter((rule) => rule.type === 'parser');
+  }
+
+  /**
+   * Add the ambiguities reported during a parse to an analysis result.
+   * Hints backed by input evidence replace the LL(1) conflicts found in the
+   * same rule.
+   */
+  public withParseAmbiguities(
+    result: AnalysisResult,
+    ambiguities: InputAmbiguity[]
+  ): AnalysisResult {
+    if (ambiguities.length === 0) return result;
+
+    const rulesByName = new Map(result.rules.map((r) => [r.name, r]));
+    const parseHints: AmbiguityHint[] = ambiguities.map((a) => {
+      const alternatives = a.alternatives.join(', ');
+      const text = a.text.length > 40 ? `${a.text.slice(0, 40)}...` : a.text;
+      const description = a.kind === 'ambiguity'
+        ? `Alternatives ${alternatives} all match "${text}"; the parser chose alternative ${a.prediction}.`
+        : `Alternatives ${alternatives} conflict on "${text}" and only full-context prediction could choose alternative ${a.prediction}.`;
+
+      return {
+        rule: a.ruleName,
+        line: rulesByName.get(a.ruleName)?.line ?? 1,
+        fileId: rulesByName.get(a.ruleName)?.fileId,
+        alternativeIndices: a.alternatives.map((alt) => alt - 1),
+        commonPrefix: [],
+        description: a.exact ? description : `${description} The conflict may not be a true ambiguity.`,
+        evidence: {
+          kind: a.kind,
+          prediction: a.prediction,
+          exact: a.exact,
+          startLine: a.startLine,
+          startColumn: a.startColumn,
+          endLine: a.endLine,
+          endColumn: a.endColumn,
+          text: a.text,
+        },
+      };
+    });
+
+    const rulesWithEvidence = new Set(parseHints.map((h) => h.rule));
+    const ambiguityHints = [
+      ...parseHints,
+      ...result.ambiguityHints.filter((h) => !h.evidence && !rulesWithEvidence.has(h.rule)),
+    ];
+    const added = ambiguityHints.length - result.ambiguityHints.length;
+
+    return {
+      ...result,
+      ambiguityHints,
+      summary: {
+        ...result.summary,
+        ambiguityHints: ambiguityHints.length,
+        issuesBySeverity: {
+          ...result.summary.issuesBySeverity,
+          info: result.summary.issuesBySeverity.info + added,
+        },
+      },
+    };
   }
 
   /**
@@ -1041,6 +964,7 @@ export class GrammarAnalyzer {
   private calculateSummary(
     rules: RuleInfo[],
     unusedRules: UnusedRule[],
+    definitionIssues: DefinitionIssue[],
     complexity: ComplexityMetrics[],
     performanceIssues: PerformanceIssue[],
     ambiguityHints: AmbiguityHint[]
@@ -1067,6 +991,10 @@ export class GrammarAnalyzer {
     // Count unused rules as warnings
     issuesBySeverity.warning += unusedRules.length;
 
+    for (const issue of definitionIssues) {
+      issuesBySeverity[issue.severity]++;
+    }
+
     // Count ambiguity hints as info
     issuesBySeverity.info += ambiguityHints.length;
 
@@ -1076,6 +1004,7 @@ export class GrammarAnalyzer {
       lexerRules,
       fragmentRules,
       unusedRules: unusedRules.length,
+      definitionIssues: definitionIssues.length,
       highComplexityRules,
       performanceIssues: performanceIssues.length,
       ambiguityHints: ambiguityHints.length,
@@ -20,22 +20,52 @@ export interface RuleInfo {
   name: string;
   /** Type of rule (parser, lexer, fragment) */
   type: RuleType;
-  /** Line number where rule is defined (1-based) */
+  /** Line number of the rule name (1-based) */
   line: number;
-  /** Column number where rule starts (0-based) */
+  /** Column number of the rule name (0-based) */
   column: number;
   /** End line of the rule */
   endLine: number;
-  /** End column of the rule */
+  /** End column of the rule, after its semicolon */
   endColumn: number;
-  /** The rule definition text */
+  /** The rule definition text, from its first modifier or name through the semicolon */
   text: string;
   /** Number of alternatives in the rule */
   alternativeCount: number;
+  /** Labeled alternatives (`# Label`) of a parser rule, in order */
+  labels: AlternativeLabel[];
   /** Rules that this rule references */
   references: string[];
   /** Rules that reference this rule */
   referencedBy: string[];
+  /** Project file the rule is defined in; absent when a single grammar is analyzed */
+  fileId?: string;
+}
+
+/**
+ * Alternative of a parser rule marked with a `# Label`, for which ANTLR
+ * generates its own context class and visitor and listener methods
+ */
+export interface AlternativeLabel {
+  /** Label name */
+  name: string;
+  /** Text of the alternative without the label */
+  alternative: string;
+}
+
+/**
+ * Token declared in a `tokens {}` block. Like rules, declared tokens are
+ * defined for every grammar of the project.
+ */
+export interface DeclaredToken {
+  /** Token name */
+  name: string;
+  /** Line number of the declaration (1-based) */
+  line: number;
+  /** Column number of the declaration (0-based) */
+  column: number;
+  /** Project file the token is declared in */
+  fileId?: string;
 }
 
 /**
@@ -52,6 +82,52 @@ export interface UnusedRule {
   column: number;
   /** Suggestion message */
   suggestion: string;
+  /** Project file the rule is defined in */
+  fileId?: string;
+}
+
+/** Kind of reference or definition the ANTLR tool rejects */
+export type DefinitionIssueKind =
+  | 'undefined'
+  | 'duplicate'
+  | 'parserRuleInLexer'
+  | 'fragmentInParser';
+
+/**
+ * Reference to a rule or token that is never defined, a rule defined twice
+ * in a grammar, a lexer rule referencing a parser rule, or a fragment used
+ * as a token in a parser rule
+ */
+export interface DefinitionIssue {
+  kind: DefinitionIssueKind;
+  /** Rule containing the reference, or the rule defined twice */
+  rule: string;
+  /** Name referenced or defined twice */
+  name: string;
+  /** Line number of the reference or duplicate definition */
+  line: number;
+  /** Column number of the reference or duplicate definition */
+  column: number;
+  /** Always 'error': the tool can't generate the grammar */
+  severity: Severity;
+  /** Description of the problem */
+  message: string;
+  /** Stub rule that defines an undefined reference */
+  fix?: StubRuleFix;
+  /** Project file the reference or definition is in */
+  fileId?: string;
+}
+
+/**
+ * Quick fix adding an empty rule for an undefined reference
+ */
+export interface StubRuleFix {
+  /** Title of the fix in menus */
+  title: string;
+  /** Name of the rule to create */
+  name: string;
+  /** Project file to add the rule to: the lexer grammar for a token used in a parser grammar */
+  fileId?: string;
 }
 
 /**
@@ -74,12 +150,14 @@ export interface ComplexityMetrics {
   directlyRecursive: boolean;
   /** Whether the rule is indirectly recursive */
   indirectlyRecursive: boolean;
-  /** Estimated lookahead requirement (k value) */
+  /** Tokens of lookahead the rule's alternatives need (k value), from its LL(1) conflicts */
   lookahead: number;
   /** Overall complexity score */
   score: ComplexityScore;
   /** Numeric complexity value for sorting */
   complexityValue: number;
+  /** Project file the rule is defined in */
+  fileId?: string;
 }
 
 /**
@@ -104,6 +182,8 @@ export interface PerformanceIssue {
   suggestion: string;
   /** Category of performance issue */
   category: 'backtracking' | 'lookahead' | 'recursion' | 'memory' | 'ambiguity';
+  /** Project file the rule is defined in */
+  fileId?: string;
 }
 
 /**
@@ -116,10 +196,81 @@ export interface AmbiguityHint {
   line: number;
   /** Indices of potentially ambiguous alternatives */
   alternativeIndices: number[];
-  /** Common prefix tokens that cause ambiguity */
+  /** Tokens that can begin each of the alternatives (empty for hints from a parse) */
   commonPrefix: string[];
   /** Description of the ambiguity */
   description: string;
+  /** Input that triggered the ambiguity in a parse (absent for LL(1) conflicts found in the grammar) */
+  evidence?: AmbiguityEvidence;
+  /** Project file the rule is defined in */
+  fileId?: string;
+}
+
+/**
+ * Where a parse ran into an ambiguity reported by the ANTLR runtime
+ */
+export interface AmbiguityEvidence {
+  /** A true ambiguity, or a conflict only full-context prediction could resolve */
+  kind: 'ambiguity' | 'contextSensitivity';
+  /** Alternative the parser chose (1-based) */
+  prediction: number;
+  /** False when the runtime could not prove the conflict is a true ambiguity */
+  exact: boolean;
+  /** Input span (lines 1-based, columns 0-based with an exclusive end) */
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  /** The input text of the span */
+  text: string;
+}
+
+/**
+ * FIRST and FOLLOW sets of a parser rule, and the alternatives one token of
+ * lookahead can't choose between. Tokens defined by a single literal are
+ * named by their literal.
+ */
+export interface RuleLookahead {
+  /** Rule name */
+  name: string;
+  /** Line number */
+  line: number;
+  /** Whether the rule can match the empty input */
+  nullable: boolean;
+  /** Tokens that can begin the rule */
+  first: string[];
+  /** Tokens that can follow the rule; EOF follows rules no other rule references */
+  follow: string[];
+  /** FIRST set of each alternative, in order */
+  alternatives: AlternativeLookahead[];
+  /** Alternatives predicted by the same tokens */
+  conflicts: LL1Conflict[];
+  /** Tokens of lookahead the rule needs: 1 without conflicts, otherwise the most any conflict needs */
+  lookahead: number;
+  /** Project file the rule is defined in */
+  fileId?: string;
+}
+
+/**
+ * FIRST set of an alternative of a parser rule
+ */
+export interface AlternativeLookahead {
+  /** Tokens that can begin the alternative */
+  first: string[];
+  /** Whether the alternative can match the empty input, so tokens following the rule choose it too */
+  nullable: boolean;
+}
+
+/**
+ * Alternatives of a rule that the same next token predicts
+ */
+export interface LL1Conflict {
+  /** Indices of the alternatives (0-based) */
+  alternativeIndices: number[];
+  /** Tokens predicting all of the alternatives */
+  tokens: string[];
+  /** Tokens of lookahead needed at least: one past the elements the alternatives begin with in common */
+  lookahead: number;
 }
 
 /**
@@ -136,6 +287,8 @@ export interface AnalysisSummary {
   fragmentRules: number;
   /** Number of unused rules */
   unusedRules: number;
+  /** Number of undefined references and other definition errors */
+  definitionIssues: number;
   /** Number of high complexity rules */
   highComplexityRules: number;
   /** Number of performance issues */
@@ -146,22 +299,38 @@ export interface AnalysisSummary {
   issuesBySeverity: Record<Severity, number>;
 }
 
+/**
+ * Parser rule that can be chosen as the start rule
+ */
+export interface StartRuleCandidate {
+  /** Rule name */
+  name: string;
+  /** True if no other rule references it, which makes it a likely entry point */
+  isEntry: boolean;
+}
+
 /**
  * Complete analysis result for a grammar
  */
 export interface AnalysisResult {
   /** Summary statistics */
   summary: AnalysisSummary;
-  /** All rules found in the grammar */
+  /** All rules found in the grammars */
   rules: RuleInfo[];
+  /** Tokens declared in `tokens {}` blocks */
+  tokens: DeclaredToken[];
   /** Detected unused rules */
   unusedRules: UnusedRule[];
+  /** Undefined references, duplicate rules and misplaced references */
+  definitionIssues: DefinitionIssue[];
   /** Complexity metrics for each rule */
   complexity: ComplexityMetrics[];
   /** Detected performance issues */
   performanceIssues: PerformanceIssue[];
   /** Ambiguity hints */
   ambiguityHints: AmbiguityHint[];
+  /** FIRST and FOLLOW sets of each parser rule */
+  lookahead: RuleLookahead[];
   /** Timestamp when analysis was performed */
   timestamp: number;
   /** Duration of analysis in milliseconds */
@@ -170,12 +339,24 @@ export interface AnalysisResult {
   grammarHash: string;
 }
 
+/**
+ * Grammar file analyzed together with the other grammars of a project, so
+ * references resolve across split lexer and parser grammars and imports
+ */
+export interface AnalysisFile {
+  /** Project file id, carried by the rules and issues found in the file */
+  fileId: string;
+  content: string;
+}
+
 /**
  * Options for configuring the analysis
  */
 export interface AnalysisOptions {
   /** Include unused rule detection */
   detectUnusedRules?: boolean;
+  /** Include undefined reference and duplicate rule detection */
+  detectDefinitionIssues?: boolean;
   /** Include complexity analysis */
   analyzeComplexity?: boolean;
   /** Include performance issue detection */
@@ -195,6 +376,7 @@ export interface AnalysisOptions {
  */
 export const DEFAULT_ANALYSIS_OPTIONS: Required<AnalysisOptions> = {
   detectUnusedRules: true,
+  detectDefinitionIssues: true,
   analyzeComplexity: true,
   detectPerformanceIssues: true,
   detectAmbiguity: true,
@@ -238,6 +420,10 @@ export interface AnalysisDecoration {
   severity: Severity;
   /** Message to show on hover */
   message: string;
-  /** Source of the decoration (unused, complexity, performance, ambiguity) */
-  source: 'unused' | 'complexity' | 'performance' | 'ambiguity';
+  /** Source of the decoration (unused, definition, complexity, performance, ambiguity) */
+  source: 'unused' | 'definition' | 'complexity' | 'performance' | 'ambiguity';
+  /** Fix offered as a code action on the decoration */
+  quickFix?: StubRuleFix;
+  /** Project file the decoration belongs to */
+  fileId?: string;
 }
@@ -0,0 +1,18 @@
+/**
+ * Web Worker that interprets parses off the main thread, so a slow parse
+ * doesn't block the editor. Answers with null when the server has to parse.
+ */
+import { interpretParse } from '../utils/antlr/interpretParse';
+import type { InterpretRequest, InterpretResponse } from './parseService';
+
+self.onmessage = (event: MessageEvent<InterpretRequest>) => {
+    const { id, grammarFiles, inputText, startRule, limits, ambiguities } = event.data;
+    let result: InterpretResponse['result'] = null;
+    try {
+        result = interpretParse(grammarFiles, inputText, startRule, { limits, ambiguities }) ?? null;
+    } catch (err) {
+        // The server reports the error with the tool's diagnostics
+        console.warn('[InterpreterWorker] Interpreting failed:', err);
+    }
+    self.postMessage({ id, result } satisfies InterpretResponse);
+};
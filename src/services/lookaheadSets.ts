@@ -0,0 +1,284 @@
+/**
+ * Lookahead Sets
+ * Computes which rules can match the empty input and the FIRST and FOLLOW
+ * sets of parser rules and their alternatives, and finds the LL(1)
+ * conflicts: alternatives of a rule that the next token can't choose between.
+ */
+
+import type { AlternativeAst, ElementAst, LiteralElement, RuleAst } from '../utils/antlr/grammarParser';
+import type { LL1Conflict, RuleLookahead } from './grammarAnalysis.types';
+
+/** Tokens that can start a sequence of elements, and whether it can match nothing */
+interface SequenceFirst {
+  tokens: Set<string>;
+  nullable: boolean;
+}
+
+/** FIRST and FOLLOW sets of the parser rules, as far as computed */
+interface GrammarSets {
+  first: Map<string, Set<string>>;
+  nullable: Map<string, boolean>;
+  follow: Map<string, Set<string>>;
+  /** Literal of each token defined by a single literal, the name tokens are shown with */
+  tokenLiterals: Map<string, string>;
+  /** Literal text of each literal value, so escapes of the same character are one token */
+  literals: Map<string, string>;
+}
+
+/** Alternative of a decision, with the elements the decision looks at */
+interface Choice {
+  index: number;
+  elements: ElementAst[];
+}
+
+const MAX_LOOKAHEAD = 10;
+
+/**
+ * Literal a lexer rule matches, when its only alternative is a single
+ * literal: the token is then the same as that literal in parser rules
+ */
+export function singleLiteral(rule: RuleAst): LiteralElement | undefined {
+  if (rule.kind !== 'lexer' || rule.modifiers.includes('fragment') || rule.alternatives.length !== 1) {
+    return undefined;
+  }
+  const [only] = rule.alternatives;
+  const element = only.elements.length === 1 && only.commands.length === 0 ? only.elements[0] : undefined;
+  return element?.kind === 'literal' && !element.suffix ? element : undefined;
+}
+
+/**
+ * Compute the lookahead sets of the parser rules of a grammar, or of all the
+ * grammars of a project. Tokens defined by a single literal are named by
+ * their literal, as in ANTLR's messages. Directly left-recursive alternatives
+ * are compared with each other after the recursive reference, since ANTLR
+ * rewrites them into a loop after the other alternatives.
+ * @param rules - Parser and lexer rules, each defined once
+ * @param entryRules - Rules that can end the input, which EOF follows
+ */
+export function computeLookaheadSets(rules: RuleAst[], entryRules: string[]): RuleLookahead[] {
+  const parserRules = rules.filter((r) => r.kind === 'parser');
+  const sets: GrammarSets = {
+    first: new Map(),
+    nullable: new Map(),
+    follow: new Map(),
+    tokenLiterals: new Map(),
+    literals: new Map(),
+  };
+
+  for (const rule of rules) {
+    const literal = singleLiteral(rule);
+    if (!literal) continue;
+    sets.tokenLiterals.set(rule.name, sets.literals.get(literal.value) ?? literal.text);
+    if (!sets.literals.has(literal.value)) sets.literals.set(literal.value, literal.text);
+  }
+
+  // FIRST sets only grow, so they are complete once a pass changes none
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const rule of parserRules) {
+      const first = firstOfAlternatives(rule.alternatives, sets);
+      if (first.tokens.size !== (sets.first.get(rule.name)?.size ?? 0)
+        || first.nullable !== (sets.nullable.get(rule.name) ?? false)) {
+        sets.first.set(rule.name, first.tokens);
+        sets.nullable.set(rule.name, first.nullable);
+        changed = true;
+      }
+    }
+  }
+
+  for (const rule of parserRules) {
+    sets.follow.set(rule.name, new Set(entryRules.includes(rule.name) ? ['EOF'] : []));
+  }
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const rule of parserRules) {
+      changed = addFollows(rule.alternatives, new Set(sets.follow.get(rule.name)), sets) || changed;
+    }
+  }
+
+  return parserRules.map((rule) => {
+    const conflicts = findConflicts(rule, sets);
+    return {
+      name: rule.name,
+      line: rule.nameSpan.line,
+      nullable: sets.nullable.get(rule.name) ?? false,
+      first: [...(sets.first.get(rule.name) ?? [])],
+      follow: [...(sets.follow.get(rule.name) ?? [])],
+      alternatives: rule.alternatives.map((alternative) => {
+        const first = firstOfSequence(alternative.elements, sets);
+        return { first: [...first.tokens], nullable: first.nullable };
+      }),
+      conflicts,
+      lookahead: Math.min(Math.max(1, ...conflicts.map((c) => c.lookahead)), MAX_LOOKAHEAD),
+    };
+  });
+}
+
+/**
+ * Token an element matches, by its literal when it has one
+ */
+function tokenName(element: ElementAst, sets: GrammarSets): string {
+  switch (element.kind) {
+    case 'tokenRef':
+      return sets.tokenLiterals.get(element.name) ?? element.name;
+    case 'literal':
+      return sets.literals.get(element.value) ?? element.text;
+    case 'not': {
+      const names = element.elements.map((e) => tokenName(e, sets));
+      return names.length === 1 ? `~${names[0]}` : `~(${names.join(' | ')})`;
+    }
+    case 'wildcard':
+      return '.';
+    case 'range':
+    case 'charSet':
+      return element.text;
+    default:
+      return '';
+  }
+}
+
+function firstOfElement(element: ElementAst, sets: GrammarSets): SequenceFirst {
+  let first: SequenceFirst;
+  if (element.kind === 'ruleRef') {
+    first = {
+      tokens: sets.first.get(element.name) ?? new Set(),
+      nullable: sets.nullable.get(element.name) ?? false,
+    };
+  } else if (element.kind === 'block') {
+    first = firstOfAlternatives(element.alternatives, sets);
+  } else if (element.kind === 'action') {
+    // Actions and predicates match no input
+    first = { tokens: new Set(), nullable: true };
+  } else {
+    first = { tokens: new Set([tokenName(element, sets)]), nullable: false };
+  }
+
+  const optional = element.suffix?.operator === '?' || element.suffix?.operator === '*';
+  return optional ? { tokens: first.tokens, nullable: true } : first;
+}
+
+function firstOfSequence(elements: ElementAst[], sets: GrammarSets): SequenceFirst {
+  const tokens = new Set<string>();
+  for (const element of elements) {
+    const first = firstOfElement(element, sets);
+    first.tokens.forEach((t) => tokens.add(t));
+    if (!first.nullable) return { tokens, nullable: false };
+  }
+  return { tokens, nullable: true };
+}
+
+function firstOfAlternatives(alternatives: AlternativeAst[], sets: GrammarSets): SequenceFirst {
+  const tokens = new Set<string>();
+  let nullable = false;
+  for (const alternative of alternatives) {
+    const first = firstOfSequence(alternative.elements, sets);
+    first.tokens.forEach((t) => tokens.add(t));
+    nullable ||= first.nullable;
+  }
+  return { tokens, nullable };
+}
+
+/**
+ * Add the tokens that can follow each rule reference in the alternatives to
+ * the FOLLOW set of the rule referenced
+ * @param trailer - Tokens that can follow the alternatives
+ * @returns Whether a FOLLOW set grew
+ */
+function addFollows(alternatives: AlternativeAst[], trailer: Set<string>, sets: GrammarSets): boolean {
+  let changed = false;
+
+  for (const alternative of alternatives) {
+    // Tokens that can follow the current element, walking back from the end
+    let rest = trailer;
+    for (const element of [...alternative.elements].reverse()) {
+      const first = firstOfElement(element, sets);
+      // A loop can be followed by its next iteration
+      const repeats = element.suffix?.operator === '*' || element.suffix?.operator === '+';
+      const after = repeats ? new Set([...first.tokens, ...rest]) : rest;
+
+      const follow = element.kind === 'ruleRef' ? sets.follow.get(element.name) : undefined;
+      if (follow) {
+        for (const token of after) {
+          if (!follow.has(token)) {
+            follow.add(token);
+            changed = true;
+          }
+        }
+      } else if (element.kind === 'block') {
+        changed = addFollows(element.alternatives, after, sets) || changed;
+      }
+
+      rest = first.nullable ? new Set([...first.tokens, ...rest]) : first.tokens;
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Find the alternatives of a rule that tokens predict together
+ */
+function findConflicts(rule: RuleAst, sets: GrammarSets): LL1Conflict[] {
+  const follow = sets.follow.get(rule.name) ?? new Set<string>();
+  const primary: Choice[] = [];
+  const recursive: Choice[] = [];
+
+  rule.alternatives.forEach((alternative, index) => {
+    const [head, ...tail] = alternative.elements;
+    if (head?.kind === 'ruleRef' && head.name === rule.name && !head.suffix) {
+      recursive.push({ index, elements: tail });
+    } else {
+      primary.push({ index, elements: alternative.elements });
+    }
+  });
+
+  return [...conflictsBetween(primary, follow, sets), ...conflictsBetween(recursive, follow, sets)];
+}
+
+function conflictsBetween(choices: Choice[], follow: Set<string>, sets: GrammarSets): LL1Conflict[] {
+  const choicesByToken = new Map<string, Choice[]>();
+
+  for (const choice of choices) {
+    // An alternative matching nothing is chosen by the tokens following the rule
+    const first = firstOfSequence(choice.elements, sets);
+    const predicted = first.nullable ? new Set([...first.tokens, ...follow]) : first.tokens;
+    for (const token of predicted) {
+      choicesByToken.set(token, [...(choicesByToken.get(token) ?? []), choice]);
+    }
+  }
+
+  // Tokens predicting the same alternatives make one conflict
+  const conflicts = new Map<string, LL1Conflict>();
+  for (const [token, predicted] of choicesByToken) {
+    if (predicted.length < 2) continue;
+    const key = predicted.map((c) => c.index).join(',');
+    const conflict = conflicts.get(key) ?? {
+      alternativeIndices: predicted.map((c) => c.index),
+      tokens: [],
+      lookahead: Math.min(Math.max(sharedPrefixLength(predicted, sets) + 1, 2), MAX_LOOKAHEAD),
+    };
+    conflict.tokens.push(token);
+    conflicts.set(key, conflict);
+  }
+
+  return [...conflicts.values()];
+}
+
+/**
+ * Count the leading elements the alternatives have in common. The token
+ * after them is the earliest that can tell the alternatives apart.
+ */
+function sharedPrefixLength(choices: Choice[], sets: GrammarSets): number {
+  const key = (element: ElementAst | undefined) => {
+    if (!element || element.kind === 'block' || element.kind === 'action') return undefined;
+    const name = element.kind === 'ruleRef' ? element.name : tokenName(element, sets);
+    return `${name}${element.suffix?.operator ?? ''}`;
+  };
+
+  let length = 0;
+  for (;;) {
+    const first = key(choices[0].elements[length]);
+    if (first === undefined || choices.some((c) => key(c.elements[length]) !== first)) return length;
+    length++;
+  }
+}
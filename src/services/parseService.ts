@@ -0,0 +1,151 @@
+import type { ParseLimits, ParseResult } from '../types';
+import type { ParseRequest, ParseStreamEvent, BatchParseRequest, BatchParseResponse } from '../types/api';
+import { DEFAULT_PARSE_LIMITS } from '../utils/antlr/limits';
+
+const API_BASE = '/api';
+
+/** Time the interpreter gets beyond the parse timeout to stop the parse and answer */
+const INTERPRETER_GRACE_MS = 5000;
+
+/** Parse sent to the interpreter worker */
+export interface InterpretRequest extends Omit<ParseRequest, 'stream' | 'profile' | 'trace'> {
+    id: number;
+    limits: Partial<ParseLimits>;
+}
+
+/** Interpreter worker answer; null when the server has to parse */
+export interface InterpretResponse {
+    id: number;
+    result: ParseResult | null;
+}
+
+// Started with the first parse and kept, so loaded grammars stay loaded
+let interpreterWorker: Worker | null = null;
+let lastInterpretId = 0;
+
+/**
+ * Parse in the browser with the grammar interpreter, without the server.
+ * Resolves with null when the grammars need the server: when they are large,
+ * have errors, actions or predicates, or when the worker can't run.
+ */
+export function interpretInput(
+    request: Omit<InterpretRequest, 'id' | 'limits'>,
+    limits: Partial<ParseLimits> = {}
+): Promise<ParseResult | null> {
+    if (typeof Worker === 'undefined') return Promise.resolve(null);
+
+    const worker = interpreterWorker ??= new Worker(
+        new URL('./interpreterWorker.ts', import.meta.url),
+        { type: 'module' }
+    );
+    const id = ++lastInterpretId;
+    const timeoutMs = (limits.timeoutMs ?? DEFAULT_PARSE_LIMITS.timeoutMs) + INTERPRETER_GRACE_MS;
+
+    return new Promise((resolve, reject) => {
+        const finish = () => {
+            clearTimeout(timer);
+            worker.removeEventListener('message', onMessage);
+            worker.removeEventListener('error', onError);
+        };
+        const discardWorker = () => {
+            worker.terminate();
+            if (interpreterWorker === worker) interpreterWorker = null;
+        };
+        const onMessage = (event: MessageEvent<InterpretResponse>) => {
+            if (event.data.id !== id) return;
+            finish();
+            resolve(event.data.result);
+        };
+        const onError = (event: ErrorEvent) => {
+            console.warn('[ParseService] Interpreter worker failed:', event.message);
+            finish();
+            discardWorker();
+            resolve(null);
+        };
+        // Only a parse stuck where it can't check the time limit gets here
+        const timer = setTimeout(() => {
+            finish();
+            discardWorker();
+            reject(new Error(`Parse stopped: the parser did not finish within the time limit of ${timeoutMs - INTERPRETER_GRACE_MS}ms`));
+        }, timeoutMs);
+
+        worker.addEventListener('message', onMessage);
+        worker.addEventListener('error', onError);
+        worker.postMessage({ ...request, id, limits } satisfies InterpretRequest);
+    });
+}
+
+/**
+ * Parse input text with the given grammar files.
+ * The server queues parses beyond its concurrency limit; `onQueued` is
+ * called with the queue position while the request waits.
+ */
+export async function parseInput(
+    request: Omit<ParseRequest, 'stream'>,
+    onQueued?: (position: number) => void
+): Promise<ParseResult> {
+    const response = await fetch(`${API_BASE}/parse`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...request, stream: true }),
+    });
+
+    if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || errorData.error || `API error: ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+
+            // Parse SSE events
+            const events = buffer.split('\n\n');
+            buffer = events.pop() || '';
+
+            for (const event of events) {
+                if (!event.startsWith('data: ')) continue;
+
+                const data = JSON.parse(event.slice(6)) as ParseStreamEvent;
+                if (data.type === 'queued') {
+                    onQueued?.(data.position);
+                } else if (data.type === 'result') {
+                    return data.result;
+                } else {
+                    throw new Error(data.message);
+                }
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+
+    throw new Error('Parse response ended without a result');
+}
+
+/**
+ * Parse every test case with the same grammar files and get a pass/fail
+ * result for each.
+ */
+export async function runTestCases(request: BatchParseRequest, signal?: AbortSignal): Promise<BatchParseResponse> {
+    const response = await fetch(`${API_BASE}/parse/batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal,
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || errorData.error || `API error: ${response.status}`);
+    }
+
+    return response.json();
+}
@@ -0,0 +1,127 @@
+/**
+ * Parse Trace Navigation
+ * Helpers for stepping through the events of a traced parse: the rule
+ * stack at a step, stepping over and out of rules, and event labels.
+ */
+
+import type { Token, TraceEvent } from '../types';
+
+/**
+ * Rules active at a step, outermost first. A rule is on the stack from its
+ * 'enterRule' event up to and including its 'exitRule' event.
+ */
+export function ruleStackAt(trace: TraceEvent[], index: number): string[] {
+  const stack: string[] = [];
+  for (let i = 0; i <= index && i < trace.length; i++) {
+    const event = trace[i];
+    if (i > 0 && trace[i - 1].kind === 'exitRule') {
+      stack.pop();
+    }
+    if (event.kind === 'enterRule') {
+      stack.push(event.ruleName ?? '?');
+    }
+  }
+  return stack;
+}
+
+/**
+ * Number of active rules at every step, as ruleStackAt(trace, i).length
+ */
+export function traceDepths(trace: TraceEvent[]): number[] {
+  const depths: number[] = [];
+  let depth = 0;
+  for (let i = 0; i < trace.length; i++) {
+    if (i > 0 && trace[i - 1].kind === 'exitRule') depth--;
+    if (trace[i].kind === 'enterRule') depth++;
+    depths.push(depth);
+  }
+  return depths;
+}
+
+/**
+ * Step after the current one at the same rule depth: from an 'enterRule'
+ * event this is the matching 'exitRule', otherwise the next step
+ */
+export function stepOverIndex(trace: TraceEvent[], index: number): number {
+  if (trace[index]?.kind !== 'enterRule') {
+    return Math.min(index + 1, trace.length - 1);
+  }
+  return findRuleExit(trace, index + 1);
+}
+
+/**
+ * The 'exitRule' event of the innermost rule active at a step
+ */
+export function stepOutIndex(trace: TraceEvent[], index: number): number {
+  // On an 'exitRule' event the rule is already being left, so this steps out of its caller
+  return findRuleExit(trace, index + 1);
+}
+
+/**
+ * Next step after `index` of the given kind, or -1 if there is none
+ */
+export function nextEventIndex(trace: TraceEvent[], index: number, kind: TraceEvent['kind']): number {
+  for (let i = index + 1; i < trace.length; i++) {
+    if (trace[i].kind === kind) return i;
+  }
+  return -1;
+}
+
+/**
+ * Previous step before `index` of the given kind, or -1 if there is none
+ */
+export function previousEventIndex(trace: TraceEvent[], index: number, kind: TraceEvent['kind']): number {
+  for (let i = Math.min(index, trace.length) - 1; i >= 0; i--) {
+    if (trace[i].kind === kind) return i;
+  }
+  return -1;
+}
+
+/**
+ * One-line description of a step, e.g. "consume NUMBER '42'"
+ */
+export function describeTraceEvent(event: TraceEvent, tokens: Token[]): string {
+  switch (event.kind) {
+    case 'enterRule':
+      return `enter ${event.ruleName}`;
+    case 'exitRule':
+      return `exit ${event.ruleName}`;
+    case 'consume': {
+      const label = tokenLabel(event.tokenIndex, tokens, event.text);
+      return event.error ? `skip ${label} (error)` : `consume ${label}`;
+    }
+    case 'decision':
+      return `predict alt ${event.alternative} in ${event.ruleName} (decision ${event.decision}) at ${tokenLabel(event.tokenIndex, tokens)}`;
+    case 'recover': {
+      const skipped = event.stopTokenIndex !== undefined
+        ? `, skipped ${event.stopTokenIndex - event.tokenIndex + 1} token(s)`
+        : '';
+      return `recover in ${event.ruleName}${skipped}`;
+    }
+  }
+}
+
+function tokenLabel(tokenIndex: number, tokens: Token[], conjuredText?: string): string {
+  const token = tokens[tokenIndex];
+  if (!token) {
+    return conjuredText !== undefined ? `'${conjuredText}' (conjured)` : '<none>';
+  }
+  return `${token.type} '${token.text}'`;
+}
+
+/**
+ * Index of the 'exitRule' of the rule active at `start`, skipping nested
+ * rules. Falls back to the last step for truncated traces.
+ */
+function findRuleExit(trace: TraceEvent[], start: number): number {
+  let level = 1;
+  for (let i = start; i < trace.length; i++) {
+    if (trace[i].kind === 'enterRule') {
+      level++;
+    } else if (trace[i].kind === 'exitRule') {
+      level--;
+      if (level === 0) return i;
+    }
+  }
+  return trace.length - 1;
+}
@@ -0,0 +1,302 @@
+/**
+ * Railroad Diagrams
+ * Lays out the syntax (railroad) diagram of a grammar rule: tokens and
+ * literals in rounded boxes, rule references in square boxes, alternatives
+ * as branches below the first one, optional elements with a bypass above
+ * and repeated elements with a loop below. The layout is plain geometry,
+ * drawn by the RailroadPanel.
+ */
+
+import type { AlternativeAst, ElementAst, RuleAst } from '../utils/antlr/grammarParser';
+
+export type RailroadBoxKind = 'terminal' | 'nonterminal' | 'comment';
+
+/** Box of a diagram, positioned by its top left corner */
+export interface RailroadBox {
+  kind: RailroadBoxKind;
+  text: string;
+  /** Rule or token the box refers to */
+  rule?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RailroadDiagram {
+  rule: string;
+  width: number;
+  height: number;
+  /** Baseline of the rule name, drawn above the track */
+  title: { x: number; y: number };
+  /** SVG path data of the track between the boxes */
+  paths: string[];
+  boxes: RailroadBox[];
+}
+
+type DiagramNode =
+  | { kind: RailroadBoxKind; text: string; rule?: string }
+  | { kind: 'sequence' | 'choice'; items: DiagramNode[] }
+  | { kind: 'optional' | 'loop'; item: DiagramNode };
+
+/** Width and the height above and below the track of a laid out node */
+interface NodeSize {
+  width: number;
+  up: number;
+  down: number;
+}
+
+interface DiagramParts {
+  paths: string[];
+  boxes: RailroadBox[];
+}
+
+/** Radius of the track's curves */
+const ARC = 10;
+/** Space between elements of a sequence */
+const GAP = 10;
+/** Space between branches, and between a bypass or loop and its element */
+const V_GAP = 8;
+const BOX_HEIGHT = 24;
+const COMMENT_HEIGHT = 16;
+/** Character widths of the monospace box and comment text (12px and 11px) */
+const CHAR_WIDTH = 7.2;
+const COMMENT_CHAR_WIDTH = 6.6;
+const PADDING = 20;
+const TITLE_HEIGHT = 20;
+/** Longest action text shown in a predicate's comment */
+const MAX_PREDICATE_LENGTH = 24;
+
+/**
+ * Lay out the railroad diagram of a rule
+ */
+export function buildRailroadDiagram(rule: RuleAst): RailroadDiagram {
+  const node = alternativesNode(rule.alternatives);
+  const sizes = new Map<DiagramNode, NodeSize>();
+  const size = measure(node, sizes);
+  const parts: DiagramParts = { paths: [], boxes: [] };
+
+  const y = PADDING + TITLE_HEIGHT + size.up;
+  const end = PADDING + GAP + size.width;
+  // Bars mark where the track starts and ends
+  parts.paths.push(`M ${PADDING} ${y - ARC} v ${2 * ARC} M ${PADDING} ${y} h ${GAP}`);
+  draw(node, PADDING + GAP, y, sizes, parts);
+  parts.paths.push(`M ${end} ${y} h ${GAP} m 0 ${-ARC} v ${2 * ARC}`);
+
+  return {
+    rule: rule.name,
+    width: end + GAP + PADDING,
+    height: y + size.down + PADDING,
+    title: { x: PADDING, y: PADDING + 12 },
+    ...parts,
+  };
+}
+
+function alternativesNode(alternatives: AlternativeAst[]): DiagramNode {
+  const items = alternatives.map((alternative): DiagramNode => {
+    const sequence = alternative.elements.flatMap((e) => elementNode(e) ?? []);
+    if (alternative.commands.length > 0) {
+      const commands = alternative.commands.map((c) => (c.argument ? `${c.name}(${c.argument})` : c.name));
+      sequence.push({ kind: 'comment', text: `-> ${commands.join(', ')}` });
+    }
+    if (alternative.label) {
+      sequence.push({ kind: 'comment', text: `# ${alternative.label.name}` });
+    }
+    return sequence.length === 1 ? sequence[0] : { kind: 'sequence', items: sequence };
+  });
+  if (items.length === 0) return { kind: 'sequence', items: [] };
+  return items.length === 1 ? items[0] : { kind: 'choice', items };
+}
+
+/**
+ * Diagram node of an element with its suffix; actions have none
+ */
+function elementNode(element: ElementAst): DiagramNode | undefined {
+  let node: DiagramNode;
+  switch (element.kind) {
+    case 'ruleRef':
+      node = { kind: 'nonterminal', text: element.name, rule: element.name };
+      break;
+    case 'tokenRef':
+      node = element.name === 'EOF'
+        ? { kind: 'terminal', text: 'EOF' }
+        : { kind: 'terminal', text: element.name, rule: element.name };
+      break;
+    case 'literal':
+    case 'range':
+    case 'charSet':
+      node = { kind: 'terminal', text: element.text };
+      break;
+    case 'wildcard':
+      node = { kind: 'terminal', text: '.' };
+      break;
+    case 'not': {
+      const texts = element.elements.map((e) => (e.kind === 'tokenRef' ? e.name : e.text));
+      node = { kind: 'terminal', text: texts.length === 1 ? `~${texts[0]}` : `~(${texts.join(' | ')})` };
+      break;
+    }
+    case 'block':
+      node = alternativesNode(element.alternatives);
+      break;
+    case 'action': {
+      if (!element.predicate) return undefined;
+      const code = element.code.trim();
+      const text = code.length > MAX_PREDICATE_LENGTH ? `${code.slice(0, MAX_PREDICATE_LENGTH)}...` : code;
+      node = { kind: 'comment', text: `{${text}}?` };
+      break;
+    }
+  }
+
+  switch (element.suffix?.operator) {
+    case '?':
+      return { kind: 'optional', item: node };
+    case '+':
+      return { kind: 'loop', item: node };
+    case '*':
+      return { kind: 'optional', item: { kind: 'loop', item: node } };
+    default:
+      return node;
+  }
+}
+
+function measure(node: DiagramNode, sizes: Map<DiagramNode, NodeSize>): NodeSize {
+  const known = sizes.get(node);
+  if (known) return known;
+
+  let size: NodeSize;
+  switch (node.kind) {
+    case 'terminal':
+    case 'nonterminal':
+      size = { width: Math.round(node.text.length * CHAR_WIDTH) + 20, up: BOX_HEIGHT / 2, down: BOX_HEIGHT / 2 };
+      break;
+    case 'comment':
+      size = { width: Math.round(node.text.length * COMMENT_CHAR_WIDTH) + 10, up: COMMENT_HEIGHT / 2, down: COMMENT_HEIGHT / 2 };
+      break;
+    case 'sequence': {
+      const items = node.items.map((item) => measure(item, sizes));
+      size = {
+        width: items.reduce((sum, item) => sum + item.width, 0) + GAP * Math.max(items.length - 1, 0),
+        up: Math.max(0, ...items.map((item) => item.up)),
+        down: Math.max(0, ...items.map((item) => item.down)),
+      };
+      break;
+    }
+    case 'choice': {
+      const items = node.items.map((item) => measure(item, sizes));
+      const offsets = branchOffsets(items);
+      size = {
+        width: Math.max(...items.map((item) => item.width)) + 4 * ARC,
+        up: items[0].up,
+        down: offsets[offsets.length - 1] + items[items.length - 1].down,
+      };
+      break;
+    }
+    case 'optional': {
+      const item = measure(node.item, sizes);
+      size = { width: item.width + 4 * ARC, up: Math.max(2 * ARC, item.up + V_GAP), down: item.down };
+      break;
+    }
+    case 'loop': {
+      const item = measure(node.item, sizes);
+      size = { width: item.width + 2 * ARC, up: item.up, down: Math.max(2 * ARC, item.down + V_GAP) };
+      break;
+    }
+  }
+
+  sizes.set(node, size);
+  return size;
+}
+
+/**
+ * Distance of each branch of a choice below the track. The first branch is
+ * the track itself; the second is at least far enough for two curves.
+ */
+function branchOffsets(items: NodeSize[]): number[] {
+  const offsets = [0];
+  for (let i = 1; i < items.length; i++) {
+    const below = offsets[i - 1] + items[i - 1].down + V_GAP + items[i].up;
+    offsets.push(i === 1 ? Math.max(2 * ARC, below) : below);
+  }
+  return offsets;
+}
+
+/**
+ * Draw a node entering on the track at (x, y)
+ */
+function draw(node: DiagramNode, x: number, y: number, sizes: Map<DiagramNode, NodeSize>, parts: DiagramParts): void {
+  const size = measure(node, sizes);
+
+  switch (node.kind) {
+    case 'terminal':
+    case 'nonterminal':
+    case 'comment':
+      parts.boxes.push({
+        kind: node.kind,
+        text: node.text,
+        rule: node.rule,
+        x,
+        y: y - size.up,
+        width: size.width,
+        height: size.up + size.down,
+      });
+      break;
+    case 'sequence': {
+      let cx = x;
+      node.items.forEach((item, i) => {
+        if (i > 0) {
+          parts.paths.push(`M ${cx} ${y} h ${GAP}`);
+          cx += GAP;
+        }
+        draw(item, cx, y, sizes, parts);
+        cx += measure(item, sizes).width;
+      });
+      break;
+    }
+    case 'choice': {
+      const items = node.items.map((item) => measure(item, sizes));
+      const offsets = branchOffsets(items);
+      const end = x + size.width;
+      node.items.forEach((item, i) => {
+        const dy = offsets[i];
+        const itemEnd = x + 2 * ARC + items[i].width;
+        if (i === 0) {
+          parts.paths.push(`M ${x} ${y} h ${2 * ARC}`, `M ${itemEnd} ${y} H ${end}`);
+        } else {
+          const drop = dy - 2 * ARC;
+          parts.paths.push(
+            `M ${x} ${y} a ${ARC} ${ARC} 0 0 1 ${ARC} ${ARC} v ${drop} a ${ARC} ${ARC} 0 0 0 ${ARC} ${ARC}`,
+            `M ${itemEnd} ${y + dy} H ${end - 2 * ARC} a ${ARC} ${ARC} 0 0 0 ${ARC} ${-ARC} v ${-drop} a ${ARC} ${ARC} 0 0 1 ${ARC} ${-ARC}`
+          );
+        }
+        draw(item, x + 2 * ARC, y + dy, sizes, parts);
+      });
+      break;
+    }
+    case 'optional': {
+      const itemWidth = measure(node.item, sizes).width;
+      const end = x + size.width;
+      const rise = size.up - 2 * ARC;
+      parts.paths.push(
+        `M ${x} ${y} h ${2 * ARC}`,
+        `M ${x + 2 * ARC + itemWidth} ${y} H ${end}`,
+        `M ${x} ${y} a ${ARC} ${ARC} 0 0 0 ${ARC} ${-ARC} v ${-rise} a ${ARC} ${ARC} 0 0 1 ${ARC} ${-ARC}`
+          + ` H ${end - 2 * ARC} a ${ARC} ${ARC} 0 0 1 ${ARC} ${ARC} v ${rise} a ${ARC} ${ARC} 0 0 0 ${ARC} ${ARC}`
+      );
+      draw(node.item, x + 2 * ARC, y, sizes, parts);
+      break;
+    }
+    case 'loop': {
+      const itemWidth = measure(node.item, sizes).width;
+      const end = x + size.width;
+      const drop = size.down - 2 * ARC;
+      parts.paths.push(
+        `M ${x} ${y} h ${ARC}`,
+        `M ${x + ARC + itemWidth} ${y} H ${end}`,
+        `M ${end - ARC} ${y} a ${ARC} ${ARC} 0 0 1 ${ARC} ${ARC} v ${drop} a ${ARC} ${ARC} 0 0 1 ${-ARC} ${ARC}`
+          + ` H ${x + ARC} a ${ARC} ${ARC} 0 0 1 ${-ARC} ${-ARC} v ${-drop} a ${ARC} ${ARC} 0 0 1 ${ARC} ${-ARC}`
+      );
+      draw(node.item, x + ARC, y, sizes, parts);
+      break;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import type { SnapshotNode } from '../types';
+import type { TreeSnapshot, GetSnapshotResponse } from '../types/api';
+
+const API_BASE = '/api';
+
+/**
+ * Helper to handle API errors consistently
+ */
+async function handleResponse<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || `API error: ${response.status}`);
+    }
+    return response.json();
+}
+
+/**
+ * Fetch the approved parse tree snapshot for a file (null if none)
+ */
+export async function fetchSnapshot(fileId: string): Promise<TreeSnapshot | null> {
+    const response = await fetch(`${API_BASE}/files/${fileId}/snapshot`);
+    const data = await handleResponse<GetSnapshotResponse>(response);
+    return data.snapshot;
+}
+
+/**
+ * Approve a parse tree as the expected result for a file
+ */
+export async function approveSnapshot(
+    fileId: string,
+    startRule: string,
+    tree: SnapshotNode
+): Promise<TreeSnapshot> {
+    const response = await fetch(`${API_BASE}/files/${fileId}/snapshot`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startRule, tree }),
+    });
+    const data = await handleResponse<{ snapshot: TreeSnapshot }>(response);
+    return data.snapshot;
+}
+
+/**
+ * Remove the approved snapshot for a file
+ */
+export async function deleteSnapshot(fileId: string): Promise<boolean> {
+    const response = await fetch(`${API_BASE}/files/${fileId}/snapshot`, {
+        method: 'DELETE',
+    });
+    const data = await handleResponse<{ success: boolean }>(response);
+    return data.success;
+}
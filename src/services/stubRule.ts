@@ -0,0 +1,46 @@
+/**
+ * Stub Rules
+ * Adds an empty definition for a rule or token that is referenced but never
+ * defined, as the quick fix for undefined references found by the analysis.
+ */
+
+import { parseGrammar } from '../utils/antlr/grammarParser';
+
+export interface StubRuleEdit {
+  /** Grammar content with the stub rule added */
+  content: string;
+  /** Line of the stub rule (1-based) */
+  line: number;
+}
+
+/**
+ * Stub rule text: lexer rules match their name in lowercase, a placeholder
+ * for keywords; parser rules are empty
+ */
+export function stubRuleText(name: string): string {
+  return /^\p{Lu}/u.test(name) ? `${name} : '${name.toLowerCase()}' ;` : `${name} : ;`;
+}
+
+/**
+ * Add a stub rule to a grammar. Rules go at the end of the grammar, except
+ * lexer rules of a grammar with modes, which go before the first mode so
+ * they belong to the default one.
+ */
+export function insertStubRule(content: string, name: string): StubRuleEdit {
+  const stub = stubRuleText(name);
+  const [firstMode] = parseGrammar(content).grammar.modes;
+
+  if (firstMode && /^\p{Lu}/u.test(name)) {
+    const lineStart = content.lastIndexOf('\n', firstMode.span.start) + 1;
+    return {
+      content: `${content.slice(0, lineStart)}${stub}\n\n${content.slice(lineStart)}`,
+      line: content.slice(0, lineStart).split('\n').length,
+    };
+  }
+
+  const before = content.replace(/\n*$/, '\n\n');
+  return {
+    content: `${before}${stub}\n`,
+    line: before.split('\n').length,
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * Parse Tree Snapshot Diff
+ * Compares an approved parse tree snapshot with a new parse tree and
+ * reports structural changes.
+ */
+
+import type { ParseNode, SnapshotNode, TreeChange } from '../types';
+
+/**
+ * Reduce a parse tree to what a snapshot stores
+ */
+export function toSnapshotTree(node: ParseNode): SnapshotNode {
+  const snapshot: SnapshotNode = { type: node.type, name: node.name };
+  if (node.token) {
+    snapshot.tokenType = node.token.type;
+  }
+  if (node.children && node.children.length > 0) {
+    snapshot.children = node.children.map(toSnapshotTree);
+  }
+  return snapshot;
+}
+
+/**
+ * Label of a node as shown in diffs: the rule name, or the token type and text
+ */
+export function snapshotNodeLabel(node: SnapshotNode): string {
+  if (node.type === 'rule') {
+    return node.name;
+  }
+  const text = `'${node.name}'`;
+  return node.tokenType ? `${node.tokenType} ${text}` : text;
+}
+
+/**
+ * Render a snapshot tree as indented text, one node per line
+ */
+export function formatSnapshotTree(node: SnapshotNode): string {
+  const lines: string[] = [];
+  const visit = (n: SnapshotNode, depth: number) => {
+    lines.push(`${'  '.repeat(depth)}${snapshotNodeLabel(n)}`);
+    n.children?.forEach(child => visit(child, depth + 1));
+  };
+  visit(node, 0);
+  return lines.join('\n');
+}
+
+/**
+ * Key used to line up children: rules by name, tokens by type so that a
+ * token whose text changed is still matched to its counterpart
+ */
+function alignmentKey(node: SnapshotNode): string {
+  return node.type === 'rule' ? `rule:${node.name}` : `${node.type}:${node.tokenType ?? node.name}`;
+}
+
+/**
+ * Largest number of insertions and deletions the alignment looks for. Past
+ * it, children that don't line up by prefix and suffix are paired by position
+ * (see flushGap in diffNodes), which is what a rule rename needs anyway.
+ */
+const MAX_ALIGN_EDITS = 1000;
+
+/**
+ * Pairs of child indices (before, after) that line up, in order.
+ * Common prefixes and suffixes are matched directly so the diff only runs
+ * on the part that changed.
+ */
+function alignChildren(before: SnapshotNode[], after: SnapshotNode[]): Array<[number, number]> {
+  const a = before.map(alignmentKey);
+  const b = after.map(alignmentKey);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < prefix; i++) {
+    pairs.push([i, i]);
+  }
+  const middle = commonSubsequence(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+  for (const [i, j] of middle) {
+    pairs.push([prefix + i, prefix + j]);
+  }
+  for (let k = suffix; k > 0; k--) {
+    pairs.push([a.length - k, b.length - k]);
+  }
+
+  return pairs;
+}
+
+/**
+ * Index pairs of a longest common subsequence of two key lists, found with
+ * Myers' O((m+n)·d) diff. Empty when they differ by more than MAX_ALIGN_EDITS.
+ */
+function commonSubsequence(a: string[], b: string[]): Array<[number, number]> {
+  const m = a.length;
+  const n = b.length;
+  const maxEdits = Math.min(m + n, MAX_ALIGN_EDITS);
+  // Furthest x reached on each diagonal k = x - y, offset so k = -d lands at 0
+  const offset = maxEdits + 1;
+  const v = new Int32Array(2 * maxEdits + 3);
+  // Diagonals -d-1..d+1 of v before each round, for the backtrack
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= maxEdits; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < m && y < n && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= m && y >= n) {
+        return backtrack(trace, m, n);
+      }
+    }
+  }
+  return [];
+}
+
+/**
+ * Walk the rounds of the Myers search back from the end and collect the
+ * diagonal moves, which are the matched pairs
+ */
+function backtrack(trace: Int32Array[], m: number, n: number): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  let x = m;
+  let y = n;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const furthest = (k: number) => trace[d][k + d + 1];
+    const k = x - y;
+    const prevK = d === 0
+      ? 0
+      : k === -d || (k !== d && furthest(k - 1) < furthest(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : furthest(prevK);
+    const prevY = prevX - prevK;
+    // Diagonal moves; for d > 0 they start one edit after (prevX, prevY)
+    const startX = d === 0 ? 0 : prevK === k + 1 ? prevX : prevX + 1;
+    while (x > startX) {
+      pairs.push([x - 1, y - 1]);
+      x--;
+      y--;
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return pairs.reverse();
+}
+
+function diffNodes(before: SnapshotNode, after: SnapshotNode, path: string[], changes: TreeChange[]): void {
+  if (before.type === 'rule' && before.name !== after.name) {
+    changes.push({ kind: 'renamed', path, before: before.name, after: after.name });
+  } else if (before.type !== 'rule' && before.tokenType !== after.tokenType) {
+    changes.push({ kind: 'renamed', path, before: snapshotNodeLabel(before), after: snapshotNodeLabel(after) });
+  } else if (before.type !== 'rule' && before.name !== after.name) {
+    changes.push({ kind: 'textChanged', path, before: snapshotNodeLabel(before), after: snapshotNodeLabel(after) });
+  }
+
+  const beforeChildren = before.children ?? [];
+  const afterChildren = after.children ?? [];
+  if (beforeChildren.length === 0 && afterChildren.length === 0) {
+    return;
+  }
+
+  const childPath = after.type === 'rule' ? [...path, after.name] : path;
+  const pairs = alignChildren(beforeChildren, afterChildren);
+
+  let nextBefore = 0;
+  let nextAfter = 0;
+  const flushGap = (endBefore: number, endAfter: number) => {
+    const removed = beforeChildren.slice(nextBefore, endBefore);
+    const added = afterChildren.slice(nextAfter, endAfter);
+
+    // Nodes of the same kind at the same place in the gap replace each other
+    while (removed.length > 0 && added.length > 0 && removed[0].type === added[0].type) {
+      diffNodes(removed.shift()!, added.shift()!, childPath, changes);
+    }
+    for (const node of removed) {
+      changes.push({ kind: 'removed', path: childPath, before: snapshotNodeLabel(node) });
+    }
+    for (const node of added) {
+      changes.push({ kind: 'added', path: childPath, after: snapshotNodeLabel(node) });
+    }
+  };
+
+  for (const [i, j] of pairs) {
+    flushGap(i, j);
+    diffNodes(beforeChildren[i], afterChildren[j], childPath, changes);
+    nextBefore = i + 1;
+    nextAfter = j + 1;
+  }
+  flushGap(beforeChildren.length, afterChildren.length);
+}
+
+/**
+ * Structural differences between an approved snapshot tree and a new parse tree:
+ * added and removed nodes, renamed rule nodes and changed token text.
+ * An empty list means the trees match.
+ */
+export function diffTrees(before: SnapshotNode, after: SnapshotNode): TreeChange[] {
+  const changes: TreeChange[] = [];
+  if (before.type !== after.type) {
+    changes.push({ kind: 'removed', path: [], before: snapshotNodeLabel(before) });
+    changes.push({ kind: 'added', path: [], after: snapshotNodeLabel(after) });
+    return changes;
+  }
+  diffNodes(before, after, [], changes);
+  return changes;
+}
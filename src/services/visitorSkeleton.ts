@@ -0,0 +1,255 @@
+/**
+ * Visitor and Listener Skeletons
+ * Writes a class with a stub for every visitor or listener method ANTLR
+ * generates for a grammar, ready to be filled in. Methods follow the rules
+ * and labeled alternatives found by the GrammarAnalyzer.
+ */
+
+import { parseGrammar } from '../utils/antlr/grammarParser';
+import type { RuleInfo } from './grammarAnalysis.types';
+
+export type SkeletonLanguage = 'typescript' | 'java' | 'python';
+
+export type SkeletonKind = 'visitor' | 'listener';
+
+/** Grammar the ANTLR tool generates the parser, visitor and listener from */
+export interface ParserGrammar {
+  name: string;
+  /** Combined grammars generate `<name>Parser`; parser grammars are named after the parser */
+  combined: boolean;
+}
+
+export interface VisitorSkeleton {
+  /** Suggested file name, named after the class */
+  fileName: string;
+  content: string;
+}
+
+/** Method ANTLR generates for a rule or labeled alternative */
+interface SkeletonMethod {
+  /** Rule or label name, as in visitExpr or enterAdd */
+  name: string;
+  /** Name of the rule's or alternative's context class */
+  context: string;
+  /** Rule or alternative text, one entry per alternative sharing a label */
+  docs: string[];
+}
+
+const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+/** Grammar text on one line, as it goes into a doc comment */
+const oneLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Find the grammar a project's parser is generated from: the combined or
+ * parser grammar that no other grammar imports
+ */
+export function findParserGrammar(grammarContents: string[]): ParserGrammar | undefined {
+  const grammars = grammarContents
+    .map((content) => parseGrammar(content).grammar)
+    // Without a file name, a grammar missing its declaration has no name
+    .filter((grammar) => grammar.name && grammar.type !== 'lexer');
+
+  const imported = new Set(grammars.flatMap((g) => g.imports.map((i) => i.name)));
+  const grammar = grammars.find((g) => !imported.has(g.name)) ?? grammars[0];
+  return grammar && { name: grammar.name, combined: grammar.type === 'combined' };
+}
+
+/**
+ * Visitor and listener methods for the parser rules: one per labeled
+ * alternative for rules with labels, otherwise one per rule
+ */
+function skeletonMethods(rules: RuleInfo[]): SkeletonMethod[] {
+  const methods = new Map<string, SkeletonMethod>();
+  for (const rule of rules) {
+    if (rule.type !== 'parser') continue;
+
+    if (rule.labels.length === 0) {
+      methods.set(rule.name, { name: rule.name, context: `${capitalize(rule.name)}Context`, docs: [oneLine(rule.text)] });
+      continue;
+    }
+    for (const label of rule.labels) {
+      const doc = oneLine(`${rule.name} : ${label.alternative} # ${label.name}`);
+      const method = methods.get(label.name);
+      if (method) {
+        // Alternatives sharing a label share the context class and methods
+        method.docs.push(doc);
+      } else {
+        methods.set(label.name, { name: label.name, context: `${capitalize(label.name)}Context`, docs: [doc] });
+      }
+    }
+  }
+  return [...methods.values()];
+}
+
+/**
+ * Block comment lines for the method docs, with comment terminators in
+ * the grammar text escaped
+ */
+function blockComment(docs: string[], indent: string): string[] {
+  return [
+    `${indent}/**`,
+    ...docs.map((doc) => `${indent} * ${doc.replace(/\*\//g, '*\\/')}`),
+    `${indent} */`,
+  ];
+}
+
+function pythonDocstring(docs: string[], indent: string): string[] {
+  const escaped = docs.map((doc) => doc.replace(/\\/g, '\\\\').replace(/"""/g, '\\"\\"\\"'));
+  return escaped.length === 1
+    ? [`${indent}"""${escaped[0]}"""`]
+    : [`${indent}"""`, ...escaped.map((doc) => `${indent}${doc}`), `${indent}"""`];
+}
+
+function typescriptSkeleton(
+  grammar: ParserGrammar,
+  parserName: string,
+  className: string,
+  kind: SkeletonKind,
+  methods: SkeletonMethod[]
+): string {
+  const base = `${grammar.name}${capitalize(kind)}`;
+  const lines = [
+    `import ${base} from './${base}.js';`,
+  ];
+  if (methods.length > 0) {
+    lines.push(`import { ${methods.map((m) => m.context).join(', ')} } from './${parserName}.js';`);
+  }
+  lines.push(
+    '',
+    '/**',
+    ` * ${capitalize(kind)} for parse trees produced by \`${parserName}\``,
+    ' */',
+    `export default class ${className} extends ${kind === 'visitor' ? `${base}<void>` : base} {`
+  );
+
+  const members = methods.map((method) => {
+    const doc = blockComment(method.docs, '  ');
+    if (kind === 'visitor') {
+      return [
+        ...doc,
+        `  visit${capitalize(method.name)} = (ctx: ${method.context}): void => {`,
+        '    this.visitChildren(ctx);',
+        '  };',
+      ];
+    }
+    return ['enter', 'exit'].flatMap((event, i) => [
+      ...(i > 0 ? [''] : []),
+      ...doc,
+      `  ${event}${capitalize(method.name)} = (ctx: ${method.context}): void => {`,
+      '  };',
+    ]);
+  });
+  lines.push(...members.flatMap((member, i) => (i > 0 ? ['', ...member] : member)), '}', '');
+  return lines.join('\n');
+}
+
+function javaSkeleton(
+  grammar: ParserGrammar,
+  parserName: string,
+  className: string,
+  kind: SkeletonKind,
+  methods: SkeletonMethod[]
+): string {
+  const base = `${grammar.name}Base${capitalize(kind)}`;
+  const lines = [
+    '/**',
+    ` * ${capitalize(kind)} for parse trees produced by {@link ${parserName}}`,
+    ' */',
+    `public class ${className} extends ${kind === 'visitor' ? `${base}<Void>` : base} {`,
+  ];
+
+  const members = methods.map((method) => {
+    const doc = blockComment(method.docs, '    ');
+    const context = `${parserName}.${method.context}`;
+    if (kind === 'visitor') {
+      return [
+        ...doc,
+        '    @Override',
+        `    public Void visit${capitalize(method.name)}(${context} ctx) {`,
+        '        return visitChildren(ctx);',
+        '    }',
+      ];
+    }
+    return ['enter', 'exit'].flatMap((event, i) => [
+      ...(i > 0 ? [''] : []),
+      ...doc,
+      '    @Override',
+      `    public void ${event}${capitalize(method.name)}(${context} ctx) {`,
+      '    }',
+    ]);
+  });
+  lines.push(...members.flatMap((member, i) => (i > 0 ? ['', ...member] : member)), '}', '');
+  return lines.join('\n');
+}
+
+function pythonSkeleton(
+  grammar: ParserGrammar,
+  parserName: string,
+  className: string,
+  kind: SkeletonKind,
+  methods: SkeletonMethod[]
+): string {
+  const base = `${grammar.name}${capitalize(kind)}`;
+  const lines = [
+    `from ${parserName} import ${parserName}`,
+    `from ${base} import ${base}`,
+    '',
+    '',
+    `class ${className}(${base}):`,
+    `    """${capitalize(kind)} for parse trees produced by ${parserName}"""`,
+  ];
+
+  for (const method of methods) {
+    const context = `${parserName}.${method.context}`;
+    if (kind === 'visitor') {
+      lines.push(
+        '',
+        `    def visit${capitalize(method.name)}(self, ctx: ${context}):`,
+        ...pythonDocstring(method.docs, '        '),
+        '        return self.visitChildren(ctx)'
+      );
+    } else {
+      for (const event of ['enter', 'exit']) {
+        lines.push(
+          '',
+          `    def ${event}${capitalize(method.name)}(self, ctx: ${context}):`,
+          ...pythonDocstring(method.docs, '        '),
+          '        pass'
+        );
+      }
+    }
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+const FILE_EXTENSIONS: Record<SkeletonLanguage, string> = {
+  typescript: 'ts',
+  java: 'java',
+  python: 'py',
+};
+
+/**
+ * Write a visitor or listener class extending the one ANTLR generates for the
+ * grammar, with a stub for each of its methods. Visitor stubs visit the
+ * children and return nothing; listener stubs are empty.
+ * @param grammar - Grammar the parser is generated from
+ * @param rules - Rules found by the GrammarAnalyzer; only parser rules are used
+ */
+export function generateVisitorSkeleton(
+  grammar: ParserGrammar,
+  rules: RuleInfo[],
+  language: SkeletonLanguage,
+  kind: SkeletonKind
+): VisitorSkeleton {
+  const parserName = grammar.combined ? `${grammar.name}Parser` : grammar.name;
+  const className = `${grammar.name.replace(/Parser$/, '')}${capitalize(kind)}Impl`;
+  const methods = skeletonMethods(rules);
+
+  const write = { typescript: typescriptSkeleton, java: javaSkeleton, python: pythonSkeleton }[language];
+  return {
+    fileName: `${className}.${FILE_EXTENSIONS[language]}`,
+    content: write(grammar, parserName, className, kind, methods),
+  };
+}
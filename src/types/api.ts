@@ -2,8 +2,18 @@
  * Frontend API types matching backend types for file persistence
  */
 
-/** File type discriminator */
-export type FileType = 'grammar' | 'text';
+import type { ParseResult, SnapshotNode, ParseLimits, ParseTarget, GenerateOptions, GrammarDiagnostic } from './index';
+
+/** File type discriminator; 'generated' files are written by the ANTLR tool and read-only */
+export type FileType = 'grammar' | 'text' | 'generated';
+
+/** Marks a text file as a test case for the grammar */
+export interface TestCaseSpec {
+    /** Rule to start parsing at */
+    startRule: string;
+    /** Whether the input should parse without errors or fail */
+    expect: 'pass' | 'fail';
+}
 
 /** Metadata stored alongside each file */
 export interface FileMetadata {
@@ -12,6 +22,8 @@ export interface FileMetadata {
     type: FileType;
     createdAt: string;
     modifiedAt: string;
+    /** Set on text files declared as test cases */
+    testCase?: TestCaseSpec;
 }
 
 /** A single version entry in the file history */
@@ -34,10 +46,24 @@ export interface WorkspaceState {
     openTabs: string[];
     activeTabId: string | null;
     settings: {
+        /** Rule to start parsing at; empty for the grammar's first entry rule */
         startRule: string;
+        /** Parse limits overriding the server defaults */
+        parseLimits?: Partial<ParseLimits>;
+        /** Target the grammar is generated for and run with (default 'java') */
+        target?: ParseTarget;
     };
 }
 
+/** Parse tree approved as the expected result for an input file */
+export interface TreeSnapshot {
+    fileId: string;
+    /** Start rule the tree was parsed with */
+    startRule: string;
+    approvedAt: string;
+    tree: SnapshotNode;
+}
+
 /** File content with metadata */
 export interface FileWithContent {
     metadata: FileMetadata;
@@ -82,6 +108,96 @@ export interface RestoreVersionResponse {
     newVersion: VersionEntry;
 }
 
+/** API request body for parsing input */
+export interface ParseRequest {
+    grammarFiles: Array<{ name: string; content: string }>;
+    inputText: string;
+    /** Rule to start parsing at; without one the input is only tokenized */
+    startRule?: string;
+    /** Collect per-decision profiling statistics from the parser */
+    profile?: boolean;
+    /** Record a step-by-step trace of the parse (can't be combined with profile) */
+    trace?: boolean;
+    /** Detect ambiguities with a slower exact parse (can't be combined with profile) */
+    ambiguities?: boolean;
+    /** Stream queue position events before the result */
+    stream?: boolean;
+}
+
+/** API request body for compiling grammars without input */
+export interface CompileRequest {
+    grammarFiles: Array<{ name: string; content: string }>;
+}
+
+/**
+ * API request body for generating recognizer sources. With `output: 'zip'`
+ * (the default) the response is a zip archive; with `output: 'files'` the
+ * sources are saved as read-only project files.
+ */
+export interface GenerateRequest extends GenerateOptions {
+    grammarFiles: Array<{ name: string; content: string }>;
+    output?: 'zip' | 'files';
+}
+
+/** API response for generating sources as project files */
+export interface GenerateFilesResponse {
+    /** Created or updated project files, in name order */
+    files: FileMetadata[];
+    /** Warnings the tool reported */
+    diagnostics: GrammarDiagnostic[];
+    duration: number;
+}
+
+/** Event sent while a streamed parse request is processed */
+export type ParseStreamEvent =
+    | { type: 'queued'; position: number }
+    | { type: 'result'; result: ParseResult }
+    | { type: 'error'; message: string };
+
+/** One test case in a batch parse request */
+export interface BatchParseCase {
+    /** File ID of the test case */
+    id: string;
+    inputText: string;
+    startRule: string;
+    expect: 'pass' | 'fail';
+}
+
+/** API request body for parsing several inputs with the same grammar */
+export interface BatchParseRequest {
+    grammarFiles: Array<{ name: string; content: string }>;
+    cases: BatchParseCase[];
+}
+
+/** Outcome of one test case in a batch parse */
+export interface TestCaseResult {
+    id: string;
+    /** `error` when the case could not be parsed at all (grammar or tool failure) */
+    status: 'passed' | 'failed' | 'error';
+    /** Number of lexer and parser errors reported for the input */
+    errorCount: number;
+    /** First error message, to explain unexpected outcomes */
+    message?: string;
+    duration: number;
+}
+
+/** API response for a batch parse */
+export interface BatchParseResponse {
+    results: TestCaseResult[];
+    duration: number;
+}
+
+/** API request body for approving a parse tree snapshot */
+export interface ApproveSnapshotRequest {
+    startRule: string;
+    tree: SnapshotNode;
+}
+
+/** API response for get snapshot */
+export interface GetSnapshotResponse {
+    snapshot: TreeSnapshot | null;
+}
+
 /** Generic API error response */
 export interface ApiErrorResponse {
     error: string;
@@ -1,4 +1,8 @@
+import type { TestCaseSpec } from './api';
+import type { StubRuleFix } from '../services/grammarAnalysis.types';
+
 export interface Token {
+  /** Display name: the symbolic name, or the literal for implicit tokens like '+' */
   type: string;
   text: string;
   start: number;
@@ -6,6 +10,20 @@ export interface Token {
   line: number;
   column: number;
   tokenIndex: number;
+  /** Channel number (0 is the default channel, 1 is HIDDEN) */
+  channel?: number;
+  /** Channel name from the grammar, e.g. DEFAULT_TOKEN_CHANNEL, HIDDEN or COMMENTS */
+  channelName?: string;
+  /** Symbolic type name from the grammar, e.g. NUMBER (absent for implicit literal tokens) */
+  typeName?: string;
+  /** Literal from the grammar, e.g. '+' (absent for tokens that don't match a fixed string) */
+  literal?: string;
+  /** Lexer mode the token was matched in */
+  mode?: string;
+  /** Lexer mode stack when the token was emitted, outermost first; the last entry is the active mode */
+  modeStack?: string[];
+  /** Lexer rule that matched the token (absent for EOF) */
+  rule?: string;
 }
 
 export interface ParseNode {
@@ -31,11 +49,251 @@ export interface ParseNode {
   matchedText?: string;
 }
 
+/**
+ * Resource limits for a single parse. When the parse exceeds one, it stops
+ * and returns the tokens and the partial tree with a 'limit' error.
+ */
+export interface ParseLimits {
+  /** Time allowed for lexing and parsing */
+  timeoutMs: number;
+  /** Largest input accepted, in UTF-8 bytes */
+  maxInputBytes: number;
+  /** Largest parse tree built, counting rule and token nodes */
+  maxTreeNodes: number;
+}
+
+/**
+ * Runtime a grammar is generated for and run with. Actions and predicates are
+ * kept for the TypeScript and JavaScript targets; for Java, @header/@members
+ * blocks and superClass options are removed so grammars written for another
+ * target still compile.
+ */
+export type ParseTarget = 'java' | 'typescript' | 'javascript';
+
 export interface ParseError {
   line: number;
   column: number;
   message: string;
   severity: 'error' | 'warning' | 'info';
+  /**
+   * Which stage reported the error ('grammar' errors refer to a grammar file, not the input;
+   * 'limit' errors mean the parse was stopped by a resource limit)
+   */
+  source?: 'lexer' | 'parser' | 'grammar' | 'limit';
+  /** The limit that stopped the parse ('limit' errors only) */
+  limit?: keyof ParseLimits;
+  /** Text of the offending token (or unmatched input for lexer errors) */
+  offendingToken?: string;
+  /** Token names the parser expected at this position */
+  expected?: string[];
+}
+
+/**
+ * Diagnostic reported by the ANTLR tool while processing a grammar,
+ * e.g. "error(56): Expr.g4:3:8: reference to undefined rule: foo"
+ */
+export interface GrammarDiagnostic {
+  severity: 'error' | 'warning';
+  /** ANTLR error code (absent for output the tool didn't format as a diagnostic) */
+  code?: number;
+  /** Grammar file name as sent by the client */
+  file?: string;
+  /** Line in the grammar file (1-based) */
+  line?: number;
+  /** Column in the grammar file (0-based) */
+  column?: number;
+  message: string;
+}
+
+export interface CompileResult {
+  /** True if the tool reported no errors */
+  success: boolean;
+  diagnostics: GrammarDiagnostic[];
+  duration: number; // ms
+}
+
+/** Value of the ANTLR tool's -Dlanguage option for the code to generate */
+export type GenerateLanguage =
+  | 'Java'
+  | 'TypeScript'
+  | 'JavaScript'
+  | 'Python3'
+  | 'Go'
+  | 'CSharp'
+  | 'Cpp'
+  | 'Dart'
+  | 'PHP'
+  | 'Swift';
+
+/** Options for generating recognizer sources */
+export interface GenerateOptions {
+  language: GenerateLanguage;
+  /** Generate a visitor (default false) */
+  visitor?: boolean;
+  /** Generate a listener (default true) */
+  listener?: boolean;
+  /** Package or namespace of the generated code */
+  packageName?: string;
+}
+
+/** Source file written by the ANTLR tool */
+export interface GeneratedFile {
+  name: string;
+  content: string;
+}
+
+export interface GenerateResult {
+  /** True if the tool reported no errors */
+  success: boolean;
+  diagnostics: GrammarDiagnostic[];
+  /** Generated sources, .tokens and .interp files; empty if the tool failed */
+  files: GeneratedFile[];
+  duration: number; // ms
+}
+
+/** Time spent in the Java runtime itself, excluding grammar generation and compilation */
+export interface ParseTiming {
+  lexMs: number;
+  parseMs: number;
+}
+
+/**
+ * Parse tree node as stored in an approved snapshot. Only structure and token
+ * text are kept, so ids and positions don't make snapshots differ.
+ */
+export interface SnapshotNode {
+  type: 'rule' | 'token' | 'error';
+  /** Rule name, or the token text */
+  name: string;
+  /** Token type (token nodes only) */
+  tokenType?: string;
+  children?: SnapshotNode[];
+}
+
+/** One structural difference between a snapshot tree and a new parse tree */
+export interface TreeChange {
+  kind: 'added' | 'removed' | 'renamed' | 'textChanged';
+  /** Rule names from the root down to the parent of the changed node */
+  path: string[];
+  /** Node label in the snapshot (absent for added nodes) */
+  before?: string;
+  /** Node label in the new tree (absent for removed nodes) */
+  after?: string;
+}
+
+/**
+ * Profiling statistics for one parser decision, as collected by the ANTLR
+ * runtime with `Parser.setProfile(true)` (see DecisionInfo)
+ */
+export interface DecisionProfile {
+  /** Decision number in the ATN */
+  decision: number;
+  /** Rule containing the decision */
+  ruleName: string;
+  /** Grammar file defining the rule */
+  file?: string;
+  /** Line of the rule definition (1-based) */
+  line?: number;
+  /** Number of times the decision was predicted */
+  invocations: number;
+  /** Time spent in prediction for the decision */
+  timeMs: number;
+  /** Tokens looked ahead in SLL prediction, summed and at most */
+  sllTotalLook: number;
+  sllMaxLook: number;
+  /** Tokens looked ahead in full-context LL prediction, summed and at most */
+  llTotalLook: number;
+  llMaxLook: number;
+  /** Times SLL prediction hit a conflict and fell back to full-context LL */
+  fullContextFallbacks: number;
+  /** Ambiguities reported for the decision */
+  ambiguities: number;
+  /** Syntax errors reported while predicting the decision */
+  errors: number;
+}
+
+/**
+ * Ambiguity or context sensitivity reported by the parser's exact ambiguity
+ * detection, located in the input that triggered it
+ */
+export interface InputAmbiguity {
+  /**
+   * 'ambiguity': several alternatives match the same input.
+   * 'contextSensitivity': SLL prediction conflicted and only full-context LL
+   * prediction could pick an alternative.
+   */
+  kind: 'ambiguity' | 'contextSensitivity';
+  /** Decision number in the ATN */
+  decision: number;
+  /** Rule containing the decision */
+  ruleName: string;
+  /** Conflicting alternative numbers (1-based, as in the grammar) */
+  alternatives: number[];
+  /** Alternative the parser chose */
+  prediction: number;
+  /** False when the runtime could not prove the conflict is a true ambiguity */
+  exact: boolean;
+  /** Start character index of the examined input (0-based) */
+  startIndex: number;
+  /** Stop character index of the examined input (0-based, inclusive) */
+  stopIndex: number;
+  /** Start line (1-based) and column (0-based) */
+  startLine: number;
+  startColumn: number;
+  /** End line (1-based) and column (0-based, exclusive) */
+  endLine: number;
+  endColumn: number;
+  /** The examined input text */
+  text: string;
+}
+
+/**
+ * One step of a traced parse. Events are listed in the order the parser
+ * performed them; token indices refer to the parse result's token list.
+ */
+export interface TraceEvent {
+  /**
+   * 'enterRule' / 'exitRule': the parser entered or left a rule.
+   * 'consume': a token was matched (or skipped as an error node).
+   * 'decision': adaptive prediction picked an alternative. LL(1) decisions
+   * are resolved by the generated code without prediction and don't appear.
+   * 'recover': the parser recovered from a syntax error.
+   */
+  kind: 'enterRule' | 'exitRule' | 'consume' | 'decision' | 'recover';
+  /** Rule entered, left, predicting or recovering (all kinds except 'consume') */
+  ruleName?: string;
+  /**
+   * The consumed token, or the current token for other kinds.
+   * -1 for tokens conjured during error recovery.
+   */
+  tokenIndex: number;
+  /** Text of a conjured token ('consume' only) */
+  text?: string;
+  /** True if the token was consumed as an error node ('consume' only) */
+  error?: boolean;
+  /** Decision number in the ATN ('decision' only) */
+  decision?: number;
+  /** Predicted alternative (1-based, 'decision' only) */
+  alternative?: number;
+  /** Last token skipped to resynchronize ('recover' only, absent if nothing was skipped) */
+  stopTokenIndex?: number;
+}
+
+/**
+ * A lexer match that changed the mode or mode stack, e.g. through pushMode.
+ * Skipped matches are included even though they produce no token.
+ */
+export interface ModeTransition {
+  /** Start character index of the match (0-based) */
+  startIndex: number;
+  /** Start line (1-based) and column (0-based) of the match */
+  line: number;
+  column: number;
+  /** Lexer rule that matched */
+  rule?: string;
+  /** Mode stack before and after the match, outermost first; the last entry is the active mode */
+  from: string[];
+  to: string[];
 }
 
 export interface ParseResult {
@@ -43,14 +301,31 @@ export interface ParseResult {
   tokens: Token[];
   errors: ParseError[];
   duration: number; // ms
+  timing?: ParseTiming;
+  /** Ambiguities found by exact ambiguity detection during the parse */
+  ambiguities?: InputAmbiguity[];
+  /** Per-decision statistics, only present when profiling was requested */
+  profile?: DecisionProfile[];
+  /** Parser steps, only present when tracing was requested */
+  trace?: TraceEvent[];
+  /** True if the trace was cut off at the worker's event limit */
+  traceTruncated?: boolean;
+  /** True if only the lexer ran; the tree then lists the tokens under a single root */
+  tokenizeOnly?: boolean;
+  /** Lexer mode changes in input order */
+  modeTransitions?: ModeTransition[];
+  /** True if the grammar was interpreted instead of generated and compiled */
+  interpreted?: boolean;
 }
 
 export interface ProjectFile {
   id: string;
   name: string;
-  type: 'grammar' | 'text';
+  /** 'generated' files hold recognizer sources written by the ANTLR tool and are read-only */
+  type: 'grammar' | 'text' | 'generated';
   content: string;
   isMain?: boolean; // For grammar
+  testCase?: TestCaseSpec; // For text files declared as test cases
 }
 
 export interface ProjectState {
@@ -61,15 +336,27 @@ export interface ProjectState {
   };
 }
 
+// Re-export test case types for convenience
+export type { TestCaseSpec, TestCaseResult } from './api';
+
 // Re-export analysis types for convenience
 export type {
   AnalysisResult,
   AnalysisSummary,
   RuleInfo,
+  DeclaredToken,
+  AnalysisFile,
   UnusedRule,
+  DefinitionIssue,
+  DefinitionIssueKind,
+  StubRuleFix,
   ComplexityMetrics,
   PerformanceIssue,
   AmbiguityHint,
+  AmbiguityEvidence,
+  RuleLookahead,
+  AlternativeLookahead,
+  LL1Conflict,
   AnalysisDecoration,
   Severity,
   ComplexityScore,
@@ -95,4 +382,6 @@ export interface EditorDecoration {
   severity: 'info' | 'warning' | 'error' | 'critical';
   message: string;
   source: string;
+  /** Fix offered as a code action on the decorated range */
+  quickFix?: StubRuleFix;
 }
\ No newline at end of file
@@ -0,0 +1,240 @@
+import { createHash } from 'crypto';
+import {
+    cpSync,
+    existsSync,
+    mkdirSync,
+    readdirSync,
+    readFileSync,
+    renameSync,
+    rmSync,
+    statSync,
+    writeFileSync,
+} from 'fs';
+import { join } from 'path';
+
+/**
+ * Metadata stored alongside each cached build
+ */
+export interface GrammarCacheEntry {
+    key: string;
+    /** Total size of the cached files in bytes */
+    size: number;
+    createdAt: string;
+    lastAccessedAt: string;
+    /** Grammar name to pass to TestRig for this build */
+    grammarName: string;
+}
+
+export interface GrammarCacheOptions {
+    cacheDir: string;
+    /** Maximum number of cached grammar builds (default 20) */
+    maxEntries?: number;
+    /** Maximum total size of the cache in bytes (default 200 MB) */
+    maxBytes?: number;
+}
+
+const ENTRY_FILE = 'entry.json';
+const DEFAULT_MAX_ENTRIES = 20;
+const DEFAULT_MAX_BYTES = 200 * 1024 * 1024;
+
+/**
+ * Content-addressed cache of generated and compiled grammar builds.
+ * Each entry is a directory named after the hash of the grammar sources,
+ * holding the generated Java sources and compiled classes. Entries are
+ * evicted least-recently-used first once the entry count or total size
+ * limit is exceeded. Entries held with `acquire` stay on disk until they are
+ * released, since a worker may still load classes from them.
+ */
+export class GrammarCache {
+    private cacheDir: string;
+    private maxEntries: number;
+    private maxBytes: number;
+    /** Number of parses using each entry */
+    private users = new Map<string, number>();
+    /** Entries evicted while in use, removed when their last user releases them */
+    private pendingRemoval = new Set<string>();
+
+    constructor(options: GrammarCacheOptions) {
+        this.cacheDir = options.cacheDir;
+        this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+        this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    }
+
+    /**
+     * Compute the cache key for a set of grammar files.
+     * The key is independent of file order; `salt` covers anything else that
+     * affects the build output (e.g. the ANTLR tool version).
+     */
+    static computeKey(files: Array<{ name: string; content: string }>, salt = ''): string {
+        const hash = createHash('sha256');
+        hash.update(salt);
+        const sorted = [...files].sort((a, b) => a.name.localeCompare(b.name));
+        for (const file of sorted) {
+            hash.update('\0');
+            hash.update(file.name);
+            hash.update('\0');
+            hash.update(file.content);
+        }
+        return hash.digest('hex');
+    }
+
+    /**
+     * Directory holding the build for a key (whether or not it exists yet)
+     */
+    getEntryDir(key: string): string {
+        return join(this.cacheDir, key);
+    }
+
+    /**
+     * Look up a cached build, marking it as recently used.
+     * Returns undefined if there is no complete build for the key.
+     */
+    get(key: string): GrammarCacheEntry | undefined {
+        const entry = this.readEntry(key);
+        if (!entry) return undefined;
+
+        entry.lastAccessedAt = new Date().toISOString();
+        this.writeEntry(entry);
+        return entry;
+    }
+
+    /**
+     * Move a finished build directory into the cache under `key` and apply
+     * the eviction policy. The source directory is consumed.
+     */
+    put(key: string, buildDir: string, grammarName: string): GrammarCacheEntry {
+        mkdirSync(this.cacheDir, { recursive: true });
+        const entryDir = this.getEntryDir(key);
+
+        // Another request may have cached the same grammar in the meantime
+        const existing = this.get(key);
+        if (existing) {
+            rmSync(buildDir, { recursive: true, force: true });
+            return existing;
+        }
+
+        // Write the metadata first so the entry is complete as soon as it appears
+        const now = new Date().toISOString();
+        const entry: GrammarCacheEntry = {
+            key,
+            size: this.directorySize(buildDir),
+            createdAt: now,
+            lastAccessedAt: now,
+            grammarName,
+        };
+        this.writeEntry(entry, buildDir);
+
+        rmSync(entryDir, { recursive: true, force: true });
+        try {
+            renameSync(buildDir, entryDir);
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+            // Cache dir is on a different filesystem
+            cpSync(buildDir, entryDir, { recursive: true });
+            rmSync(buildDir, { recursive: true, force: true });
+        }
+
+        this.evict(key);
+        return entry;
+    }
+
+    /**
+     * Mark an entry as in use, so eviction leaves its directory alone until
+     * `release`. The entry doesn't have to exist yet: acquiring the key before
+     * building it also covers the build.
+     */
+    acquire(key: string): void {
+        this.users.set(key, (this.users.get(key) ?? 0) + 1);
+    }
+
+    /**
+     * End a use started with `acquire`. Once an entry evicted in the meantime
+     * has no users left, the eviction policy is applied again to remove it.
+     */
+    release(key: string): void {
+        const count = (this.users.get(key) ?? 0) - 1;
+        if (count > 0) {
+            this.users.set(key, count);
+            return;
+        }
+        this.users.delete(key);
+        if (this.pendingRemoval.delete(key)) {
+            this.evict();
+        }
+    }
+
+    /**
+     * List all complete cache entries
+     */
+    list(): GrammarCacheEntry[] {
+        if (!existsSync(this.cacheDir)) return [];
+
+        return readdirSync(this.cacheDir)
+            .map(name => this.readEntry(name))
+            .filter((entry): entry is GrammarCacheEntry => entry !== undefined);
+    }
+
+    /**
+     * Remove least recently used entries until the cache is within its limits.
+     * The entry given by `keep` (usually the one just added) is never evicted,
+     * and entries in use are only removed once they are released.
+     */
+    evict(keep?: string): void {
+        if (!existsSync(this.cacheDir)) return;
+
+        // Remove directories without metadata (interrupted builds)
+        for (const name of readdirSync(this.cacheDir)) {
+            if (!this.readEntry(name)) {
+                rmSync(join(this.cacheDir, name), { recursive: true, force: true });
+            }
+        }
+
+        const entries = this.list().sort((a, b) => b.lastAccessedAt.localeCompare(a.lastAccessedAt));
+        let count = 0;
+        let totalBytes = 0;
+
+        for (const entry of entries) {
+            count++;
+            totalBytes += entry.size;
+            if (entry.key !== keep && (count > this.maxEntries || totalBytes > this.maxBytes)) {
+                if (this.users.has(entry.key)) {
+                    this.pendingRemoval.add(entry.key);
+                    continue;
+                }
+                rmSync(this.getEntryDir(entry.key), { recursive: true, force: true });
+                count--;
+                totalBytes -= entry.size;
+            }
+        }
+    }
+
+    /**
+     * Remove every cached build
+     */
+    clear(): void {
+        rmSync(this.cacheDir, { recursive: true, force: true });
+    }
+
+    private readEntry(key: string): GrammarCacheEntry | undefined {
+        try {
+            const content = readFileSync(join(this.getEntryDir(key), ENTRY_FILE), 'utf-8');
+            return JSON.parse(content) as GrammarCacheEntry;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private writeEntry(entry: GrammarCacheEntry, dir = this.getEntryDir(entry.key)): void {
+        writeFileSync(join(dir, ENTRY_FILE), JSON.stringify(entry, null, 2), 'utf-8');
+    }
+
+    private directorySize(dir: string): number {
+        let size = 0;
+        for (const name of readdirSync(dir)) {
+            const path = join(dir, name);
+            const stat = statSync(path);
+            size += stat.isDirectory() ? this.directorySize(path) : stat.size;
+        }
+        return size;
+    }
+}
@@ -0,0 +1,160 @@
+import type { WorkerParseResponse } from './JavaWorker';
+import { GrammarDiagnostic } from './types';
+import { parseGrammar } from './grammarParser';
+import { GrammarSource, buildLexerAtn, buildParserAtn, mergeImports } from './atnBuilder';
+import {
+    InterpretedGrammar,
+    InterpretedLexerGrammar,
+    InterpreterLexer,
+    InterpreterParser,
+    loadAtn,
+} from './js/interpreter';
+import { runParseSession } from './js/parseSession';
+import type { RuntimeContext, RuntimeLexer, RuntimeParser } from './js/parseSession';
+
+/** Grammar sets whose ATNs stay loaded */
+const MAX_LOADED_GRAMMARS = 20;
+
+/**
+ * Recognizers of a grammar set, ready to interpret
+ */
+export interface InterpretedGrammarSet {
+    lexer: InterpretedLexerGrammar;
+    /** Absent when the grammars have no parser */
+    parser?: InterpretedGrammar;
+    /** Semantic predicates, which the interpreter assumes to hold */
+    hasPredicates: boolean;
+    /** Actions in target code, which the interpreter skips */
+    hasActions: boolean;
+}
+
+export interface LoadedGrammar {
+    /** Absent if the grammars have errors */
+    grammar?: InterpretedGrammarSet;
+    diagnostics: GrammarDiagnostic[];
+}
+
+/**
+ * Runs grammars without generating code: the ATN is built from the grammar
+ * files and interpreted on the antlr4 JavaScript runtime. Nothing here needs
+ * Java or Node, so it works in the browser as well as in the server.
+ *
+ * Grammar actions don't run and predicates are assumed to hold, so grammars
+ * that depend on their target code need the generated recognizers.
+ */
+export class GrammarInterpreter {
+    /** Loaded grammar sets by content, least recently used first */
+    private loaded = new Map<string, LoadedGrammar>();
+
+    /**
+     * Build the recognizers for a grammar set. `grammarName` names the
+     * recognizers as for the parse workers: the lexer is `<name>Lexer`, or
+     * `<name>` for a lexer grammar, and the parser is `<name>Parser`, or
+     * `<name>` for a combined grammar.
+     */
+    load(files: Array<{ name: string; content: string }>, grammarName: string): LoadedGrammar {
+        const key = JSON.stringify([grammarName, files]);
+        const cached = this.loaded.get(key);
+        if (cached) {
+            this.loaded.delete(key);
+            this.loaded.set(key, cached);
+            return cached;
+        }
+
+        const result = this.build(files, grammarName);
+        this.loaded.set(key, result);
+        if (this.loaded.size > MAX_LOADED_GRAMMARS) {
+            this.loaded.delete(this.loaded.keys().next().value!);
+        }
+        return result;
+    }
+
+    /**
+     * Tokenize the input and, with a start rule and a parser, parse it. The
+     * result is what the parse workers send back.
+     */
+    parse(
+        grammar: InterpretedGrammarSet,
+        input: string,
+        startRule: string | undefined,
+        options: { timeoutMs?: number; maxTreeNodes?: number; ambiguities?: boolean } = {}
+    ): WorkerParseResponse {
+        const parser = startRule !== undefined ? grammar.parser : undefined;
+        const ruleIndex = parser ? parser.ruleNames.indexOf(startRule!) : -1;
+        if (parser && ruleIndex < 0) {
+            throw new Error(`No rule ${startRule} in the grammar`);
+        }
+
+        const result = runParseSession({
+            createLexer: chars => new InterpreterLexer(chars, grammar.lexer) as unknown as RuntimeLexer,
+            createParser: parser ? tokens => {
+                const interpreter = new InterpreterParser(tokens, parser);
+                return {
+                    parser: interpreter as unknown as RuntimeParser,
+                    parse: () => interpreter.parse(ruleIndex) as unknown as RuntimeContext,
+                };
+            } : undefined,
+        }, { input, ...options });
+        // The session builds the same objects the workers send as JSON
+        return result as unknown as WorkerParseResponse;
+    }
+
+    private build(files: Array<{ name: string; content: string }>, grammarName: string): LoadedGrammar {
+        const diagnostics: GrammarDiagnostic[] = [];
+        const sources = new Map<string, GrammarSource>();
+        for (const file of files) {
+            const parsed = parseGrammar(file.content, file.name);
+            diagnostics.push(...parsed.diagnostics);
+            sources.set(parsed.grammar.name, { file: file.name, grammar: parsed.grammar });
+        }
+        if (hasErrors(diagnostics)) return { diagnostics };
+
+        const ofType = (name: string, ...types: string[]) => {
+            const source = sources.get(name);
+            return source && types.includes(source.grammar.type) ? source : undefined;
+        };
+        const parserSource = ofType(`${grammarName}Parser`, 'parser') ?? ofType(grammarName, 'combined');
+        const lexerSource = ofType(`${grammarName}Lexer`, 'lexer') ?? ofType(grammarName, 'combined', 'lexer');
+        if (!lexerSource) {
+            diagnostics.push({ severity: 'error', message: `No lexer found for grammar ${grammarName}` });
+            return { diagnostics };
+        }
+
+        const lexerAtn = buildLexerAtn(mergeImports(lexerSource, sources), diagnostics);
+        let parserAtn: ReturnType<typeof buildParserAtn> | undefined;
+        if (parserSource) {
+            // The parser's token types come from its tokenVocab grammar, as when the tool generates it
+            const vocabName = parserSource.grammar.options.find(o => o.name === 'tokenVocab')?.value;
+            const vocabSource = vocabName ? ofType(vocabName, 'lexer') ?? ofType(vocabName.replace(/Lexer$/, ''), 'combined') : undefined;
+            const vocabulary = vocabSource && vocabSource !== lexerSource
+                ? buildLexerAtn(mergeImports(vocabSource, sources), []).vocabulary
+                : lexerAtn.vocabulary;
+            parserAtn = buildParserAtn(mergeImports(parserSource, sources), vocabulary, diagnostics);
+        }
+        if (hasErrors(diagnostics)) return { diagnostics };
+
+        const grammar: InterpretedGrammarSet = {
+            lexer: {
+                ...loadAtn(lexerAtn.serialized),
+                ruleNames: lexerAtn.ruleNames,
+                literalNames: lexerAtn.vocabulary.literalNames,
+                symbolicNames: lexerAtn.vocabulary.symbolicNames,
+                channelNames: lexerAtn.channelNames,
+                modeNames: lexerAtn.modeNames,
+            },
+            parser: parserAtn && {
+                ...loadAtn(parserAtn.serialized),
+                ruleNames: parserAtn.ruleNames,
+                literalNames: parserAtn.vocabulary.literalNames,
+                symbolicNames: parserAtn.vocabulary.symbolicNames,
+            },
+            hasPredicates: lexerAtn.hasPredicates || !!parserAtn?.hasPredicates,
+            hasActions: lexerAtn.hasActions || !!parserAtn?.hasActions,
+        };
+        return { grammar, diagnostics };
+    }
+}
+
+function hasErrors(diagnostics: GrammarDiagnostic[]): boolean {
+    return diagnostics.some(d => d.severity === 'error');
+}
@@ -1,17 +1,87 @@
-import { execSync } from 'child_process';
-import { writeFileSync, mkdirSync, readFileSync, rmSync } from 'fs';
-import { join, dirname, delimiter } from 'path';
+import { execSync, execFile } from 'child_process';
+import { writeFileSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync } from 'fs';
+import { join, dirname, basename, resolve } from 'path';
 import { fileURLToPath } from 'url';
-import { ParseResult, ParseNode, Token } from './types';
+import { promisify } from 'util';
+import {
+    ParseResult,
+    ParseOptions,
+    ParseLimits,
+    ParseTarget,
+    ParseError,
+    GrammarDiagnostic,
+    CompileResult,
+    GenerateOptions,
+    GenerateResult,
+} from './types';
+import { GrammarCache } from './GrammarCache';
+import { JavaWorker, WorkerParseResponse, ParseTimeoutError, getParseConcurrency } from './JavaWorker';
+import { JsTargetWorker, transpileForRuntime, resolveRuntimeImports } from './JsTargetWorker';
+import { parseToolDiagnostics, formatToolDiagnostic } from './toolDiagnostics';
+import { resolveGrammarDependencies, getTestRigGrammarName, GrammarType } from './grammarDependencies';
+import { GrammarInterpreter, InterpretedGrammarSet } from './GrammarInterpreter';
+import { buildParseResult } from './parseResults';
+import { DEFAULT_PARSE_LIMITS, INTERPRET_MAX_GRAMMAR_CHARS } from './limits';
+
+const execFileAsync = promisify(execFile);
+
+/** Time the worker gets beyond the parse timeout to stop the parse and answer */
+const WORKER_GRACE_MS = 5000;
+
+/** Value of the tool's -Dlanguage option for each target */
+const TOOL_LANGUAGES: Record<ParseTarget, string> = {
+    java: 'Java',
+    typescript: 'TypeScript',
+    javascript: 'JavaScript',
+};
 
 /**
- * Java-based ANTLR parser using the official ANTLR4 jar.
- * This is used as a fallback for very large grammars that cause
- * stack overflow in the TypeScript ATN interpreter.
+ * Grammar files as written to disk for the ANTLR tool
+ */
+interface PreparedGrammars {
+    files: Array<{ name: string; content: string }>;
+    /** Grammars to run the tool on, in generation order; imported modules are left out */
+    grammarNames: { name: string; type: GrammarType }[];
+    /** Maps the written file name to the file name the client used */
+    originalNames: Map<string, string>;
+    /** Missing or circular imports and token vocabularies */
+    dependencyErrors: GrammarDiagnostic[];
+}
+
+/**
+ * Thrown when the ANTLR tool rejects a grammar
+ */
+export class GrammarToolError extends Error {
+    diagnostics: GrammarDiagnostic[];
+
+    constructor(diagnostics: GrammarDiagnostic[]) {
+        const errors = diagnostics.filter(d => d.severity === 'error');
+        super(errors.map(formatToolDiagnostic).join('\n') || 'ANTLR tool failed');
+        this.name = 'GrammarToolError';
+        this.diagnostics = diagnostics;
+    }
+}
+
+/**
+ * ANTLR parser using the official ANTLR4 jar to generate the recognizers.
+ * They run on the Java runtime by default, or on the antlr4 JavaScript runtime
+ * for the TypeScript and JavaScript targets, where grammar actions and
+ * predicates are kept as written. Small grammars without target code, and any
+ * grammar when Java isn't installed, are interpreted instead (see
+ * GrammarInterpreter), which skips generating and compiling them.
  */
 export class JavaParser {
     private antlrJar: string;
-    private workDir: string;
+    /** Parent of the per-build work directories */
+    private tmpRoot: string;
+    private cache: GrammarCache;
+    private worker: JavaWorker;
+    private jsWorker: JsTargetWorker;
+    private interpreter = new GrammarInterpreter();
+    /** Builds in progress by cache key, so concurrent requests for the same grammar share one build */
+    private builds = new Map<string, Promise<string>>();
+    /** Result of the first availability check; Java installed later needs a server restart */
+    private static available: boolean | undefined;
 
     constructor() {
         // Find the jar relative to the project root
@@ -19,435 +89,563 @@ export class JavaParser {
         const __dirname = dirname(__filename);
         const projectRoot = join(__dirname, '../../..');
         this.antlrJar = join(projectRoot, 'lib/antlr-4.13.2-complete.jar');
-        this.workDir = join(projectRoot, '.antlr-tmp');
+        this.tmpRoot = join(projectRoot, '.antlr-tmp');
+        this.cache = new GrammarCache({
+            cacheDir: process.env.ANTLR_CACHE_DIR || join(projectRoot, '.antlr-cache'),
+            maxEntries: process.env.ANTLR_CACHE_MAX_ENTRIES ? parseInt(process.env.ANTLR_CACHE_MAX_ENTRIES, 10) : undefined,
+            maxBytes: process.env.ANTLR_CACHE_MAX_BYTES ? parseInt(process.env.ANTLR_CACHE_MAX_BYTES, 10) : undefined,
+        });
+        // One worker process per parse the server lets run at once
+        const concurrency = getParseConcurrency();
+        this.worker = new JavaWorker(
+            this.antlrJar,
+            join(__dirname, 'java/ParseWorker.java'),
+            join(projectRoot, '.antlr-worker'),
+            concurrency
+        );
+        this.jsWorker = new JsTargetWorker(
+            join(__dirname, 'js/parseRunner.ts'),
+            join(projectRoot, '.antlr-worker'),
+            concurrency
+        );
     }
 
     /**
-     * Parse input using Java ANTLR runtime
+     * Parse input with the runtime of the requested target. Without a start rule,
+     * or when the grammars have no parser, the input is only tokenized.
      */
     async parse(
         grammarFiles: Array<{ name: string; content: string }>,
         input: string,
-        startRule: string
+        startRule: string | undefined,
+        options: ParseOptions = {}
     ): Promise<ParseResult> {
-        try {
-            // Create temporary directory
-            mkdirSync(this.workDir, { recursive: true });
-
-            // Write grammar files (using grammar name from content, not frontend filename)
-            const grammarFileNames: string[] = [];
-            const extractedGrammarNames: { name: string; type: 'lexer' | 'parser' | 'combined' }[] = [];
-
-            for (const file of grammarFiles) {
-                // Strip target-specific code (TypeScript @header/@members) for Java compilation
-                const cleanedContent = this.stripTargetSpecificCode(file.content);
-
-                // Extract grammar name and type from the file content
-                const lexerMatch = cleanedContent.match(/lexer\s+grammar\s+(\w+)\s*;/);
-                const parserMatch = cleanedContent.match(/parser\s+grammar\s+(\w+)\s*;/);
-                const combinedMatch = cleanedContent.match(/^grammar\s+(\w+)\s*;/m);
-
-                let grammarName: string;
-                let grammarType: 'lexer' | 'parser' | 'combined';
-
-                if (lexerMatch) {
-                    grammarName = lexerMatch[1];
-                    grammarType = 'lexer';
-                } else if (parserMatch) {
-                    grammarName = parserMatch[1];
-                    grammarType = 'parser';
-                } else if (combinedMatch) {
-                    grammarName = combinedMatch[1];
-                    grammarType = 'combined';
-                } else {
-                    grammarName = file.name.replace('.g4', '');
-                    grammarType = 'combined';
-                }
-
-                const fileName = `${grammarName}.g4`;
-                extractedGrammarNames.push({ name: grammarName, type: grammarType });
+        const limits = { ...DEFAULT_PARSE_LIMITS, ...options.limits };
+        const target = options.target ?? 'java';
+
+        // What runs the parse, for messages: the interpreter or the target's runtime
+        let engine = `${TOOL_LANGUAGES[target]} parser`;
+
+        const inputBytes = Buffer.byteLength(input, 'utf-8');
+        if (inputBytes > limits.maxInputBytes) {
+            return this.limitResult(
+                'maxInputBytes',
+                `Input is ${inputBytes} bytes, over the limit of ${limits.maxInputBytes} bytes`
+            );
+        }
 
-                const filePath = join(this.workDir, fileName);
-                writeFileSync(filePath, cleanedContent, 'utf-8');
-                grammarFileNames.push(fileName);
+        try {
+            const prepared = this.prepareGrammarFiles(grammarFiles, target === 'java');
+            if (prepared.dependencyErrors.length > 0) {
+                throw new GrammarToolError(prepared.dependencyErrors);
             }
 
-            // Write input file
-            const inputFile = join(this.workDir, 'input.txt');
-            writeFileSync(inputFile, input, 'utf-8');
+            const hasParser = prepared.grammarNames.some(g => g.type !== 'lexer');
+            const tokenizeOnly = !startRule || !hasParser;
+            const interpreted = this.loadInterpreted(prepared, target, options);
+            // Exact ambiguity detection changes prediction, which would skew the profile
+            const detectAmbiguities = options.ambiguities === true && !options.profile;
 
-            // Generate parser
-            const generateCmd = `java -jar "${this.antlrJar}" -Dlanguage=Java ${grammarFileNames.join(' ')}`;
-            execSync(generateCmd, {
-                cwd: this.workDir,
-                stdio: 'pipe',
-                timeout: 60000,
-            });
+            if (interpreted) engine = 'Grammar interpreter';
+            console.log(`[JavaParser] Parsing with the ${engine}${tokenizeOnly ? ' (tokenize only)' : ''}`);
 
-            // Compile generated Java files
-            const javaFiles = execSync('find . -name "*.java"', { cwd: this.workDir, encoding: 'utf-8' })
-                .trim()
-                .split('\n');
-
-            if (javaFiles.length > 0 && javaFiles[0]) {
-                const compileCmd = `javac -cp "${this.antlrJar}" ${javaFiles.join(' ')}`;
-                execSync(compileCmd, {
-                    cwd: this.workDir,
-                    stdio: 'pipe',
-                    timeout: 60000,
+            let response: WorkerParseResponse;
+            if (interpreted) {
+                response = this.interpreter.parse(interpreted, input, tokenizeOnly ? undefined : startRule, {
+                    ...limits,
+                    ambiguities: detectAmbiguities,
                 });
-            }
-
-            // Determine grammar name for TestRig
-            // For split grammars (FooLexer + FooParser), TestRig expects the base name "Foo"
-            // For combined grammars, use the grammar name directly
-            let testRigGrammarName: string;
-
-            const parserGrammar = extractedGrammarNames.find(g => g.type === 'parser');
-            const combinedGrammar = extractedGrammarNames.find(g => g.type === 'combined');
-
-            if (parserGrammar) {
-                // Split grammar: remove "Parser" suffix to get base name
-                testRigGrammarName = parserGrammar.name.replace(/Parser$/, '');
-            } else if (combinedGrammar) {
-                // Combined grammar: use name directly
-                testRigGrammarName = combinedGrammar.name;
             } else {
-                // Fallback: use first grammar name
-                testRigGrammarName = extractedGrammarNames[0]?.name || 'Grammar';
+                // Reuse the generated and compiled classes if this grammar set was built before
+                const salt = target === 'java' ? basename(this.antlrJar) : `${basename(this.antlrJar)}:${target}`;
+                const cacheKey = GrammarCache.computeKey(prepared.files, salt);
+                // The worker loads classes and modules from the build as it needs them,
+                // so it must not be evicted before the parse settles
+                this.cache.acquire(cacheKey);
+                try {
+                    const cached = this.cache.get(cacheKey);
+                    const classDir = cached
+                        ? this.cache.getEntryDir(cacheKey)
+                        : await this.buildGrammar(prepared, target, cacheKey);
+                    const grammarName = cached?.grammarName ?? getTestRigGrammarName(prepared.grammarNames);
+
+                    // Lex and parse in the resident worker for the target. The worker enforces
+                    // the limits itself so it can return the partial result; the extra time only
+                    // covers a worker stuck where it can't check them.
+                    const worker = target === 'java' ? this.worker : this.jsWorker;
+                    response = await worker.parse({
+                        classDir: resolve(classDir),
+                        grammarName,
+                        startRule: tokenizeOnly ? undefined : startRule,
+                        input,
+                        profile: options.profile,
+                        trace: options.trace,
+                        ambiguities: detectAmbiguities,
+                        timeoutMs: limits.timeoutMs,
+                        maxTreeNodes: limits.maxTreeNodes,
+                    }, limits.timeoutMs + WORKER_GRACE_MS);
+                } finally {
+                    this.cache.release(cacheKey);
+                }
+            }
+            const result = buildParseResult(response, input, startRule, hasParser);
+            if (interpreted && (interpreted.hasPredicates || interpreted.hasActions)) {
+                result.errors.push({
+                    line: 1,
+                    column: 0,
+                    message: 'Java is not available, so the grammar was interpreted: its actions were skipped and its predicates assumed to be true',
+                    severity: 'info',
+                });
             }
-
-            // Run grun (TestRig) to get tokens
-            const tokensCmd = `java -cp ".${delimiter}${this.antlrJar}" org.antlr.v4.gui.TestRig ${testRigGrammarName} ${startRule} -tokens 2>&1`;
-            const tokensResult = execSync(tokensCmd, {
-                cwd: this.workDir,
-                input: input,
-                encoding: 'utf-8',
-                timeout: 120000,
-            });
-            const tokens = this.parseTokensOutput(tokensResult);
-
-            // Run grun (TestRig) to parse tree
-            const grunCmd = `java -cp ".${delimiter}${this.antlrJar}" org.antlr.v4.gui.TestRig ${testRigGrammarName} ${startRule} -tree 2>&1`;
-            const result = execSync(grunCmd, {
-                cwd: this.workDir,
-                input: input,
-                encoding: 'utf-8',
-                timeout: 120000,
-            });
-            const tree = this.parseTreeOutput(result);
-
-            // Enrich tree nodes with position info from tokens
-            this.enrichTreeWithPositions(tree, tokens, input);
 
             return {
-                tree,
-                errors: [],
-                tokens,
-                duration: 0,
+                ...result,
+                profile: response.profile?.map(decision => ({
+                    ...decision,
+                    ...this.locateRule(grammarFiles, decision.ruleName),
+                })),
+                trace: response.trace,
+                traceTruncated: response.traceTruncated,
+                interpreted: !!interpreted,
             };
         } catch (err) {
+            if (err instanceof GrammarToolError) {
+                return {
+                    tree: {
+                        id: 'error',
+                        type: 'error',
+                        name: 'GRAMMAR_ERROR',
+                        error: err.message,
+                    },
+                    errors: err.diagnostics.map(d => this.diagnosticToParseError(d)),
+                    tokens: [],
+                    duration: 0,
+                };
+            }
+
+            if (err instanceof ParseTimeoutError) {
+                return this.limitResult(
+                    'timeoutMs',
+                    `Parse stopped: the parser did not finish within the time limit of ${limits.timeoutMs}ms`
+                );
+            }
+
             const error = err as Error;
-            console.error('[JavaParser] Error:', error.message);
+            console.error(`[JavaParser] ${engine} error:`, error.message);
 
             return {
                 tree: {
                     id: 'error',
                     type: 'error',
-                    name: 'JAVA_PARSER_ERROR',
+                    name: 'PARSER_ERROR',
                     error: String(error),
                 },
                 errors: [{
                     line: 1,
                     column: 0,
-                    message: `Java parser error: ${error.message}`,
+                    message: `${engine} error: ${error.message}`,
                     severity: 'error',
                 }],
                 tokens: [],
                 duration: 0,
             };
-        } finally {
-            // Cleanup
-            try {
-                rmSync(this.workDir, { recursive: true, force: true });
-            } catch {
-                // Ignore cleanup errors
-            }
         }
     }
 
     /**
-     * Strip target-specific code from grammar (e.g., TypeScript @header/@members blocks)
-     * so the grammar can be compiled with Java target
+     * Interpreter recognizers for the grammars, if they should be interpreted:
+     * when Java isn't available, or when they are small and the generated
+     * recognizers would run no target code. Profiling and tracing need the
+     * Java runtime. Throws a GrammarToolError if the grammars have errors and
+     * there is no tool to report them instead.
      */
-    private stripTargetSpecificCode(content: string): string {
-        // Remove @header, @members, @parser::header, @lexer::header, etc.
-        // These blocks contain target-specific code that won't compile in Java
-        let result = content;
+    private loadInterpreted(
+        prepared: PreparedGrammars,
+        target: ParseTarget,
+        options: ParseOptions
+    ): InterpretedGrammarSet | undefined {
+        if (target !== 'java' || options.profile || options.trace) return undefined;
+
+        const javaAvailable = JavaParser.isAvailable();
+        const size = prepared.files.reduce((sum, file) => sum + file.content.length, 0);
+        if (javaAvailable && size > INTERPRET_MAX_GRAMMAR_CHARS) return undefined;
+
+        const { grammar, diagnostics } = this.interpreter.load(
+            prepared.files,
+            getTestRigGrammarName(prepared.grammarNames)
+        );
+        if (javaAvailable) {
+            // Grammar errors are left for the tool to report
+            return grammar && !grammar.hasPredicates && !grammar.hasActions ? grammar : undefined;
+        }
+        if (!grammar) {
+            throw new GrammarToolError(this.toOriginalNames(diagnostics, prepared));
+        }
+        return grammar;
+    }
 
-        // Remove superClass option (custom base classes won't exist in Java)
-        result = result.replace(/superClass\s*=\s*\w+\s*;?/g, '');
+    /**
+     * Point diagnostics at the files as the client named them
+     */
+    private toOriginalNames(diagnostics: GrammarDiagnostic[], prepared: PreparedGrammars): GrammarDiagnostic[] {
+        return diagnostics.map(d => ({ ...d, file: d.file && (prepared.originalNames.get(d.file) ?? d.file) }));
+    }
 
-        // Remove tokenVocab if it's causing issues (we'll let ANTLR figure it out from files)
-        // Actually keep tokenVocab as it's needed for split grammars
+    /**
+     * Run only the ANTLR tool on a grammar set and return its diagnostics.
+     * Without Java, the grammar interpreter's checks stand in for the tool's.
+     */
+    async compile(grammarFiles: Array<{ name: string; content: string }>): Promise<CompileResult> {
+        const prepared = this.prepareGrammarFiles(grammarFiles, true);
+        const { files, grammarNames, originalNames, dependencyErrors } = prepared;
+        if (dependencyErrors.length > 0) {
+            // The tool would only fail on these with less helpful messages
+            return { success: false, diagnostics: dependencyErrors, duration: 0 };
+        }
 
-        // Match @name { ... } blocks with balanced braces
-        const actionPattern = /@(?:header|members|parser::(?:header|members)|lexer::(?:header|members))\s*\{/g;
-        let match;
+        if (!JavaParser.isAvailable()) {
+            const { diagnostics } = this.interpreter.load(files, getTestRigGrammarName(grammarNames));
+            return {
+                success: !diagnostics.some(d => d.severity === 'error'),
+                diagnostics: this.toOriginalNames(diagnostics, prepared),
+                duration: 0,
+            };
+        }
 
-        while ((match = actionPattern.exec(result)) !== null) {
-            const startIndex = match.index;
-            let braceCount = 1;
-            let endIndex = match.index + match[0].length;
+        mkdirSync(this.tmpRoot, { recursive: true });
+        const workDir = mkdtempSync(join(this.tmpRoot, 'compile-'));
 
-            // Find the matching closing brace
-            while (braceCount > 0 && endIndex < result.length) {
-                if (result[endIndex] === '{') braceCount++;
-                else if (result[endIndex] === '}') braceCount--;
-                endIndex++;
+        try {
+            for (const file of files) {
+                writeFileSync(join(workDir, file.name), file.content, 'utf-8');
             }
 
-            // Remove the entire block
-            result = result.slice(0, startIndex) + result.slice(endIndex);
-            // Reset regex lastIndex since we modified the string
-            actionPattern.lastIndex = startIndex;
+            const diagnostics = await this.runTool(workDir, grammarNames, originalNames, TOOL_LANGUAGES.java);
+            return {
+                success: !diagnostics.some(d => d.severity === 'error'),
+                diagnostics,
+                duration: 0,
+            };
+        } finally {
+            try {
+                rmSync(workDir, { recursive: true, force: true });
+            } catch {
+                // Ignore cleanup errors
+            }
         }
-
-        // Clean up empty options blocks
-        result = result.replace(/options\s*\{\s*\}/g, '');
-
-        return result;
     }
 
     /**
-     * Parse ANTLR's tree output format into our ParseNode structure
-     * ANTLR outputs trees in LISP-like format: (rule token token (subrule ...))
+     * Generate recognizer sources for any language the tool supports. Grammars
+     * are used as written, with their actions and target code, and nothing is
+     * compiled or cached.
      */
-    private parseTreeOutput(treeStr: string): ParseNode {
-        const input = treeStr.trim();
-        let pos = 0;
-        let nodeId = 0;
-
-        const parseNode = (): ParseNode | null => {
-            // Skip whitespace
-            while (pos < input.length && /\s/.test(input[pos])) pos++;
-
-            if (pos >= input.length) return null;
-
-            if (input[pos] === '(') {
-                // Rule node: (ruleName children...)
-                pos++; // skip '('
-
-                // Skip whitespace
-                while (pos < input.length && /\s/.test(input[pos])) pos++;
+    async generate(
+        grammarFiles: Array<{ name: string; content: string }>,
+        options: GenerateOptions
+    ): Promise<GenerateResult> {
+        const { files, grammarNames, originalNames, dependencyErrors } = this.prepareGrammarFiles(grammarFiles, false);
+        if (dependencyErrors.length > 0) {
+            return { success: false, diagnostics: dependencyErrors, files: [], duration: 0 };
+        }
 
-                // Read rule name
-                let name = '';
-                while (pos < input.length && !/[\s()]/.test(input[pos])) {
-                    name += input[pos++];
-                }
+        mkdirSync(this.tmpRoot, { recursive: true });
+        const workDir = mkdtempSync(join(this.tmpRoot, 'generate-'));
 
-                const children: ParseNode[] = [];
+        try {
+            for (const file of files) {
+                writeFileSync(join(workDir, file.name), file.content, 'utf-8');
+            }
 
-                // Parse children until ')'
-                while (pos < input.length) {
-                    while (pos < input.length && /\s/.test(input[pos])) pos++;
+            const toolOptions = [
+                options.visitor ? '-visitor' : '-no-visitor',
+                options.listener === false ? '-no-listener' : '-listener',
+                ...(options.packageName ? ['-package', options.packageName] : []),
+            ];
+            const diagnostics = await this.runTool(workDir, grammarNames, originalNames, options.language, toolOptions);
+            if (diagnostics.some(d => d.severity === 'error')) {
+                return { success: false, diagnostics, files: [], duration: 0 };
+            }
 
-                    if (input[pos] === ')') {
-                        pos++; // skip ')'
-                        break;
-                    }
+            // Everything next to the grammars was written by the tool
+            const generated = readdirSync(workDir, { withFileTypes: true })
+                .filter(entry => entry.isFile() && !originalNames.has(entry.name))
+                .map(entry => ({
+                    name: entry.name,
+                    content: readFileSync(join(workDir, entry.name), 'utf-8'),
+                }))
+                .sort((a, b) => a.name.localeCompare(b.name));
+            return { success: true, diagnostics, files: generated, duration: 0 };
+        } finally {
+            try {
+                rmSync(workDir, { recursive: true, force: true });
+            } catch {
+                // Ignore cleanup errors
+            }
+        }
+    }
 
-                    const child = parseNode();
-                    if (child) children.push(child);
-                }
+    /**
+     * Optionally strip target-specific code and work out grammar names, types
+     * and the order imports and token vocabularies require. Files are named
+     * after the grammar declared in their content, not the frontend file name, so
+     * the tool finds imported grammars and .tokens files by name.
+     */
+    private prepareGrammarFiles(
+        grammarFiles: Array<{ name: string; content: string }>,
+        stripTargetCode: boolean
+    ): PreparedGrammars {
+        // Other targets run the grammar's @header/@members code and base classes as written
+        const cleanedFiles = stripTargetCode
+            ? grammarFiles.map(file => ({
+                name: file.name,
+                content: this.stripTargetSpecificCode(file.content),
+            }))
+            : grammarFiles;
+        const dependencies = resolveGrammarDependencies(cleanedFiles);
+
+        const prepared: PreparedGrammars = {
+            files: [],
+            grammarNames: dependencies.generated.map(({ name, type }) => ({ name, type })),
+            originalNames: new Map(),
+            dependencyErrors: dependencies.diagnostics,
+        };
+        for (const grammar of dependencies.grammars) {
+            const fileName = `${grammar.name}.g4`;
+            const content = cleanedFiles.find(f => f.name === grammar.file)!.content;
+            prepared.files.push({ name: fileName, content });
+            prepared.originalNames.set(fileName, grammar.file);
+        }
 
-                return {
-                    id: `node_${nodeId++}`,
-                    type: 'rule',
-                    name,
-                    children: children.length > 0 ? children : undefined,
-                };
-            } else {
-                // Token: just read until whitespace or paren
-                let text = '';
-                while (pos < input.length && !/[\s()]/.test(input[pos])) {
-                    text += input[pos++];
-                }
+        return prepared;
+    }
 
-                if (!text) return null;
+    /**
+     * Run the ANTLR tool in a directory holding the grammar files, generating
+     * code for the given -Dlanguage next to them. Returns the tool's diagnostics.
+     */
+    private async runTool(
+        workDir: string,
+        grammarNames: { name: string; type: GrammarType }[],
+        originalNames: Map<string, string>,
+        language: string,
+        toolOptions: string[] = []
+    ): Promise<GrammarDiagnostic[]> {
+        try {
+            // Imported grammars and .tokens files are looked up in the lib directory
+            const { stdout, stderr } = await execFileAsync(
+                'java',
+                [
+                    '-jar', this.antlrJar,
+                    `-Dlanguage=${language}`,
+                    '-lib', '.',
+                    ...toolOptions,
+                    ...grammarNames.map(g => `${g.name}.g4`),
+                ],
+                { cwd: workDir, timeout: 60000 }
+            );
+            return parseToolDiagnostics(`${stderr}\n${stdout}`, originalNames);
+        } catch (err) {
+            const error = err as Error & { stdout?: string; stderr?: string; code?: unknown };
+            // Only a non-zero exit code means the tool ran and rejected the grammar
+            if (typeof error.code !== 'number') throw err;
 
-                return {
-                    id: `token_${nodeId++}`,
-                    type: 'token',
-                    name: text,
-                };
+            const diagnostics = parseToolDiagnostics(`${error.stderr ?? ''}\n${error.stdout ?? ''}`, originalNames);
+            if (!diagnostics.some(d => d.severity === 'error')) {
+                diagnostics.push({ severity: 'error', message: error.message });
             }
+            return diagnostics;
+        }
+    }
+
+    /**
+     * Map a tool diagnostic to a ParseError located in the grammar file
+     */
+    private diagnosticToParseError(diagnostic: GrammarDiagnostic): ParseError {
+        return {
+            line: diagnostic.line ?? 1,
+            column: diagnostic.column ?? 0,
+            message: formatToolDiagnostic(diagnostic),
+            severity: diagnostic.severity,
+            source: 'grammar',
         };
+    }
 
-        const result = parseNode();
-        return result || {
-            id: 'empty',
-            type: 'rule',
-            name: 'empty',
+    /**
+     * Result for a parse that a limit stopped before anything was produced
+     */
+    private limitResult(limit: keyof ParseLimits, message: string): ParseResult {
+        return {
+            tree: {
+                id: 'error',
+                type: 'error',
+                name: 'LIMIT_EXCEEDED',
+                error: message,
+            },
+            errors: [{
+                line: 1,
+                column: 0,
+                message,
+                severity: 'error',
+                source: 'limit',
+                limit,
+            }],
+            tokens: [],
+            duration: 0,
         };
     }
 
     /**
-     * Parse TestRig -tokens output into Token array
-     * Format: [@index,start:stop='text',<TYPE>,channel,line:column]
+     * Find the grammar file and line where a rule is defined
      */
-    private parseTokensOutput(output: string): Token[] {
-        const tokens: Token[] = [];
-        const lines = output.trim().split('\n');
-
-        // Token format: [@0,0:6='PROGRAM',<PROGRAM>,1:0]
-        const tokenPattern = /\[@(\d+),(\d+):(\d+)='([^']*)',<([^>]+)>,(?:channel=\d+,)?(\d+):(\d+)\]/;
-
-        for (const line of lines) {
-            const match = line.match(tokenPattern);
-            if (match) {
-                tokens.push({
-                    tokenIndex: parseInt(match[1], 10),
-                    start: parseInt(match[2], 10),
-                    stop: parseInt(match[3], 10),
-                    text: match[4],
-                    type: match[5],
-                    line: parseInt(match[6], 10),
-                    column: parseInt(match[7], 10),
-                });
+    private locateRule(
+        grammarFiles: Array<{ name: string; content: string }>,
+        ruleName: string
+    ): { file?: string; line?: number } {
+        // The rule name at the start of a line, followed by its colon or by
+        // arguments, return values or options before the colon
+        const rulePattern = new RegExp(`^\\s*${ruleName}\\s*(?:$|[:\\[]|returns\\b|locals\\b|throws\\b|options\\b|@)`);
+
+        for (const file of grammarFiles) {
+            const lines = file.content.split('\n');
+            const index = lines.findIndex(line => rulePattern.test(line));
+            if (index >= 0) {
+                return { file: file.name, line: index + 1 };
             }
         }
-
-        return tokens;
+        return {};
     }
 
     /**
-     * Enrich tree nodes with position information from tokens
-     * This matches token text in the tree to actual token objects for position data
+     * Generate and compile a grammar set, then move the build into the cache.
+     * Returns the directory holding the compiled classes or, for the TypeScript
+     * and JavaScript targets, the generated ES modules.
      */
-    private enrichTreeWithPositions(node: ParseNode, tokens: Token[], inputText: string): void {
-        // Build a map of token text to tokens for quick lookup
-        // We use a list since multiple tokens might have the same text
-        const tokensByText = new Map<string, Token[]>();
-        for (const token of tokens) {
-            const existing = tokensByText.get(token.text) || [];
-            existing.push(token);
-            tokensByText.set(token.text, existing);
+    private buildGrammar(prepared: PreparedGrammars, target: ParseTarget, cacheKey: string): Promise<string> {
+        let build = this.builds.get(cacheKey);
+        if (!build) {
+            build = this.runBuild(prepared, target, cacheKey).finally(() => {
+                this.builds.delete(cacheKey);
+            });
+            this.builds.set(cacheKey, build);
         }
+        return build;
+    }
 
-        // Track which tokens have been consumed (by index)
-        const consumedTokens = new Set<number>();
-
-        // Recursive function to process nodes
-        const processNode = (n: ParseNode): { startIndex: number; stopIndex: number; startLine: number; startColumn: number; endLine: number; endColumn: number } | null => {
-            if (n.type === 'token') {
-                // For token nodes, find the matching token
-                const tokenText = n.name;
-                const candidates = tokensByText.get(tokenText) || [];
-
-                // Find first unconsumed token with this text
-                for (const token of candidates) {
-                    if (!consumedTokens.has(token.tokenIndex)) {
-                        consumedTokens.add(token.tokenIndex);
-                        n.token = token;
-                        n.startIndex = token.start;
-                        n.stopIndex = token.stop;
-                        n.startLine = token.line;
-                        n.startColumn = token.column;
-                        // Calculate end line/column from stop position
-                        const endPos = this.calculateEndPosition(inputText, token.stop);
-                        n.endLine = endPos.line;
-                        n.endColumn = endPos.column;
-                        n.matchedText = token.text;
-
-                        return {
-                            startIndex: token.start,
-                            stopIndex: token.stop,
-                            startLine: token.line,
-                            startColumn: token.column,
-                            endLine: endPos.line,
-                            endColumn: endPos.column
-                        };
-                    }
-                }
-                return null;
+    private async runBuild(
+        { files, grammarNames, originalNames }: PreparedGrammars,
+        target: ParseTarget,
+        cacheKey: string
+    ): Promise<string> {
+        // Each build gets its own directory so concurrent builds don't clobber each other
+        mkdirSync(this.tmpRoot, { recursive: true });
+        const workDir = mkdtempSync(join(this.tmpRoot, 'build-'));
+
+        try {
+            for (const file of files) {
+                writeFileSync(join(workDir, file.name), file.content, 'utf-8');
             }
 
-            if (n.type === 'rule' && n.children && n.children.length > 0) {
-                // For rule nodes, compute span from children
-                let minStart = Number.MAX_SAFE_INTEGER;
-                let maxStop = -1;
-                let startLine = Number.MAX_SAFE_INTEGER;
-                let startColumn = 0;
-                let endLine = -1;
-                let endColumn = 0;
-
-                for (const child of n.children) {
-                    const childSpan = processNode(child);
-                    if (childSpan) {
-                        if (childSpan.startIndex < minStart) {
-                            minStart = childSpan.startIndex;
-                            startLine = childSpan.startLine;
-                            startColumn = childSpan.startColumn;
-                        }
-                        if (childSpan.stopIndex > maxStop) {
-                            maxStop = childSpan.stopIndex;
-                            endLine = childSpan.endLine;
-                            endColumn = childSpan.endColumn;
-                        }
-                    }
-                }
+            // Generate parser
+            const diagnostics = await this.runTool(workDir, grammarNames, originalNames, TOOL_LANGUAGES[target]);
+            if (diagnostics.some(d => d.severity === 'error')) {
+                throw new GrammarToolError(diagnostics);
+            }
+
+            if (target === 'java') {
+                // Compile generated Java files
+                const { stdout } = await execFileAsync('find', ['.', '-name', '*.java'], { cwd: workDir });
+                const javaFiles = stdout.trim().split('\n');
 
-                if (maxStop >= 0) {
-                    n.startIndex = minStart;
-                    n.stopIndex = maxStop;
-                    n.startLine = startLine;
-                    n.startColumn = startColumn;
-                    n.endLine = endLine;
-                    n.endColumn = endColumn;
-                    n.matchedText = inputText.substring(minStart, maxStop + 1);
-
-                    return {
-                        startIndex: minStart,
-                        stopIndex: maxStop,
-                        startLine,
-                        startColumn,
-                        endLine,
-                        endColumn
-                    };
+                if (javaFiles.length > 0 && javaFiles[0]) {
+                    await execFileAsync('javac', ['-cp', this.antlrJar, ...javaFiles], {
+                        cwd: workDir,
+                        timeout: 60000,
+                    });
                 }
+            } else {
+                this.prepareModules(workDir, target);
             }
 
-            return null;
-        };
+            this.cache.put(cacheKey, workDir, getTestRigGrammarName(grammarNames));
+            return this.cache.getEntryDir(cacheKey);
+        } finally {
+            // Cleanup (the build directory is moved into the cache on success)
+            try {
+                rmSync(workDir, { recursive: true, force: true });
+            } catch {
+                // Ignore cleanup errors
+            }
+        }
+    }
 
-        processNode(node);
+    /**
+     * Turn the code generated for the TypeScript or JavaScript target into ES
+     * modules the JS worker can import: TypeScript is transpiled next to its
+     * source, and runtime imports point at this project's antlr4 package.
+     */
+    private prepareModules(workDir: string, target: ParseTarget): void {
+        const extension = target === 'typescript' ? '.ts' : '.js';
+        for (const name of readdirSync(workDir)) {
+            if (!name.endsWith(extension)) continue;
+
+            const source = readFileSync(join(workDir, name), 'utf-8');
+            const code = target === 'typescript' ? transpileForRuntime(source, name) : resolveRuntimeImports(source);
+            writeFileSync(join(workDir, name.replace(/\.ts$/, '.js')), code, 'utf-8');
+        }
+        writeFileSync(join(workDir, 'package.json'), JSON.stringify({ type: 'module' }), 'utf-8');
     }
 
     /**
-     * Calculate line and column for a character position in text
+     * Strip target-specific code from grammar (e.g., TypeScript @header/@members blocks)
+     * so the grammar can be compiled with Java target
      */
-    private calculateEndPosition(text: string, stopIndex: number): { line: number; column: number } {
-        let line = 1;
-        let column = 0;
-
-        for (let i = 0; i <= stopIndex && i < text.length; i++) {
-            if (text[i] === '\n') {
-                line++;
-                column = 0;
-            } else {
-                column++;
+    private stripTargetSpecificCode(content: string): string {
+        // Remove @header, @members, @parser::header, @lexer::header, etc.
+        // These blocks contain target-specific code that won't compile in Java.
+        // Removed text keeps its line breaks so tool diagnostics point at the right lines.
+        const keepLineBreaks = (removed: string) => removed.replace(/[^\n]/g, '');
+        let result = content;
+
+        // Remove superClass option (custom base classes won't exist in Java)
+        result = result.replace(/superClass\s*=\s*\w+\s*;?/g, keepLineBreaks);
+
+        // Keep tokenVocab and imports: the referenced grammars are generated first (see grammarDependencies)
+
+        // Match @name { ... } blocks with balanced braces
+        const actionPattern = /@(?:header|members|parser::(?:header|members)|lexer::(?:header|members))\s*\{/g;
+        let match;
+
+        while ((match = actionPattern.exec(result)) !== null) {
+            const startIndex = match.index;
+            let braceCount = 1;
+            let endIndex = match.index + match[0].length;
+
+            // Find the matching closing brace
+            while (braceCount > 0 && endIndex < result.length) {
+                if (result[endIndex] === '{') braceCount++;
+                else if (result[endIndex] === '}') braceCount--;
+                endIndex++;
             }
+
+            // Remove the entire block
+            result = result.slice(0, startIndex) + keepLineBreaks(result.slice(startIndex, endIndex)) + result.slice(endIndex);
+            // Reset regex lastIndex since we modified the string
+            actionPattern.lastIndex = startIndex;
         }
 
-        return { line, column };
+        // Clean up empty options blocks
+        result = result.replace(/options\s*\{\s*\}/g, keepLineBreaks);
+
+        return result;
     }
 
     /**
      * Check if Java and the ANTLR jar are available
      */
     static isAvailable(): boolean {
+        if (JavaParser.available !== undefined) return JavaParser.available;
+
         try {
             // Check Java
             execSync('java -version', { stdio: 'pipe' });
@@ -459,9 +657,10 @@ export class JavaParser {
             const jarPath = join(projectRoot, 'lib/antlr-4.13.2-complete.jar');
             readFileSync(jarPath);
 
-            return true;
+            JavaParser.available = true;
         } catch {
-            return false;
+            JavaParser.available = false;
         }
+        return JavaParser.available;
     }
 }
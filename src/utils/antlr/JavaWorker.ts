@@ -0,0 +1,320 @@
+import { spawn, execFile, ChildProcessWithoutNullStreams } from 'child_process';
+import { createInterface } from 'readline';
+import { existsSync, mkdirSync, statSync } from 'fs';
+import { join, delimiter } from 'path';
+import { promisify } from 'util';
+import { DecisionProfile, InputAmbiguity, ModeTransition, ParseError, ParseTiming, Token, TraceEvent } from './types';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * A parse request for the worker. `classDir` must be an absolute path to the
+ * directory holding the compiled lexer and parser classes.
+ */
+export interface WorkerParseRequest {
+    classDir: string;
+    grammarName: string;
+    /** Rule to parse with; without one the input is only tokenized */
+    startRule?: string;
+    input: string;
+    /** Collect per-decision profiling statistics */
+    profile?: boolean;
+    /** Record every parser step */
+    trace?: boolean;
+    /** Run with exact ambiguity detection and report what it finds (not while profiling) */
+    ambiguities?: boolean;
+    /** Stop the parse after this long, keeping the partial result (0 for no limit) */
+    timeoutMs?: number;
+    /** Stop the parse once the tree has this many nodes (0 for no limit) */
+    maxTreeNodes?: number;
+}
+
+/**
+ * Parse tree node as sent by the worker. Positions are resolved through the token list.
+ */
+export interface WorkerTreeNode {
+    type: 'rule' | 'token' | 'error';
+    /** Rule name (rule nodes only) */
+    name?: string;
+    /** Index into the token list; -1 for tokens conjured during error recovery */
+    tokenIndex?: number;
+    /** Token text, only sent for conjured tokens */
+    text?: string;
+    /** First token index of a rule */
+    start?: number;
+    /** Last token index of a rule (before `start` if the rule matched nothing) */
+    stop?: number;
+    children?: WorkerTreeNode[];
+}
+
+/**
+ * Ambiguity as sent by the worker, located by first and last token index
+ */
+export type WorkerAmbiguity = Omit<
+    InputAmbiguity,
+    'startIndex' | 'stopIndex' | 'startLine' | 'startColumn' | 'endLine' | 'endColumn' | 'text'
+> & {
+    startToken: number;
+    stopToken: number;
+};
+
+export interface WorkerParseResponse {
+    tokens: Token[];
+    /** Null when the input was only tokenized */
+    tree: WorkerTreeNode | null;
+    errors: ParseError[];
+    ambiguities: WorkerAmbiguity[];
+    modeTransitions: ModeTransition[];
+    timing: ParseTiming;
+    /** Present when profiling was requested; rule locations are not filled in */
+    profile?: DecisionProfile[];
+    /** Present when tracing was requested */
+    trace?: TraceEvent[];
+    traceTruncated?: boolean;
+}
+
+/**
+ * Thrown when the worker does not answer in time. The worker is replaced,
+ * so nothing of the parse is available.
+ */
+export class ParseTimeoutError extends Error {
+    timeoutMs: number;
+
+    constructor(timeoutMs: number) {
+        super(`Parse timed out after ${timeoutMs}ms`);
+        this.name = 'ParseTimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * Number of parses that can run at once: each worker keeps up to this many
+ * processes, and the server's parse queue lets this many requests through
+ */
+export function getParseConcurrency(): number {
+    return parseInt(process.env.PARSE_MAX_CONCURRENCY || '', 10) || 2;
+}
+
+interface QueuedRequest {
+    id: number;
+    request: WorkerParseRequest;
+    timeoutMs: number;
+    resolve: (response: WorkerParseResponse) => void;
+    reject: (error: Error) => void;
+}
+
+interface ActiveRequest extends QueuedRequest {
+    process: ChildProcessWithoutNullStreams;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * One process of the pool and the request it is handling
+ */
+interface WorkerSlot {
+    process: ChildProcessWithoutNullStreams | null;
+    starting: boolean;
+    active: ActiveRequest | null;
+}
+
+/**
+ * Pool of resident processes that parse input with generated grammars. Requests
+ * and responses are exchanged as JSON lines over stdin/stdout. Processes are
+ * started when requests need them, and replaced on the next request if they crash
+ * or a parse times out.
+ *
+ * Each process handles one request at a time, so requests are sent one at a time:
+ * a request waits here until a process is free, and its timeout only starts once
+ * it is sent.
+ */
+export abstract class ParseWorkerProcess {
+    private slots: WorkerSlot[];
+    private queue: QueuedRequest[] = [];
+    private nextId = 1;
+
+    /** Prefix for log messages, e.g. "[JavaWorker]" */
+    protected abstract readonly logPrefix: string;
+
+    /**
+     * @param size - Number of processes parsing at the same time
+     */
+    constructor(size = 1) {
+        this.slots = Array.from({ length: Math.max(1, size) }, () => ({ process: null, starting: false, active: null }));
+    }
+
+    /**
+     * Start a worker process
+     */
+    protected abstract launch(): Promise<ChildProcessWithoutNullStreams>;
+
+    /**
+     * Parse input with a generated grammar
+     */
+    parse(request: WorkerParseRequest, timeoutMs = 120000): Promise<WorkerParseResponse> {
+        return new Promise((resolve, reject) => {
+            this.queue.push({ id: this.nextId++, request, timeoutMs, resolve, reject });
+            this.sendNext();
+        });
+    }
+
+    /**
+     * Stop the worker processes. They are started again on the next requests.
+     */
+    stop(): void {
+        for (const slot of this.slots) {
+            slot.process?.kill();
+            slot.process = null;
+        }
+    }
+
+    /**
+     * Send queued requests to the idle processes, preferring ones already running
+     */
+    private sendNext(): void {
+        while (this.queue.length > 0) {
+            const idle = this.slots.filter(s => !s.active && !s.starting);
+            const slot = idle.find(s => s.process) ?? idle[0];
+            if (!slot) return;
+            void this.send(slot, this.queue.shift()!);
+        }
+    }
+
+    private async send(slot: WorkerSlot, next: QueuedRequest): Promise<void> {
+        let proc = slot.process;
+        if (!proc) {
+            slot.starting = true;
+            try {
+                proc = await this.start(slot);
+            } catch (error) {
+                // Launching again would fail the same way
+                for (const queued of [next, ...this.queue.splice(0)]) {
+                    queued.reject(error as Error);
+                }
+                return;
+            } finally {
+                slot.starting = false;
+            }
+        }
+
+        const started = proc;
+        const timer = setTimeout(() => {
+            slot.active = null;
+            next.reject(new ParseTimeoutError(next.timeoutMs));
+            // The process is stuck on this parse, so replace it for the requests still queued
+            if (slot.process === started) {
+                slot.process = null;
+            }
+            started.kill();
+            this.sendNext();
+        }, next.timeoutMs);
+
+        slot.active = { ...next, process: started, timer };
+        started.stdin.write(JSON.stringify({ id: next.id, ...next.request }) + '\n');
+    }
+
+    private async start(slot: WorkerSlot): Promise<ChildProcessWithoutNullStreams> {
+        const proc = await this.launch();
+
+        createInterface({ input: proc.stdout }).on('line', line => this.handleResponse(slot, line));
+
+        // Worker diagnostics and output from grammar actions
+        proc.stderr.setEncoding('utf-8');
+        proc.stderr.on('data', (chunk: string) => {
+            console.error(`${this.logPrefix} ${chunk.trimEnd()}`);
+        });
+
+        proc.on('error', err => this.handleExit(slot, proc, err));
+        proc.on('exit', (code, signal) => {
+            this.handleExit(slot, proc, new Error(`Parse worker exited (${signal ?? `code ${code}`})`));
+        });
+        // Write errors after the worker died are reported through 'exit'
+        proc.stdin.on('error', () => {});
+
+        slot.process = proc;
+        return proc;
+    }
+
+    private handleResponse(slot: WorkerSlot, line: string): void {
+        let response: Partial<WorkerParseResponse> & { id: number; error?: string };
+        try {
+            response = JSON.parse(line);
+        } catch {
+            console.error(`${this.logPrefix} Unexpected output: ${line}`);
+            return;
+        }
+
+        const active = slot.active;
+        if (!active || active.id !== response.id) return;
+
+        slot.active = null;
+        clearTimeout(active.timer);
+
+        if (response.error) {
+            active.reject(new Error(response.error));
+        } else {
+            active.resolve(response as WorkerParseResponse);
+        }
+        this.sendNext();
+    }
+
+    private handleExit(slot: WorkerSlot, proc: ChildProcessWithoutNullStreams, error: Error): void {
+        if (slot.process === proc) {
+            slot.process = null;
+        }
+
+        const active = slot.active;
+        if (active?.process === proc) {
+            slot.active = null;
+            clearTimeout(active.timer);
+            active.reject(error);
+        }
+        // Requests still queued go to a new process
+        this.sendNext();
+    }
+}
+
+/**
+ * Resident JVMs that parse input with compiled grammars (see java/ParseWorker.java).
+ * The worker is compiled on first use.
+ */
+export class JavaWorker extends ParseWorkerProcess {
+    protected readonly logPrefix = '[JavaWorker]';
+    private antlrJar: string;
+    private sourceFile: string;
+    private classDir: string;
+    /** Compilation in progress, shared by processes starting together */
+    private compiling: Promise<void> | null = null;
+
+    constructor(antlrJar: string, sourceFile: string, classDir: string, size?: number) {
+        super(size);
+        this.antlrJar = antlrJar;
+        this.sourceFile = sourceFile;
+        this.classDir = classDir;
+    }
+
+    protected async launch(): Promise<ChildProcessWithoutNullStreams> {
+        this.compiling ??= this.compile().finally(() => {
+            this.compiling = null;
+        });
+        await this.compiling;
+
+        return spawn('java', ['-cp', `${this.classDir}${delimiter}${this.antlrJar}`, 'ParseWorker'], {
+            stdio: 'pipe',
+        });
+    }
+
+    /**
+     * Compile the worker if its class file is missing or older than the source
+     */
+    private async compile(): Promise<void> {
+        const classFile = join(this.classDir, 'ParseWorker.class');
+        if (existsSync(classFile) && statSync(classFile).mtimeMs >= statSync(this.sourceFile).mtimeMs) {
+            return;
+        }
+
+        mkdirSync(this.classDir, { recursive: true });
+        await execFileAsync('javac', ['-cp', this.antlrJar, '-d', this.classDir, this.sourceFile], {
+            timeout: 60000,
+        });
+    }
+}
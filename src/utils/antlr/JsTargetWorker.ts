@@ -0,0 +1,108 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import ts from 'typescript';
+import { ParseWorkerProcess, WorkerParseRequest, WorkerParseResponse } from './JavaWorker';
+
+/** Grammars whose modules stay loaded before the worker is restarted to free them */
+const MAX_LOADED_GRAMMARS = 20;
+
+/**
+ * Transpile TypeScript to an ES module Node can run, with `antlr4` imports
+ * pointing at the runtime this project depends on. Generated code and the
+ * runner must share one runtime instance, and a grammar cache outside the
+ * project directory can't resolve the package by name.
+ */
+export function transpileForRuntime(source: string, fileName: string, runtime?: string): string {
+    const { outputText } = ts.transpileModule(source, {
+        fileName,
+        compilerOptions: {
+            module: ts.ModuleKind.ESNext,
+            target: ts.ScriptTarget.ES2022,
+            // Generated recognizers declare fields that their base classes set up
+            useDefineForClassFields: false,
+        },
+    });
+    return resolveRuntimeImports(outputText, runtime);
+}
+
+/**
+ * Point `antlr4` imports of an ES module at the runtime this project depends
+ * on, or at the given module URL
+ */
+export function resolveRuntimeImports(code: string, runtime = import.meta.resolve('antlr4')): string {
+    return code.replace(/(\bfrom\s*|\bimport\s*\(\s*|\bimport\s+)(['"])antlr4\2/g, `$1$2${runtime}$2`);
+}
+
+/**
+ * Resident Node processes that parse input with grammars generated for the
+ * TypeScript or JavaScript target (see js/parseRunner.ts). The runner and
+ * the modules next to it are transpiled on first use.
+ */
+export class JsTargetWorker extends ParseWorkerProcess {
+    protected readonly logPrefix = '[JsTargetWorker]';
+    private sourceFile: string;
+    private outDir: string;
+    /** URL of the antlr4 module the runner imports, if not the one this project resolves */
+    private runtime?: string;
+    /** Grammar directories the current processes have loaded modules from */
+    private loaded = new Set<string>();
+    private inFlight = 0;
+
+    constructor(sourceFile: string, outDir: string, size?: number, runtime?: string) {
+        super(size);
+        this.sourceFile = sourceFile;
+        this.outDir = outDir;
+        this.runtime = runtime;
+    }
+
+    async parse(request: WorkerParseRequest, timeoutMs?: number): Promise<WorkerParseResponse> {
+        // ES modules can't be unloaded, so replace the processes once they have
+        // loaded many grammars and nothing is waiting on them
+        if (!this.loaded.has(request.classDir) && this.loaded.size >= MAX_LOADED_GRAMMARS && this.inFlight === 0) {
+            this.stop();
+        }
+        this.loaded.add(request.classDir);
+
+        this.inFlight++;
+        try {
+            return await super.parse(request, timeoutMs);
+        } finally {
+            this.inFlight--;
+        }
+    }
+
+    stop(): void {
+        super.stop();
+        this.loaded.clear();
+    }
+
+    protected async launch(): Promise<ChildProcessWithoutNullStreams> {
+        const runner = this.compile();
+        return spawn(process.execPath, [runner], { stdio: 'pipe' });
+    }
+
+    /**
+     * Transpile the runner and the modules it imports if the output is missing
+     * or older than any source. Returns the path of the runnable module.
+     */
+    private compile(): string {
+        const sourceDir = dirname(this.sourceFile);
+        const sources = readdirSync(sourceDir).filter(file => file.endsWith('.ts'));
+        const outFile = join(this.outDir, basename(this.sourceFile).replace(/\.ts$/, '.mjs'));
+        const newest = Math.max(...sources.map(file => statSync(join(sourceDir, file)).mtimeMs));
+        if (existsSync(outFile) && statSync(outFile).mtimeMs >= newest) {
+            return outFile;
+        }
+
+        mkdirSync(this.outDir, { recursive: true });
+        for (const file of sources) {
+            const path = join(sourceDir, file);
+            const code = transpileForRuntime(readFileSync(path, 'utf-8'), path, this.runtime)
+                // The modules import each other without an extension
+                .replace(/(\bfrom\s*)(['"])(\.\/[^'"]+)\2/g, '$1$2$3.mjs$2');
+            writeFileSync(join(this.outDir, file.replace(/\.ts$/, '.mjs')), code, 'utf-8');
+        }
+        return outFile;
+    }
+}
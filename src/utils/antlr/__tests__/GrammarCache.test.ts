@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { GrammarCache } from '../GrammarCache';
+
+describe('GrammarCache', () => {
+    const testDir = './data/test-grammar-cache';
+    const cacheDir = join(testDir, 'cache');
+    let buildCount = 0;
+
+    /** Create a fake build directory holding a file of the given size */
+    const makeBuild = (size = 10): string => {
+        const dir = join(testDir, `build-${buildCount++}`);
+        mkdirSync(dir, { recursive: true });
+        writeFileSync(join(dir, 'ExprParser.class'), 'x'.repeat(size));
+        return dir;
+    };
+
+    beforeEach(() => {
+        mkdirSync(testDir, { recursive: true });
+    });
+
+    afterEach(() => {
+        rmSync(testDir, { recursive: true, force: true });
+    });
+
+    describe('computeKey', () => {
+        it('should be independent of file order', () => {
+            const a = { name: 'ExprLexer.g4', content: 'lexer grammar ExprLexer;' };
+            const b = { name: 'ExprParser.g4', content: 'parser grammar ExprParser;' };
+
+            expect(GrammarCache.computeKey([a, b])).toBe(GrammarCache.computeKey([b, a]));
+        });
+
+        it('should change when content, file name or salt changes', () => {
+            const files = [{ name: 'Expr.g4', content: 'grammar Expr;' }];
+            const key = GrammarCache.computeKey(files, 'antlr-4.13.2');
+
+            expect(GrammarCache.computeKey([{ name: 'Expr.g4', content: 'grammar Expr; ' }], 'antlr-4.13.2')).not.toBe(key);
+            expect(GrammarCache.computeKey([{ name: 'Other.g4', content: 'grammar Expr;' }], 'antlr-4.13.2')).not.toBe(key);
+            expect(GrammarCache.computeKey(files, 'antlr-4.13.1')).not.toBe(key);
+        });
+    });
+
+    describe('get/put', () => {
+        it('should return undefined for unknown keys', () => {
+            const cache = new GrammarCache({ cacheDir });
+            expect(cache.get('missing')).toBeUndefined();
+        });
+
+        it('should move the build directory into the cache', () => {
+            const cache = new GrammarCache({ cacheDir });
+            const buildDir = makeBuild(42);
+
+            const entry = cache.put('abc', buildDir, 'Expr');
+
+            expect(existsSync(buildDir)).toBe(false);
+            expect(existsSync(join(cache.getEntryDir('abc'), 'ExprParser.class'))).toBe(true);
+            expect(entry.size).toBe(42);
+            expect(cache.get('abc')?.grammarName).toBe('Expr');
+        });
+
+        it('should keep the existing entry when the same key is stored twice', () => {
+            const cache = new GrammarCache({ cacheDir });
+            cache.put('abc', makeBuild(), 'Expr');
+
+            const secondBuild = makeBuild();
+            const entry = cache.put('abc', secondBuild, 'Other');
+
+            expect(entry.grammarName).toBe('Expr');
+            expect(existsSync(secondBuild)).toBe(false);
+        });
+    });
+
+    describe('eviction', () => {
+        it('should evict the least recently used entry when over the entry limit', async () => {
+            const cache = new GrammarCache({ cacheDir, maxEntries: 2 });
+            cache.put('first', makeBuild(), 'A');
+            await new Promise(resolve => setTimeout(resolve, 5));
+            cache.put('second', makeBuild(), 'B');
+            await new Promise(resolve => setTimeout(resolve, 5));
+
+            // Touch the first entry so the second becomes least recently used
+            cache.get('first');
+            await new Promise(resolve => setTimeout(resolve, 5));
+            cache.put('third', makeBuild(), 'C');
+
+            const keys = cache.list().map(e => e.key).sort();
+            expect(keys).toEqual(['first', 'third']);
+        });
+
+        it('should evict entries when over the size limit but keep the newest', () => {
+            const cache = new GrammarCache({ cacheDir, maxBytes: 1000 });
+            cache.put('small', makeBuild(100), 'A');
+            cache.put('large', makeBuild(2000), 'B');
+
+            expect(cache.list().map(e => e.key)).toEqual(['large']);
+        });
+
+        it('should keep an entry in use until it is released', async () => {
+            const cache = new GrammarCache({ cacheDir, maxEntries: 1 });
+            cache.put('first', makeBuild(), 'A');
+            cache.acquire('first');
+            cache.acquire('first');
+            await new Promise(resolve => setTimeout(resolve, 5));
+
+            cache.put('second', makeBuild(), 'B');
+            expect(existsSync(join(cache.getEntryDir('first'), 'ExprParser.class'))).toBe(true);
+
+            cache.release('first');
+            expect(existsSync(cache.getEntryDir('first'))).toBe(true);
+
+            cache.release('first');
+            expect(existsSync(cache.getEntryDir('first'))).toBe(false);
+            expect(cache.list().map(e => e.key)).toEqual(['second']);
+        });
+
+        it('should protect an entry acquired before it was built', async () => {
+            const cache = new GrammarCache({ cacheDir, maxEntries: 1 });
+            cache.acquire('first');
+            cache.put('first', makeBuild(), 'A');
+            await new Promise(resolve => setTimeout(resolve, 5));
+
+            cache.put('second', makeBuild(), 'B');
+            expect(existsSync(cache.getEntryDir('first'))).toBe(true);
+
+            cache.release('first');
+            expect(cache.list().map(e => e.key)).toEqual(['second']);
+        });
+
+        it('should remove incomplete entries', () => {
+            const cache = new GrammarCache({ cacheDir });
+            mkdirSync(join(cacheDir, 'partial'), { recursive: true });
+
+            cache.evict();
+
+            expect(existsSync(join(cacheDir, 'partial'))).toBe(false);
+        });
+    });
+});
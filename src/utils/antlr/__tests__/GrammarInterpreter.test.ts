@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import { GrammarInterpreter } from '../GrammarInterpreter';
+import type { WorkerParseResponse, WorkerTreeNode } from '../JavaWorker';
+
+const EXPR = `grammar Expr;
+prog: stat+ EOF;
+stat: expr ';' | ID '=' expr ';' ;
+expr: expr ('*'|'/') expr
+    | <assoc=right> expr '^' expr
+    | expr ('+'|'-') expr
+    | '-' expr
+    | '(' expr ')'
+    | ID
+    | INT
+    ;
+ID: [a-zA-Z_] [a-zA-Z_0-9]* ;
+INT: [0-9]+ ;
+WS: [ \\t\\r\\n]+ -> skip ;
+COMMENT: '/*' .*? '*/' -> channel(HIDDEN) ;
+`;
+
+/**
+ * Parse tree as a bracketed string, e.g. (expr (expr 1) + (expr 2))
+ */
+function treeText(response: WorkerParseResponse): string {
+    const text = (node: WorkerTreeNode): string => {
+        if (node.type !== 'rule') {
+            return node.tokenIndex !== undefined && node.tokenIndex >= 0 ? response.tokens[node.tokenIndex].text : node.text!;
+        }
+        return `(${[node.name, ...(node.children ?? []).map(text)].join(' ')})`;
+    };
+    return text(response.tree!);
+}
+
+function load(interpreter: GrammarInterpreter, files: Array<{ name: string; content: string }>, grammarName: string) {
+    const { grammar, diagnostics } = interpreter.load(files, grammarName);
+    expect(diagnostics.filter(d => d.severity === 'error')).toEqual([]);
+    return grammar!;
+}
+
+describe('GrammarInterpreter', () => {
+    const interpreter = new GrammarInterpreter();
+    const expr = () => load(interpreter, [{ name: 'Expr.g4', content: EXPR }], 'Expr');
+
+    it('should parse with left-recursive rules by precedence and associativity', () => {
+        const response = interpreter.parse(expr(), '1 + 2 * 3 ^ 4 ^ 5;', 'prog');
+
+        expect(response.errors).toEqual([]);
+        expect(treeText(response)).toBe(
+            '(prog (stat (expr (expr 1) + (expr (expr (expr 2) * (expr 3)) ^ (expr (expr 4) ^ (expr 5)))) ;) <EOF>)'
+        );
+    });
+
+    it('should name tokens like generated recognizers and keep hidden tokens', () => {
+        const response = interpreter.parse(expr(), 'a = 1; /* done */', 'prog');
+
+        expect(response.tokens.map(t => [t.type, t.typeName, t.literal, t.channelName])).toEqual([
+            ['ID', 'ID', undefined, 'DEFAULT_TOKEN_CHANNEL'],
+            ["'='", undefined, "'='", 'DEFAULT_TOKEN_CHANNEL'],
+            ['INT', 'INT', undefined, 'DEFAULT_TOKEN_CHANNEL'],
+            ["';'", undefined, "';'", 'DEFAULT_TOKEN_CHANNEL'],
+            ['COMMENT', 'COMMENT', undefined, 'HIDDEN'],
+            ['EOF', 'EOF', undefined, 'DEFAULT_TOKEN_CHANNEL'],
+        ]);
+        expect(response.tokens.map(t => t.rule)).toEqual(['ID', 'T__1', 'INT', 'T__0', 'COMMENT', undefined]);
+    });
+
+    it('should report syntax errors and recover like a generated parser', () => {
+        const response = interpreter.parse(expr(), '1 + 2 3', 'prog');
+
+        expect(response.errors).toMatchObject([
+            { line: 1, column: 6, message: "missing ';' at '3'", source: 'parser', expected: ["';'"] },
+            { line: 1, column: 7, message: "missing ';' at '<EOF>'", source: 'parser' },
+        ]);
+        expect(treeText(response)).toBe(
+            "(prog (stat (expr (expr 1) + (expr 2)) <missing ';'>) (stat (expr 3) <missing ';'>) <EOF>)"
+        );
+    });
+
+    it('should only tokenize without a start rule', () => {
+        const response = interpreter.parse(expr(), 'x ^ 2', undefined);
+
+        expect(response.tree).toBeNull();
+        expect(response.tokens.map(t => t.text)).toEqual(['x', '^', '2', '<EOF>']);
+    });
+
+    it('should stop the parse at the tree size limit and keep the tree so far', () => {
+        const response = interpreter.parse(expr(), 'a = 1; b = 2; c = 3;', 'prog', { maxTreeNodes: 8 });
+
+        expect(response.errors).toMatchObject([{ source: 'limit', limit: 'maxTreeNodes' }]);
+        expect(response.tree?.name).toBe('prog');
+    });
+
+    it('should report ambiguities when asked to detect them', () => {
+        const grammar = load(interpreter, [
+            { name: 'A.g4', content: 'grammar A;\ns: a | b;\na: ID;\nb: ID;\nID: [a-z]+;' },
+        ], 'A');
+        const response = interpreter.parse(grammar, 'x', 's', { ambiguities: true });
+
+        expect(response.ambiguities).toMatchObject([{ kind: 'ambiguity', ruleName: 's', alternatives: [1, 2], prediction: 1 }]);
+        expect(interpreter.parse(grammar, 'x', 's').ambiguities).toEqual([]);
+    });
+
+    it('should run split grammars with lexer modes, channels and token types', () => {
+        const grammar = load(interpreter, [
+            {
+                name: 'TagLexer.g4',
+                content: [
+                    'lexer grammar TagLexer;',
+                    'channels { COMMENTS }',
+                    'tokens { KEYWORD }',
+                    "OPEN: '<' -> pushMode(TAG);",
+                    "COMMENT: '<!--' .*? '-->' -> channel(COMMENTS);",
+                    'TEXT: ~[<]+;',
+                    'mode TAG;',
+                    "END: 'end' -> type(KEYWORD);",
+                    'NAME: [\\p{L}_]+;',
+                    "CLOSE: '>' -> popMode;",
+                    "WS: ' '+ -> skip;",
+                ].join('\n'),
+            },
+            {
+                name: 'TagParser.g4',
+                content: 'parser grammar TagParser;\noptions { tokenVocab = TagLexer; }\ndoc: (OPEN (NAME | KEYWORD) CLOSE | TEXT)* EOF;',
+            },
+        ], 'Tag');
+        const response = interpreter.parse(grammar, 'hi <ünï><!-- x --><end>', 'doc');
+
+        expect(response.errors).toEqual([]);
+        expect(response.tokens.slice(0, -1).map(t => [t.type, t.mode, t.channelName])).toEqual([
+            ['TEXT', 'DEFAULT_MODE', 'DEFAULT_TOKEN_CHANNEL'],
+            ["'<'", 'DEFAULT_MODE', 'DEFAULT_TOKEN_CHANNEL'],
+            ['NAME', 'TAG', 'DEFAULT_TOKEN_CHANNEL'],
+            ["'>'", 'TAG', 'DEFAULT_TOKEN_CHANNEL'],
+            ['COMMENT', 'DEFAULT_MODE', 'COMMENTS'],
+            ["'<'", 'DEFAULT_MODE', 'DEFAULT_TOKEN_CHANNEL'],
+            ['KEYWORD', 'TAG', 'DEFAULT_TOKEN_CHANNEL'],
+            ["'>'", 'TAG', 'DEFAULT_TOKEN_CHANNEL'],
+        ]);
+        expect(response.modeTransitions.map(t => t.to)).toEqual([
+            ['DEFAULT_MODE', 'TAG'], ['DEFAULT_MODE'], ['DEFAULT_MODE', 'TAG'], ['DEFAULT_MODE'],
+        ]);
+    });
+
+    it('should use imported rules and case-insensitive literals', () => {
+        const grammar = load(interpreter, [
+            { name: 'Query.g4', content: "grammar Query;\nimport Words;\noptions { caseInsensitive = true; }\nq: SELECT WORD+;\nSELECT: 'select';" },
+            { name: 'Words.g4', content: "grammar Words;\nq: 'never';\nWORD: [a-z]+;\nWS: ' ' -> skip;" },
+        ], 'Query');
+        const response = interpreter.parse(grammar, 'SeLeCt Foo bar', 'q');
+
+        expect(response.errors).toEqual([]);
+        expect(treeText(response)).toBe('(q SeLeCt Foo bar)');
+    });
+
+    it('should report grammar errors that would make the recognizers loop', () => {
+        const { grammar, diagnostics } = interpreter.load([{
+            name: 'Bad.g4',
+            content: "grammar Bad;\na: b | c* ;\nb: ('x'?)* ;\nc: d 'q' ;\nd: c 'r' | missing ;\nE: 'e'? ;",
+        }], 'Bad');
+
+        expect(grammar).toBeUndefined();
+        expect(diagnostics.map(d => [d.line, d.message])).toEqual([
+            [6, 'non-fragment lexer rule E can match the empty string'],
+            [5, 'reference to undefined rule: missing'],
+            [3, 'rule b contains a closure with at least one alternative that can match an empty string'],
+            [4, 'The following sets of rules are mutually left-recursive [c, d]'],
+        ]);
+    });
+
+    it('should report grammar syntax errors with the file name', () => {
+        const { grammar, diagnostics } = interpreter.load([{ name: 'G.g4', content: "grammar G;\ns: 'a' ( ;" }], 'G');
+
+        expect(grammar).toBeUndefined();
+        expect(diagnostics).toMatchObject([{ severity: 'error', file: 'G.g4', line: 2 }]);
+    });
+
+    it('should flag grammars whose predicates and actions are not run', () => {
+        const grammar = load(interpreter, [{ name: 'P.g4', content: "grammar P;\ns: {true}? 'a' {act();};" }], 'P');
+
+        expect(grammar.hasPredicates).toBe(true);
+        expect(grammar.hasActions).toBe(true);
+        expect(expr().hasPredicates || expr().hasActions).toBe(false);
+    });
+});
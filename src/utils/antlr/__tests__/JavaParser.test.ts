@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { JavaParser } from '../JavaParser';
+
+const CALC = `grammar Calc;
+prog: expr EOF;
+expr: expr '+' expr | INT;
+INT: [0-9]+ ;
+WS: [ \\t\\r\\n]+ -> skip ;
+`;
+
+describe.skipIf(JavaParser.isAvailable())('JavaParser without Java', () => {
+    const parser = new JavaParser();
+
+    it('should check grammars with the interpreter instead of the tool', async () => {
+        const result = await parser.compile([{ name: 'grammars/calc.g4', content: CALC }]);
+
+        expect(result).toEqual({ success: true, diagnostics: [], duration: 0 });
+    });
+
+    it('should report grammar errors against the files as they were named', async () => {
+        const broken = CALC.replace('prog: expr EOF;', 'prog: expr term EOF;');
+        const result = await parser.compile([{ name: 'grammars/calc.g4', content: broken }]);
+
+        expect(result.success).toBe(false);
+        expect(result.diagnostics).toMatchObject([{ severity: 'error', file: 'grammars/calc.g4', line: 2 }]);
+        expect(result.diagnostics[0].message).toContain('term');
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { ParseWorkerProcess, ParseTimeoutError, WorkerParseRequest } from '../JavaWorker';
+
+/**
+ * Worker that answers each request after the number of milliseconds given as
+ * its input, one request at a time like the real workers
+ */
+const FAKE_WORKER = `
+const { createInterface } = require('readline');
+let queue = Promise.resolve();
+createInterface({ input: process.stdin }).on('line', line => {
+    const request = JSON.parse(line);
+    queue = queue.then(() => new Promise(resolve => setTimeout(() => {
+        process.stdout.write(JSON.stringify({ id: request.id, tokens: [], tree: null, errors: [], input: request.input }) + '\\n');
+        resolve();
+    }, Number(request.input))));
+});
+`;
+
+class FakeWorker extends ParseWorkerProcess {
+    protected readonly logPrefix = '[FakeWorker]';
+    launches = 0;
+
+    protected async launch(): Promise<ChildProcessWithoutNullStreams> {
+        this.launches++;
+        return spawn(process.execPath, ['-e', FAKE_WORKER], { stdio: 'pipe' });
+    }
+}
+
+const request = (delayMs: number): WorkerParseRequest => ({
+    classDir: '/tmp',
+    grammarName: 'Test',
+    input: String(delayMs),
+});
+
+describe('ParseWorkerProcess', () => {
+    let worker: FakeWorker;
+
+    afterEach(() => {
+        worker.stop();
+    });
+
+    it('should start the timeout of a request only once the worker takes it', async () => {
+        worker = new FakeWorker();
+
+        // The second request waits longer than its own timeout for the first one
+        const [first, second] = await Promise.all([
+            worker.parse(request(600), 2000),
+            worker.parse(request(10), 400),
+        ]);
+
+        expect(first).toMatchObject({ input: '600' });
+        expect(second).toMatchObject({ input: '10' });
+        expect(worker.launches).toBe(1);
+    });
+
+    it('should fail only the request that timed out and run the rest on a new worker', async () => {
+        worker = new FakeWorker();
+
+        const results = await Promise.allSettled([
+            worker.parse(request(5000), 200),
+            worker.parse(request(10), 2000),
+        ]);
+
+        expect(results[0].status).toBe('rejected');
+        expect((results[0] as PromiseRejectedResult).reason).toBeInstanceOf(ParseTimeoutError);
+        expect(results[1]).toMatchObject({ status: 'fulfilled', value: { input: '10' } });
+        expect(worker.launches).toBe(2);
+    });
+
+    it('should parse on as many processes at once as the pool has', async () => {
+        worker = new FakeWorker(2);
+
+        const started = Date.now();
+        await Promise.all([worker.parse(request(1000)), worker.parse(request(1000))]);
+
+        // One after the other they would take at least 2000ms
+        expect(Date.now() - started).toBeLessThan(2000);
+        expect(worker.launches).toBe(2);
+
+        // A free process that is already running is reused
+        await worker.parse(request(10));
+        expect(worker.launches).toBe(2);
+    });
+});
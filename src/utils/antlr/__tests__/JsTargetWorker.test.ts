@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { join } from 'path';
+import { JsTargetWorker } from '../JsTargetWorker';
+import { parseGrammar } from '../grammarParser';
+import { buildLexerAtn, buildParserAtn, mergeImports } from '../atnBuilder';
+import { GrammarInterpreter } from '../GrammarInterpreter';
+
+/**
+ * The keyword alternative is only taken when the predicate holds, which
+ * depends on code the grammar would have in @members
+ */
+const GATE = `grammar Gate;
+s: {allowKeyword()}? keyword | name;
+keyword: ID;
+name: ID;
+ID: [a-z]+;
+`;
+
+const RUNNER = fileURLToPath(new URL('../js/parseRunner.ts', import.meta.url));
+// Vitest's module runner has no import.meta.resolve to find the runtime with
+const RUNTIME = new URL('../../../../node_modules/antlr4/dist/antlr4.node.mjs', import.meta.url).href;
+
+/**
+ * Write recognizer modules shaped like the JavaScript target's output: an ES
+ * module per recognizer with the class as default export and a method per
+ * parser rule. Java isn't needed to make them: they run the grammar's ATN
+ * through the interpreter the worker transpiles next to the runner, and
+ * `sempred` holds the predicate's target code.
+ */
+function writeRecognizers(classDir: string, outDir: string): void {
+    const { grammar } = parseGrammar(GATE, 'Gate.g4');
+    const merged = mergeImports({ file: 'Gate.g4', grammar }, new Map());
+    const lexer = buildLexerAtn(merged, []);
+    const parser = buildParserAtn(merged, lexer.vocabulary, []);
+    const interpreter = pathToFileURL(join(outDir, 'interpreter.mjs')).href;
+
+    writeFileSync(join(classDir, 'package.json'), JSON.stringify({ type: 'module' }));
+    writeFileSync(join(classDir, 'GateLexer.js'), `
+import { InterpreterLexer, loadAtn } from '${interpreter}';
+const grammar = {
+    ...loadAtn(${JSON.stringify(lexer.serialized)}),
+    ruleNames: ${JSON.stringify(lexer.ruleNames)},
+    literalNames: ${JSON.stringify(lexer.vocabulary.literalNames)},
+    symbolicNames: ${JSON.stringify(lexer.vocabulary.symbolicNames)},
+    channelNames: ${JSON.stringify(lexer.channelNames)},
+    modeNames: ${JSON.stringify(lexer.modeNames)},
+};
+export default class GateLexer extends InterpreterLexer {
+    constructor(input) { super(input, grammar); }
+}
+`);
+    writeFileSync(join(classDir, 'GateParser.js'), `
+import { InterpreterParser, loadAtn } from '${interpreter}';
+const grammar = {
+    ...loadAtn(${JSON.stringify(parser.serialized)}),
+    ruleNames: ${JSON.stringify(parser.ruleNames)},
+    literalNames: ${JSON.stringify(parser.vocabulary.literalNames)},
+    symbolicNames: ${JSON.stringify(parser.vocabulary.symbolicNames)},
+};
+export default class GateParser extends InterpreterParser {
+    constructor(input) {
+        super(input, grammar);
+        // Output of target code must not get mixed into the protocol
+        console.log('Parser created');
+    }
+    allowKeyword() { return this._input.LT(1).text.startsWith('k'); }
+    sempred(localctx, ruleIndex, predIndex) { return this.allowKeyword(); }
+    s() { return this.parse(0); }
+}
+`);
+}
+
+describe('JsTargetWorker', () => {
+    let workDir: string;
+    let classDir: string;
+    let worker: JsTargetWorker;
+
+    beforeAll(() => {
+        workDir = mkdtempSync(join(tmpdir(), 'js-target-'));
+        classDir = join(workDir, 'Gate');
+        // The runner and the interpreter are transpiled to outDir when the worker starts
+        const outDir = join(workDir, 'runner');
+        mkdirSync(classDir);
+        writeRecognizers(classDir, outDir);
+        worker = new JsTargetWorker(RUNNER, outDir, 1, RUNTIME);
+    });
+
+    afterAll(() => {
+        worker.stop();
+        rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('should run the predicates of the target code', async () => {
+        const parse = (input: string) => worker.parse({ classDir, grammarName: 'Gate', startRule: 's', input }, 10000);
+        const ruleUnder = (response: Awaited<ReturnType<typeof parse>>) => response.tree?.children?.[0].name;
+
+        const [keyword, name] = await Promise.all([parse('kind'), parse('other')]);
+
+        expect(keyword.errors).toEqual([]);
+        expect(ruleUnder(keyword)).toBe('keyword');
+        expect(ruleUnder(name)).toBe('name');
+
+        // The interpreter assumes every predicate holds
+        const interpreter = new GrammarInterpreter();
+        const { grammar } = interpreter.load([{ name: 'Gate.g4', content: GATE }], 'Gate');
+        expect(ruleUnder(interpreter.parse(grammar!, 'other', 's'))).toBe('keyword');
+    });
+
+    it('should tokenize with the lexer module alone without a start rule', async () => {
+        const response = await worker.parse({ classDir, grammarName: 'Gate', input: 'ab' }, 10000);
+
+        expect(response.tree).toBeNull();
+        expect(response.tokens.map(t => [t.text, t.type, t.rule])).toEqual([['ab', 'ID', 'ID'], ['<EOF>', 'EOF', undefined]]);
+    });
+
+    it('should answer with an error for a start rule the parser has no method for', async () => {
+        await expect(worker.parse({ classDir, grammarName: 'Gate', startRule: 'missing', input: 'ab' }, 10000))
+            .rejects.toThrow('No method for rule missing');
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { parseGrammar } from '../grammarParser';
+import { GrammarInterpreter } from '../GrammarInterpreter';
+
+/**
+ * Grammars from the grammars-v4 repository and the ANTLR 4 reference book,
+ * as published, checked against what the ANTLR tool reads from them
+ */
+const GRAMMAR_DIR = fileURLToPath(new URL('./grammars/', import.meta.url));
+
+const read = (file: string) => ({ name: file, content: readFileSync(GRAMMAR_DIR + file, 'utf-8') });
+
+describe('parseGrammar on published grammars', () => {
+    it.each(readdirSync(GRAMMAR_DIR).filter(file => file.endsWith('.g4')))('should read %s without errors', file => {
+        const { content } = read(file);
+        const { grammar, diagnostics } = parseGrammar(content, file);
+
+        expect(diagnostics).toEqual([]);
+        expect(grammar.name).toBe(file.replace(/\.g4$/, ''));
+        for (const rule of grammar.rules) {
+            const text = content.slice(rule.span.start, rule.span.end);
+            expect(text.startsWith(rule.modifiers[0] ?? rule.name)).toBe(true);
+            expect(text.endsWith(';')).toBe(true);
+        }
+    });
+
+    it('should read every rule of JSON with its fragments', () => {
+        const { grammar } = parseGrammar(read('JSON.g4').content);
+
+        expect(grammar.rules.map(r => r.name)).toEqual([
+            'json', 'obj', 'pair', 'arr', 'value', 'STRING', 'ESC', 'UNICODE', 'HEX', 'SAFECODEPOINT', 'NUMBER', 'INT', 'EXP', 'WS',
+        ]);
+        expect(grammar.rules.filter(r => r.modifiers.includes('fragment')).map(r => r.name)).toEqual([
+            'ESC', 'UNICODE', 'HEX', 'SAFECODEPOINT', 'INT', 'EXP',
+        ]);
+        const safe = grammar.rules.find(r => r.name === 'SAFECODEPOINT')!;
+        expect(safe.alternatives[0].elements[0]).toMatchObject({ kind: 'not', elements: [{ kind: 'charSet', text: '["\\\\\\u0000-\\u001F]' }] });
+    });
+
+    it('should not end rules at semicolons in arguments, locals and actions', () => {
+        const data = parseGrammar(read('Data.g4').content).grammar;
+        const rows = parseGrammar(read('Rows.g4').content).grammar;
+
+        expect(data.rules.map(r => r.name)).toEqual(['file', 'group', 'sequence', 'INT', 'WS']);
+        const sequence = data.rules[2];
+        expect([sequence.args, sequence.locals]).toEqual(['int n', 'int i = 1;']);
+        expect(data.rules[1].alternatives[0].elements[1]).toMatchObject({ kind: 'ruleRef', name: 'sequence', args: '$INT.int' });
+        const loop = sequence.alternatives[0].elements[0];
+        expect(loop).toMatchObject({ kind: 'block', suffix: { operator: '*', greedy: true } });
+        expect(loop.kind === 'block' && loop.alternatives[0].elements.map(e => e.kind === 'action' ? e.predicate : e.kind))
+            .toEqual([true, 'tokenRef', false]);
+
+        expect(rows.actions.map(a => [a.scope, a.name])).toEqual([['parser', 'members']]);
+        expect(rows.rules.map(r => r.name)).toEqual(['file', 'row', 'TAB', 'NL', 'STUFF']);
+        expect(rows.rules[1].locals).toBe('int i=0');
+    });
+
+    it('should read labels on alternatives and on sets', () => {
+        const { grammar } = parseGrammar(read('LabeledExpr.g4').content);
+        const [, stat, expr] = grammar.rules;
+
+        expect(stat.alternatives.map(a => a.label?.name)).toEqual(['printExpr', 'assign', 'blank']);
+        expect(expr.alternatives.map(a => a.label?.name)).toEqual(['MulDiv', 'AddSub', 'int', 'id', 'parens']);
+        expect(expr.alternatives[0].elements[1]).toMatchObject({ kind: 'block', label: { name: 'op', operator: '=' } });
+    });
+
+    it('should read empty alternatives', () => {
+        const { grammar } = parseGrammar(read('CSV.g4').content);
+        const field = grammar.rules.find(r => r.name === 'field')!;
+
+        expect(field.alternatives.map(a => a.elements.length)).toEqual([1, 1, 0]);
+    });
+
+    it('should read lexer modes and commands of a split grammar', () => {
+        const lexer = parseGrammar(read('XMLLexer.g4').content).grammar;
+        const parser = parseGrammar(read('XMLParser.g4').content).grammar;
+
+        expect(lexer.type).toBe('lexer');
+        expect(lexer.modes.map(m => m.name)).toEqual(['INSIDE', 'PROC_INSTR']);
+        const mode = (name: string) => lexer.rules.find(r => r.name === name)!.mode;
+        expect([mode('OPEN'), mode('CLOSE'), mode('PI')]).toEqual([undefined, 'INSIDE', 'PROC_INSTR']);
+        const specialOpen = lexer.rules.find(r => r.name === 'SPECIAL_OPEN')!;
+        expect(specialOpen.alternatives[0].commands.map(c => [c.name, c.argument])).toEqual([['more', undefined], ['pushMode', 'PROC_INSTR']]);
+        const nameChar = lexer.rules.find(r => r.name === 'NameChar')!;
+        expect(nameChar.alternatives[6].elements[0]).toMatchObject({ kind: 'range', from: '\u0300', to: '\u036F' });
+
+        expect(parser.type).toBe('parser');
+        expect(parser.options.map(o => [o.name, o.value])).toEqual([['tokenVocab', 'XMLLexer']]);
+        expect(parser.rules.map(r => r.name)).toEqual([
+            'document', 'prolog', 'content', 'element', 'reference', 'attribute', 'chardata', 'misc',
+        ]);
+    });
+});
+
+describe('GrammarInterpreter on published grammars', () => {
+    const interpreter = new GrammarInterpreter();
+
+    it('should parse a JSON document', () => {
+        const { grammar } = interpreter.load([read('JSON.g4')], 'JSON');
+        const response = interpreter.parse(grammar!, '{"a": [1, -2.5e3, true, null], "b\\u00e9": {}}', 'json');
+
+        expect(response.errors).toEqual([]);
+        expect(response.tokens.filter(t => t.type === 'STRING').map(t => t.text)).toEqual(['"a"', '"b\\u00e9"']);
+    });
+
+    it('should parse an XML document with the split grammar', () => {
+        const { grammar } = interpreter.load([read('XMLLexer.g4'), read('XMLParser.g4')], 'XML');
+        const response = interpreter.parse(
+            grammar!,
+            '<?xml version="1.0"?>\n<doc a=\'1\'><!-- note --><item/>text &amp; more</doc>\n',
+            'document'
+        );
+
+        expect(response.errors).toEqual([]);
+        expect(response.tokens.map(t => t.mode)).toContain('INSIDE');
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { resolveGrammarDependencies } from '../grammarDependencies';
+
+const names = (grammars: Array<{ name: string }>) => grammars.map(g => g.name);
+
+describe('resolveGrammarDependencies', () => {
+    it('should read grammar names, types and references', () => {
+        const { grammars, diagnostics } = resolveGrammarDependencies([
+            { name: 'calc.g4', content: 'parser grammar CalcParser;\noptions { tokenVocab = CalcLexer; }\nexpr: NUMBER;' },
+            { name: 'lexer.g4', content: 'lexer grammar CalcLexer;\nNUMBER: [0-9]+;' },
+        ]);
+
+        expect(diagnostics).toEqual([]);
+        expect(grammars).toEqual([
+            { file: 'lexer.g4', name: 'CalcLexer', type: 'lexer', references: [] },
+            {
+                file: 'calc.g4',
+                name: 'CalcParser',
+                type: 'parser',
+                references: [{ kind: 'tokenVocab', name: 'CalcLexer', line: 2, column: 23 }],
+            },
+        ]);
+    });
+
+    it('should order grammars after the grammars they reference', () => {
+        const { grammars, generated } = resolveGrammarDependencies([
+            { name: 'Main.g4', content: 'grammar Main;\nimport Exprs, Common;\nstart: expr;' },
+            { name: 'Exprs.g4', content: 'parser grammar Exprs;\nimport Common;\nexpr: ID;' },
+            { name: 'Common.g4', content: 'lexer grammar Common;\nID: [a-z]+;' },
+        ]);
+
+        expect(names(grammars)).toEqual(['Common', 'Exprs', 'Main']);
+        // Imported modules are only read through their importers
+        expect(names(generated)).toEqual(['Main']);
+    });
+
+    it('should generate imported grammars that are also used as a token vocabulary', () => {
+        const { generated } = resolveGrammarDependencies([
+            { name: 'P.g4', content: 'parser grammar P;\noptions { tokenVocab=L; }\nimport Q;\ns: A;' },
+            { name: 'Q.g4', content: 'parser grammar Q;\nq: A;' },
+            { name: 'L.g4', content: 'lexer grammar L;\nimport Base;\nA: \'a\';' },
+            { name: 'Base.g4', content: 'lexer grammar Base;\nB: \'b\';' },
+            { name: 'M.g4', content: 'parser grammar M;\noptions { tokenVocab=L; }\nimport L;\nm: A;' },
+        ]);
+
+        expect(names(generated)).toEqual(['L', 'P', 'M']);
+    });
+
+    it('should read aliased imports and quoted token vocabularies', () => {
+        const [grammar] = resolveGrammarDependencies([
+            { name: 'G.g4', content: "grammar G;\noptions {\n    tokenVocab = 'Lex';\n}\nimport A = Alpha, Beta;\ns: X;" },
+        ]).grammars;
+
+        expect(grammar.references).toEqual([
+            { kind: 'import', name: 'Alpha', line: 5, column: 11 },
+            { kind: 'import', name: 'Beta', line: 5, column: 18 },
+            { kind: 'tokenVocab', name: 'Lex', line: 3, column: 18 },
+        ]);
+    });
+
+    it('should ignore references in comments, strings, char sets and actions', () => {
+        const [grammar] = resolveGrammarDependencies([
+            {
+                name: 'G.g4',
+                content: [
+                    '// import Commented;',
+                    '/* grammar Other; options { tokenVocab = Nope; } */',
+                    'grammar G;',
+                    '@header { import java.util.List; }',
+                    "IMPORT: 'import X;';",
+                    'BRACE: ~[{}];',
+                    's: IMPORT { import Nothing; } ;',
+                ].join('\n'),
+            },
+        ]).grammars;
+
+        expect(grammar.name).toBe('G');
+        expect(grammar.references).toEqual([]);
+    });
+
+    it('should resolve a lexer vocabulary generated by a combined grammar', () => {
+        const { diagnostics, grammars } = resolveGrammarDependencies([
+            { name: 'P.g4', content: 'parser grammar P;\noptions { tokenVocab=CalcLexer; }\ns: A;' },
+            { name: 'Calc.g4', content: 'grammar Calc;\nc: A;\nA: \'a\';' },
+        ]);
+
+        expect(diagnostics).toEqual([]);
+        expect(names(grammars)).toEqual(['Calc', 'P']);
+    });
+
+    it('should report missing references at the referencing name', () => {
+        const { diagnostics } = resolveGrammarDependencies([
+            { name: 'p.g4', content: 'parser grammar P;\noptions { tokenVocab = Lexer; }\nimport Missing;\ns: A;' },
+        ]);
+
+        expect(diagnostics).toEqual([
+            { severity: 'error', file: 'p.g4', line: 3, column: 7, message: "can't find imported grammar Missing in the project" },
+            { severity: 'error', file: 'p.g4', line: 2, column: 23, message: "can't find tokenVocab grammar Lexer in the project" },
+        ]);
+    });
+
+    it('should report circular references and still list every grammar once', () => {
+        const { diagnostics, grammars } = resolveGrammarDependencies([
+            { name: 'A.g4', content: 'parser grammar A;\nimport B;\na: X;' },
+            { name: 'B.g4', content: 'parser grammar B;\nimport C;\nb: X;' },
+            { name: 'C.g4', content: 'parser grammar C;\nimport A;\nc: X;' },
+        ]);
+
+        expect(diagnostics).toEqual([
+            { severity: 'error', file: 'C.g4', line: 2, column: 7, message: 'circular grammar dependency: A -> B -> C -> A' },
+        ]);
+        expect(names(grammars)).toEqual(['C', 'B', 'A']);
+    });
+
+    it('should report grammar names declared in several files', () => {
+        const { diagnostics, grammars } = resolveGrammarDependencies([
+            { name: 'one.g4', content: 'grammar Expr;\ns: A;' },
+            { name: 'two.g4', content: 'grammar Expr;\ns: B;' },
+            { name: 'Untitled.g4', content: 's: C;' },
+        ]);
+
+        expect(diagnostics).toEqual([
+            { severity: 'error', file: 'two.g4', message: 'grammar Expr is also declared in one.g4' },
+        ]);
+        expect(grammars.map(g => [g.file, g.name, g.type])).toEqual([
+            ['one.g4', 'Expr', 'combined'],
+            ['Untitled.g4', 'Untitled', 'combined'],
+        ]);
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { parseGrammar, decodeEscapes } from '../grammarParser';
+
+describe('parseGrammar', () => {
+    it('should read the grammar declaration, prequel and rules', () => {
+        const { grammar, diagnostics } = parseGrammar([
+            'parser grammar ExprParser;',
+            'options { tokenVocab = ExprLexer; }',
+            'import Common;',
+            '@header { import foo.Bar; }',
+            'expr: expr PLUS expr | NUMBER;',
+            'fragment DIGIT: [0-9];',
+        ].join('\n'), 'ExprParser.g4');
+
+        expect(diagnostics).toEqual([]);
+        expect(grammar.type).toBe('parser');
+        expect(grammar.name).toBe('ExprParser');
+        expect(grammar.options.map(o => [o.name, o.value])).toEqual([['tokenVocab', 'ExprLexer']]);
+        expect(grammar.imports.map(i => i.name)).toEqual(['Common']);
+        expect(grammar.actions.map(a => a.name)).toEqual(['header']);
+        expect(grammar.rules.map(r => [r.kind, r.name, r.modifiers])).toEqual([
+            ['parser', 'expr', []],
+            ['lexer', 'DIGIT', ['fragment']],
+        ]);
+    });
+
+    it('should read elements with labels, suffixes and alternative labels', () => {
+        const { grammar } = parseGrammar("grammar G;\ns: left=ID ('+'|'-')*? ids+=ID+ # Sum\n | <assoc=right> ~(A|'b') . {doIt();} {ok}? ;");
+        const [sum, other] = grammar.rules[0].alternatives;
+
+        expect(sum.label?.name).toBe('Sum');
+        expect(sum.elements.map(e => e.kind)).toEqual(['tokenRef', 'block', 'tokenRef']);
+        expect(sum.elements[0].label).toMatchObject({ name: 'left', operator: '=' });
+        expect(sum.elements[1].suffix).toEqual({ operator: '*', greedy: false });
+        expect(sum.elements[2]).toMatchObject({ label: { name: 'ids', operator: '+=' }, suffix: { operator: '+', greedy: true } });
+
+        expect(other.options.map(o => [o.name, o.value])).toEqual([['assoc', 'right']]);
+        expect(other.elements.map(e => e.kind)).toEqual(['not', 'wildcard', 'action', 'action']);
+        expect(other.elements.slice(2)).toMatchObject([{ predicate: false }, { predicate: true }]);
+    });
+
+    it('should read lexer rules with char sets, ranges, commands and modes', () => {
+        const { grammar, diagnostics } = parseGrammar([
+            'lexer grammar L;',
+            "STR: '\"' ~[\"\\r\\n]* '\"' -> pushMode(INSIDE), type(TEXT);",
+            "mode INSIDE;",
+            "LETTER: 'a'..'z' -> popMode;",
+        ].join('\n'));
+
+        expect(diagnostics).toEqual([]);
+        expect(grammar.modes.map(m => m.name)).toEqual(['INSIDE']);
+        const [str, letter] = grammar.rules;
+        expect(str.mode).toBeUndefined();
+        expect(str.alternatives[0].commands.map(c => [c.name, c.argument])).toEqual([['pushMode', 'INSIDE'], ['type', 'TEXT']]);
+        expect(str.alternatives[0].elements[1]).toMatchObject({ kind: 'not', elements: [{ kind: 'charSet', text: '["\\r\\n]' }] });
+        expect(letter.mode).toBe('INSIDE');
+        expect(letter.alternatives[0].elements[0]).toMatchObject({ kind: 'range', from: 'a', to: 'z' });
+    });
+
+    it('should report syntax errors and keep reading the following rules', () => {
+        const { grammar, diagnostics } = parseGrammar("grammar G;\na: 'x' ( ;\nb: 'y';\n", 'G.g4');
+
+        expect(diagnostics).toMatchObject([{ severity: 'error', file: 'G.g4', line: 2, column: 9 }]);
+        expect(grammar.rules.map(r => r.name)).toContain('b');
+    });
+
+    it('should report parser rule references in lexer rules but keep the rule', () => {
+        const { grammar, diagnostics } = parseGrammar("grammar G;\nr: ID;\nID: 'a' r;\n", 'G.g4');
+
+        expect(diagnostics).toMatchObject([{ line: 3, column: 8, message: 'parser rule r not allowed in lexer rule' }]);
+        expect(grammar.rules[1].alternatives[0].elements[1]).toMatchObject({ kind: 'ruleRef', name: 'r' });
+    });
+
+    it('should not mistake braces and quotes in actions for grammar syntax', () => {
+        const { grammar, diagnostics } = parseGrammar("grammar G;\n@members { String s = \"}\"; char c = '{'; /* } */ }\nr: 'a';");
+
+        expect(diagnostics).toEqual([]);
+        expect(grammar.rules.map(r => r.name)).toEqual(['r']);
+    });
+
+    it('should report an unterminated action where it starts', () => {
+        const { diagnostics } = parseGrammar("grammar G;\na: 'x' { call(;\nb: 'y';\n", 'G.g4');
+
+        expect(diagnostics).toEqual([{ severity: 'error', file: 'G.g4', line: 2, column: 7, message: 'unterminated action' }]);
+    });
+});
+
+describe('decodeEscapes', () => {
+    it('should decode character and Unicode escapes', () => {
+        expect(decodeEscapes('a\\tb\\u0041\\u{1F600}\\\\')).toBe('a\tbA\u{1F600}\\');
+    });
+
+    it('should reject invalid escapes', () => {
+        expect(decodeEscapes('\\q')).toBeUndefined();
+        expect(decodeEscapes('\\u12')).toBeUndefined();
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { interpretParse } from '../interpretParse';
+
+const CALC = `grammar Calc;
+prog: expr EOF;
+expr: expr '+' expr | INT;
+INT: [0-9]+ ;
+WS: [ \\t\\r\\n]+ -> skip ;
+`;
+
+const calc = [{ name: 'Calc.g4', content: CALC }];
+
+describe('interpretParse', () => {
+    it('should build the result the server sends for a small grammar', () => {
+        const result = interpretParse(calc, '1 +\n22', 'prog')!;
+
+        expect(result.interpreted).toBe(true);
+        expect(result.tokenizeOnly).toBe(false);
+        expect(result.errors).toEqual([]);
+        expect(result.tree.name).toBe('prog');
+        const expr = result.tree.children![0];
+        expect(expr).toMatchObject({
+            name: 'expr',
+            startLine: 1,
+            startColumn: 0,
+            endLine: 2,
+            endColumn: 2,
+            matchedText: '1 +\n22',
+        });
+        expect(expr.children!.map(child => child.name)).toEqual(['expr', '+', 'expr']);
+    });
+
+    it('should only tokenize without a start rule', () => {
+        const result = interpretParse(calc, '1 + 2', undefined)!;
+
+        expect(result.tokenizeOnly).toBe(true);
+        expect(result.tree.name).toBe('tokens');
+        expect(result.tokens.map(t => t.text)).toEqual(['1', '+', '2', '<EOF>']);
+    });
+
+    it('should leave grammars with actions or predicates to the server', () => {
+        const withAction = CALC.replace('INT: [0-9]+ ;', 'INT: [0-9]+ { count++; } ;');
+        const withPredicate = CALC.replace("| INT;", "| {enabled}? INT;");
+
+        expect(interpretParse([{ name: 'Calc.g4', content: withAction }], '1', 'prog')).toBeUndefined();
+        expect(interpretParse([{ name: 'Calc.g4', content: withPredicate }], '1', 'prog')).toBeUndefined();
+    });
+
+    it('should leave grammar errors and missing imports to the server', () => {
+        const broken = CALC.replace('prog: expr EOF;', 'prog: expr EOF');
+        const importing = CALC.replace('grammar Calc;', 'grammar Calc;\nimport Common;');
+
+        expect(interpretParse([{ name: 'Calc.g4', content: broken }], '1', 'prog')).toBeUndefined();
+        expect(interpretParse([{ name: 'Calc.g4', content: importing }], '1', 'prog')).toBeUndefined();
+    });
+
+    it('should leave large grammars and input over the limit to the server', () => {
+        const large = CALC + `// ${'x'.repeat(40 * 1024)}\n`;
+
+        expect(interpretParse([{ name: 'Calc.g4', content: large }], '1', 'prog')).toBeUndefined();
+        expect(interpretParse(calc, '1 + 2', 'prog', { limits: { maxInputBytes: 4 } })).toBeUndefined();
+    });
+});
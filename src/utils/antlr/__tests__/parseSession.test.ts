@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import { interpretParse } from '../interpretParse';
+import type { ParseNode, ParseResult } from '../types';
+
+/**
+ * The parse session runs the same way for every runtime, so it is checked here
+ * through the interpreter, which needs neither Java nor generated code
+ */
+const CALL = `grammar Call;
+prog: call+ EOF;
+call: ID '(' args? ')' ';';
+args: arg (',' arg)*;
+arg: ID | STRING | call_inline;
+call_inline: ID '(' ')';
+ID: [a-z]+;
+STRING: '"' ~["]* '"';
+WS: [ \\t\\r\\n]+ -> skip;
+`;
+
+function run(files: Array<{ name: string; content: string }>, input: string, startRule: string | undefined): ParseResult {
+    const result = interpretParse(files, input, startRule);
+    expect(result).toBeDefined();
+    return result!;
+}
+
+const parse = (input: string) => run([{ name: 'Call.g4', content: CALL }], input, 'prog');
+const tokenize = (files: Array<{ name: string; content: string }>, input: string) => run(files, input, undefined);
+
+/** Every node of the tree, depth-first */
+function nodes(root: ParseNode): ParseNode[] {
+    return [root, ...(root.children ?? []).flatMap(nodes)];
+}
+
+describe('runParseSession', () => {
+    describe('errors', () => {
+        it('should report parser errors with the offending and expected tokens', () => {
+            const { errors } = parse('f(a);\ng(;');
+
+            expect(errors).toEqual([{
+                line: 2,
+                column: 2,
+                message: "mismatched input ';' expecting {')', ID, STRING}",
+                severity: 'error',
+                source: 'parser',
+                offendingToken: ';',
+                expected: ["')'", 'ID', 'STRING'],
+            }]);
+        });
+
+        it('should report characters no lexer rule matches', () => {
+            const { errors, tokens } = parse('f(a);\n g(#);');
+
+            expect(errors).toMatchObject([
+                { line: 2, column: 3, message: "token recognition error at: '#'", source: 'lexer', offendingToken: '#' },
+            ]);
+            expect(tokens.map(t => t.text).join(' ')).toBe('f ( a ) ; g ( ) ; <EOF>');
+        });
+
+        it('should mark error nodes in the tree with their message', () => {
+            const { tree } = parse('f(a b);\ng(a;');
+            const errorNodes = nodes(tree).filter(n => n.type === 'error');
+
+            expect(errorNodes.map(n => [n.name, n.error])).toEqual([
+                ['b', "extraneous input 'b' expecting ')'"],
+                ["<missing ')'>", "Missing token ')'"],
+            ]);
+            expect(errorNodes[0]).toMatchObject({ startLine: 1, startColumn: 4, token: { text: 'b' } });
+        });
+    });
+
+    describe('tree', () => {
+        it('should attach each terminal to its own token when texts repeat', () => {
+            const input = 'f(a, a, g());\nf(a);';
+            const { tree, tokens } = parse(input);
+            const leaves = nodes(tree).filter(n => n.type === 'token' && n.name !== '<EOF>');
+
+            expect(leaves.map(n => n.token!.tokenIndex)).toEqual(tokens.slice(0, -1).map(t => t.tokenIndex));
+            for (const leaf of leaves) {
+                expect(input.slice(leaf.startIndex, leaf.stopIndex! + 1)).toBe(leaf.name);
+            }
+            const secondCall = tree.children![1];
+            expect(secondCall).toMatchObject({ name: 'call', startIndex: 14, stopIndex: 18, startLine: 2, matchedText: 'f(a);' });
+        });
+
+        it('should keep tokens with spaces and parentheses in their text intact', () => {
+            const { tree } = parse('f("(a b)", ")");');
+            const strings = nodes(tree).filter(n => n.token?.type === 'STRING');
+
+            expect(strings.map(n => [n.name, n.startColumn, n.endColumn])).toEqual([['"(a b)"', 2, 9], ['")"', 11, 14]]);
+            expect(nodes(tree).filter(n => n.name === 'arg').map(n => n.matchedText)).toEqual(['"(a b)"', '")"']);
+        });
+    });
+
+    describe('channels and modes', () => {
+        const TEMPLATE = [{
+            name: 'Template.g4',
+            content: [
+                'lexer grammar Template;',
+                'channels { COMMENTS }',
+                "OPEN: '{{' -> pushMode(EXPR);",
+                "TEXT: ~[{]+;",
+                'mode EXPR;',
+                "CLOSE: '}}' -> popMode;",
+                "LPAREN: '(' -> pushMode(EXPR);",
+                "RPAREN: ')' -> popMode;",
+                "NOTE: '#' ~[}]* -> channel(COMMENTS);",
+                "NAME: [a-z]+;",
+                "NL: '\\n' -> channel(HIDDEN);",
+                "WS: ' '+ -> skip;",
+            ].join('\n'),
+        }];
+
+        it('should report the channel, mode stack and names of every token', () => {
+            const { tokens } = tokenize(TEMPLATE, 'hi {{ f(x)\n#n }}');
+
+            expect(tokens.map(t => [t.text, t.channel, t.channelName])).toEqual([
+                ['hi ', 0, 'DEFAULT_TOKEN_CHANNEL'],
+                ['{{', 0, 'DEFAULT_TOKEN_CHANNEL'],
+                ['f', 0, 'DEFAULT_TOKEN_CHANNEL'],
+                ['(', 0, 'DEFAULT_TOKEN_CHANNEL'],
+                ['x', 0, 'DEFAULT_TOKEN_CHANNEL'],
+                [')', 0, 'DEFAULT_TOKEN_CHANNEL'],
+                ['\n', 1, 'HIDDEN'],
+                ['#n ', 2, 'COMMENTS'],
+                ['}}', 0, 'DEFAULT_TOKEN_CHANNEL'],
+                ['<EOF>', 0, 'DEFAULT_TOKEN_CHANNEL'],
+            ]);
+            expect(tokens.slice(2, 6).map(t => [t.mode, t.modeStack])).toEqual([
+                ['EXPR', ['DEFAULT_MODE', 'EXPR']],
+                ['EXPR', ['DEFAULT_MODE', 'EXPR', 'EXPR']],
+                ['EXPR', ['DEFAULT_MODE', 'EXPR', 'EXPR']],
+                ['EXPR', ['DEFAULT_MODE', 'EXPR']],
+            ]);
+            expect(tokens[1]).toMatchObject({ type: "'{{'", typeName: 'OPEN', literal: "'{{'", rule: 'OPEN' });
+            expect(tokens[2]).toMatchObject({ type: 'NAME', typeName: 'NAME', literal: undefined, rule: 'NAME' });
+        });
+
+        it('should record each match that changed the mode stack', () => {
+            const { modeTransitions } = tokenize(TEMPLATE, 'a{{(b)}}');
+
+            expect(modeTransitions!.map(t => [t.column, t.rule, t.from, t.to])).toEqual([
+                [1, 'OPEN', ['DEFAULT_MODE'], ['DEFAULT_MODE', 'EXPR']],
+                [3, 'LPAREN', ['DEFAULT_MODE', 'EXPR'], ['DEFAULT_MODE', 'EXPR', 'EXPR']],
+                [5, 'RPAREN', ['DEFAULT_MODE', 'EXPR', 'EXPR'], ['DEFAULT_MODE', 'EXPR']],
+                [6, 'CLOSE', ['DEFAULT_MODE', 'EXPR'], ['DEFAULT_MODE']],
+            ]);
+        });
+    });
+
+    describe('tokenize only', () => {
+        const WORDS = [{
+            name: 'Words.g4',
+            content: "lexer grammar Words;\nWORD: LETTER+;\nfragment LETTER: [a-z];\nNUM: [0-9]+;\nWS: ' '+ -> skip;",
+        }];
+
+        it('should tokenize with a lexer grammar alone and list the tokens under one root', () => {
+            const result = tokenize(WORDS, 'ab 12 c');
+
+            expect(result.tokenizeOnly).toBe(true);
+            expect(result.errors).toEqual([]);
+            expect(result.tokens.map(t => [t.text, t.rule])).toEqual([['ab', 'WORD'], ['12', 'NUM'], ['c', 'WORD'], ['<EOF>', undefined]]);
+            expect(result.tree).toMatchObject({ type: 'rule', name: 'tokens', matchedText: 'ab 12 c' });
+            expect(result.tree.children!.map(n => n.name)).toEqual(['ab', '12', 'c', '<EOF>']);
+        });
+
+        it('should report unmatched characters and keep tokenizing after them', () => {
+            const result = tokenize(WORDS, 'ab ?! c');
+
+            expect(result.errors.map(e => [e.column, e.source, e.offendingToken])).toEqual([[3, 'lexer', '?'], [4, 'lexer', '!']]);
+            expect(result.tokens.map(t => t.text)).toEqual(['ab', 'c', '<EOF>']);
+        });
+
+        it('should ignore a start rule when there is no parser', () => {
+            const result = run(WORDS, 'ab', 'prog');
+
+            expect(result.tokenizeOnly).toBe(true);
+            expect(result.errors).toMatchObject([{
+                severity: 'info',
+                message: 'No parser grammar, so start rule prog was ignored and the input was only tokenized',
+            }]);
+        });
+
+        it('should only run the lexer of a combined grammar without a start rule', () => {
+            const result = tokenize([{ name: 'Call.g4', content: CALL }], 'f(a b)');
+
+            // The missing ';' would be a syntax error if the parser ran
+            expect(result.errors).toEqual([]);
+            expect(result.tree.name).toBe('tokens');
+            expect(result.tokens.map(t => t.type)).toEqual(['ID', "'('", 'ID', 'ID', "')'", 'EOF']);
+        });
+    });
+});
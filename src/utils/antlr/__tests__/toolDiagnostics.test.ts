@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { parseToolDiagnostics, formatToolDiagnostic } from '../toolDiagnostics';
+
+describe('parseToolDiagnostics', () => {
+    it('should parse errors with file, line and column', () => {
+        const diagnostics = parseToolDiagnostics('error(56): Expr.g4:3:8: reference to undefined rule: foo\n');
+
+        expect(diagnostics).toEqual([
+            {
+                severity: 'error',
+                code: 56,
+                file: 'Expr.g4',
+                line: 3,
+                column: 8,
+                message: 'reference to undefined rule: foo',
+            },
+        ]);
+    });
+
+    it('should parse warnings', () => {
+        const [diagnostic] = parseToolDiagnostics('warning(125): Expr.g4:5:0: implicit definition of token ID in parser');
+
+        expect(diagnostic.severity).toBe('warning');
+        expect(diagnostic.code).toBe(125);
+        expect(diagnostic.line).toBe(5);
+        expect(diagnostic.column).toBe(0);
+    });
+
+    it('should keep colons inside the message', () => {
+        const [diagnostic] = parseToolDiagnostics("error(50): Expr.g4:2:4: syntax error: mismatched input ':' expecting SEMI");
+
+        expect(diagnostic.message).toBe("syntax error: mismatched input ':' expecting SEMI");
+    });
+
+    it('should handle diagnostics without a line or column', () => {
+        const [noRules, missingFile] = parseToolDiagnostics(
+            'error(99): Expr.g4::: grammar Expr has no rules\nerror(7):  cannot find or open file: Missing.g4'
+        );
+
+        expect(noRules).toEqual({ severity: 'error', code: 99, file: 'Expr.g4', message: 'grammar Expr has no rules' });
+        expect(missingFile).toEqual({ severity: 'error', code: 7, message: 'cannot find or open file: Missing.g4' });
+    });
+
+    it('should map file names back to the client names', () => {
+        const names = new Map([['ExprLexer.g4', 'lexer.g4']]);
+        const [diagnostic] = parseToolDiagnostics('error(51): ExprLexer.g4:4:0: rule ID redefinition', names);
+
+        expect(diagnostic.file).toBe('lexer.g4');
+    });
+
+    it('should append indented lines to the previous message and keep other output as errors', () => {
+        const diagnostics = parseToolDiagnostics(
+            'error(119): Expr.g4::: The following sets of rules are mutually left-recursive\n    [a, b]\nException in thread "main"'
+        );
+
+        expect(diagnostics).toHaveLength(2);
+        expect(diagnostics[0].message).toBe('The following sets of rules are mutually left-recursive\n[a, b]');
+        expect(diagnostics[1]).toEqual({ severity: 'error', message: 'Exception in thread "main"' });
+    });
+});
+
+describe('formatToolDiagnostic', () => {
+    it('should format diagnostics like the tool', () => {
+        expect(formatToolDiagnostic({
+            severity: 'error',
+            code: 56,
+            file: 'Expr.g4',
+            line: 3,
+            column: 8,
+            message: 'reference to undefined rule: foo',
+        })).toBe('error(56): Expr.g4:3:8: reference to undefined rule: foo');
+        expect(formatToolDiagnostic({ severity: 'error', message: 'boom' })).toBe('boom');
+    });
+});
@@ -0,0 +1,1236 @@
+import type { GrammarType } from './grammarDependencies';
+import {
+    AlternativeAst,
+    EbnfSuffix,
+    ElementAst,
+    GrammarAst,
+    LiteralElement,
+    NamedItem,
+    RuleAst,
+    RuleRefElement,
+    SetElement,
+    SourceSpan,
+    decodeEscape,
+} from './grammarParser';
+import { GrammarDiagnostic } from './types';
+
+/** Version of the serialized ATN format the runtime reads */
+const SERIALIZED_VERSION = 4;
+
+const EOF = -1;
+const MAX_CHAR = 0x10ffff;
+
+/** ATN state types, numbered as in the serialized ATN */
+const StateType = {
+    BASIC: 1,
+    RULE_START: 2,
+    BLOCK_START: 3,
+    PLUS_BLOCK_START: 4,
+    STAR_BLOCK_START: 5,
+    TOKEN_START: 6,
+    RULE_STOP: 7,
+    BLOCK_END: 8,
+    STAR_LOOP_BACK: 9,
+    STAR_LOOP_ENTRY: 10,
+    PLUS_LOOP_BACK: 11,
+    LOOP_END: 12,
+} as const;
+
+/** ATN transition types, numbered as in the serialized ATN */
+const EdgeType = {
+    EPSILON: 1,
+    RANGE: 2,
+    RULE: 3,
+    PREDICATE: 4,
+    ATOM: 5,
+    ACTION: 6,
+    SET: 7,
+    NOT_SET: 8,
+    WILDCARD: 9,
+    PRECEDENCE: 10,
+} as const;
+
+/** Lexer action types, numbered as in the serialized ATN */
+const LexerActionType = {
+    CHANNEL: 0,
+    MODE: 2,
+    MORE: 3,
+    POP_MODE: 4,
+    PUSH_MODE: 5,
+    SKIP: 6,
+    TYPE: 7,
+} as const;
+
+/** Transitions that don't consume input */
+const EPSILON_EDGES: ReadonlySet<number> = new Set([EdgeType.EPSILON, EdgeType.PREDICATE, EdgeType.ACTION, EdgeType.PRECEDENCE]);
+
+const DEFAULT_MODE = 'DEFAULT_MODE';
+const DEFAULT_CHANNELS = ['DEFAULT_TOKEN_CHANNEL', 'HIDDEN'];
+/** Name prefix of the lexer rules made up for literals in the parser rules of a combined grammar */
+const IMPLICIT_TOKEN_PREFIX = 'T__';
+
+/** A grammar file's AST */
+export interface GrammarSource {
+    file: string;
+    grammar: GrammarAst;
+}
+
+interface SourcedName extends NamedItem {
+    file: string;
+}
+
+/** A rule and the file it was read from */
+export interface SourcedRule {
+    rule: RuleAst;
+    file: string;
+}
+
+/**
+ * A grammar with the rules, tokens, channels and modes of the grammars it
+ * imports merged in. A rule defined in the importing grammar overrides an
+ * imported rule of the same name.
+ */
+export interface MergedGrammar {
+    name: string;
+    type: GrammarType;
+    file: string;
+    options: Map<string, string>;
+    tokens: SourcedName[];
+    channels: SourcedName[];
+    /** Lexer modes other than the default mode */
+    modes: string[];
+    rules: SourcedRule[];
+}
+
+/**
+ * Token types of a lexer, by name and by literal. The name arrays are
+ * indexed by token type like the generated recognizers' name arrays.
+ */
+export interface Vocabulary {
+    types: Map<string, number>;
+    /** Literals as written in the grammar, quotes included */
+    literals: Map<string, number>;
+    literalNames: Array<string | null>;
+    symbolicNames: Array<string | null>;
+}
+
+export interface LexerAtn {
+    serialized: number[];
+    ruleNames: string[];
+    channelNames: string[];
+    modeNames: string[];
+    vocabulary: Vocabulary;
+    /** The lexer rules have semantic predicates */
+    hasPredicates: boolean;
+    /** The lexer rules have actions in target code */
+    hasActions: boolean;
+}
+
+export interface ParserAtn {
+    serialized: number[];
+    ruleNames: string[];
+    /** The lexer's vocabulary plus tokens the parser grammar defines */
+    vocabulary: Vocabulary;
+    /** The parser rules have semantic predicates */
+    hasPredicates: boolean;
+    /** The parser rules have actions in target code */
+    hasActions: boolean;
+}
+
+/**
+ * Merge the grammars `root` imports, depth-first in import order, into one
+ * grammar. Imports that aren't in `grammars` are skipped: dependency
+ * resolution already reports them.
+ */
+export function mergeImports(root: GrammarSource, grammars: Map<string, GrammarSource>): MergedGrammar {
+    const merged: MergedGrammar = {
+        name: root.grammar.name,
+        type: root.grammar.type,
+        file: root.file,
+        options: new Map(root.grammar.options.map(o => [o.name, o.value])),
+        tokens: [],
+        channels: [],
+        modes: [],
+        rules: [],
+    };
+    const ruleNames = new Set<string>();
+    const tokenNames = new Set<string>();
+    const channelNames = new Set<string>();
+    const visited = new Set<string>();
+
+    const add = (source: GrammarSource): void => {
+        if (visited.has(source.grammar.name)) return;
+        visited.add(source.grammar.name);
+        const isRoot = source === root;
+        const { grammar, file } = source;
+
+        for (const token of grammar.tokens) {
+            if (!tokenNames.has(token.name)) merged.tokens.push({ ...token, file });
+            tokenNames.add(token.name);
+        }
+        for (const channel of grammar.channels) {
+            if (!channelNames.has(channel.name)) merged.channels.push({ ...channel, file });
+            channelNames.add(channel.name);
+        }
+        for (const mode of grammar.modes) {
+            if (!merged.modes.includes(mode.name)) merged.modes.push(mode.name);
+        }
+        for (const rule of grammar.rules) {
+            // Duplicates within the root grammar are reported when the ATN is built
+            if (!isRoot && ruleNames.has(rule.name)) continue;
+            ruleNames.add(rule.name);
+            merged.rules.push({ rule, file });
+        }
+        for (const { name } of grammar.imports) {
+            const imported = grammars.get(name);
+            if (imported) add(imported);
+        }
+    };
+    add(root);
+
+    return merged;
+}
+
+/**
+ * Build the lexer ATN of a lexer grammar, or of the implicit lexer of a
+ * combined grammar: its lexer rules plus a T__n rule for each literal the
+ * parser rules use that no lexer rule defines.
+ */
+export function buildLexerAtn(grammar: MergedGrammar, diagnostics: GrammarDiagnostic[]): LexerAtn {
+    const lexerRules = grammar.rules.filter(r => r.rule.kind === 'lexer');
+    if (grammar.type === 'combined') {
+        lexerRules.unshift(...implicitLiteralRules(grammar, literalAliases(lexerRules)));
+    }
+
+    const vocabulary = emptyVocabulary();
+    for (const token of grammar.tokens) defineToken(vocabulary, token.name);
+    for (const { rule } of lexerRules) {
+        if (!isFragment(rule) && !hasTypeOrMoreCommand(rule)) defineToken(vocabulary, rule.name);
+    }
+    // 'lit' names the token of `X : 'lit' ;`, unless several rules are written like that
+    const conflicting = new Set<string>();
+    for (const [literal, name] of literalAliases(lexerRules)) {
+        if (vocabulary.literals.has(literal)) {
+            conflicting.add(literal);
+            continue;
+        }
+        const type = defineToken(vocabulary, name);
+        vocabulary.literals.set(literal, type);
+        vocabulary.literalNames[type] = literal;
+    }
+    for (const literal of conflicting) {
+        const type = vocabulary.literals.get(literal)!;
+        vocabulary.literals.delete(literal);
+        if (vocabulary.literalNames[type] === literal) vocabulary.literalNames[type] = null;
+    }
+
+    const channelNames = [...DEFAULT_CHANNELS, ...grammar.channels.map(c => c.name)];
+    const modeNames = [DEFAULT_MODE, ...grammar.modes];
+    const builder = new AtnBuilder(grammar, lexerRules, vocabulary, diagnostics, { channelNames, modeNames });
+    const serialized = builder.buildLexer();
+
+    return {
+        serialized,
+        ruleNames: lexerRules.map(r => r.rule.name),
+        channelNames,
+        modeNames,
+        vocabulary,
+        hasPredicates: builder.hasPredicates,
+        hasActions: builder.hasActions,
+    };
+}
+
+/**
+ * Build the parser ATN of a parser or combined grammar on top of the
+ * vocabulary of the lexer that feeds it
+ */
+export function buildParserAtn(
+    grammar: MergedGrammar,
+    lexerVocabulary: Vocabulary,
+    diagnostics: GrammarDiagnostic[]
+): ParserAtn {
+    const vocabulary: Vocabulary = {
+        types: new Map(lexerVocabulary.types),
+        literals: new Map(lexerVocabulary.literals),
+        literalNames: [...lexerVocabulary.literalNames],
+        symbolicNames: [...lexerVocabulary.symbolicNames],
+    };
+    for (const token of grammar.tokens) defineToken(vocabulary, token.name);
+
+    const parserRules = grammar.rules.filter(r => r.rule.kind === 'parser');
+    if (parserRules.length === 0) {
+        diagnostics.push({ severity: 'error', file: grammar.file, message: `grammar ${grammar.name} has no rules` });
+    }
+
+    // Token names that no lexer rule or tokens block defines get a type of their own
+    for (const { rule, file } of parserRules) {
+        forEachElement(rule.alternatives, element => {
+            if (element.kind !== 'tokenRef' || element.name === 'EOF' || vocabulary.types.has(element.name)) return;
+            diagnostics.push(spanDiagnostic('warning', file, element.span, `implicit definition of token ${element.name} in parser`));
+            defineToken(vocabulary, element.name);
+        });
+    }
+
+    const builder = new AtnBuilder(grammar, parserRules, vocabulary, diagnostics);
+    const serialized = builder.buildParser();
+    return {
+        serialized,
+        ruleNames: parserRules.map(r => r.rule.name),
+        vocabulary,
+        hasPredicates: builder.hasPredicates,
+        hasActions: builder.hasActions,
+    };
+}
+
+function emptyVocabulary(): Vocabulary {
+    return { types: new Map(), literals: new Map(), literalNames: [null], symbolicNames: [null] };
+}
+
+function defineToken(vocabulary: Vocabulary, name: string): number {
+    const existing = vocabulary.types.get(name);
+    if (existing !== undefined) return existing;
+
+    const type = vocabulary.symbolicNames.length;
+    vocabulary.types.set(name, type);
+    vocabulary.symbolicNames[type] = name.startsWith(IMPLICIT_TOKEN_PREFIX) ? null : name;
+    vocabulary.literalNames[type] = null;
+    return type;
+}
+
+function isFragment(rule: RuleAst): boolean {
+    return rule.modifiers.includes('fragment');
+}
+
+function hasTypeOrMoreCommand(rule: RuleAst): boolean {
+    let found = false;
+    const visit = (alternatives: AlternativeAst[]): void => {
+        for (const alternative of alternatives) {
+            if (alternative.commands.some(c => c.name === 'type' || c.name === 'more')) found = true;
+            for (const element of alternative.elements) {
+                if (element.kind === 'block') visit(element.alternatives);
+            }
+        }
+    };
+    visit(rule.alternatives);
+    return found;
+}
+
+/**
+ * Literals defined by lexer rules of the form `X : 'lit' ;`, mapped to the rule name
+ */
+function literalAliases(lexerRules: SourcedRule[]): Array<[string, string]> {
+    const aliases: Array<[string, string]> = [];
+    for (const { rule } of lexerRules) {
+        if (isFragment(rule) || rule.alternatives.length !== 1) continue;
+        const [element, ...rest] = rule.alternatives[0].elements;
+        if (element?.kind === 'literal' && rest.length === 0 && !element.suffix && !element.label) {
+            aliases.push([element.text, rule.name]);
+        }
+    }
+    return aliases;
+}
+
+/**
+ * Lexer rules for the literals in the parser rules of a combined grammar that
+ * no lexer rule defines. They come first, so they win over other rules that
+ * match the same text, like keywords do.
+ */
+function implicitLiteralRules(grammar: MergedGrammar, aliases: Array<[string, string]>): SourcedRule[] {
+    const aliased = new Set(aliases.map(([literal]) => literal));
+    const literals = new Map<string, { element: LiteralElement; file: string }>();
+    for (const { rule, file } of grammar.rules) {
+        if (rule.kind !== 'parser') continue;
+        forEachElement(rule.alternatives, element => {
+            const candidates = element.kind === 'not' ? element.elements : [element];
+            for (const candidate of candidates) {
+                if (candidate.kind === 'literal' && !aliased.has(candidate.text) && !literals.has(candidate.text)) {
+                    literals.set(candidate.text, { element: candidate, file });
+                }
+            }
+        });
+    }
+
+    return [...literals.values()].map(({ element, file }, i) => ({
+        file,
+        rule: {
+            kind: 'lexer',
+            name: `${IMPLICIT_TOKEN_PREFIX}${i}`,
+            nameSpan: element.span,
+            span: element.span,
+            modifiers: [],
+            options: [],
+            actions: [],
+            alternatives: [{
+                elements: [{ kind: 'literal', text: element.text, value: element.value, options: [], span: element.span }],
+                options: [],
+                commands: [],
+                span: element.span,
+            }],
+        },
+    }));
+}
+
+/** Call `visit` for every element of the alternatives, nested ones included */
+function forEachElement(alternatives: AlternativeAst[], visit: (element: ElementAst) => void): void {
+    for (const alternative of alternatives) {
+        for (const element of alternative.elements) {
+            visit(element);
+            if (element.kind === 'block') forEachElement(element.alternatives, visit);
+        }
+    }
+}
+
+function spanDiagnostic(
+    severity: GrammarDiagnostic['severity'],
+    file: string,
+    span: SourceSpan,
+    message: string
+): GrammarDiagnostic {
+    return { severity, file, line: span.line, column: span.column, message };
+}
+
+// --- ATN construction ---
+
+interface AtnState {
+    number: number;
+    type: number;
+    ruleIndex: number;
+    transitions: AtnTransition[];
+    /** End state of a block start */
+    endState?: AtnState;
+    /** Loop back state of a loop end */
+    loopBack?: AtnState;
+    nonGreedy?: boolean;
+    /** Rule start state of a left-recursive rule */
+    precedenceRule?: boolean;
+}
+
+interface AtnTransition {
+    type: number;
+    /** For rule transitions, the state to continue at after the rule returns */
+    target: AtnState;
+    /** Start state of the rule a rule transition invokes */
+    ruleStart?: AtnState;
+    args: [number, number, number];
+}
+
+interface Handle {
+    left: AtnState;
+    right: AtnState;
+}
+
+/** Inclusive code point or token type ranges */
+type Intervals = Array<[number, number]>;
+
+/** An outer alternative of a left-recursive rule after the rewrite */
+interface OperatorAlternative {
+    elements: ElementAst[];
+    precedence: number;
+}
+
+interface LexerNames {
+    channelNames: string[];
+    modeNames: string[];
+}
+
+/**
+ * Builds the ATN of a lexer or parser the way the ANTLR tool does, without
+ * its optimizations, and serializes it for the runtime's ATNDeserializer.
+ * Left-recursive rules are rewritten like the tool does it: primary
+ * alternatives followed by a loop over the operator alternatives, each
+ * guarded by a precedence predicate.
+ */
+class AtnBuilder {
+    hasPredicates = false;
+    hasActions = false;
+
+    private readonly states: AtnState[] = [];
+    private readonly decisions: AtnState[] = [];
+    private readonly sets: Intervals[] = [];
+    private readonly lexerActions: Array<[number, number, number]> = [];
+    private readonly ruleStarts: AtnState[] = [];
+    private readonly ruleStops: AtnState[] = [];
+    private readonly ruleIndexes = new Map<string, number>();
+    /** Loop blocks, checked for alternatives that match nothing */
+    private readonly loops: Array<{ start: AtnState; rule: SourcedRule }> = [];
+    /** Precedence of the recursive references the left-recursion rewrite annotated */
+    private readonly precedences = new Map<RuleRefElement, number>();
+    private current!: SourcedRule;
+    private currentIndex = 0;
+    private predicates = 0;
+
+    constructor(
+        private readonly grammar: MergedGrammar,
+        private readonly rules: SourcedRule[],
+        private readonly vocabulary: Vocabulary,
+        private readonly diagnostics: GrammarDiagnostic[],
+        private readonly lexerNames?: LexerNames
+    ) {}
+
+    buildLexer(): number[] {
+        const { modeNames } = this.lexerNames!;
+        const modeStarts = modeNames.map(() => {
+            const start = this.newState(StateType.TOKEN_START, -1);
+            this.decisions.push(start);
+            return start;
+        });
+        this.createRuleStates();
+        this.rules.forEach((rule, i) => this.buildRule(rule, i));
+
+        this.rules.forEach(({ rule }, i) => {
+            if (isFragment(rule)) return;
+            const mode = modeNames.indexOf(rule.mode ?? DEFAULT_MODE);
+            this.epsilon(modeStarts[mode], this.ruleStarts[i]);
+        });
+
+        this.checkLoops();
+        const nullable = this.nullableRules();
+        this.rules.forEach((sourced, i) => {
+            if (!isFragment(sourced.rule) && nullable[i]) {
+                this.error(sourced, sourced.rule.nameSpan, `non-fragment lexer rule ${sourced.rule.name} can match the empty string`);
+            }
+        });
+
+        const ruleToTokenType = this.rules.map(({ rule }) => this.vocabulary.types.get(rule.name) ?? 0);
+        return this.serialize(0, modeStarts, ruleToTokenType);
+    }
+
+    buildParser(): number[] {
+        this.createRuleStates();
+        this.rules.forEach((rule, i) => this.buildRule(rule, i));
+        this.checkLoops();
+        this.checkLeftRecursion();
+        return this.serialize(1, [], []);
+    }
+
+    // --- Rules ---
+
+    private createRuleStates(): void {
+        this.rules.forEach((sourced, i) => {
+            const { rule } = sourced;
+            if (this.ruleIndexes.has(rule.name)) {
+                const previous = this.rules[this.ruleIndexes.get(rule.name)!];
+                this.error(sourced, rule.nameSpan, `rule ${rule.name} redefinition; previous at line ${previous.rule.nameSpan.line}`);
+            } else {
+                this.ruleIndexes.set(rule.name, i);
+            }
+            this.ruleStarts.push(this.newState(StateType.RULE_START, i));
+            this.ruleStops.push(this.newState(StateType.RULE_STOP, i));
+        });
+    }
+
+    private buildRule(sourced: SourcedRule, index: number): void {
+        this.current = sourced;
+        this.currentIndex = index;
+        const { rule } = sourced;
+
+        const leftRecursive = rule.kind === 'parser' ? this.rewriteLeftRecursion(sourced) : undefined;
+        let block: Handle;
+        if (leftRecursive) {
+            this.ruleStarts[index].precedenceRule = true;
+            const primary = this.block(leftRecursive.primary.map(alt => this.alternative(alt, true)));
+            const operators = leftRecursive.operators.map(op => this.elementList([
+                this.edge(EdgeType.PRECEDENCE, [op.precedence, 0, 0]),
+                ...op.elements.map(element => this.element(element)),
+            ]));
+            const loop = this.block(operators, { operator: '*', greedy: true });
+            block = this.elementList([primary, loop]);
+        } else {
+            block = this.block(rule.alternatives.map(alt => this.alternative(alt, true)));
+        }
+
+        this.epsilon(this.ruleStarts[index], block.left);
+        this.epsilon(block.right, this.ruleStops[index]);
+    }
+
+    /**
+     * Split the outer alternatives of a directly left-recursive rule into
+     * primary and operator alternatives, like the tool's
+     * LeftRecursiveRuleAnalyzer. Returns undefined for other rules.
+     */
+    private rewriteLeftRecursion(sourced: SourcedRule): { primary: AlternativeAst[]; operators: OperatorAlternative[] } | undefined {
+        const { rule } = sourced;
+        const isRecursion = (element: ElementAst | undefined): element is RuleRefElement =>
+            element?.kind === 'ruleRef' && element.name === rule.name && !element.suffix;
+
+        const primary: AlternativeAst[] = [];
+        const operators: OperatorAlternative[] = [];
+        const count = rule.alternatives.length;
+        rule.alternatives.forEach((alternative, i) => {
+            const { elements } = alternative;
+            const precedence = count - i;
+            // Actions after the last reference don't change what kind of alternative it is
+            let last = elements.length - 1;
+            while (last > 0 && elements[last].kind === 'action') last--;
+            const leftRecursive = isRecursion(elements[0]) && elements.length > 1;
+            const rightRecursive = last > 0 && isRecursion(elements[last]);
+
+            if (leftRecursive) {
+                const rightAssoc = alternative.options.some(o => o.name === 'assoc' && o.value === 'right');
+                if (rightRecursive) {
+                    // Binary: the right operand binds tighter unless the operator is right-associative
+                    this.precedences.set(elements[last] as RuleRefElement, rightAssoc ? precedence : precedence + 1);
+                }
+                operators.push({ elements: elements.slice(1), precedence });
+            } else {
+                // Prefix alternatives bind their operand at their own precedence
+                if (rightRecursive) this.precedences.set(elements[last] as RuleRefElement, precedence);
+                primary.push(alternative);
+            }
+        });
+
+        if (operators.length === 0) return undefined;
+        if (primary.length === 0) {
+            this.error(sourced, rule.nameSpan, `left recursive rule ${rule.name} must contain an alternative which is not left recursive`);
+            primary.push({ elements: [], options: [], commands: [], span: rule.nameSpan });
+        }
+        return { primary, operators };
+    }
+
+    private alternative(alternative: AlternativeAst, outer: boolean): Handle {
+        const elements = alternative.elements.map(element => this.element(element));
+        if (alternative.commands.length > 0) {
+            if (!outer || this.current.rule.kind !== 'lexer') {
+                this.error(this.current, alternative.commands[0].span, 'lexer commands are only allowed at the end of an outer alternative of a lexer rule');
+            } else {
+                elements.push(...alternative.commands.map(command => this.lexerCommand(command)));
+            }
+        }
+        return elements.length > 0 ? this.elementList(elements) : this.edge(EdgeType.EPSILON, [0, 0, 0]);
+    }
+
+    // --- Blocks ---
+
+    private block(alternatives: Handle[], suffix?: EbnfSuffix): Handle {
+        if (!suffix) {
+            if (alternatives.length === 1) return alternatives[0];
+            const start = this.newState(StateType.BLOCK_START);
+            this.decisions.push(start);
+            return this.makeBlock(start, alternatives);
+        }
+
+        if (suffix.operator === '?') {
+            const start = this.newState(StateType.BLOCK_START);
+            this.decisions.push(start);
+            const block = this.makeBlock(start, alternatives);
+            start.nonGreedy = !suffix.greedy;
+            // Non-greedy prefers skipping the block
+            this.epsilon(start, block.right, !suffix.greedy);
+            return block;
+        }
+
+        if (suffix.operator === '*') {
+            const start = this.newState(StateType.STAR_BLOCK_START);
+            if (alternatives.length > 1) this.decisions.push(start);
+            const block = this.makeBlock(start, alternatives);
+            const entry = this.newState(StateType.STAR_LOOP_ENTRY);
+            entry.nonGreedy = !suffix.greedy;
+            this.decisions.push(entry);
+            const end = this.newState(StateType.LOOP_END);
+            const loopBack = this.newState(StateType.STAR_LOOP_BACK);
+            end.loopBack = loopBack;
+            if (suffix.greedy) {
+                this.epsilon(entry, start);
+                this.epsilon(entry, end);
+            } else {
+                this.epsilon(entry, end);
+                this.epsilon(entry, start);
+            }
+            this.epsilon(block.right, loopBack);
+            this.epsilon(loopBack, entry);
+            this.loops.push({ start, rule: this.current });
+            return { left: entry, right: end };
+        }
+
+        const start = this.newState(StateType.PLUS_BLOCK_START);
+        if (alternatives.length > 1) this.decisions.push(start);
+        const block = this.makeBlock(start, alternatives);
+        const loopBack = this.newState(StateType.PLUS_LOOP_BACK);
+        loopBack.nonGreedy = !suffix.greedy;
+        this.decisions.push(loopBack);
+        const end = this.newState(StateType.LOOP_END);
+        end.loopBack = loopBack;
+        this.epsilon(block.right, loopBack);
+        if (suffix.greedy) {
+            this.epsilon(loopBack, start);
+            this.epsilon(loopBack, end);
+        } else {
+            this.epsilon(loopBack, end);
+            this.epsilon(loopBack, start);
+        }
+        this.loops.push({ start, rule: this.current });
+        return { left: start, right: end };
+    }
+
+    private makeBlock(start: AtnState, alternatives: Handle[]): Handle {
+        const end = this.newState(StateType.BLOCK_END);
+        start.endState = end;
+        for (const alternative of alternatives) {
+            this.epsilon(start, alternative.left);
+            this.epsilon(alternative.right, end);
+        }
+        return { left: start, right: end };
+    }
+
+    private elementList(elements: Handle[]): Handle {
+        for (let i = 0; i < elements.length - 1; i++) {
+            this.epsilon(elements[i].right, elements[i + 1].left);
+        }
+        return { left: elements[0].left, right: elements[elements.length - 1].right };
+    }
+
+    // --- Elements ---
+
+    private element(element: ElementAst): Handle {
+        if (element.kind === 'block') {
+            return this.block(element.alternatives.map(alt => this.alternative(alt, false)), element.suffix);
+        }
+        const atom = this.atom(element);
+        return element.suffix ? this.block([atom], element.suffix) : atom;
+    }
+
+    private atom(element: Exclude<ElementAst, { kind: 'block' }>): Handle {
+        const lexer = this.current.rule.kind === 'lexer';
+        switch (element.kind) {
+            case 'action':
+                if (!element.predicate) {
+                    // Actions are target code, which the interpreter doesn't run
+                    this.hasActions = true;
+                    return this.edge(EdgeType.EPSILON, [0, 0, 0]);
+                }
+                this.hasPredicates = true;
+                return this.edge(EdgeType.PREDICATE, [this.currentIndex, this.predicates++, 0]);
+            case 'wildcard':
+                return this.edge(EdgeType.WILDCARD, [0, 0, 0]);
+            case 'ruleRef':
+                return this.ruleRef(element.name, element.span, this.precedences.get(element) ?? 0);
+            case 'tokenRef':
+                if (element.name === 'EOF') return this.edge(EdgeType.ATOM, [EOF, 0, 0]);
+                if (lexer) return this.ruleRef(element.name, element.span, 0);
+                return this.edge(EdgeType.ATOM, [this.tokenType(element), 0, 0]);
+            case 'literal':
+                return lexer ? this.literalChars(element) : this.edge(EdgeType.ATOM, [this.tokenType(element), 0, 0]);
+            case 'range':
+            case 'charSet':
+                if (!lexer) {
+                    this.error(this.current, element.span, `${element.kind === 'range' ? 'ranges' : 'char sets'} are only allowed in lexer rules`);
+                    return this.edge(EdgeType.EPSILON, [0, 0, 0]);
+                }
+                return this.setEdge(EdgeType.SET, this.charSet(element));
+            case 'not': {
+                const set: Intervals = [];
+                for (const item of element.elements) {
+                    set.push(...(lexer ? this.charSet(item) : [[this.tokenType(item), this.tokenType(item)] as [number, number]]));
+                }
+                return this.setEdge(EdgeType.NOT_SET, normalize(set));
+            }
+        }
+    }
+
+    private ruleRef(name: string, span: SourceSpan, precedence: number): Handle {
+        const index = this.ruleIndexes.get(name);
+        if (index === undefined) {
+            this.error(this.current, span, `reference to undefined rule: ${name}`);
+            return this.edge(EdgeType.EPSILON, [0, 0, 0]);
+        }
+        const handle = this.edge(EdgeType.RULE, [0, index, precedence]);
+        handle.left.transitions[0].ruleStart = this.ruleStarts[index];
+        return handle;
+    }
+
+    /** Token type of a token name or literal in a parser rule */
+    private tokenType(element: SetElement): number {
+        if (element.kind === 'tokenRef') {
+            return element.name === 'EOF' ? EOF : this.vocabulary.types.get(element.name) ?? 0;
+        }
+        if (element.kind === 'literal') {
+            const type = this.vocabulary.literals.get(element.text);
+            if (type === undefined) {
+                this.error(this.current, element.span, `cannot create implicit token for string literal in non-combined grammar: ${element.text}`);
+                return 0;
+            }
+            return type;
+        }
+        this.error(this.current, element.span, `${element.kind === 'range' ? 'ranges' : 'char sets'} are only allowed in lexer rules`);
+        return 0;
+    }
+
+    /** A literal in a lexer rule matches its characters one after another */
+    private literalChars(element: LiteralElement): Handle {
+        const handles = [...element.value].map(char => {
+            const code = char.codePointAt(0)!;
+            return this.caseInsensitive()
+                ? this.setEdge(EdgeType.SET, withCaseVariants([[code, code]]))
+                : this.edge(EdgeType.ATOM, [code, 0, 0]);
+        });
+        return handles.length > 0 ? this.elementList(handles) : this.edge(EdgeType.EPSILON, [0, 0, 0]);
+    }
+
+    /** Code points a set element of a lexer rule matches */
+    private charSet(element: SetElement, seen = new Set<string>()): Intervals {
+        let set: Intervals;
+        switch (element.kind) {
+            case 'literal': {
+                const chars = [...element.value];
+                if (chars.length !== 1) {
+                    this.error(this.current, element.span, `multi-character literals are not allowed in lexer sets: ${element.text}`);
+                    return [];
+                }
+                const code = chars[0].codePointAt(0)!;
+                set = [[code, code]];
+                break;
+            }
+            case 'range': {
+                const from = [...element.from];
+                const to = [...element.to];
+                if (from.length !== 1 || to.length !== 1) {
+                    this.error(this.current, element.span, `multi-character range: ${element.text}`);
+                    return [];
+                }
+                set = [[from[0].codePointAt(0)!, to[0].codePointAt(0)!]];
+                if (set[0][0] > set[0][1]) {
+                    this.error(this.current, element.span, `range ${element.text} is empty`);
+                    return [];
+                }
+                break;
+            }
+            case 'charSet':
+                set = this.parseCharSet(element.text, element.span);
+                break;
+            case 'tokenRef':
+                set = this.ruleAsSet(element.name, element.span, seen);
+                break;
+        }
+        return this.caseInsensitive() ? withCaseVariants(set) : set;
+    }
+
+    /** Code points of a lexer rule that only matches single characters, for `~RULE` */
+    private ruleAsSet(name: string, span: SourceSpan, seen: Set<string>): Intervals {
+        const index = this.ruleIndexes.get(name);
+        const rule = index === undefined ? undefined : this.rules[index].rule;
+        if (!rule || seen.has(name)) {
+            this.error(this.current, span, rule ? `rule ${name} refers to itself in a set` : `reference to undefined rule: ${name}`);
+            return [];
+        }
+        seen.add(name);
+        const set: Intervals = [];
+        for (const alternative of rule.alternatives) {
+            const [element, ...rest] = alternative.elements;
+            const single = element && rest.length === 0 && !element.suffix && alternative.commands.length === 0;
+            if (!single || element.kind === 'block' || element.kind === 'not' || element.kind === 'wildcard'
+                || element.kind === 'action' || element.kind === 'ruleRef') {
+                this.error(this.current, span, `rule ${name} can't be used in a set: it must match a single character`);
+                return [];
+            }
+            set.push(...this.charSet(element, seen));
+        }
+        return set;
+    }
+
+    /** Parse a lexer char set such as `[a-z_À-\u{1F600}\p{L}]` */
+    private parseCharSet(text: string, span: SourceSpan): Intervals {
+        const body = text.slice(1, -1);
+        const set: Intervals = [];
+        const fail = (message: string): Intervals => {
+            this.error(this.current, span, message);
+            return [];
+        };
+        // Read one character at `i`, decoding an escape
+        const readChar = (i: number): { code: number; end: number } | undefined => {
+            if (body[i] === '\\') {
+                const escape = decodeEscape(body, i);
+                return escape && { code: escape.value.codePointAt(0)!, end: escape.end };
+            }
+            const code = body.codePointAt(i)!;
+            return { code, end: i + (code > 0xffff ? 2 : 1) };
+        };
+
+        if (body.length === 0) return fail('string literals and sets cannot be empty: []');
+        let i = 0;
+        while (i < body.length) {
+            if (body[i] === '\\' && (body[i + 1] === 'p' || body[i + 1] === 'P')) {
+                const close = body.indexOf('}', i);
+                if (body[i + 2] !== '{' || close < 0) return fail(`invalid escape sequence in ${text}`);
+                const name = body.slice(i + 3, close);
+                const property = unicodeProperty(name);
+                if (!property) return fail(`unsupported Unicode property \\${body[i + 1]}{${name}} in ${text}`);
+                set.push(...(body[i + 1] === 'P' ? complement(property) : property));
+                i = close + 1;
+                continue;
+            }
+
+            const from = readChar(i);
+            if (!from) return fail(`invalid escape sequence in ${text}`);
+            i = from.end;
+            if (body[i] === '-' && i + 1 < body.length) {
+                const to = readChar(i + 1);
+                if (!to) return fail(`invalid escape sequence in ${text}`);
+                if (to.code < from.code) return fail(`reversed character range in ${text}`);
+                set.push([from.code, to.code]);
+                i = to.end;
+            } else {
+                set.push([from.code, from.code]);
+            }
+        }
+        return normalize(set);
+    }
+
+    private caseInsensitive(): boolean {
+        const ruleOption = this.current.rule.options.find(o => o.name === 'caseInsensitive');
+        return (ruleOption?.value ?? this.grammar.options.get('caseInsensitive')) === 'true';
+    }
+
+    private lexerCommand(command: AlternativeAst['commands'][number]): Handle {
+        const { channelNames, modeNames } = this.lexerNames!;
+        const resolve = (names: string[], what: string): number => {
+            const argument = command.argument;
+            if (argument === undefined) {
+                this.error(this.current, command.span, `missing argument for lexer command ${command.name}`);
+                return 0;
+            }
+            if (/^\d+$/.test(argument)) return parseInt(argument, 10);
+            const index = names.indexOf(argument);
+            if (index < 0) this.error(this.current, command.span, `${what} ${argument} is not defined`);
+            return Math.max(index, 0);
+        };
+
+        let action: [number, number, number];
+        switch (command.name) {
+            case 'skip':
+                action = [LexerActionType.SKIP, 0, 0];
+                break;
+            case 'more':
+                action = [LexerActionType.MORE, 0, 0];
+                break;
+            case 'popMode':
+                action = [LexerActionType.POP_MODE, 0, 0];
+                break;
+            case 'mode':
+                action = [LexerActionType.MODE, resolve(modeNames, 'mode'), 0];
+                break;
+            case 'pushMode':
+                action = [LexerActionType.PUSH_MODE, resolve(modeNames, 'mode'), 0];
+                break;
+            case 'channel':
+                action = [LexerActionType.CHANNEL, resolve(channelNames, 'channel'), 0];
+                break;
+            case 'type': {
+                const names: string[] = [];
+                this.vocabulary.types.forEach((type, name) => { names[type] = name; });
+                action = [LexerActionType.TYPE, resolve(names, 'token'), 0];
+                break;
+            }
+            default:
+                this.error(this.current, command.span, `lexer command ${command.name} does not exist or is not supported`);
+                return this.edge(EdgeType.EPSILON, [0, 0, 0]);
+        }
+
+        let index = this.lexerActions.findIndex(a => a.every((value, i) => value === action[i]));
+        if (index < 0) {
+            index = this.lexerActions.length;
+            this.lexerActions.push(action);
+        }
+        return this.edge(EdgeType.ACTION, [this.currentIndex, index, 0]);
+    }
+
+    // --- States and transitions ---
+
+    private newState(type: number, ruleIndex = this.currentIndex): AtnState {
+        const state: AtnState = { number: this.states.length, type, ruleIndex, transitions: [] };
+        this.states.push(state);
+        return state;
+    }
+
+    /** Two states joined by a transition of the given type */
+    private edge(type: number, args: [number, number, number]): Handle {
+        const left = this.newState(StateType.BASIC);
+        const right = this.newState(StateType.BASIC);
+        left.transitions.push({ type, target: right, args });
+        return { left, right };
+    }
+
+    private setEdge(type: number, set: Intervals): Handle {
+        this.sets.push(set);
+        return this.edge(type, [this.sets.length - 1, 0, 0]);
+    }
+
+    private epsilon(from: AtnState, to: AtnState, first = false): void {
+        const transition: AtnTransition = { type: EdgeType.EPSILON, target: to, args: [0, 0, 0] };
+        if (first) from.transitions.unshift(transition);
+        else from.transitions.push(transition);
+    }
+
+    // --- Checks ---
+
+    /**
+     * Rules that can match nothing. A rule transition passes through a rule
+     * that can, so this iterates until no more rules are found.
+     */
+    private nullableRules(): boolean[] {
+        const nullable = this.rules.map(() => false);
+        let changed = true;
+        while (changed) {
+            changed = false;
+            this.rules.forEach((_, i) => {
+                if (!nullable[i] && this.reachesWithoutInput(this.ruleStarts[i], this.ruleStops[i], nullable)) {
+                    nullable[i] = true;
+                    changed = true;
+                }
+            });
+        }
+        return nullable;
+    }
+
+    private reachesWithoutInput(from: AtnState, to: AtnState, nullable: boolean[]): boolean {
+        const visited = new Set<AtnState>();
+        const stack = [from];
+        while (stack.length > 0) {
+            const state = stack.pop()!;
+            if (state === to) return true;
+            if (visited.has(state)) continue;
+            visited.add(state);
+            for (const transition of state.transitions) {
+                if (EPSILON_EDGES.has(transition.type)) stack.push(transition.target);
+                else if (transition.type === EdgeType.RULE && nullable[transition.args[1]]) stack.push(transition.target);
+            }
+        }
+        return false;
+    }
+
+    /**
+     * A `*` or `+` loop whose block can match nothing would never end, so the
+     * tool rejects it
+     */
+    private checkLoops(): void {
+        const nullable = this.nullableRules();
+        for (const { start, rule } of this.loops) {
+            if (this.reachesWithoutInput(start, start.endState!, nullable)) {
+                this.error(rule, rule.rule.nameSpan, `rule ${rule.rule.name} contains a closure with at least one alternative that can match an empty string`);
+            }
+        }
+    }
+
+    /**
+     * Report rules that reach themselves without consuming input. Direct left
+     * recursion has been rewritten by now, so these are cycles through other
+     * rules, which the parser would follow forever.
+     */
+    private checkLeftRecursion(): void {
+        const nullable = this.nullableRules();
+        // Rules each rule can invoke before consuming input
+        const leftCalls = this.rules.map((_, i) => {
+            const calls = new Set<number>();
+            const visited = new Set<AtnState>();
+            const stack = [this.ruleStarts[i]];
+            while (stack.length > 0) {
+                const state = stack.pop()!;
+                if (visited.has(state)) continue;
+                visited.add(state);
+                for (const transition of state.transitions) {
+                    if (EPSILON_EDGES.has(transition.type)) {
+                        stack.push(transition.target);
+                    } else if (transition.type === EdgeType.RULE) {
+                        calls.add(transition.args[1]);
+                        if (nullable[transition.args[1]]) stack.push(transition.target);
+                    }
+                }
+            }
+            return calls;
+        });
+
+        for (const cycle of stronglyConnected(leftCalls)) {
+            if (cycle.length === 1 && !leftCalls[cycle[0]].has(cycle[0])) continue;
+            const first = this.rules[Math.min(...cycle)];
+            const names = cycle.sort((a, b) => a - b).map(i => this.rules[i].rule.name);
+            this.error(first, first.rule.nameSpan, `The following sets of rules are mutually left-recursive [${names.join(', ')}]`);
+        }
+    }
+
+    private error(rule: SourcedRule, span: SourceSpan, message: string): void {
+        this.diagnostics.push(spanDiagnostic('error', rule.file, span, message));
+    }
+
+    // --- Serialization ---
+
+    private serialize(grammarType: 0 | 1, modeStarts: AtnState[], ruleToTokenType: number[]): number[] {
+        const maxTokenType = this.vocabulary.symbolicNames.length - 1;
+        const data: number[] = [SERIALIZED_VERSION, grammarType, maxTokenType, this.states.length];
+
+        for (const state of this.states) {
+            data.push(state.type, state.ruleIndex);
+            if (state.type === StateType.LOOP_END) data.push(state.loopBack!.number);
+            else if (state.endState) data.push(state.endState.number);
+        }
+        const nonGreedy = this.states.filter(s => s.nonGreedy).map(s => s.number);
+        data.push(nonGreedy.length, ...nonGreedy);
+        const precedence = this.states.filter(s => s.precedenceRule).map(s => s.number);
+        data.push(precedence.length, ...precedence);
+
+        data.push(this.ruleStarts.length);
+        this.ruleStarts.forEach((start, i) => {
+            data.push(start.number);
+            if (grammarType === 0) data.push(ruleToTokenType[i]);
+        });
+
+        data.push(modeStarts.length, ...modeStarts.map(s => s.number));
+
+        data.push(this.sets.length);
+        for (const set of this.sets) {
+            // EOF is flagged separately; the intervals start at 0
+            const containsEof = set.some(([from]) => from === EOF);
+            const intervals = set
+                .map(([from, to]): [number, number] => [Math.max(from, 0), to])
+                .filter(([from, to]) => from <= to);
+            data.push(intervals.length, containsEof ? 1 : 0);
+            for (const [from, to] of intervals) data.push(from, to);
+        }
+
+        // Rule stop states' return edges are rebuilt by the deserializer
+        const edges: number[] = [];
+        let edgeCount = 0;
+        for (const state of this.states) {
+            if (state.type === StateType.RULE_STOP) continue;
+            for (const transition of state.transitions) {
+                let [arg1, arg2, arg3] = transition.args;
+                if (transition.type === EdgeType.RULE) {
+                    arg1 = transition.ruleStart!.number;
+                } else if ((transition.type === EdgeType.ATOM || transition.type === EdgeType.RANGE) && arg1 === EOF) {
+                    arg1 = 0;
+                    arg3 = 1;
+                }
+                edges.push(state.number, transition.target.number, transition.type, arg1, arg2, arg3);
+                edgeCount++;
+            }
+        }
+        data.push(edgeCount, ...edges);
+
+        data.push(this.decisions.length, ...this.decisions.map(s => s.number));
+
+        if (grammarType === 0) {
+            data.push(this.lexerActions.length);
+            for (const action of this.lexerActions) data.push(...action);
+        }
+        return data;
+    }
+}
+
+// --- Sets ---
+
+/** Sort and merge overlapping or adjacent ranges */
+function normalize(set: Intervals): Intervals {
+    const sorted = [...set].sort((a, b) => a[0] - b[0]);
+    const merged: Intervals = [];
+    for (const [from, to] of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && from <= last[1] + 1) last[1] = Math.max(last[1], to);
+        else merged.push([from, to]);
+    }
+    return merged;
+}
+
+function complement(set: Intervals): Intervals {
+    const result: Intervals = [];
+    let next = 0;
+    for (const [from, to] of normalize(set)) {
+        if (from > next) result.push([next, from - 1]);
+        next = to + 1;
+    }
+    if (next <= MAX_CHAR) result.push([next, MAX_CHAR]);
+    return result;
+}
+
+/** Add the other case of every letter in the set, for caseInsensitive grammars */
+function withCaseVariants(set: Intervals): Intervals {
+    const result: Intervals = [...set];
+    for (const [from, to] of set) {
+        // Large ranges such as [\u0000-\u{10FFFF}] already hold both cases
+        if (to - from > 0x3000) continue;
+        for (let code = from; code <= to; code++) {
+            const char = String.fromCodePoint(code);
+            for (const variant of [char.toLowerCase(), char.toUpperCase()]) {
+                const variantCode = variant.codePointAt(0)!;
+                if ([...variant].length === 1 && variantCode !== code) result.push([variantCode, variantCode]);
+            }
+        }
+    }
+    return normalize(result);
+}
+
+const unicodeProperties = new Map<string, Intervals | undefined>();
+
+/**
+ * Code points with a Unicode property, general category or script, as
+ * `\p{...}` in a lexer char set matches them. Undefined if the JavaScript
+ * engine doesn't know the property.
+ */
+function unicodeProperty(name: string): Intervals | undefined {
+    if (unicodeProperties.has(name)) return unicodeProperties.get(name);
+
+    let pattern: RegExp | undefined;
+    for (const candidate of [name, `Script=${name}`, name.replace(/^In/, 'Script=')]) {
+        try {
+            pattern = new RegExp(`^\\p{${candidate}}$`, 'u');
+            break;
+        } catch {
+            // Not a property name the engine knows in this form
+        }
+    }
+
+    let set: Intervals | undefined;
+    if (pattern) {
+        set = [];
+        let start = -1;
+        for (let code = 0; code <= MAX_CHAR + 1; code++) {
+            const matches = code <= MAX_CHAR && pattern.test(String.fromCodePoint(code));
+            if (matches && start < 0) start = code;
+            else if (!matches && start >= 0) {
+                set.push([start, code - 1]);
+                start = -1;
+            }
+        }
+    }
+    unicodeProperties.set(name, set);
+    return set;
+}
+
+/**
+ * Strongly connected components of a directed graph given as adjacency
+ * sets (Tarjan's algorithm)
+ */
+function stronglyConnected(edges: Array<Set<number>>): number[][] {
+    const index: number[] = [];
+    const low: number[] = [];
+    const onStack: boolean[] = [];
+    const stack: number[] = [];
+    const components: number[][] = [];
+    let counter = 0;
+
+    const visit = (node: number): void => {
+        index[node] = low[node] = counter++;
+        stack.push(node);
+        onStack[node] = true;
+        for (const next of edges[node]) {
+            if (index[next] === undefined) {
+                visit(next);
+                low[node] = Math.min(low[node], low[next]);
+            } else if (onStack[next]) {
+                low[node] = Math.min(low[node], index[next]);
+            }
+        }
+        if (low[node] === index[node]) {
+            const component: number[] = [];
+            let member: number;
+            do {
+                member = stack.pop()!;
+                onStack[member] = false;
+                component.push(member);
+            } while (member !== node);
+            components.push(component);
+        }
+    };
+
+    edges.forEach((_, node) => {
+        if (index[node] === undefined) visit(node);
+    });
+    return components;
+}
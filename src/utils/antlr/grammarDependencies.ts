@@ -0,0 +1,289 @@
+import { GrammarDiagnostic } from './types';
+
+export type GrammarType = 'lexer' | 'parser' | 'combined';
+
+/**
+ * Reference from one grammar to another
+ */
+export interface GrammarReference {
+    /** 'import': `import Common;` pulls in the rules of a grammar module.
+     * 'tokenVocab': `options { tokenVocab = MyLexer; }` uses another grammar's token types. */
+    kind: 'import' | 'tokenVocab';
+    /** Referenced grammar name */
+    name: string;
+    /** Position of the name in the referencing file (1-based line, 0-based column) */
+    line: number;
+    column: number;
+}
+
+export interface ProjectGrammar {
+    /** Grammar file name as sent by the client */
+    file: string;
+    /** Declared grammar name, or the file name without extension if there is no declaration */
+    name: string;
+    type: GrammarType;
+    references: GrammarReference[];
+}
+
+export interface GrammarDependencies {
+    /** Every grammar, each listed after the grammars it references */
+    grammars: ProjectGrammar[];
+    /**
+     * Grammars to run the tool on, in the same order. Grammars that are only
+     * imported are left out: the tool reads them through their importers.
+     */
+    generated: ProjectGrammar[];
+    /** Missing references, circular references and duplicate grammar names */
+    diagnostics: GrammarDiagnostic[];
+}
+
+/** Blocks whose braces hold grammar syntax rather than target code */
+const GRAMMAR_BLOCKS = new Set(['options', 'tokens', 'channels']);
+
+const WORD = /\w+/y;
+
+/**
+ * Determine grammar name for TestRig.
+ * For split grammars (FooLexer + FooParser), TestRig expects the base name "Foo".
+ * For combined grammars, use the grammar name directly.
+ */
+export function getTestRigGrammarName(grammarNames: { name: string; type: GrammarType }[]): string {
+    const parserGrammar = grammarNames.find(g => g.type === 'parser');
+    const combinedGrammar = grammarNames.find(g => g.type === 'combined');
+
+    if (parserGrammar) {
+        // Split grammar: remove "Parser" suffix to get base name
+        return parserGrammar.name.replace(/Parser$/, '');
+    } else if (combinedGrammar) {
+        // Combined grammar: use name directly
+        return combinedGrammar.name;
+    }
+    // Lexer grammars only (tokenize mode): the worker loads the lexer class by this name.
+    // The last one generated is the one the others feed into.
+    return grammarNames[grammarNames.length - 1]?.name || 'Grammar';
+}
+
+/**
+ * Work out how the grammars of a project reference each other through
+ * `import` and `tokenVocab`, and in which order they must be generated.
+ */
+export function resolveGrammarDependencies(
+    files: Array<{ name: string; content: string }>
+): GrammarDependencies {
+    const diagnostics: GrammarDiagnostic[] = [];
+    const grammars = files.map(file => scanGrammar(file.name, file.content));
+
+    const byName = new Map<string, ProjectGrammar>();
+    for (const grammar of grammars) {
+        const existing = byName.get(grammar.name);
+        if (existing) {
+            diagnostics.push({
+                severity: 'error',
+                file: grammar.file,
+                message: `grammar ${grammar.name} is also declared in ${existing.file}`,
+            });
+        } else {
+            byName.set(grammar.name, grammar);
+        }
+    }
+
+    const resolve = (reference: GrammarReference): ProjectGrammar | undefined => {
+        const target = byName.get(reference.name);
+        if (target || reference.kind === 'import') return target;
+        // A combined grammar Foo also writes FooLexer.tokens
+        const combined = byName.get(reference.name.replace(/Lexer$/, ''));
+        return combined?.type === 'combined' ? combined : undefined;
+    };
+
+    for (const grammar of grammars) {
+        for (const reference of grammar.references) {
+            if (!resolve(reference)) {
+                const what = reference.kind === 'import' ? 'imported grammar' : 'tokenVocab grammar';
+                diagnostics.push(referenceDiagnostic(grammar, reference, `can't find ${what} ${reference.name} in the project`));
+            }
+        }
+    }
+
+    // Depth-first, so every grammar comes after the grammars it references
+    const ordered: ProjectGrammar[] = [];
+    const visiting: ProjectGrammar[] = [];
+    const done = new Set<ProjectGrammar>();
+    const visit = (grammar: ProjectGrammar): void => {
+        visiting.push(grammar);
+        for (const reference of grammar.references) {
+            const target = resolve(reference);
+            if (!target || done.has(target)) continue;
+
+            const cycleStart = visiting.indexOf(target);
+            if (cycleStart >= 0) {
+                const cycle = [...visiting.slice(cycleStart), target].map(g => g.name).join(' -> ');
+                diagnostics.push(referenceDiagnostic(grammar, reference, `circular grammar dependency: ${cycle}`));
+                continue;
+            }
+            visit(target);
+        }
+        visiting.pop();
+        done.add(grammar);
+        ordered.push(grammar);
+    };
+    for (const grammar of byName.values()) {
+        if (!done.has(grammar)) visit(grammar);
+    }
+
+    const imported = new Set<ProjectGrammar>();
+    const vocabularies = new Set<ProjectGrammar>();
+    for (const grammar of ordered) {
+        for (const reference of grammar.references) {
+            const target = resolve(reference);
+            if (target) (reference.kind === 'import' ? imported : vocabularies).add(target);
+        }
+    }
+
+    return {
+        grammars: ordered,
+        generated: ordered.filter(g => !imported.has(g) || vocabularies.has(g)),
+        diagnostics,
+    };
+}
+
+/**
+ * Read the declaration, imports and tokenVocab option of a grammar file
+ */
+function scanGrammar(file: string, content: string): ProjectGrammar {
+    const code = maskGrammarText(content);
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '\n') lineStarts.push(i + 1);
+    }
+    const reference = (kind: GrammarReference['kind'], name: string, offset: number): GrammarReference => {
+        let line = lineStarts.length - 1;
+        while (lineStarts[line] > offset) line--;
+        return { kind, name, line: line + 1, column: offset - lineStarts[line] };
+    };
+
+    const declaration = code.match(/(?:^|[^\w])(?:(lexer|parser)\s+)?grammar\s+(\w+)\s*;/);
+    const grammar: ProjectGrammar = {
+        file,
+        name: declaration?.[2] ?? file.replace(/\.g4$/, ''),
+        type: (declaration?.[1] as GrammarType | undefined) ?? 'combined',
+        references: [],
+    };
+
+    for (const match of code.matchAll(/\bimport\s+([\w\s,=]+);/g)) {
+        const listStart = match.index + match[0].length - match[1].length - 1;
+        // Each entry is `Name` or `alias = Name`
+        for (const entry of match[1].matchAll(/(?:\w+\s*=\s*)?(\w+)/g)) {
+            const nameOffset = listStart + entry.index + entry[0].length - entry[1].length;
+            grammar.references.push(reference('import', entry[1], nameOffset));
+        }
+    }
+
+    for (const options of code.matchAll(/\boptions\s*\{([^}]*)\}/g)) {
+        const vocab = options[1].match(/\btokenVocab\s*=\s*'?(\w+)'?\s*;/);
+        if (vocab?.index !== undefined) {
+            const blockStart = options.index + options[0].indexOf('{') + 1;
+            grammar.references.push(reference('tokenVocab', vocab[1], blockStart + vocab.index + vocab[0].lastIndexOf(vocab[1])));
+        }
+    }
+
+    return grammar;
+}
+
+/**
+ * Blank out comments, string literals and action blocks so only grammar
+ * syntax is left. Line breaks and offsets are kept, and so are string
+ * literals inside options blocks, where they can hold option values.
+ */
+function maskGrammarText(content: string): string {
+    const out = content.split('');
+    const blank = (from: number, to: number) => {
+        for (let i = from; i < to; i++) {
+            if (out[i] !== '\n') out[i] = ' ';
+        }
+    };
+    // End of a quoted string starting at `start`, honouring backslash escapes
+    const stringEnd = (start: number): number => {
+        let i = start + 1;
+        while (i < content.length && content[i] !== content[start] && content[i] !== '\n') {
+            i += content[i] === '\\' ? 2 : 1;
+        }
+        return Math.min(i + 1, content.length);
+    };
+
+    let lastWord = '';
+    let inGrammarBlock = false;
+    let i = 0;
+    while (i < content.length) {
+        const c = content[i];
+        if (c === '/' && content[i + 1] === '/') {
+            const end = content.indexOf('\n', i);
+            const stop = end < 0 ? content.length : end;
+            blank(i, stop);
+            i = stop;
+        } else if (c === '/' && content[i + 1] === '*') {
+            const end = content.indexOf('*/', i + 2);
+            const stop = end < 0 ? content.length : end + 2;
+            blank(i, stop);
+            i = stop;
+        } else if (c === '[') {
+            // Lexer char set or rule arguments, either may hold quotes and braces
+            let j = i + 1;
+            while (j < content.length && content[j] !== ']') {
+                j += content[j] === '\\' ? 2 : 1;
+            }
+            const stop = Math.min(j + 1, content.length);
+            blank(i, stop);
+            i = stop;
+        } else if (c === "'") {
+            const stop = stringEnd(i);
+            if (!inGrammarBlock) blank(i, stop);
+            i = stop;
+        } else if (c === '{' && !inGrammarBlock) {
+            if (GRAMMAR_BLOCKS.has(lastWord)) {
+                inGrammarBlock = true;
+                i++;
+                continue;
+            }
+            // Target code: skip to the matching brace, ignoring braces in its strings
+            let depth = 0;
+            let j = i;
+            while (j < content.length) {
+                const d = content[j];
+                if (d === '"' || d === "'") {
+                    j = stringEnd(j);
+                    continue;
+                }
+                if (d === '{') depth++;
+                else if (d === '}' && --depth === 0) break;
+                j++;
+            }
+            const stop = Math.min(j + 1, content.length);
+            blank(i, stop);
+            i = stop;
+        } else {
+            if (c === '}') inGrammarBlock = false;
+            if (/\w/.test(c)) {
+                WORD.lastIndex = i;
+                lastWord = WORD.exec(content)![0];
+                i += lastWord.length;
+            } else {
+                if (!/\s/.test(c)) lastWord = '';
+                i++;
+            }
+        }
+    }
+    return out.join('');
+}
+
+/**
+ * Error located at a reference in the referencing grammar
+ */
+function referenceDiagnostic(grammar: ProjectGrammar, reference: GrammarReference, message: string): GrammarDiagnostic {
+    return {
+        severity: 'error',
+        file: grammar.file,
+        line: reference.line,
+        column: reference.column,
+        message,
+    };
+}
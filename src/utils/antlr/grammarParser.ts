@@ -0,0 +1,811 @@
+import { CharStreams, CommonTokenStream, DefaultErrorStrategy, ErrorListener, InputMismatchException, Token } from 'antlr4';
+import type { Parser, ParserRuleContext, RecognitionException } from 'antlr4';
+import type { GrammarType } from './grammarDependencies';
+import { GrammarDiagnostic } from './types';
+import ANTLRv4Lexer from './meta/ANTLRv4Lexer.js';
+import ANTLRv4Parser from './meta/ANTLRv4Parser.js';
+
+/**
+ * Location of a grammar construct: 1-based line and 0-based column of its
+ * first character, and its start and end (exclusive) offsets in the file
+ */
+export interface SourceSpan {
+    line: number;
+    column: number;
+    start: number;
+    end: number;
+}
+
+export interface NamedItem {
+    name: string;
+    span: SourceSpan;
+}
+
+/** `name = value` in an options block, or `<name=value>` on an element or alternative */
+export interface GrammarOption {
+    name: string;
+    /** Value as written, without quotes for string values; empty for a bare `<name>` */
+    value: string;
+    span: SourceSpan;
+}
+
+export interface GrammarImport {
+    name: string;
+    /** Name given by `import alias = Name;` */
+    alias?: string;
+    span: SourceSpan;
+}
+
+/** `@header {...}`, `@lexer::members {...}` or a rule's `@init {...}` */
+export interface NamedAction {
+    scope?: string;
+    name: string;
+    /** Code between the braces */
+    code: string;
+    span: SourceSpan;
+}
+
+export interface GrammarAst {
+    type: GrammarType;
+    /** Declared name, or the file name without extension if there is no declaration */
+    name: string;
+    options: GrammarOption[];
+    imports: GrammarImport[];
+    /** Names declared in `tokens {...}` */
+    tokens: NamedItem[];
+    /** Names declared in `channels {...}` */
+    channels: NamedItem[];
+    actions: NamedAction[];
+    /** Parser and lexer rules in declaration order */
+    rules: RuleAst[];
+    /** Lexer modes declared with `mode Name;` */
+    modes: NamedItem[];
+}
+
+export interface RuleAst {
+    kind: 'parser' | 'lexer';
+    name: string;
+    nameSpan: SourceSpan;
+    /** From the first modifier or the name through the closing semicolon */
+    span: SourceSpan;
+    /** `fragment`, `public`, `private` or `protected` */
+    modifiers: string[];
+    /** Lexer mode the rule belongs to; absent for the default mode and parser rules */
+    mode?: string;
+    /** Code of the `[...]` blocks for arguments, `returns` and `locals` */
+    args?: string;
+    returns?: string;
+    locals?: string;
+    options: GrammarOption[];
+    /** `@init`, `@after` and other rule actions */
+    actions: NamedAction[];
+    alternatives: AlternativeAst[];
+}
+
+export interface AlternativeAst {
+    elements: ElementAst[];
+    /** `# label` of an outer alternative */
+    label?: NamedItem;
+    /** `<assoc=right>` and other options written before the elements */
+    options: GrammarOption[];
+    /** Lexer commands after `->` */
+    commands: LexerCommand[];
+    span: SourceSpan;
+}
+
+export interface LexerCommand {
+    /** skip, more, popMode, mode, pushMode, type or channel */
+    name: string;
+    argument?: string;
+    span: SourceSpan;
+}
+
+export interface EbnfSuffix {
+    operator: '?' | '*' | '+';
+    /** False for the non-greedy forms `??`, `*?` and `+?` */
+    greedy: boolean;
+}
+
+export interface ElementLabel {
+    name: string;
+    /** `=` labels a single element, `+=` collects every match into a list */
+    operator: '=' | '+=';
+    span: SourceSpan;
+}
+
+interface ElementBase {
+    span: SourceSpan;
+    label?: ElementLabel;
+    suffix?: EbnfSuffix;
+    /** `<fail='...'>`, `<assoc=right>` and other element options */
+    options: GrammarOption[];
+}
+
+/** Reference to a parser rule */
+export interface RuleRefElement extends ElementBase {
+    kind: 'ruleRef';
+    name: string;
+    args?: string;
+}
+
+/** Token name in a parser rule, or a reference to another lexer rule in a lexer rule */
+export interface TokenRefElement extends ElementBase {
+    kind: 'tokenRef';
+    name: string;
+}
+
+export interface LiteralElement extends ElementBase {
+    kind: 'literal';
+    /** As written, quotes included */
+    text: string;
+    /** With escape sequences decoded */
+    value: string;
+}
+
+/** `'a'..'z'` */
+export interface RangeElement extends ElementBase {
+    kind: 'range';
+    text: string;
+    from: string;
+    to: string;
+}
+
+/** `[a-z_]` */
+export interface CharSetElement extends ElementBase {
+    kind: 'charSet';
+    /** As written, brackets included */
+    text: string;
+}
+
+export interface WildcardElement extends ElementBase {
+    kind: 'wildcard';
+}
+
+export type SetElement = TokenRefElement | LiteralElement | RangeElement | CharSetElement;
+
+/** `~X` or `~(X | Y)` */
+export interface NotElement extends ElementBase {
+    kind: 'not';
+    elements: SetElement[];
+}
+
+/** `( ... | ... )` */
+export interface BlockElement extends ElementBase {
+    kind: 'block';
+    alternatives: AlternativeAst[];
+    /** `options {...}` before the block's colon */
+    blockOptions: GrammarOption[];
+}
+
+/** `{...}` action, or `{...}?` semantic predicate */
+export interface ActionElement extends ElementBase {
+    kind: 'action';
+    code: string;
+    predicate: boolean;
+}
+
+export type ElementAst =
+    | RuleRefElement
+    | TokenRefElement
+    | LiteralElement
+    | RangeElement
+    | CharSetElement
+    | WildcardElement
+    | NotElement
+    | BlockElement
+    | ActionElement;
+
+export interface GrammarParseResult {
+    grammar: GrammarAst;
+    /**
+     * Syntax errors; rules that had one are left out of the AST, except for
+     * lexer rules referencing parser rules
+     */
+    diagnostics: GrammarDiagnostic[];
+}
+
+/**
+ * Parse a .g4 file into an AST with the parser generated from the official
+ * ANTLR v4 meta-grammar in ./meta. Syntax errors are reported and parsing
+ * resumes at the next rule, so an incomplete grammar still yields the rules
+ * that are complete.
+ *
+ * @param content - Grammar text
+ * @param file - File name, used in diagnostics and as the default grammar name
+ */
+export function parseGrammar(content: string, file = 'Grammar.g4'): GrammarParseResult {
+    return new AstBuilder(content, file).parse();
+}
+
+/**
+ * Decode the escape sequences of a grammar string literal or char set body.
+ * Returns undefined if one isn't valid.
+ */
+export function decodeEscapes(text: string): string | undefined {
+    let out = '';
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] !== '\\') {
+            out += text[i];
+            continue;
+        }
+        const escape = decodeEscape(text, i);
+        if (!escape) return undefined;
+        out += escape.value;
+        i = escape.end - 1;
+    }
+    return out;
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+    n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '\\': '\\', "'": "'", '"': '"', ']': ']', '-': '-',
+};
+
+/**
+ * Decode the escape sequence at `start` (a backslash): simple escapes,
+ * `\uXXXX` and `\u{X...}`. Returns the decoded text and the offset after it.
+ */
+export function decodeEscape(text: string, start: number): { value: string; end: number } | undefined {
+    const c = text[start + 1];
+    if (c === undefined) return undefined;
+    if (c in SIMPLE_ESCAPES) return { value: SIMPLE_ESCAPES[c], end: start + 2 };
+    if (c !== 'u') return undefined;
+
+    if (text[start + 2] === '{') {
+        const close = text.indexOf('}', start + 3);
+        const hex = close < 0 ? '' : text.slice(start + 3, close);
+        if (!/^[0-9a-fA-F]{1,6}$/.test(hex) || parseInt(hex, 16) > 0x10ffff) return undefined;
+        return { value: String.fromCodePoint(parseInt(hex, 16)), end: close + 1 };
+    }
+    const hex = text.slice(start + 2, start + 6);
+    if (!/^[0-9a-fA-F]{4}$/.test(hex)) return undefined;
+    return { value: String.fromCharCode(parseInt(hex, 16)), end: start + 6 };
+}
+
+type Contexts = typeof ANTLRv4Parser;
+
+/** Parse tree node of a meta-grammar rule, e.g. `Context<'ElementContext'>` */
+type Context<Name extends keyof Contexts> = Contexts[Name] extends abstract new (...args: never[]) => infer T ? T : never;
+
+type ContextClass = abstract new (...args: never[]) => ParserRuleContext;
+
+const GRAMMAR_TYPES = new Set<number>([ANTLRv4Parser.LEXER, ANTLRv4Parser.PARSER, ANTLRv4Parser.GRAMMAR]);
+
+/** Parse tree nodes a syntax error abandons, with the tokens that end them */
+const CONSTRUCTS = new Map<ContextClass, number[]>([
+    [ANTLRv4Parser.GrammarDeclContext, [ANTLRv4Parser.SEMI]],
+    [ANTLRv4Parser.PrequelConstructContext, [ANTLRv4Parser.SEMI, ANTLRv4Parser.RBRACE]],
+    [ANTLRv4Parser.RuleSpecContext, [ANTLRv4Parser.SEMI]],
+    [ANTLRv4Parser.ParserRuleSpecContext, [ANTLRv4Parser.SEMI]],
+    [ANTLRv4Parser.LexerRuleSpecContext, [ANTLRv4Parser.SEMI]],
+]);
+
+function constructOf(ctx: ParserRuleContext | undefined): ParserRuleContext | undefined {
+    for (let node = ctx; node; node = node.parentCtx) {
+        if (CONSTRUCTS.has(node.constructor as ContextClass)) return node;
+    }
+    return undefined;
+}
+
+/** Whether the file starts with something other than a grammar declaration */
+function isMissingDeclaration(construct: ParserRuleContext | undefined): boolean {
+    return construct instanceof ANTLRv4Parser.GrammarDeclContext && !GRAMMAR_TYPES.has(construct.start.type);
+}
+
+/** Whether the parser is reading the elements of a lexer alternative */
+function inLexerElements(ctx: ParserRuleContext | undefined): boolean {
+    for (let node = ctx; node; node = node.parentCtx) {
+        if (node instanceof ANTLRv4Parser.LexerCommandsContext || node instanceof ANTLRv4Parser.ElementOptionsContext) return false;
+        if (node instanceof ANTLRv4Parser.LexerAltContext) return true;
+    }
+    return false;
+}
+
+/**
+ * Error strategy that gives up on a rule at its first syntax error and skips
+ * to the semicolon ending it, where the default strategy would resynchronize
+ * inside the rule and could carry on into the rules after it. The same goes
+ * for the grammar declaration and the prequel constructs.
+ */
+class RuleErrorStrategy extends DefaultErrorStrategy {
+    /** Parser rule names read in lexer alternatives, in the order they were found */
+    readonly misplacedRuleRefs: Token[] = [];
+
+    constructor(private readonly report: (message: string, token: Token) => void) {
+        super();
+    }
+
+    sync(recognizer: Parser): void {
+        // Reported and skipped rather than abandoning the rule, so the analysis still sees the reference
+        while (recognizer.getCurrentToken().type === ANTLRv4Parser.RULE_REF && inLexerElements(recognizer._ctx)) {
+            const token = recognizer.getCurrentToken();
+            this.report(`parser rule ${token.text} not allowed in lexer rule`, token);
+            this.misplacedRuleRefs.push(token);
+            recognizer.consume();
+        }
+        // Within a construct the next match or prediction fails instead
+        if (constructOf(recognizer._ctx)) return;
+
+        // Between constructs, skip what can't start one through the end of the next rule
+        const input = recognizer.getTokenStream();
+        const expected = recognizer.getExpectedTokens();
+        while (input.LA(1) !== Token.EOF && !expected.contains(input.LA(1))) {
+            this.reportError(recognizer, new InputMismatchException(recognizer));
+            this.skipPast(recognizer, [ANTLRv4Parser.SEMI]);
+        }
+    }
+
+    recoverInline(recognizer: Parser): Token {
+        if (constructOf(recognizer._ctx)) throw new InputMismatchException(recognizer);
+        return super.recoverInline(recognizer);
+    }
+
+    reportError(recognizer: Parser, e: RecognitionException): void {
+        if (this.inErrorRecoveryMode(recognizer)) return;
+        const construct = constructOf(recognizer._ctx);
+        if (isMissingDeclaration(construct)) {
+            // Keep the rules: the file name stands in for the grammar name
+            this.beginErrorCondition(recognizer);
+            this.report('missing grammar declaration', construct.start);
+            return;
+        }
+        super.reportError(recognizer, e);
+    }
+
+    /**
+     * Called by the rule that caught the error and then by each rule it
+     * returns to. The rule the error happened in is abandoned up to the
+     * construct, which skips past its end.
+     */
+    recover(recognizer: Parser, e: RecognitionException): void {
+        const construct = constructOf(recognizer._ctx);
+        if (!construct) {
+            super.recover(recognizer, e);
+            return;
+        }
+        if (construct !== recognizer._ctx) throw e;
+
+        if (isMissingDeclaration(construct)) {
+            this.reset(recognizer);
+        } else {
+            this.skipPast(recognizer, CONSTRUCTS.get(construct.constructor as ContextClass)!);
+        }
+    }
+
+    /** Consume tokens through the first of `stops` and leave error recovery */
+    private skipPast(recognizer: Parser, stops: number[]): void {
+        const input = recognizer.getTokenStream();
+        while (input.LA(1) !== Token.EOF) {
+            const type = input.LA(1);
+            recognizer.consume();
+            if (stops.includes(type)) break;
+        }
+        this.reset(recognizer);
+    }
+}
+
+/**
+ * Builds the AST from the parse tree of the generated ANTLRv4Parser
+ */
+class AstBuilder {
+    private readonly diagnostics: GrammarDiagnostic[] = [];
+    /** Parser rule names in lexer alternatives not yet given to an alternative */
+    private misplacedRuleRefs: Token[] = [];
+
+    constructor(private readonly content: string, private readonly file: string) {}
+
+    parse(): GrammarParseResult {
+        const lexer = new ANTLRv4Lexer(CharStreams.fromString(this.content, false));
+        lexer.removeErrorListeners();
+        const tokens = new CommonTokenStream(lexer);
+        tokens.fill();
+        const lexicalErrors = this.reportLexicalErrors(tokens.tokens);
+
+        const parser = new ANTLRv4Parser(tokens);
+        const strategy = new RuleErrorStrategy((message, token) => this.report(message, token));
+        parser._errHandler = strategy;
+        parser.removeErrorListeners();
+        parser.addErrorListener(new SyntaxErrorListener((message, token) => {
+            if (!lexicalErrors.has(token)) this.report(`syntax error: ${message}`, token);
+        }));
+        const tree = parser.grammarSpec();
+        this.misplacedRuleRefs = strategy.misplacedRuleRefs;
+
+        const grammar: GrammarAst = {
+            type: 'combined',
+            name: this.file.replace(/^.*[\\/]/, '').replace(/\.g4$/, ''),
+            options: [],
+            imports: [],
+            tokens: [],
+            channels: [],
+            actions: [],
+            rules: [],
+            modes: [],
+        };
+        this.declaration(tree.grammarDecl(), grammar);
+        for (const prequel of tree.getTypedRuleContexts(ANTLRv4Parser.PrequelConstructContext)) {
+            if (!prequel.exception) this.prequel(prequel, grammar);
+        }
+        for (const spec of tree.rules()?.getTypedRuleContexts(ANTLRv4Parser.RuleSpecContext) ?? []) {
+            const rule = spec.exception ? undefined : spec.parserRuleSpec() ?? spec.lexerRuleSpec();
+            if (rule && !rule.exception) grammar.rules.push(this.rule(rule));
+        }
+        for (const modeSpec of tree.getTypedRuleContexts(ANTLRv4Parser.ModeSpecContext)) {
+            const name = modeSpec.identifier();
+            if (modeSpec.exception || !name) continue;
+            grammar.modes.push({ name: name.getText(), span: this.span(name.start) });
+            for (const spec of modeSpec.getTypedRuleContexts(ANTLRv4Parser.LexerRuleSpecContext)) {
+                if (!spec.exception) grammar.rules.push({ ...this.rule(spec), mode: name.getText() });
+            }
+        }
+
+        this.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+        return { grammar, diagnostics: this.diagnostics };
+    }
+
+    // --- Grammar structure ---
+
+    private declaration(decl: Context<'GrammarDeclContext'> | null, grammar: GrammarAst): void {
+        if (!decl || decl.exception) return;
+        const type = decl.grammarType();
+        grammar.type = type.LEXER() ? 'lexer' : type.PARSER() ? 'parser' : 'combined';
+        grammar.name = decl.identifier().getText();
+    }
+
+    private prequel(prequel: Context<'PrequelConstructContext'>, grammar: GrammarAst): void {
+        const options = prequel.optionsSpec();
+        const imports = prequel.delegateGrammars();
+        const tokens = prequel.tokensSpec();
+        const channels = prequel.channelsSpec();
+        const action = prequel.action_();
+        if (options) {
+            grammar.options.push(...this.options(options));
+        } else if (imports) {
+            for (const delegate of imports.getTypedRuleContexts(ANTLRv4Parser.DelegateGrammarContext)) {
+                const [first, name] = delegate.getTypedRuleContexts(ANTLRv4Parser.IdentifierContext);
+                grammar.imports.push(name
+                    ? { name: name.getText(), alias: first.getText(), span: this.span(first.start) }
+                    : { name: first.getText(), span: this.span(first.start) });
+            }
+        } else if (tokens || channels) {
+            const ids = (tokens ?? channels).idList()?.getTypedRuleContexts(ANTLRv4Parser.IdentifierContext) ?? [];
+            (tokens ? grammar.tokens : grammar.channels).push(...ids.map(id => ({ name: id.getText(), span: this.span(id.start) })));
+        } else if (action) {
+            grammar.actions.push({
+                scope: action.actionScopeName()?.getText(),
+                name: action.identifier().getText(),
+                code: this.code(action.actionBlock()),
+                span: this.ctxSpan(action),
+            });
+        }
+    }
+
+    /** `name = value;` entries of an options block */
+    private options(spec: Context<'OptionsSpecContext'>): GrammarOption[] {
+        return spec.getTypedRuleContexts(ANTLRv4Parser.OptionContext).map(option => {
+            const value = option.optionValue();
+            const string = value.STRING_LITERAL();
+            const action = value.actionBlock();
+            let text: string;
+            if (string) {
+                const body = string.getText().slice(1, -1);
+                text = decodeEscapes(body) ?? body;
+            } else {
+                text = action ? this.code(action) : value.getText();
+            }
+            return { name: option.identifier().getText(), value: text, span: this.ctxSpan(option) };
+        });
+    }
+
+    // --- Rules ---
+
+    private rule(spec: Context<'ParserRuleSpecContext'> | Context<'LexerRuleSpecContext'>): RuleAst {
+        if (spec instanceof ANTLRv4Parser.LexerRuleSpecContext) {
+            const name = spec.TOKEN_REF().symbol;
+            const options = spec.optionsSpec();
+            return {
+                kind: 'lexer',
+                name: name.text,
+                nameSpan: this.span(name),
+                span: this.ctxSpan(spec),
+                modifiers: spec.FRAGMENT() ? ['fragment'] : [],
+                options: options ? this.options(options) : [],
+                actions: [],
+                alternatives: spec.lexerRuleBlock().lexerAltList().getTypedRuleContexts(ANTLRv4Parser.LexerAltContext)
+                    .map(alt => this.lexerAlternative(alt)),
+            };
+        }
+
+        const name = spec.RULE_REF().symbol;
+        const rule: RuleAst = {
+            kind: 'parser',
+            name: name.text,
+            nameSpan: this.span(name),
+            span: this.ctxSpan(spec),
+            modifiers: spec.ruleModifiers()?.getTypedRuleContexts(ANTLRv4Parser.RuleModifierContext).map(m => m.getText()) ?? [],
+            args: this.args(spec.argActionBlock()),
+            returns: this.args(spec.ruleReturns()?.argActionBlock()),
+            locals: this.args(spec.localsSpec()?.argActionBlock()),
+            options: [],
+            actions: [],
+            alternatives: spec.ruleBlock().ruleAltList().getTypedRuleContexts(ANTLRv4Parser.LabeledAltContext).map(labeled => {
+                const label = labeled.identifier();
+                const alternative = this.alternative(labeled.alternative());
+                if (label) alternative.label = { name: label.getText(), span: this.span(label.start) };
+                return { ...alternative, span: this.ctxSpan(labeled) };
+            }),
+        };
+        for (const prequel of spec.getTypedRuleContexts(ANTLRv4Parser.RulePrequelContext)) {
+            const options = prequel.optionsSpec();
+            const action = prequel.ruleAction();
+            if (options) rule.options.push(...this.options(options));
+            if (action) {
+                rule.actions.push({ name: action.identifier().getText(), code: this.code(action.actionBlock()), span: this.ctxSpan(action) });
+            }
+        }
+        return rule;
+    }
+
+    private alternative(alt: Context<'AlternativeContext'>): AlternativeAst {
+        return {
+            elements: alt.getTypedRuleContexts(ANTLRv4Parser.ElementContext).map(element => this.element(element)),
+            options: this.elementOptions(alt.elementOptions()),
+            commands: [],
+            span: this.ctxSpan(alt),
+        };
+    }
+
+    private lexerAlternative(alt: Context<'LexerAltContext'>): AlternativeAst {
+        const elements = alt.lexerElements()?.getTypedRuleContexts(ANTLRv4Parser.LexerElementContext)
+            .map(element => this.lexerElement(element)) ?? [];
+        const span = this.ctxSpan(alt);
+
+        // Parser rule names the error strategy skipped over, after those claimed by nested blocks
+        const misplaced = this.misplacedRuleRefs.filter(token => token.start >= span.start && token.stop < span.end);
+        if (misplaced.length > 0) {
+            this.misplacedRuleRefs = this.misplacedRuleRefs.filter(token => !misplaced.includes(token));
+            elements.push(...misplaced.map((token): RuleRefElement => ({ kind: 'ruleRef', name: token.text, options: [], span: this.span(token) })));
+            elements.sort((a, b) => a.span.start - b.span.start);
+        }
+
+        return {
+            elements,
+            options: [],
+            commands: alt.lexerCommands()?.getTypedRuleContexts(ANTLRv4Parser.LexerCommandContext).map(command => ({
+                name: command.lexerCommandName().getText(),
+                argument: command.lexerCommandExpr()?.getText(),
+                span: this.ctxSpan(command),
+            })) ?? [],
+            span,
+        };
+    }
+
+    // --- Elements ---
+
+    private element(element: Context<'ElementContext'>): ElementAst {
+        const labeled = element.labeledElement();
+        const atom = labeled?.atom() ?? element.atom();
+        const ebnf = element.ebnf();
+        const action = element.actionBlock();
+        let result: ElementAst;
+
+        if (action) {
+            const predicate = element.QUESTION() !== null;
+            const options = element.predicateOptions()?.getTypedRuleContexts(ANTLRv4Parser.PredicateOptionContext).map(option => {
+                const elementOption = option.elementOption();
+                return elementOption
+                    ? this.elementOption(elementOption)
+                    : { name: option.identifier().getText(), value: this.code(option.actionBlock()), span: this.ctxSpan(option) };
+            });
+            result = { kind: 'action', code: this.code(action), predicate, options: options ?? [], span: this.ctxSpan(element) };
+        } else if (atom) {
+            result = this.atom(atom);
+        } else {
+            const block = labeled?.block() ?? ebnf.block();
+            result = this.block(block, block.altList().getTypedRuleContexts(ANTLRv4Parser.AlternativeContext).map(alt => this.alternative(alt)));
+        }
+
+        if (labeled) {
+            const name = labeled.identifier();
+            result.label = { name: name.getText(), operator: labeled.ASSIGN() ? '=' : '+=', span: this.span(name.start) };
+        }
+        const suffix = element.ebnfSuffix() ?? ebnf?.blockSuffix()?.ebnfSuffix();
+        if (suffix) result.suffix = this.suffix(suffix);
+        result.span = this.ctxSpan(element);
+        return result;
+    }
+
+    private lexerElement(element: Context<'LexerElementContext'>): ElementAst {
+        const atom = element.lexerAtom();
+        const block = element.lexerBlock();
+        const action = element.actionBlock();
+        let result: ElementAst;
+
+        if (action) {
+            return { kind: 'action', code: this.code(action), predicate: element.QUESTION() !== null, options: [], span: this.ctxSpan(element) };
+        }
+        if (block) {
+            const alternatives = block.lexerAltList().getTypedRuleContexts(ANTLRv4Parser.LexerAltContext).map(alt => this.lexerAlternative(alt));
+            result = this.block(block, alternatives);
+        } else {
+            const range = atom.characterRange();
+            const terminal = atom.terminalDef();
+            const notSet = atom.notSet();
+            const charSet = atom.LEXER_CHAR_SET();
+            if (range) result = this.range(range);
+            else if (terminal) result = this.terminal(terminal);
+            else if (notSet) result = this.notSet(notSet);
+            else if (charSet) result = { kind: 'charSet', text: charSet.getText(), options: [], span: this.span(charSet.symbol) };
+            else result = this.wildcard(atom.wildcard());
+        }
+
+        const suffix = element.ebnfSuffix();
+        if (suffix) result.suffix = this.suffix(suffix);
+        result.span = this.ctxSpan(element);
+        return result;
+    }
+
+    private atom(atom: Context<'AtomContext'>): ElementAst {
+        const terminal = atom.terminalDef();
+        const ruleref = atom.ruleref();
+        const notSet = atom.notSet();
+        if (terminal) return this.terminal(terminal);
+        if (notSet) return this.notSet(notSet);
+        if (!ruleref) return this.wildcard(atom.wildcard());
+
+        const name = ruleref.RULE_REF().symbol;
+        return {
+            kind: 'ruleRef',
+            name: name.text,
+            args: this.args(ruleref.argActionBlock()),
+            options: this.elementOptions(ruleref.elementOptions()),
+            span: this.span(name),
+        };
+    }
+
+    private block(block: Context<'BlockContext'> | Context<'LexerBlockContext'>, alternatives: AlternativeAst[]): BlockElement {
+        const options = block instanceof ANTLRv4Parser.BlockContext ? block.optionsSpec() : null;
+        return { kind: 'block', alternatives, blockOptions: options ? this.options(options) : [], options: [], span: this.ctxSpan(block) };
+    }
+
+    private notSet(notSet: Context<'NotSetContext'>): NotElement {
+        const sets = notSet.blockSet()?.getTypedRuleContexts(ANTLRv4Parser.SetElementContext) ?? [notSet.setElement()];
+        return { kind: 'not', elements: sets.map(set => this.setElement(set)), options: [], span: this.ctxSpan(notSet) };
+    }
+
+    /** Token reference, literal, range or char set: the elements `~` can negate */
+    private setElement(set: Context<'SetElementContext'>): SetElement {
+        const tokenRef = set.TOKEN_REF();
+        const literal = set.STRING_LITERAL();
+        const range = set.characterRange();
+        const options = this.elementOptions(set.elementOptions());
+        if (tokenRef) return { kind: 'tokenRef', name: tokenRef.getText(), options, span: this.span(tokenRef.symbol) };
+        if (literal) return { ...this.literal(literal.symbol), options };
+        if (range) return this.range(range);
+        const charSet = set.LEXER_CHAR_SET().symbol;
+        return { kind: 'charSet', text: charSet.text, options: [], span: this.span(charSet) };
+    }
+
+    private terminal(terminal: Context<'TerminalDefContext'>): TokenRefElement | LiteralElement {
+        const tokenRef = terminal.TOKEN_REF();
+        const options = this.elementOptions(terminal.elementOptions());
+        if (tokenRef) return { kind: 'tokenRef', name: tokenRef.getText(), options, span: this.span(tokenRef.symbol) };
+        return { ...this.literal(terminal.STRING_LITERAL().symbol), options };
+    }
+
+    private literal(token: Token): LiteralElement {
+        const value = this.decodeLiteral(token);
+        if (value === '') this.report('string literals cannot be empty', token);
+        return { kind: 'literal', text: token.text, value, options: [], span: this.span(token) };
+    }
+
+    private range(range: Context<'CharacterRangeContext'>): RangeElement {
+        const [from, to] = range.getTokens(ANTLRv4Parser.STRING_LITERAL).map(node => node.symbol);
+        return {
+            kind: 'range',
+            text: this.content.slice(from.start, to.stop + 1),
+            from: this.decodeLiteral(from),
+            to: this.decodeLiteral(to),
+            options: [],
+            span: this.span(from, to),
+        };
+    }
+
+    private wildcard(wildcard: Context<'WildcardContext'>): WildcardElement {
+        return { kind: 'wildcard', options: this.elementOptions(wildcard.elementOptions()), span: this.span(wildcard.start) };
+    }
+
+    private suffix(suffix: Context<'EbnfSuffixContext'>): EbnfSuffix {
+        return { operator: suffix.start.text as EbnfSuffix['operator'], greedy: suffix.getChildCount() === 1 };
+    }
+
+    /** `<name>` or `<name=value, ...>` */
+    private elementOptions(options: Context<'ElementOptionsContext'> | null): GrammarOption[] {
+        return options?.getTypedRuleContexts(ANTLRv4Parser.ElementOptionContext).map(option => this.elementOption(option)) ?? [];
+    }
+
+    private elementOption(option: Context<'ElementOptionContext'>): GrammarOption {
+        const [name, value] = option.getTypedRuleContexts(ANTLRv4Parser.IdentifierContext);
+        const literal = option.STRING_LITERAL();
+        const text = literal ? this.decodeLiteral(literal.symbol) : value?.getText() ?? '';
+        return { name: name.getText(), value: text, span: this.ctxSpan(option) };
+    }
+
+    /** Code between the braces of an action */
+    private code(action: Context<'ActionBlockContext'>): string {
+        return this.content.slice(action.BEGIN_ACTION().symbol.stop + 1, action.END_ACTION().symbol.start);
+    }
+
+    /** Code of a `[...]` argument block */
+    private args(block: Context<'ArgActionBlockContext'> | null | undefined): string | undefined {
+        if (!block) return undefined;
+        return this.content.slice(block.BEGIN_ARGUMENT().symbol.stop + 1, block.END_ARGUMENT().symbol.start);
+    }
+
+    private decodeLiteral(token: Token): string {
+        const body = token.text.slice(1, -1);
+        const value = decodeEscapes(body);
+        if (value === undefined) {
+            this.report(`invalid escape sequence in ${token.text}`, token);
+            return body;
+        }
+        return value;
+    }
+
+    // --- Diagnostics and locations ---
+
+    /**
+     * Report characters the lexer couldn't match and literals, char sets,
+     * actions and argument blocks it couldn't finish. Returns the tokens
+     * reported, so the syntax errors they cause are left out.
+     */
+    private reportLexicalErrors(tokens: Token[]): Set<Token> {
+        const reported = new Set<Token>();
+        let block: Token | undefined;
+        for (const token of tokens) {
+            if (token.type === ANTLRv4Lexer.ERRCHAR) {
+                this.report(`unexpected character '${token.text}'`, token);
+            } else if (token.type === ANTLRv4Lexer.UNTERMINATED_STRING_LITERAL || token.type === ANTLRv4Lexer.UNTERMINATED_CHAR_SET) {
+                this.report(token.type === ANTLRv4Lexer.UNTERMINATED_CHAR_SET ? 'unterminated char set' : 'unterminated string literal', token);
+                reported.add(token);
+            } else if (token.type === ANTLRv4Lexer.BEGIN_ACTION || token.type === ANTLRv4Lexer.BEGIN_ARGUMENT) {
+                block = token;
+            } else if (token.type === ANTLRv4Lexer.END_ACTION || token.type === ANTLRv4Lexer.END_ARGUMENT) {
+                block = undefined;
+            } else if (token.type === Token.EOF && block) {
+                // The block runs to the end of the file: report it where it starts
+                this.report(block.type === ANTLRv4Lexer.BEGIN_ACTION ? 'unterminated action' : 'unterminated argument block', block);
+                reported.add(token);
+            }
+        }
+        return reported;
+    }
+
+    private report(message: string, token: Token): void {
+        // One error per position: a construct can fail on the token the lexer already reported
+        if (this.diagnostics.some(d => d.line === token.line && d.column === token.column)) return;
+        this.diagnostics.push({ severity: 'error', file: this.file, line: token.line, column: token.column, message });
+    }
+
+    private span(first: Token, last: Token = first): SourceSpan {
+        return { line: first.line, column: first.column, start: first.start, end: Math.max(last.stop, first.stop) + 1 };
+    }
+
+    /** Span of a parse tree node; empty at the next token for a node that matched nothing */
+    private ctxSpan(ctx: ParserRuleContext): SourceSpan {
+        if (!ctx.stop || ctx.stop.tokenIndex < ctx.start.tokenIndex) return { ...this.span(ctx.start), end: ctx.start.start };
+        return this.span(ctx.start, ctx.stop);
+    }
+}
+
+/**
+ * Passes the messages of the generated parser's syntax errors on
+ */
+class SyntaxErrorListener extends ErrorListener<Token> {
+    constructor(private readonly onError: (message: string, token: Token) => void) {
+        super();
+    }
+
+    syntaxError(_recognizer: unknown, token: Token, _line: number, _column: number, message: string): void {
+        this.onError(message, token);
+    }
+}
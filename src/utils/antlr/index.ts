@@ -1,21 +1,55 @@
 import { JavaParser } from './JavaParser';
-import { ParseResult } from './types';
+import { ParseResult, ParseOptions, CompileResult, GenerateOptions, GenerateResult } from './types';
 
-export type { Token, ParseNode, ParseError, ParseResult, GrammarInfo } from './types';
+export { DEFAULT_PARSE_LIMITS, validateParseLimits } from './limits';
+export { getParseConcurrency } from './JavaWorker';
+
+export type {
+    Token,
+    ParseNode,
+    ParseError,
+    ParseResult,
+    ParseTiming,
+    GrammarDiagnostic,
+    CompileResult,
+    GenerateLanguage,
+    GenerateOptions,
+    GeneratedFile,
+    GenerateResult,
+    GrammarInfo,
+    SnapshotNode,
+    DecisionProfile,
+    InputAmbiguity,
+    TraceEvent,
+    ModeTransition,
+    ParseOptions,
+    ParseLimits,
+    ParseTarget,
+} from './types';
+
+// Shared so that all requests use the same resident parse worker
+const javaParser = new JavaParser();
 
 /**
  * Parse ANTLR grammar using Java ANTLR runtime.
- * This is the only parser implementation - it's reliable and handles all grammar sizes.
+ * Small grammars without actions or predicates, and any grammar when Java is
+ * missing, are interpreted on the antlr4 JavaScript runtime instead.
+ * With the TypeScript or JavaScript target the tool still needs Java, but the
+ * generated recognizers run on the antlr4 JavaScript runtime.
+ * Without a start rule, or without a parser grammar, the input is only tokenized.
  */
 export async function parseANTLRGrammar(
     grammarFiles: { name: string; content: string }[],
     inputText: string,
-    startRule: string
+    startRule: string | undefined,
+    options: ParseOptions = {}
 ): Promise<ParseResult> {
     const startTime = performance.now();
 
-    // Check if Java is available
-    if (!JavaParser.isAvailable()) {
+    // Without Java the grammar is interpreted, which can't profile or trace
+    // and only stands in for the Java target
+    const needsJava = (options.target ?? 'java') !== 'java' || options.profile || options.trace;
+    if (needsJava && !JavaParser.isAvailable()) {
         const duration = performance.now() - startTime;
         return {
             tree: {
@@ -38,10 +72,10 @@ export async function parseANTLRGrammar(
     }
 
     try {
-        console.log(`Using Java ANTLR parser for ${grammarFiles.length} grammar file(s)`);
+        // The parser logs whether it interprets the grammar or runs the generated recognizers
+        console.log(`Parsing with ${grammarFiles.length} grammar file(s), ${options.target ?? 'java'} target`);
 
-        const javaParser = new JavaParser();
-        const result = await javaParser.parse(grammarFiles, inputText, startRule);
+        const result = await javaParser.parse(grammarFiles, inputText, startRule, options);
 
         const duration = performance.now() - startTime;
         return {
@@ -70,3 +104,77 @@ export async function parseANTLRGrammar(
         };
     }
 }
+
+/**
+ * Run only the ANTLR tool on the grammar files and return its diagnostics, or
+ * the grammar interpreter's without Java. No input or start rule is needed, so this can validate a grammar as it is edited.
+ */
+export async function compileANTLRGrammar(
+    grammarFiles: { name: string; content: string }[]
+): Promise<CompileResult> {
+    const startTime = performance.now();
+
+    try {
+        const result = await javaParser.compile(grammarFiles);
+        return {
+            ...result,
+            duration: performance.now() - startTime
+        };
+    } catch (e) {
+        return {
+            success: false,
+            diagnostics: [
+                {
+                    severity: 'error',
+                    message: `Compile error: ${e}`
+                }
+            ],
+            duration: performance.now() - startTime
+        };
+    }
+}
+
+/**
+ * Run the ANTLR tool to generate recognizer sources in the requested language.
+ * Unlike parsing, this always needs Java.
+ */
+export async function generateANTLRCode(
+    grammarFiles: { name: string; content: string }[],
+    options: GenerateOptions
+): Promise<GenerateResult> {
+    const startTime = performance.now();
+
+    if (!JavaParser.isAvailable()) {
+        return {
+            success: false,
+            diagnostics: [
+                {
+                    severity: 'error',
+                    message: 'Java ANTLR tool not available. Please ensure Java is installed and lib/antlr-4.13.2-complete.jar exists.'
+                }
+            ],
+            files: [],
+            duration: performance.now() - startTime
+        };
+    }
+
+    try {
+        const result = await javaParser.generate(grammarFiles, options);
+        return {
+            ...result,
+            duration: performance.now() - startTime
+        };
+    } catch (e) {
+        return {
+            success: false,
+            diagnostics: [
+                {
+                    severity: 'error',
+                    message: `Generate error: ${e}`
+                }
+            ],
+            files: [],
+            duration: performance.now() - startTime
+        };
+    }
+}
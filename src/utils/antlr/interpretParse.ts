@@ -0,0 +1,46 @@
+/**
+ * Parses with the grammar interpreter alone, for the browser: no tool, no
+ * generated code and no server. Grammars the interpreter can't run as the
+ * generated recognizers would are left to the server.
+ */
+import type { ParseLimits, ParseResult } from './types';
+import { GrammarInterpreter } from './GrammarInterpreter';
+import { resolveGrammarDependencies, getTestRigGrammarName } from './grammarDependencies';
+import { buildParseResult } from './parseResults';
+import { DEFAULT_PARSE_LIMITS, INTERPRET_MAX_GRAMMAR_CHARS } from './limits';
+
+const interpreter = new GrammarInterpreter();
+
+/**
+ * Interpret a parse if the result is the same the server would send.
+ * Returns undefined for grammars that are too large, that have errors,
+ * actions or predicates, and for input over the size limit; the server
+ * then parses and reports those.
+ */
+export function interpretParse(
+    grammarFiles: Array<{ name: string; content: string }>,
+    input: string,
+    startRule: string | undefined,
+    options: { limits?: Partial<ParseLimits>; ambiguities?: boolean } = {}
+): ParseResult | undefined {
+    const limits = { ...DEFAULT_PARSE_LIMITS, ...options.limits };
+
+    const size = grammarFiles.reduce((sum, file) => sum + file.content.length, 0);
+    if (size > INTERPRET_MAX_GRAMMAR_CHARS) return undefined;
+    if (new TextEncoder().encode(input).length > limits.maxInputBytes) return undefined;
+
+    const dependencies = resolveGrammarDependencies(grammarFiles);
+    if (dependencies.diagnostics.length > 0) return undefined;
+
+    const { grammar } = interpreter.load(grammarFiles, getTestRigGrammarName(dependencies.generated));
+    if (!grammar || grammar.hasPredicates || grammar.hasActions) return undefined;
+
+    const hasParser = dependencies.generated.some(g => g.type !== 'lexer');
+    const tokenizeOnly = !startRule || !hasParser;
+    const response = interpreter.parse(grammar, input, tokenizeOnly ? undefined : startRule, {
+        timeoutMs: limits.timeoutMs,
+        maxTreeNodes: limits.maxTreeNodes,
+        ambiguities: options.ambiguities,
+    });
+    return { ...buildParseResult(response, input, startRule, hasParser), interpreted: true };
+}
@@ -0,0 +1,1129 @@
+import org.antlr.v4.runtime.BaseErrorListener;
+import org.antlr.v4.runtime.CharStream;
+import org.antlr.v4.runtime.CharStreams;
+import org.antlr.v4.runtime.CommonToken;
+import org.antlr.v4.runtime.CommonTokenFactory;
+import org.antlr.v4.runtime.CommonTokenStream;
+import org.antlr.v4.runtime.DefaultErrorStrategy;
+import org.antlr.v4.runtime.Lexer;
+import org.antlr.v4.runtime.LexerNoViableAltException;
+import org.antlr.v4.runtime.Parser;
+import org.antlr.v4.runtime.ParserRuleContext;
+import org.antlr.v4.runtime.RecognitionException;
+import org.antlr.v4.runtime.Recognizer;
+import org.antlr.v4.runtime.Token;
+import org.antlr.v4.runtime.TokenSource;
+import org.antlr.v4.runtime.TokenStream;
+import org.antlr.v4.runtime.Vocabulary;
+import org.antlr.v4.runtime.atn.ATN;
+import org.antlr.v4.runtime.atn.ATNConfigSet;
+import org.antlr.v4.runtime.atn.DecisionInfo;
+import org.antlr.v4.runtime.atn.DecisionState;
+import org.antlr.v4.runtime.atn.LexerATNSimulator;
+import org.antlr.v4.runtime.atn.ParserATNSimulator;
+import org.antlr.v4.runtime.atn.PredictionMode;
+import org.antlr.v4.runtime.dfa.DFA;
+import org.antlr.v4.runtime.misc.Interval;
+import org.antlr.v4.runtime.misc.IntervalSet;
+import org.antlr.v4.runtime.misc.Pair;
+import org.antlr.v4.runtime.tree.ErrorNode;
+import org.antlr.v4.runtime.tree.ParseTree;
+import org.antlr.v4.runtime.tree.ParseTreeListener;
+import org.antlr.v4.runtime.tree.TerminalNode;
+
+import java.io.BufferedReader;
+import java.io.File;
+import java.io.FileDescriptor;
+import java.io.FileOutputStream;
+import java.io.IOException;
+import java.io.InputStreamReader;
+import java.io.PrintStream;
+import java.lang.reflect.InvocationTargetException;
+import java.lang.reflect.Method;
+import java.net.URL;
+import java.net.URLClassLoader;
+import java.nio.charset.StandardCharsets;
+import java.util.ArrayList;
+import java.util.Arrays;
+import java.util.BitSet;
+import java.util.IdentityHashMap;
+import java.util.LinkedHashMap;
+import java.util.List;
+import java.util.Map;
+
+/**
+ * Long-lived parse worker used by the IDE server (see JavaWorker.ts).
+ *
+ * Reads one JSON request per line from stdin and writes one JSON response per
+ * line to stdout. Compiled grammars are loaded from their class directories and
+ * kept loaded, so repeated parses pay neither JVM startup nor class loading.
+ *
+ * Tokens carry their channel, symbolic and literal names, the lexer mode they
+ * were matched in and the mode stack when they were emitted.
+ *
+ * The tree is sent as nested objects. Rule nodes carry their name and first/last
+ * token index, terminal nodes carry the index of their token in "tokens" (-1 for
+ * tokens conjured during error recovery, which carry their text instead).
+ *
+ * With "ambiguities": true the parser runs with exact ambiguity detection, which
+ * is slower than normal prediction; every ambiguity and context sensitivity it
+ * reports is listed in "ambiguities" with its decision, rule, conflicting
+ * alternatives and first/last token index. Detection changes how decisions are
+ * predicted, so it can't be combined with profiling.
+ *
+ * With "profile": true the parser runs with profiling enabled and the response
+ * carries a "profile" array with the statistics of every decision that was used.
+ *
+ * With "trace": true the response carries a "trace" array of the parser's steps
+ * in order: rule entry and exit, token consumption, predicted decisions and
+ * error recovery. Tracing replaces the parser's ATN simulator, so it can't be
+ * combined with profiling. Long traces are cut off after MAX_TRACE_EVENTS and
+ * flagged with "traceTruncated".
+ *
+ * "timeoutMs" and "maxTreeNodes" limit the parse (0 or absent for no limit).
+ * The limits are checked whenever a token is consumed; when one is exceeded the
+ * parse stops and the response carries the tokens and the tree built so far, with
+ * an error of source "limit" naming the limit. Lexing is not interrupted.
+ *
+ * Request:  {"id": 1, "classDir": "/abs/dir", "grammarName": "Expr", "startRule": "prog", "input": "...",
+ *            "profile": false, "trace": false, "ambiguities": false,
+ *            "timeoutMs": 120000, "maxTreeNodes": 500000}
+ * Response: {"id": 1, "tokens": [...], "tree": {...}, "errors": [...], "ambiguities": [...], "timing": {"lexMs": 0.4, "parseMs": 1.2}}
+ *       or: {"id": 1, "error": "message"}
+ */
+public class ParseWorker {
+    private static final int MAX_LOADED_GRAMMARS = 20;
+    private static final int MAX_TRACE_EVENTS = 50000;
+
+    /** Class loaders per grammar class directory, least recently used first */
+    private final Map<String, URLClassLoader> loaders = new LinkedHashMap<String, URLClassLoader>(16, 0.75f, true) {
+        @Override
+        protected boolean removeEldestEntry(Map.Entry<String, URLClassLoader> eldest) {
+            if (size() > MAX_LOADED_GRAMMARS) {
+                closeQuietly(eldest.getValue());
+                return true;
+            }
+            return false;
+        }
+    };
+
+    public static void main(String[] args) throws IOException {
+        // Keep stdout for the protocol; anything grammar actions print goes to stderr
+        PrintStream protocolOut = new PrintStream(new FileOutputStream(FileDescriptor.out), true, "UTF-8");
+        System.setOut(System.err);
+
+        BufferedReader in = new BufferedReader(new InputStreamReader(System.in, StandardCharsets.UTF_8));
+        ParseWorker worker = new ParseWorker();
+        String line;
+        while ((line = in.readLine()) != null) {
+            if (line.trim().isEmpty()) continue;
+            protocolOut.print(worker.handle(line));
+            protocolOut.print('\n');
+            protocolOut.flush();
+        }
+    }
+
+    /**
+     * Handle a single request line and return the response line
+     */
+    String handle(String line) {
+        Object id = null;
+        try {
+            Map<String, Object> request = Json.parseObject(line);
+            id = request.get("id");
+            return parse(id, request);
+        } catch (Throwable t) {
+            Throwable cause = t instanceof InvocationTargetException && t.getCause() != null ? t.getCause() : t;
+            return "{\"id\":" + Json.write(id) + ",\"error\":" + Json.quote(describe(cause)) + "}";
+        }
+    }
+
+    private String parse(Object id, Map<String, Object> request) throws Exception {
+        String classDir = requireString(request, "classDir");
+        String grammarName = requireString(request, "grammarName");
+        String startRule = optionalString(request, "startRule");
+        String input = requireString(request, "input");
+        boolean profile = Boolean.TRUE.equals(request.get("profile"));
+        boolean trace = Boolean.TRUE.equals(request.get("trace"));
+        boolean detectAmbiguities = Boolean.TRUE.equals(request.get("ambiguities"));
+        long timeoutMs = optionalLong(request, "timeoutMs");
+        long maxTreeNodes = optionalLong(request, "maxTreeNodes");
+        long requestStart = System.nanoTime();
+        if (profile && trace) {
+            throw new IllegalArgumentException("Profiling and tracing can't be combined");
+        }
+        if (profile && detectAmbiguities) {
+            throw new IllegalArgumentException("Profiling and ambiguity detection can't be combined");
+        }
+
+        ClassLoader loader = getLoader(classDir);
+        Class<? extends Lexer> lexerClass = loadLexerClass(loader, grammarName);
+
+        // Without a start rule only the lexer runs, so a lexer grammar needs no parser
+        Class<? extends Parser> parserClass = null;
+        Method startMethod = null;
+        if (startRule != null) {
+            parserClass = loadParserClass(loader, grammarName);
+            try {
+                startMethod = parserClass.getMethod(startRule);
+            } catch (NoSuchMethodException e) {
+                throw new IllegalArgumentException("No method for rule " + startRule + " or it has arguments");
+            }
+            if (!ParserRuleContext.class.isAssignableFrom(startMethod.getReturnType())) {
+                throw new IllegalArgumentException("No method for rule " + startRule + " or it has arguments");
+            }
+        }
+
+        List<String> errors = new ArrayList<>();
+
+        Lexer lexer = lexerClass.getConstructor(CharStream.class).newInstance(CharStreams.fromString(input));
+        lexer.removeErrorListeners();
+        lexer.addErrorListener(new CollectingErrorListener("lexer", errors));
+        ModeTrackingSimulator lexerSimulator = new ModeTrackingSimulator(lexer);
+        lexer.setInterpreter(lexerSimulator);
+        ModeTrackingTokenFactory tokenFactory = new ModeTrackingTokenFactory(lexer, lexerSimulator);
+        lexer.setTokenFactory(tokenFactory);
+
+        CommonTokenStream tokens = new CommonTokenStream(lexer);
+        long lexStart = System.nanoTime();
+        tokens.fill();
+        double lexMs = (System.nanoTime() - lexStart) / 1e6;
+
+        Parser parser = null;
+        ParserRuleContext tree = null;
+        ParseTrace parseTrace = null;
+        List<String> ambiguities = new ArrayList<>();
+        double parseMs = 0;
+        if (parserClass != null) {
+            parser = parserClass.getConstructor(TokenStream.class).newInstance(tokens);
+            parser.removeErrorListeners();
+            parser.addErrorListener(new CollectingErrorListener("parser", errors));
+            long deadline = timeoutMs > 0 ? requestStart + timeoutMs * 1_000_000L : 0;
+            LimitListener limits = new LimitListener(deadline, timeoutMs, maxTreeNodes);
+            parser.addParseListener(limits);
+            if (profile) {
+                parser.setProfile(true);
+            }
+            if (trace) {
+                parseTrace = new ParseTrace();
+                parser.addParseListener(new TracingListener(parser, parseTrace));
+                parser.setInterpreter(new TracingATNSimulator(parser, parseTrace));
+                parser.setErrorHandler(new TracingErrorStrategy(parseTrace));
+            }
+
+            if (detectAmbiguities) {
+                // Report real ambiguities instead of silently picking the lowest alternative
+                parser.addErrorListener(new AmbiguityListener(ambiguities));
+                parser.getInterpreter().setPredictionMode(PredictionMode.LL_EXACT_AMBIG_DETECTION);
+            }
+
+            long parseStart = System.nanoTime();
+            try {
+                tree = (ParserRuleContext) startMethod.invoke(parser);
+            } catch (InvocationTargetException e) {
+                if (!(e.getCause() instanceof LimitExceededException)) throw e;
+                // Rules unwound normally, so the tree built so far is consistent
+                errors.add(((LimitExceededException) e.getCause()).toJson());
+                tree = limits.root;
+            }
+            parseMs = (System.nanoTime() - parseStart) / 1e6;
+        }
+
+        Vocabulary vocabulary = parser != null ? parser.getVocabulary() : lexer.getVocabulary();
+        StringBuilder out = new StringBuilder();
+        out.append("{\"id\":").append(Json.write(id)).append(",\"tokens\":[");
+        List<Token> tokenList = tokens.getTokens();
+        for (int i = 0; i < tokenList.size(); i++) {
+            if (i > 0) out.append(',');
+            appendToken(out, tokenList.get(i), vocabulary, lexer, tokenFactory.details);
+        }
+        out.append("],\"tree\":");
+        if (tree != null) {
+            appendTree(out, tree, parser.getRuleNames());
+        } else {
+            out.append("null");
+        }
+        out.append(",\"errors\":[").append(String.join(",", errors)).append(']');
+        out.append(",\"ambiguities\":[").append(String.join(",", ambiguities)).append(']');
+        out.append(",\"modeTransitions\":[").append(String.join(",", lexerSimulator.transitions)).append(']');
+        out.append(",\"timing\":{\"lexMs\":").append(lexMs).append(",\"parseMs\":").append(parseMs).append('}');
+        if (profile && parser != null) {
+            out.append(",\"profile\":");
+            appendProfile(out, parser);
+        }
+        if (parseTrace != null) {
+            out.append(",\"trace\":[").append(String.join(",", parseTrace.events)).append(']');
+            if (parseTrace.truncated) {
+                out.append(",\"traceTruncated\":true");
+            }
+        }
+        out.append('}');
+        return out.toString();
+    }
+
+    private static void appendToken(
+        StringBuilder out,
+        Token token,
+        Vocabulary vocabulary,
+        Lexer lexer,
+        Map<Token, String> details
+    ) {
+        out.append("{\"tokenIndex\":").append(token.getTokenIndex())
+            .append(",\"start\":").append(token.getStartIndex())
+            .append(",\"stop\":").append(token.getStopIndex())
+            .append(",\"text\":").append(Json.quote(token.getText()))
+            .append(",\"type\":").append(Json.quote(vocabulary.getDisplayName(token.getType())))
+            .append(",\"line\":").append(token.getLine())
+            .append(",\"column\":").append(token.getCharPositionInLine())
+            .append(",\"channel\":").append(token.getChannel())
+            .append(",\"channelName\":").append(Json.quote(channelName(lexer, token.getChannel())));
+
+        String symbolicName = vocabulary.getSymbolicName(token.getType());
+        if (symbolicName != null) {
+            out.append(",\"typeName\":").append(Json.quote(symbolicName));
+        }
+        String literalName = vocabulary.getLiteralName(token.getType());
+        if (literalName != null) {
+            out.append(",\"literal\":").append(Json.quote(literalName));
+        }
+        String lexerDetails = details.get(token);
+        if (lexerDetails != null) {
+            out.append(lexerDetails);
+        }
+        out.append('}');
+    }
+
+    private static String channelName(Lexer lexer, int channel) {
+        String[] names = lexer.getChannelNames();
+        if (names != null && channel >= 0 && channel < names.length) {
+            return names[channel];
+        }
+        return channel == Token.HIDDEN_CHANNEL ? "HIDDEN" : String.valueOf(channel);
+    }
+
+    /**
+     * Write the statistics of every decision the parse went through
+     */
+    private static void appendProfile(StringBuilder out, Parser parser) {
+        ATN atn = parser.getATN();
+        String[] ruleNames = parser.getRuleNames();
+        out.append('[');
+        boolean first = true;
+        for (DecisionInfo info : parser.getParseInfo().getDecisionInfo()) {
+            if (info.invocations == 0) continue;
+            if (!first) out.append(',');
+            first = false;
+
+            DecisionState state = atn.getDecisionState(info.decision);
+            out.append("{\"decision\":").append(info.decision)
+                .append(",\"ruleName\":").append(Json.quote(ruleNames[state.ruleIndex]))
+                .append(",\"invocations\":").append(info.invocations)
+                .append(",\"timeMs\":").append(info.timeInPrediction / 1e6)
+                .append(",\"sllTotalLook\":").append(info.SLL_TotalLook)
+                .append(",\"sllMaxLook\":").append(info.SLL_MaxLook)
+                .append(",\"llTotalLook\":").append(info.LL_TotalLook)
+                .append(",\"llMaxLook\":").append(info.LL_MaxLook)
+                .append(",\"fullContextFallbacks\":").append(info.LL_Fallback)
+                .append(",\"ambiguities\":").append(info.ambiguities.size())
+                .append(",\"errors\":").append(info.errors.size())
+                .append('}');
+        }
+        out.append(']');
+    }
+
+    private static void appendTree(StringBuilder out, ParseTree node, String[] ruleNames) {
+        if (node instanceof TerminalNode) {
+            Token symbol = ((TerminalNode) node).getSymbol();
+            out.append("{\"type\":").append(node instanceof ErrorNode ? "\"error\"" : "\"token\"")
+                .append(",\"tokenIndex\":").append(symbol.getTokenIndex());
+            if (symbol.getTokenIndex() < 0) {
+                out.append(",\"text\":").append(Json.quote(symbol.getText()));
+            }
+            out.append('}');
+            return;
+        }
+
+        ParserRuleContext ctx = (ParserRuleContext) node;
+        out.append("{\"type\":\"rule\",\"name\":").append(Json.quote(ruleNames[ctx.getRuleIndex()]));
+        if (ctx.getStart() != null) {
+            out.append(",\"start\":").append(ctx.getStart().getTokenIndex());
+        }
+        if (ctx.getStop() != null) {
+            out.append(",\"stop\":").append(ctx.getStop().getTokenIndex());
+        }
+        out.append(",\"children\":[");
+        for (int i = 0; i < ctx.getChildCount(); i++) {
+            if (i > 0) out.append(',');
+            appendTree(out, ctx.getChild(i), ruleNames);
+        }
+        out.append("]}");
+    }
+
+    private ClassLoader getLoader(String classDir) throws IOException {
+        URLClassLoader loader = loaders.get(classDir);
+        if (loader == null) {
+            URL url = new File(classDir).toURI().toURL();
+            loader = new URLClassLoader(new URL[] { url }, ParseWorker.class.getClassLoader());
+            loaders.put(classDir, loader);
+        }
+        return loader;
+    }
+
+    /**
+     * Same lookup as TestRig: "FooLexer" for combined and split grammars,
+     * or the grammar name itself for a lexer grammar.
+     */
+    private static Class<? extends Lexer> loadLexerClass(ClassLoader loader, String grammarName) {
+        try {
+            return loader.loadClass(grammarName + "Lexer").asSubclass(Lexer.class);
+        } catch (ClassNotFoundException e) {
+            try {
+                return loader.loadClass(grammarName).asSubclass(Lexer.class);
+            } catch (ClassNotFoundException | ClassCastException e2) {
+                throw new IllegalArgumentException("Can't load " + grammarName + "Lexer as lexer");
+            }
+        }
+    }
+
+    private static Class<? extends Parser> loadParserClass(ClassLoader loader, String grammarName) {
+        try {
+            return loader.loadClass(grammarName + "Parser").asSubclass(Parser.class);
+        } catch (ClassNotFoundException | ClassCastException e) {
+            throw new IllegalArgumentException("Can't load " + grammarName + "Parser as parser");
+        }
+    }
+
+    private static String requireString(Map<String, Object> request, String key) {
+        Object value = request.get(key);
+        if (!(value instanceof String)) {
+            throw new IllegalArgumentException("Invalid request: " + key + " must be a string");
+        }
+        return (String) value;
+    }
+
+    private static String optionalString(Map<String, Object> request, String key) {
+        Object value = request.get(key);
+        if (value != null && !(value instanceof String)) {
+            throw new IllegalArgumentException("Invalid request: " + key + " must be a string");
+        }
+        return (String) value;
+    }
+
+    private static long optionalLong(Map<String, Object> request, String key) {
+        Object value = request.get(key);
+        if (value == null) {
+            return 0;
+        }
+        if (!(value instanceof Long)) {
+            throw new IllegalArgumentException("Invalid request: " + key + " must be an integer");
+        }
+        return (Long) value;
+    }
+
+    private static String describe(Throwable t) {
+        String message = t.getMessage();
+        if (t instanceof IllegalArgumentException && message != null) {
+            return message;
+        }
+        return message != null ? t.getClass().getSimpleName() + ": " + message : t.getClass().getSimpleName();
+    }
+
+    private static void closeQuietly(URLClassLoader loader) {
+        try {
+            loader.close();
+        } catch (IOException e) {
+            // Ignore, the loader is unreachable either way
+        }
+    }
+
+    /**
+     * Records the ambiguities and context sensitivities found during prediction.
+     * Token indices are resolved to input positions by the server.
+     */
+    private static final class AmbiguityListener extends BaseErrorListener {
+        private final List<String> events;
+
+        AmbiguityListener(List<String> events) {
+            this.events = events;
+        }
+
+        @Override
+        public void reportAmbiguity(
+            Parser recognizer,
+            DFA dfa,
+            int startIndex,
+            int stopIndex,
+            boolean exact,
+            BitSet ambigAlts,
+            ATNConfigSet configs
+        ) {
+            BitSet alternatives = ambigAlts != null ? ambigAlts : configs.getAlts();
+            // The parser resolves ambiguities in favour of the lowest alternative
+            add("ambiguity", recognizer, dfa, startIndex, stopIndex, alternatives, alternatives.nextSetBit(0), exact);
+        }
+
+        @Override
+        public void reportContextSensitivity(
+            Parser recognizer,
+            DFA dfa,
+            int startIndex,
+            int stopIndex,
+            int prediction,
+            ATNConfigSet configs
+        ) {
+            add("contextSensitivity", recognizer, dfa, startIndex, stopIndex, configs.getAlts(), prediction, true);
+        }
+
+        private void add(
+            String kind,
+            Parser recognizer,
+            DFA dfa,
+            int startIndex,
+            int stopIndex,
+            BitSet alternatives,
+            int prediction,
+            boolean exact
+        ) {
+            List<Object> alts = new ArrayList<>();
+            for (int alt = alternatives.nextSetBit(0); alt >= 0; alt = alternatives.nextSetBit(alt + 1)) {
+                alts.add(alt);
+            }
+
+            events.add("{\"kind\":" + Json.quote(kind)
+                + ",\"decision\":" + dfa.decision
+                + ",\"ruleName\":" + Json.quote(recognizer.getRuleNames()[dfa.atnStartState.ruleIndex])
+                + ",\"alternatives\":" + Json.write(alts)
+                + ",\"prediction\":" + prediction
+                + ",\"exact\":" + exact
+                + ",\"startToken\":" + startIndex
+                + ",\"stopToken\":" + stopIndex
+                + "}");
+        }
+    }
+
+    /**
+     * Lexer simulator that remembers the mode the current token's match started in
+     * and the lexer rule it matched, and records every match that changes the mode
+     * or mode stack. A token built from several "more" matches keeps the mode of
+     * its first match.
+     */
+    private static final class ModeTrackingSimulator extends LexerATNSimulator {
+        private final Lexer lexer;
+        private final List<String> transitions = new ArrayList<>();
+        private String[] tokenTypeRules;
+        private int tokenStart = -1;
+        private int matchMode;
+        private String matchRule;
+
+        ModeTrackingSimulator(Lexer lexer) {
+            super(
+                lexer,
+                lexer.getATN(),
+                lexer.getInterpreter().decisionToDFA,
+                lexer.getInterpreter().getSharedContextCache()
+            );
+            this.lexer = lexer;
+        }
+
+        @Override
+        public int match(CharStream input, int mode) {
+            if (lexer._tokenStartCharIndex != tokenStart) {
+                tokenStart = lexer._tokenStartCharIndex;
+                matchMode = mode;
+            }
+            int[] stackBefore = lexer._modeStack.toArray();
+            int type = super.match(input, mode);
+            matchRule = ruleForType(type);
+
+            // Lexer actions such as pushMode and popMode ran as part of the match
+            int[] stackAfter = lexer._modeStack.toArray();
+            if (lexer._mode != mode || !Arrays.equals(stackBefore, stackAfter)) {
+                transitions.add("{\"startIndex\":" + lexer._tokenStartCharIndex
+                    + ",\"line\":" + lexer._tokenStartLine
+                    + ",\"column\":" + lexer._tokenStartCharPositionInLine
+                    + ",\"rule\":" + Json.write(matchRule)
+                    + ",\"from\":" + Json.write(modeStack(stackBefore, mode))
+                    + ",\"to\":" + Json.write(modeStack(stackAfter, lexer._mode)) + "}");
+            }
+            return type;
+        }
+
+        /**
+         * Lexer rule that defines a token type, or null for EOF and imaginary types
+         */
+        private String ruleForType(int type) {
+            if (tokenTypeRules == null) {
+                int[] ruleToTokenType = atn.ruleToTokenType;
+                int maxType = 0;
+                for (int t : ruleToTokenType) {
+                    maxType = Math.max(maxType, t);
+                }
+                tokenTypeRules = new String[maxType + 1];
+                String[] ruleNames = lexer.getRuleNames();
+                for (int rule = 0; rule < ruleToTokenType.length; rule++) {
+                    // Fragment rules define no token type
+                    if (ruleToTokenType[rule] > 0) {
+                        tokenTypeRules[ruleToTokenType[rule]] = ruleNames[rule];
+                    }
+                }
+            }
+            return type > 0 && type < tokenTypeRules.length ? tokenTypeRules[type] : null;
+        }
+
+        List<Object> modeStack(int[] stack, int mode) {
+            List<Object> names = new ArrayList<>();
+            for (int m : stack) {
+                names.add(modeName(m));
+            }
+            names.add(modeName(mode));
+            return names;
+        }
+
+        String modeName(int mode) {
+            String[] names = lexer.getModeNames();
+            return names != null && mode < names.length ? names[mode] : String.valueOf(mode);
+        }
+    }
+
+    /**
+     * Token factory that records the lexer rule and modes of every token it
+     * creates, as JSON fields keyed by token. Lexer actions such as pushMode have
+     * already run when a token is created, so the stack reflects the mode after
+     * the token.
+     */
+    private static final class ModeTrackingTokenFactory extends CommonTokenFactory {
+        private final Lexer lexer;
+        private final ModeTrackingSimulator simulator;
+        private final Map<Token, String> details = new IdentityHashMap<>();
+
+        ModeTrackingTokenFactory(Lexer lexer, ModeTrackingSimulator simulator) {
+            this.lexer = lexer;
+            this.simulator = simulator;
+        }
+
+        @Override
+        public CommonToken create(
+            Pair<TokenSource, CharStream> source,
+            int type,
+            String text,
+            int channel,
+            int start,
+            int stop,
+            int line,
+            int charPositionInLine
+        ) {
+            CommonToken token = super.create(source, type, text, channel, start, stop, line, charPositionInLine);
+
+            StringBuilder json = new StringBuilder();
+            if (type != Token.EOF && simulator.matchRule != null) {
+                json.append(",\"rule\":").append(Json.quote(simulator.matchRule));
+            }
+            json.append(",\"mode\":").append(Json.quote(simulator.modeName(simulator.matchMode)))
+                .append(",\"modeStack\":")
+                .append(Json.write(simulator.modeStack(lexer._modeStack.toArray(), lexer._mode)));
+            details.put(token, json.toString());
+            return token;
+        }
+    }
+
+    /**
+     * Thrown from a parse listener to stop the parse when a limit is exceeded
+     */
+    private static final class LimitExceededException extends RuntimeException {
+        private final String limit;
+        private final Token token;
+
+        LimitExceededException(String limit, String message, Token token) {
+            super(message);
+            this.limit = limit;
+            this.token = token;
+        }
+
+        String toJson() {
+            return "{\"line\":" + token.getLine()
+                + ",\"column\":" + token.getCharPositionInLine()
+                + ",\"message\":" + Json.quote(getMessage())
+                + ",\"severity\":\"error\",\"source\":\"limit\""
+                + ",\"limit\":" + Json.quote(limit)
+                + "}";
+        }
+    }
+
+    /**
+     * Enforces the time and tree size limits and remembers the root context, which
+     * the start rule never returns when the parse is stopped. Limits are only checked
+     * after a token is consumed: throwing from enterEveryRule would skip the rule's
+     * exitRule() and leave the tree inconsistent.
+     */
+    private static final class LimitListener implements ParseTreeListener {
+        private final long deadline;
+        private final long timeoutMs;
+        private final long maxTreeNodes;
+        private long nodes;
+        private ParserRuleContext root;
+
+        LimitListener(long deadline, long timeoutMs, long maxTreeNodes) {
+            this.deadline = deadline;
+            this.timeoutMs = timeoutMs;
+            this.maxTreeNodes = maxTreeNodes;
+        }
+
+        @Override
+        public void enterEveryRule(ParserRuleContext ctx) {
+            // Left-recursive rules replace the root with a new context as they grow
+            if (ctx.getParent() == null) {
+                root = ctx;
+            }
+            nodes++;
+        }
+
+        @Override
+        public void exitEveryRule(ParserRuleContext ctx) {
+        }
+
+        @Override
+        public void visitTerminal(TerminalNode node) {
+            consumed(node.getSymbol());
+        }
+
+        @Override
+        public void visitErrorNode(ErrorNode node) {
+            consumed(node.getSymbol());
+        }
+
+        private void consumed(Token token) {
+            nodes++;
+            if (maxTreeNodes > 0 && nodes > maxTreeNodes) {
+                throw new LimitExceededException(
+                    "maxTreeNodes",
+                    "Parse stopped: the parse tree exceeded the limit of " + maxTreeNodes + " nodes",
+                    token
+                );
+            }
+            if (deadline > 0 && System.nanoTime() > deadline) {
+                throw new LimitExceededException(
+                    "timeoutMs",
+                    "Parse stopped: parsing exceeded the time limit of " + timeoutMs + "ms",
+                    token
+                );
+            }
+        }
+    }
+
+    /**
+     * Steps of a traced parse as serialized TraceEvent objects
+     */
+    private static final class ParseTrace {
+        private final List<String> events = new ArrayList<>();
+        private boolean truncated;
+
+        void add(String kind, String ruleName, int tokenIndex, String extra) {
+            if (events.size() >= MAX_TRACE_EVENTS) {
+                truncated = true;
+                return;
+            }
+            StringBuilder json = new StringBuilder();
+            json.append("{\"kind\":").append(Json.quote(kind));
+            if (ruleName != null) {
+                json.append(",\"ruleName\":").append(Json.quote(ruleName));
+            }
+            json.append(",\"tokenIndex\":").append(tokenIndex);
+            if (extra != null) {
+                json.append(extra);
+            }
+            events.add(json.append('}').toString());
+        }
+    }
+
+    /**
+     * Records rule entry and exit and every consumed token. Registered as a parse
+     * listener, so events arrive while the parser runs rather than from the finished tree.
+     */
+    private static final class TracingListener implements ParseTreeListener {
+        private final Parser parser;
+        private final ParseTrace trace;
+
+        TracingListener(Parser parser, ParseTrace trace) {
+            this.parser = parser;
+            this.trace = trace;
+        }
+
+        @Override
+        public void enterEveryRule(ParserRuleContext ctx) {
+            trace.add("enterRule", parser.getRuleNames()[ctx.getRuleIndex()], parser.getCurrentToken().getTokenIndex(), null);
+        }
+
+        @Override
+        public void exitEveryRule(ParserRuleContext ctx) {
+            trace.add("exitRule", parser.getRuleNames()[ctx.getRuleIndex()], parser.getCurrentToken().getTokenIndex(), null);
+        }
+
+        @Override
+        public void visitTerminal(TerminalNode node) {
+            consumed(node.getSymbol(), false);
+        }
+
+        @Override
+        public void visitErrorNode(ErrorNode node) {
+            consumed(node.getSymbol(), true);
+        }
+
+        private void consumed(Token symbol, boolean error) {
+            StringBuilder extra = new StringBuilder();
+            if (symbol.getTokenIndex() < 0) {
+                extra.append(",\"text\":").append(Json.quote(symbol.getText()));
+            }
+            if (error) {
+                extra.append(",\"error\":true");
+            }
+            trace.add("consume", null, symbol.getTokenIndex(), extra.toString());
+        }
+    }
+
+    /**
+     * Records the alternative predicted for every decision that needs adaptive
+     * prediction. LL(1) decisions are switched on directly by the generated code
+     * and never reach the simulator.
+     */
+    private static final class TracingATNSimulator extends ParserATNSimulator {
+        private final ParseTrace trace;
+
+        TracingATNSimulator(Parser parser, ParseTrace trace) {
+            super(
+                parser,
+                parser.getATN(),
+                parser.getInterpreter().decisionToDFA,
+                parser.getInterpreter().getSharedContextCache()
+            );
+            this.trace = trace;
+        }
+
+        @Override
+        public int adaptivePredict(TokenStream input, int decision, ParserRuleContext outerContext) {
+            int tokenIndex = input.LT(1).getTokenIndex();
+            int alternative = super.adaptivePredict(input, decision, outerContext);
+            String ruleName = parser.getRuleNames()[atn.getDecisionState(decision).ruleIndex];
+            trace.add("decision", ruleName, tokenIndex, ",\"decision\":" + decision + ",\"alternative\":" + alternative);
+            return alternative;
+        }
+    }
+
+    /**
+     * Default recovery that records where the parser recovered and which tokens
+     * it skipped to get back in sync
+     */
+    private static final class TracingErrorStrategy extends DefaultErrorStrategy {
+        private final ParseTrace trace;
+
+        TracingErrorStrategy(ParseTrace trace) {
+            this.trace = trace;
+        }
+
+        @Override
+        public void recover(Parser recognizer, RecognitionException e) {
+            int start = recognizer.getInputStream().index();
+            super.recover(recognizer, e);
+            recovered(recognizer, start, true);
+        }
+
+        @Override
+        public Token recoverInline(Parser recognizer) throws RecognitionException {
+            int start = recognizer.getInputStream().index();
+            Token token = super.recoverInline(recognizer);
+            // Reached only if single token insertion or deletion succeeded
+            recovered(recognizer, start, true);
+            return token;
+        }
+
+        @Override
+        public void sync(Parser recognizer) throws RecognitionException {
+            int start = recognizer.getInputStream().index();
+            super.sync(recognizer);
+            // sync only counts as recovery if it had to skip tokens
+            recovered(recognizer, start, false);
+        }
+
+        private void recovered(Parser recognizer, int start, boolean always) {
+            int stop = recognizer.getInputStream().index() - 1;
+            if (!always && stop < start) {
+                return;
+            }
+            String ruleName = recognizer.getRuleNames()[recognizer.getContext().getRuleIndex()];
+            trace.add("recover", ruleName, start, stop >= start ? ",\"stopTokenIndex\":" + stop : null);
+        }
+    }
+
+    /**
+     * Collects syntax errors as serialized ParseError objects
+     */
+    private static final class CollectingErrorListener extends BaseErrorListener {
+        private final String source;
+        private final List<String> errors;
+
+        CollectingErrorListener(String source, List<String> errors) {
+            this.source = source;
+            this.errors = errors;
+        }
+
+        @Override
+        public void syntaxError(
+            Recognizer<?, ?> recognizer,
+            Object offendingSymbol,
+            int line,
+            int charPositionInLine,
+            String msg,
+            RecognitionException e
+        ) {
+            StringBuilder json = new StringBuilder();
+            json.append("{\"line\":").append(line)
+                .append(",\"column\":").append(charPositionInLine)
+                .append(",\"message\":").append(Json.quote(msg))
+                .append(",\"severity\":\"error\"")
+                .append(",\"source\":").append(Json.quote(source));
+
+            String offendingText = offendingText(offendingSymbol, e);
+            if (offendingText != null) {
+                json.append(",\"offendingToken\":").append(Json.quote(offendingText));
+            }
+
+            List<String> expected = expectedTokens(recognizer, e);
+            if (!expected.isEmpty()) {
+                json.append(",\"expected\":").append(Json.write(expected));
+            }
+
+            json.append('}');
+            errors.add(json.toString());
+        }
+
+        private static String offendingText(Object offendingSymbol, RecognitionException e) {
+            if (offendingSymbol instanceof Token) {
+                return ((Token) offendingSymbol).getText();
+            }
+            if (e instanceof LexerNoViableAltException) {
+                // Same text the lexer puts in its "token recognition error" message
+                LexerNoViableAltException lexerError = (LexerNoViableAltException) e;
+                CharStream input = lexerError.getInputStream();
+                return input.getText(Interval.of(lexerError.getStartIndex(), input.index()));
+            }
+            return null;
+        }
+
+        private static List<String> expectedTokens(Recognizer<?, ?> recognizer, RecognitionException e) {
+            List<String> names = new ArrayList<>();
+            if (!(recognizer instanceof Parser)) {
+                return names;
+            }
+
+            Parser parser = (Parser) recognizer;
+            try {
+                IntervalSet expected = e != null ? e.getExpectedTokens() : parser.getExpectedTokens();
+                if (expected == null) {
+                    return names;
+                }
+                for (int type : expected.toList()) {
+                    names.add(parser.getVocabulary().getDisplayName(type));
+                }
+            } catch (RuntimeException ignored) {
+                // Expected set is not available in every recovery state
+            }
+            return names;
+        }
+    }
+
+    /**
+     * Minimal JSON reader/writer for the worker protocol, so the worker only
+     * needs the ANTLR jar on its classpath.
+     */
+    static final class Json {
+        private final String text;
+        private int pos;
+
+        private Json(String text) {
+            this.text = text;
+        }
+
+        static Map<String, Object> parseObject(String text) {
+            Json json = new Json(text);
+            Object value = json.readValue();
+            json.skipWhitespace();
+            if (json.pos != text.length()) {
+                throw json.error("Unexpected trailing characters");
+            }
+            if (!(value instanceof Map)) {
+                throw json.error("Expected an object");
+            }
+            @SuppressWarnings("unchecked")
+            Map<String, Object> map = (Map<String, Object>) value;
+            return map;
+        }
+
+        static String quote(String value) {
+            StringBuilder sb = new StringBuilder(value.length() + 2);
+            sb.append('"');
+            for (int i = 0; i < value.length(); i++) {
+                char c = value.charAt(i);
+                switch (c) {
+                    case '"': sb.append("\\\""); break;
+                    case '\\': sb.append("\\\\"); break;
+                    case '\n': sb.append("\\n"); break;
+                    case '\r': sb.append("\\r"); break;
+                    case '\t': sb.append("\\t"); break;
+                    default:
+                        if (c < 0x20) {
+                            sb.append(String.format("\\u%04x", (int) c));
+                        } else {
+                            sb.append(c);
+                        }
+                }
+            }
+            sb.append('"');
+            return sb.toString();
+        }
+
+        static String write(Object value) {
+            if (value == null) return "null";
+            if (value instanceof String) return quote((String) value);
+            if (value instanceof Number || value instanceof Boolean) return value.toString();
+            if (value instanceof List) {
+                StringBuilder sb = new StringBuilder("[");
+                boolean first = true;
+                for (Object item : (List<?>) value) {
+                    if (!first) sb.append(',');
+                    first = false;
+                    sb.append(write(item));
+                }
+                return sb.append(']').toString();
+            }
+            throw new IllegalArgumentException("Cannot serialize " + value.getClass().getName());
+        }
+
+        private Object readValue() {
+            skipWhitespace();
+            switch (peek()) {
+                case '{': return readObject();
+                case '[': return readArray();
+                case '"': return readString();
+                case 't': expectWord("true"); return Boolean.TRUE;
+                case 'f': expectWord("false"); return Boolean.FALSE;
+                case 'n': expectWord("null"); return null;
+                default: return readNumber();
+            }
+        }
+
+        private Map<String, Object> readObject() {
+            Map<String, Object> map = new LinkedHashMap<>();
+            consume('{');
+            skipWhitespace();
+            if (peek() == '}') {
+                pos++;
+                return map;
+            }
+            while (true) {
+                skipWhitespace();
+                String key = readString();
+                consume(':');
+                map.put(key, readValue());
+                skipWhitespace();
+                if (peek() == ',') {
+                    pos++;
+                    continue;
+                }
+                consume('}');
+                return map;
+            }
+        }
+
+        private List<Object> readArray() {
+            List<Object> list = new ArrayList<>();
+            consume('[');
+            skipWhitespace();
+            if (peek() == ']') {
+                pos++;
+                return list;
+            }
+            while (true) {
+                list.add(readValue());
+                skipWhitespace();
+                if (peek() == ',') {
+                    pos++;
+                    continue;
+                }
+                consume(']');
+                return list;
+            }
+        }
+
+        private String readString() {
+            consume('"');
+            StringBuilder sb = new StringBuilder();
+            while (true) {
+                if (pos >= text.length()) throw error("Unterminated string");
+                char c = text.charAt(pos++);
+                if (c == '"') return sb.toString();
+                if (c != '\\') {
+                    sb.append(c);
+                    continue;
+                }
+                if (pos >= text.length()) throw error("Unterminated string");
+                char escape = text.charAt(pos++);
+                switch (escape) {
+                    case '"': sb.append('"'); break;
+                    case '\\': sb.append('\\'); break;
+                    case '/': sb.append('/'); break;
+                    case 'b': sb.append('\b'); break;
+                    case 'f': sb.append('\f'); break;
+                    case 'n': sb.append('\n'); break;
+                    case 'r': sb.append('\r'); break;
+                    case 't': sb.append('\t'); break;
+                    case 'u':
+                        if (pos + 4 > text.length()) throw error("Invalid unicode escape");
+                        sb.append((char) Integer.parseInt(text.substring(pos, pos + 4), 16));
+                        pos += 4;
+                        break;
+                    default:
+                        throw error("Invalid escape character '" + escape + "'");
+                }
+            }
+        }
+
+        private Object readNumber() {
+            int start = pos;
+            while (pos < text.length() && "+-0123456789.eE".indexOf(text.charAt(pos)) >= 0) {
+                pos++;
+            }
+            if (start == pos) throw error("Unexpected character '" + peek() + "'");
+            String number = text.substring(start, pos);
+            try {
+                if (number.matches("-?\\d+")) return Long.parseLong(number);
+                return Double.parseDouble(number);
+            } catch (NumberFormatException e) {
+                throw error("Invalid number " + number);
+            }
+        }
+
+        private void expectWord(String word) {
+            if (!text.startsWith(word, pos)) throw error("Expected " + word);
+            pos += word.length();
+        }
+
+        private void consume(char expected) {
+            skipWhitespace();
+            if (peek() != expected) throw error("Expected '" + expected + "'");
+            pos++;
+        }
+
+        private char peek() {
+            return pos < text.length() ? text.charAt(pos) : '\0';
+        }
+
+        private void skipWhitespace() {
+            while (pos < text.length() && Character.isWhitespace(text.charAt(pos))) {
+                pos++;
+            }
+        }
+
+        private IllegalArgumentException error(String message) {
+            return new IllegalArgumentException("Invalid JSON request: " + message + " at position " + pos);
+        }
+    }
+}
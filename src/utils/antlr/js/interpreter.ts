@@ -0,0 +1,261 @@
+/**
+ * Lexer and parser that run a grammar by interpreting its ATN on the antlr4
+ * JavaScript runtime, like the Java runtime's LexerInterpreter and
+ * ParserInterpreter. Nothing is generated or compiled, so grammar actions
+ * don't run and semantic predicates are assumed to hold.
+ *
+ * The ATN comes from atnBuilder.ts. Parse trees are built the way generated
+ * parsers build them, so they look the same as with the Java worker.
+ */
+import {
+    ATNDeserializer,
+    DFA,
+    FailedPredicateException,
+    Lexer,
+    LexerATNSimulator,
+    Parser,
+    ParserATNSimulator,
+    ParserRuleContext,
+    PredictionContextCache,
+    RecognitionException,
+} from 'antlr4';
+import type { ATN, CharStream, TokenStream } from 'antlr4';
+
+/** ATN state as the runtime's deserializer creates it */
+interface AtnState {
+    stateNumber: number;
+    stateType: number;
+    ruleIndex: number;
+    transitions: AtnTransition[];
+    decision: number;
+    /** Rule start states of left-recursive rules */
+    isPrecedenceRule?: boolean;
+    /** The operator loop of a left-recursive rule */
+    isPrecedenceDecision?: boolean;
+}
+
+interface AtnTransition {
+    serializationType: number;
+    target: AtnState;
+    /** Token type of an atom transition */
+    label_?: number;
+    ruleIndex?: number;
+    predIndex?: number;
+    precedence?: number;
+    followState?: AtnState;
+    matches(symbol: number, minVocabSymbol: number, maxVocabSymbol: number): boolean;
+}
+
+const RULE_STOP = 7;
+const STAR_LOOP_ENTRY = 10;
+const LOOP_END = 12;
+
+const Transition = {
+    EPSILON: 1,
+    RANGE: 2,
+    RULE: 3,
+    PREDICATE: 4,
+    ATOM: 5,
+    ACTION: 6,
+    SET: 7,
+    NOT_SET: 8,
+    WILDCARD: 9,
+    PRECEDENCE: 10,
+};
+
+/** What the interpreting recognizers of a grammar share */
+export interface InterpretedGrammar {
+    atn: ATN;
+    /** DFA cache per decision, shared like a generated recognizer's static one */
+    decisionsToDFA: DFA[];
+    ruleNames: string[];
+    literalNames: Array<string | null>;
+    symbolicNames: Array<string | null>;
+}
+
+export interface InterpretedLexerGrammar extends InterpretedGrammar {
+    channelNames: string[];
+    modeNames: string[];
+}
+
+/**
+ * Deserialize an ATN and set up the DFA cache for its decisions
+ */
+export function loadAtn(serialized: number[]): { atn: ATN; decisionsToDFA: DFA[] } {
+    const atn = new ATNDeserializer().deserialize(serialized);
+    const decisionsToDFA = atn.decisionToState.map((state, i) => new DFA(state, i));
+    return { atn, decisionsToDFA };
+}
+
+export class InterpreterLexer extends Lexer {
+    ruleNames: string[];
+    literalNames: Array<string | null>;
+    symbolicNames: Array<string | null>;
+    channelNames: string[];
+    modeNames: string[];
+
+    constructor(input: CharStream, grammar: InterpretedLexerGrammar) {
+        super(input);
+        this.ruleNames = grammar.ruleNames;
+        this.literalNames = grammar.literalNames;
+        this.symbolicNames = grammar.symbolicNames;
+        this.channelNames = grammar.channelNames;
+        this.modeNames = grammar.modeNames;
+        this._interp = new LexerATNSimulator(this, grammar.atn, grammar.decisionsToDFA, new PredictionContextCache());
+    }
+}
+
+/** Context of an interpreted rule; generated parsers have a class per rule instead */
+class InterpreterRuleContext extends ParserRuleContext {
+    ruleIndex: number;
+
+    constructor(parent: ParserRuleContext | undefined, invokingState: number, ruleIndex: number) {
+        super(parent, invokingState);
+        this.ruleIndex = ruleIndex;
+    }
+}
+
+/**
+ * Parser that walks the ATN state by state, predicting at decisions with the
+ * runtime's ParserATNSimulator. Matching, rule entry and exit and error
+ * recovery go through the same Parser methods generated code calls.
+ */
+export class InterpreterParser extends Parser {
+    ruleNames: string[];
+    literalNames: Array<string | null>;
+    symbolicNames: Array<string | null>;
+    private readonly grammar: InterpretedGrammar;
+    /** Context and invoking state of each left-recursive rule being parsed */
+    private readonly parentContextStack: Array<[ParserRuleContext, number]> = [];
+
+    constructor(input: TokenStream, grammar: InterpretedGrammar) {
+        super(input);
+        this.grammar = grammar;
+        this.ruleNames = grammar.ruleNames;
+        this.literalNames = grammar.literalNames;
+        this.symbolicNames = grammar.symbolicNames;
+        this._interp = new ParserATNSimulator(this, grammar.atn, grammar.decisionsToDFA, new PredictionContextCache());
+    }
+
+    /**
+     * Parse the input with the given start rule and return the root context
+     */
+    parse(startRuleIndex: number): ParserRuleContext {
+        const start = this.stateAt(this.grammar.atn.ruleToStartState[startRuleIndex].stateNumber);
+        const root = new InterpreterRuleContext(undefined, -1, startRuleIndex);
+        if (start.isPrecedenceRule) {
+            this.enterRecursionRule(root, start.stateNumber, startRuleIndex, 0);
+        } else {
+            this.enterRule(root, start.stateNumber, startRuleIndex);
+        }
+
+        for (;;) {
+            const state = this.stateAt(this.state);
+            if (state.stateType === RULE_STOP) {
+                // Returning from the start rule
+                if (this._ctx.invokingState === -1) {
+                    if (start.isPrecedenceRule) {
+                        const result = this._ctx;
+                        this.unrollRecursionContexts(this.parentContextStack.pop()![0]);
+                        return result;
+                    }
+                    this.exitRule();
+                    return root;
+                }
+                this.visitRuleStopState(state);
+                continue;
+            }
+
+            try {
+                this.visitState(state);
+            } catch (err) {
+                if (!(err instanceof RecognitionException)) throw err;
+                this.state = this.grammar.atn.ruleToStopState[state.ruleIndex].stateNumber;
+                this._ctx.exception = err;
+                this._errHandler.reportError(this, err);
+                this._errHandler.recover(this, err);
+            }
+        }
+    }
+
+    enterRecursionRule(ctx: ParserRuleContext, state: number, ruleIndex: number, precedence: number): void {
+        this.parentContextStack.push([this._ctx, ctx.invokingState]);
+        super.enterRecursionRule(ctx, state, ruleIndex, precedence);
+    }
+
+    private visitState(state: AtnState): void {
+        let alternative = 1;
+        if (state.transitions.length > 1) {
+            this._errHandler.sync(this);
+            alternative = this._interp.adaptivePredict(this._input, state.decision, this._ctx);
+        }
+
+        const transition = state.transitions[alternative - 1];
+        switch (transition.serializationType) {
+            case Transition.EPSILON:
+                // Entering the operator loop of a left-recursive rule nests the operand so far
+                if (state.stateType === STAR_LOOP_ENTRY && state.isPrecedenceDecision && transition.target.stateType !== LOOP_END) {
+                    const [parent, invokingState] = this.parentContextStack[this.parentContextStack.length - 1];
+                    const ruleIndex = (this._ctx as InterpreterRuleContext).ruleIndex;
+                    const ctx = new InterpreterRuleContext(parent, invokingState, ruleIndex);
+                    this.pushNewRecursionContext(ctx, this.grammar.atn.ruleToStartState[state.ruleIndex].stateNumber, ruleIndex);
+                }
+                break;
+            case Transition.ATOM:
+                this.match(transition.label_!);
+                break;
+            case Transition.RANGE:
+            case Transition.SET:
+            case Transition.NOT_SET:
+                if (transition.matches(this._input.LA(1), 1, this.symbolicNames.length - 1)) {
+                    this._errHandler.reportMatch(this);
+                    this.consume();
+                } else {
+                    this._errHandler.recoverInline(this);
+                }
+                break;
+            case Transition.WILDCARD:
+                this.matchWildcard();
+                break;
+            case Transition.RULE: {
+                const ruleStart = transition.target;
+                const ctx = new InterpreterRuleContext(this._ctx, state.stateNumber, ruleStart.ruleIndex);
+                if (ruleStart.isPrecedenceRule) {
+                    this.enterRecursionRule(ctx, ruleStart.stateNumber, ruleStart.ruleIndex, transition.precedence!);
+                } else {
+                    this.enterRule(ctx, ruleStart.stateNumber, ruleStart.ruleIndex);
+                }
+                break;
+            }
+            case Transition.PRECEDENCE:
+                if (!this.precpred(this._ctx, transition.precedence!)) {
+                    throw new FailedPredicateException(this, `precpred(_ctx, ${transition.precedence})`, undefined);
+                }
+                break;
+            case Transition.PREDICATE:
+            case Transition.ACTION:
+                // Target code isn't run: predicates hold and actions do nothing
+                break;
+            default:
+                throw new Error(`Unsupported ATN transition type ${transition.serializationType}`);
+        }
+        this.state = transition.target.stateNumber;
+    }
+
+    private visitRuleStopState(state: AtnState): void {
+        const ruleStart = this.stateAt(this.grammar.atn.ruleToStartState[state.ruleIndex].stateNumber);
+        if (ruleStart.isPrecedenceRule) {
+            const [parent, invokingState] = this.parentContextStack.pop()!;
+            this.unrollRecursionContexts(parent);
+            this.state = invokingState;
+        } else {
+            this.exitRule();
+        }
+        // Continue after the rule reference that invoked the rule
+        this.state = this.stateAt(this.state).transitions[0].followState!.stateNumber;
+    }
+
+    private stateAt(stateNumber: number): AtnState {
+        return this.grammar.atn.states[stateNumber] as unknown as AtnState;
+    }
+}
@@ -0,0 +1,123 @@
+/**
+ * Parse worker for grammars generated with the TypeScript or JavaScript target.
+ * It speaks the same JSON-lines protocol as java/ParseWorker.java and runs the
+ * generated lexer and parser on the antlr4 JavaScript runtime, so grammar actions
+ * and predicates run as they would in the application using the grammar.
+ *
+ * The TypeScript target is transpiled to JavaScript when the grammar is built, so
+ * "classDir" holds ES modules: <grammarName>Lexer.js (or <grammarName>.js for a
+ * lexer grammar) and <grammarName>Parser.js, each with the class as default export.
+ *
+ * Profiling and tracing hook into the Java runtime and are not supported here.
+ * Everything else, including the limits, behaves as in the Java worker.
+ *
+ * This file runs as a standalone Node process: JsTargetWorker transpiles it along
+ * with parseSession.ts and points their antlr4 imports at the same module the
+ * generated code imports.
+ */
+import { createInterface } from 'readline';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { existsSync } from 'fs';
+import type { CharStream, TokenStream } from 'antlr4';
+import { runParseSession } from './parseSession';
+import type { RuntimeContext, RuntimeLexer, RuntimeParser } from './parseSession';
+
+interface ParseRequest {
+    id: unknown;
+    classDir: string;
+    grammarName: string;
+    startRule?: string;
+    input: string;
+    profile?: boolean;
+    trace?: boolean;
+    ambiguities?: boolean;
+    timeoutMs?: number;
+    maxTreeNodes?: number;
+}
+
+function main(): void {
+    // Keep stdout for the protocol; anything grammar actions print goes to stderr
+    const write = process.stdout.write.bind(process.stdout);
+    console.log = console.error;
+    console.info = console.error;
+
+    // Requests are handled one at a time, in order, like the Java worker does
+    let queue = Promise.resolve();
+    createInterface({ input: process.stdin }).on('line', line => {
+        if (line.trim() === '') return;
+        queue = queue.then(async () => {
+            write(await handle(line) + '\n');
+        });
+    });
+}
+
+/**
+ * Handle a single request line and return the response line
+ */
+async function handle(line: string): Promise<string> {
+    let id: unknown = null;
+    try {
+        const request = JSON.parse(line) as ParseRequest;
+        id = request.id;
+        return JSON.stringify(await parse(request));
+    } catch (err) {
+        return JSON.stringify({ id, error: String(err) });
+    }
+}
+
+async function parse(request: ParseRequest) {
+    const { id, classDir, grammarName, startRule, input } = request;
+    const requestStart = performance.now();
+    if (typeof classDir !== 'string' || typeof grammarName !== 'string' || typeof input !== 'string') {
+        throw new Error('Invalid request: classDir, grammarName and input must be strings');
+    }
+    if (request.profile || request.trace) {
+        throw new Error('Profiling and tracing need the Java target');
+    }
+
+    const Lexer = await loadRecognizer(classDir, [`${grammarName}Lexer`, grammarName], 'lexer');
+    // Without a start rule only the lexer runs, so a lexer grammar needs no parser
+    const Parser = startRule !== undefined
+        ? await loadRecognizer(classDir, [`${grammarName}Parser`], 'parser')
+        : null;
+
+    const result = runParseSession({
+        createLexer: chars => new Lexer(chars) as RuntimeLexer,
+        createParser: Parser ? tokens => {
+            const parser = new Parser(tokens) as RuntimeParser;
+            const rule = parser[startRule!];
+            if (!parser.ruleNames.includes(startRule!) || typeof rule !== 'function') {
+                throw new Error(`No method for rule ${startRule}`);
+            }
+            return { parser, parse: () => rule.call(parser) as RuntimeContext };
+        } : undefined,
+    }, {
+        input,
+        timeoutMs: request.timeoutMs,
+        maxTreeNodes: request.maxTreeNodes,
+        startTime: requestStart,
+        ambiguities: request.ambiguities === true,
+    });
+    return { id, ...result };
+}
+
+/**
+ * Import the first of the named modules that exists and return its default export
+ */
+async function loadRecognizer(
+    classDir: string,
+    names: string[],
+    kind: 'lexer' | 'parser'
+): Promise<new (input: CharStream | TokenStream) => unknown> {
+    for (const name of names) {
+        const file = join(classDir, `${name}.js`);
+        if (existsSync(file)) {
+            const module = await import(pathToFileURL(file).href);
+            if (typeof module.default === 'function') return module.default;
+        }
+    }
+    throw new Error(`Can't load ${names[0]} as ${kind}`);
+}
+
+main();
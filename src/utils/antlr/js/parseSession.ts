@@ -0,0 +1,494 @@
+/**
+ * Runs a lexer and parser over an input on the antlr4 JavaScript runtime and
+ * collects what the parse workers report: tokens with their modes, the parse
+ * tree, syntax errors, ambiguities and mode transitions, within the time and
+ * tree size limits.
+ *
+ * The recognizers come from the caller: parseRunner.ts loads the ones
+ * generated for the TypeScript or JavaScript target, and the grammar
+ * interpreter builds them from the grammar's ATN (see interpreter.ts).
+ * This module only depends on the runtime, so it runs in the browser too.
+ */
+import { CharStreams, CommonTokenStream, PredictionMode } from 'antlr4';
+import type { CharStream, Lexer as BaseLexer, TokenStream } from 'antlr4';
+
+/** Token as created by the runtime; conjured tokens have tokenIndex -1 */
+export interface RuntimeToken {
+    type: number;
+    channel: number;
+    start: number;
+    stop: number;
+    line: number;
+    column: number;
+    tokenIndex: number;
+    text: string | null;
+}
+
+export interface RuntimeContext {
+    ruleIndex: number;
+    start: RuntimeToken | null;
+    stop: RuntimeToken | null;
+    parentCtx: RuntimeContext | null;
+    children: Array<RuntimeContext | RuntimeTerminal> | null;
+}
+
+export interface RuntimeTerminal {
+    symbol: RuntimeToken;
+    isErrorNode?: () => boolean;
+}
+
+interface IntervalSetLike {
+    /** Stop is exclusive in the JavaScript runtime */
+    intervals: Array<{ start: number; stop: number }> | null;
+}
+
+export interface RecognizerNames {
+    ruleNames: string[];
+    literalNames: Array<string | null>;
+    symbolicNames: Array<string | null>;
+}
+
+interface ErrorListenerLike {
+    syntaxError(...args: unknown[]): void;
+    reportAmbiguity(...args: unknown[]): void;
+    reportAttemptingFullContext(...args: unknown[]): void;
+    reportContextSensitivity(...args: unknown[]): void;
+}
+
+export interface RuntimeLexer extends RecognizerNames {
+    channelNames?: string[];
+    modeNames?: string[];
+    atn: { ruleToTokenType: number[] };
+    _input: CharStream;
+    _mode: number;
+    _modeStack: number[];
+    _tokenStartCharIndex: number;
+    _tokenStartLine: number;
+    _tokenStartColumn: number;
+    _interp: { match(input: CharStream, mode: number): number };
+    _factory: { create(...args: unknown[]): RuntimeToken };
+    removeErrorListeners(): void;
+    addErrorListener(listener: ErrorListenerLike): void;
+}
+
+export interface RuntimeParser extends RecognizerNames {
+    _interp: { predictionMode: number };
+    removeErrorListeners(): void;
+    addErrorListener(listener: ErrorListenerLike): void;
+    addParseListener(listener: object): void;
+    getExpectedTokens(): IntervalSetLike;
+    [rule: string]: unknown;
+}
+
+export type TreeNode = Record<string, unknown>;
+
+const EOF = -1;
+
+/**
+ * Thrown from the parse listener to stop the parse when a limit is exceeded
+ */
+export class LimitExceededError extends Error {
+    limit: string;
+    /** Where the parse or lexer stopped */
+    token: Pick<RuntimeToken, 'line' | 'column'>;
+
+    constructor(limit: string, message: string, token: Pick<RuntimeToken, 'line' | 'column'>) {
+        super(message);
+        this.limit = limit;
+        this.token = token;
+    }
+
+    toJson() {
+        return {
+            line: this.token.line,
+            column: this.token.column,
+            message: this.message,
+            severity: 'error',
+            source: 'limit',
+            limit: this.limit,
+        };
+    }
+}
+
+/**
+ * Error listener methods the runtime calls that the listeners here don't need
+ */
+const ignoredReports = {
+    syntaxError() {},
+    reportAmbiguity() {},
+    reportAttemptingFullContext() {},
+    reportContextSensitivity() {},
+};
+
+/**
+ * Recognizers a session runs: generated ones, or interpreters of a grammar's ATN
+ */
+export interface SessionRecognizers {
+    createLexer(input: CharStream): RuntimeLexer;
+    /**
+     * Create the parser along with a function that runs the start rule.
+     * Absent when the input is only tokenized.
+     */
+    createParser?(tokens: TokenStream): { parser: RuntimeParser; parse(): RuntimeContext };
+}
+
+export interface SessionOptions {
+    input: string;
+    /** Stop after this long, keeping the partial result (0 for no limit) */
+    timeoutMs?: number;
+    /** Stop the parse once the tree has this many nodes (0 for no limit) */
+    maxTreeNodes?: number;
+    /** When the request arrived; the time limit counts from here */
+    startTime?: number;
+    /** Parse with exact ambiguity detection, which is slower, and report the ambiguities */
+    ambiguities?: boolean;
+}
+
+/** Result in the parse worker protocol's format */
+export interface SessionResult {
+    tokens: object[];
+    tree: TreeNode | null;
+    errors: object[];
+    ambiguities: object[];
+    modeTransitions: object[];
+    timing: { lexMs: number; parseMs: number };
+}
+
+/** Tokens lexed between checks of the time limit */
+const LEX_BATCH = 1000;
+
+export function runParseSession(recognizers: SessionRecognizers, options: SessionOptions): SessionResult {
+    const timeoutMs = options.timeoutMs ?? 0;
+    const deadline = timeoutMs ? (options.startTime ?? performance.now()) + timeoutMs : 0;
+
+    const errors: object[] = [];
+    const lexer = recognizers.createLexer(CharStreams.fromString(options.input));
+    lexer.removeErrorListeners();
+    lexer.addErrorListener(collectingErrorListener('lexer', errors));
+    const modes = trackModes(lexer);
+
+    const tokenStream = new CommonTokenStream(lexer as unknown as BaseLexer);
+    const lexStart = performance.now();
+    let lexed = true;
+    try {
+        fillTokens(tokenStream, lexer, deadline, timeoutMs);
+    } catch (err) {
+        if (!(err instanceof LimitExceededError)) throw err;
+        // Parsing would lex the rest of the input, so keep just the tokens
+        errors.push(err.toJson());
+        lexed = false;
+    }
+    const lexMs = performance.now() - lexStart;
+    const tokens = (tokenStream as unknown as { tokens: RuntimeToken[] }).tokens;
+
+    let parser: RuntimeParser | null = null;
+    let tree: RuntimeContext | null = null;
+    const ambiguities: object[] = [];
+    let parseMs = 0;
+    if (recognizers.createParser && lexed) {
+        const created = recognizers.createParser(tokenStream);
+        parser = created.parser;
+        parser.removeErrorListeners();
+        parser.addErrorListener(collectingErrorListener('parser', errors, parser));
+        const limits = limitListener(deadline, timeoutMs, options.maxTreeNodes ?? 0);
+        parser.addParseListener(limits);
+
+        if (options.ambiguities) {
+            // Report real ambiguities instead of silently picking the lowest alternative
+            parser.addErrorListener(ambiguityListener(parser, ambiguities));
+            parser._interp.predictionMode = PredictionMode.LL_EXACT_AMBIG_DETECTION;
+        }
+
+        const parseStart = performance.now();
+        try {
+            tree = created.parse();
+        } catch (err) {
+            if (!(err instanceof LimitExceededError)) throw err;
+            // Rules unwound through their finally blocks, so the tree built so far is consistent
+            errors.push(err.toJson());
+            tree = limits.root;
+        }
+        parseMs = performance.now() - parseStart;
+    }
+
+    const names: RecognizerNames = parser ?? lexer;
+    return {
+        tokens: tokens.map(token => ({
+            tokenIndex: token.tokenIndex,
+            start: token.start,
+            stop: token.stop,
+            text: token.text,
+            type: displayName(names, token.type),
+            line: token.line,
+            column: token.column,
+            channel: token.channel,
+            channelName: channelName(lexer, token.channel),
+            typeName: token.type === EOF ? 'EOF' : names.symbolicNames[token.type] ?? undefined,
+            literal: names.literalNames[token.type] ?? undefined,
+            ...modes.details.get(token),
+        })),
+        tree: tree && parser ? serializeTree(tree, parser.ruleNames) : null,
+        errors,
+        ambiguities,
+        modeTransitions: modes.transitions,
+        timing: { lexMs, parseMs },
+    };
+}
+
+/**
+ * Lex the whole input like CommonTokenStream.fill(), checking the time limit
+ * between batches of tokens
+ */
+function fillTokens(stream: CommonTokenStream, lexer: RuntimeLexer, deadline: number, timeoutMs: number): void {
+    const buffered = stream as unknown as { lazyInit(): void; fetch(count: number): number };
+    buffered.lazyInit();
+    while (buffered.fetch(LEX_BATCH) === LEX_BATCH) {
+        if (deadline > 0 && performance.now() > deadline) {
+            throw new LimitExceededError(
+                'timeoutMs',
+                `Parse stopped: tokenizing exceeded the time limit of ${timeoutMs}ms`,
+                { line: lexer._tokenStartLine, column: lexer._tokenStartColumn }
+            );
+        }
+    }
+}
+
+/**
+ * Record the lexer rule and modes of every token, and every match that changed
+ * the mode or the mode stack. Lexer actions such as pushMode have already run
+ * when a token is created, so its stack reflects the mode after the token.
+ */
+function trackModes(lexer: RuntimeLexer) {
+    const details = new Map<RuntimeToken, { rule?: string; mode: string; modeStack: string[] }>();
+    const transitions: object[] = [];
+    const modeName = (mode: number) => lexer.modeNames?.[mode] ?? String(mode);
+    const modeStack = (stack: number[], mode: number) => [...stack, mode].map(modeName);
+
+    // Fragment rules define no token type
+    const tokenTypeRules: string[] = [];
+    lexer.atn.ruleToTokenType.forEach((type, rule) => {
+        if (type > 0) tokenTypeRules[type] = lexer.ruleNames[rule];
+    });
+
+    let tokenStart = -1;
+    let matchMode = 0;
+    let matchRule: string | undefined;
+    const simulator = lexer._interp;
+    const match = simulator.match.bind(simulator);
+    simulator.match = (input, mode) => {
+        if (lexer._tokenStartCharIndex !== tokenStart) {
+            tokenStart = lexer._tokenStartCharIndex;
+            matchMode = mode;
+        }
+        const stackBefore = [...lexer._modeStack];
+        const type = match(input, mode);
+        matchRule = tokenTypeRules[type];
+
+        // Lexer actions such as pushMode and popMode ran as part of the match
+        const stackAfter = lexer._modeStack;
+        if (lexer._mode !== mode || stackBefore.join() !== stackAfter.join()) {
+            transitions.push({
+                startIndex: lexer._tokenStartCharIndex,
+                line: lexer._tokenStartLine,
+                column: lexer._tokenStartColumn,
+                rule: matchRule ?? null,
+                from: modeStack(stackBefore, mode),
+                to: modeStack(stackAfter, lexer._mode),
+            });
+        }
+        return type;
+    };
+
+    const factory = lexer._factory;
+    lexer._factory = {
+        create: (...args) => {
+            const token = factory.create(...args);
+            details.set(token, {
+                rule: token.type !== EOF ? matchRule : undefined,
+                mode: modeName(matchMode),
+                modeStack: modeStack(lexer._modeStack, lexer._mode),
+            });
+            return token;
+        },
+    };
+
+    return { details, transitions };
+}
+
+/**
+ * Collects syntax errors as ParseError objects
+ */
+function collectingErrorListener(
+    source: 'lexer' | 'parser',
+    errors: object[],
+    parser?: RuntimeParser
+): ErrorListenerLike {
+    return {
+        ...ignoredReports,
+        syntaxError(recognizer, offendingSymbol, line, column, message, e) {
+            const token = offendingSymbol as RuntimeToken | null;
+            const lexer = recognizer as RuntimeLexer;
+            // Same text the lexer puts in its "token recognition error" message
+            const offendingToken = token
+                ? token.text
+                : source === 'lexer'
+                    ? lexer._input.getText(lexer._tokenStartCharIndex, lexer._input.index)
+                    : undefined;
+
+            const expected = parser ? expectedTokens(parser, e as { getExpectedTokens?: () => IntervalSetLike | null }) : [];
+            errors.push({
+                line,
+                column,
+                message,
+                severity: 'error',
+                source,
+                offendingToken: offendingToken ?? undefined,
+                expected: expected.length > 0 ? expected : undefined,
+            });
+        },
+    };
+}
+
+function expectedTokens(
+    parser: RuntimeParser,
+    e: { getExpectedTokens?: () => IntervalSetLike | null } | null | undefined
+): string[] {
+    try {
+        const expected = e?.getExpectedTokens ? e.getExpectedTokens() : parser.getExpectedTokens();
+        const names: string[] = [];
+        for (const interval of expected?.intervals ?? []) {
+            for (let type = interval.start; type < interval.stop; type++) {
+                names.push(displayName(parser, type));
+            }
+        }
+        return names;
+    } catch {
+        // Expected set is not available in every recovery state
+        return [];
+    }
+}
+
+/**
+ * Collects ambiguities and context sensitivities in the Java worker's format
+ */
+function ambiguityListener(parser: RuntimeParser, ambiguities: object[]): ErrorListenerLike {
+    interface Dfa {
+        decision: number;
+        atnStartState: { ruleIndex: number };
+    }
+    interface AltSet {
+        values(): number[];
+    }
+    interface ConfigSet {
+        getAlts?: () => AltSet;
+        configs?: Array<{ alt: number }>;
+    }
+
+    const alternativesOf = (configs: ConfigSet): number[] => {
+        if (configs.getAlts) return configs.getAlts().values();
+        return [...new Set((configs.configs ?? []).map(c => c.alt))].sort((a, b) => a - b);
+    };
+    const add = (kind: string, dfa: Dfa, startToken: number, stopToken: number, alternatives: number[], prediction: number, exact: boolean) => {
+        ambiguities.push({
+            kind,
+            decision: dfa.decision,
+            ruleName: parser.ruleNames[dfa.atnStartState.ruleIndex],
+            alternatives,
+            prediction,
+            exact,
+            startToken,
+            stopToken,
+        });
+    };
+
+    return {
+        ...ignoredReports,
+        reportAmbiguity(_recognizer, dfa, startIndex, stopIndex, exact, ambigAlts, configs) {
+            const alternatives = ambigAlts ? (ambigAlts as AltSet).values() : alternativesOf(configs as ConfigSet);
+            // The parser resolves ambiguities in favour of the lowest alternative
+            add('ambiguity', dfa as Dfa, startIndex as number, stopIndex as number, alternatives, alternatives[0], exact as boolean);
+        },
+        reportContextSensitivity(_recognizer, dfa, startIndex, stopIndex, prediction, configs) {
+            add('contextSensitivity', dfa as Dfa, startIndex as number, stopIndex as number, alternativesOf(configs as ConfigSet), prediction as number, true);
+        },
+    };
+}
+
+/**
+ * Enforces the time and tree size limits and remembers the root context, which
+ * the start rule never returns when the parse is stopped. Limits are only checked
+ * after a token is consumed: throwing from enterEveryRule would skip the rule's
+ * exitRule() and leave the tree inconsistent.
+ */
+function limitListener(deadline: number, timeoutMs: number, maxTreeNodes: number) {
+    let nodes = 0;
+    const consumed = (token: RuntimeToken) => {
+        nodes++;
+        if (maxTreeNodes > 0 && nodes > maxTreeNodes) {
+            throw new LimitExceededError(
+                'maxTreeNodes',
+                `Parse stopped: the parse tree exceeded the limit of ${maxTreeNodes} nodes`,
+                token
+            );
+        }
+        if (deadline > 0 && performance.now() > deadline) {
+            throw new LimitExceededError(
+                'timeoutMs',
+                `Parse stopped: parsing exceeded the time limit of ${timeoutMs}ms`,
+                token
+            );
+        }
+    };
+
+    const listener = {
+        root: null as RuntimeContext | null,
+        enterEveryRule(ctx: RuntimeContext) {
+            // Left-recursive rules replace the root with a new context as they grow
+            if (ctx.parentCtx === null) {
+                listener.root = ctx;
+            }
+            nodes++;
+        },
+        exitEveryRule() {},
+        visitTerminal(node: RuntimeTerminal) {
+            consumed(node.symbol);
+        },
+        visitErrorNode(node: RuntimeTerminal) {
+            consumed(node.symbol);
+        },
+    };
+    return listener;
+}
+
+function serializeTree(node: RuntimeContext | RuntimeTerminal, ruleNames: string[]): TreeNode {
+    if ('symbol' in node) {
+        const symbol = node.symbol;
+        return {
+            type: node.isErrorNode?.() ? 'error' : 'token',
+            tokenIndex: symbol.tokenIndex,
+            text: symbol.tokenIndex < 0 ? symbol.text : undefined,
+        };
+    }
+
+    return {
+        type: 'rule',
+        name: ruleNames[node.ruleIndex],
+        start: node.start?.tokenIndex,
+        stop: node.stop?.tokenIndex,
+        children: (node.children ?? []).map(child => serializeTree(child, ruleNames)),
+    };
+}
+
+/**
+ * Literal name, symbolic name or number of a token type, like Vocabulary.getDisplayName
+ */
+function displayName(names: RecognizerNames, type: number): string {
+    if (type === EOF) return 'EOF';
+    return names.literalNames[type] ?? names.symbolicNames[type] ?? String(type);
+}
+
+function channelName(lexer: RuntimeLexer, channel: number): string {
+    const name = lexer.channelNames?.[channel];
+    if (name) return name;
+    return channel === 1 ? 'HIDDEN' : String(channel);
+}
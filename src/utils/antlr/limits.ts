@@ -0,0 +1,38 @@
+import type { ParseLimits } from './types';
+
+/** Limits applied when the workspace doesn't configure its own */
+export const DEFAULT_PARSE_LIMITS: ParseLimits = {
+    timeoutMs: 120000,
+    maxInputBytes: 10 * 1024 * 1024,
+    maxTreeNodes: 500000,
+};
+
+/**
+ * Check parse limits sent for the workspace settings or read from a project file.
+ * Every given limit must be a positive integer; missing ones use the defaults.
+ * Returns an error message, or null if the limits are valid.
+ */
+export function validateParseLimits(limits: unknown): string | null {
+    if (limits === undefined) {
+        return null;
+    }
+    if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+        return 'parseLimits must be an object';
+    }
+
+    for (const [key, value] of Object.entries(limits)) {
+        if (!(key in DEFAULT_PARSE_LIMITS)) {
+            return `Unknown parse limit: ${key}`;
+        }
+        if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+            return `${key} must be a positive integer`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Grammar sets up to this size are interpreted instead of generated and
+ * compiled, unless they have actions or predicates
+ */
+export const INTERPRET_MAX_GRAMMAR_CHARS = 32 * 1024;
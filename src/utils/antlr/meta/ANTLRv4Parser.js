@@ -0,0 +1,5679 @@
+// jshint ignore: start
+import antlr4 from 'antlr4';
+const serializedATN = [4,1,61,652,2,0,7,0,2,1,7,1,2,2,7,2,2,3,7,3,2,4,7,
+4,2,5,7,5,2,6,7,6,2,7,7,7,2,8,7,8,2,9,7,9,2,10,7,10,2,11,7,11,2,12,7,12,
+2,13,7,13,2,14,7,14,2,15,7,15,2,16,7,16,2,17,7,17,2,18,7,18,2,19,7,19,2,
+20,7,20,2,21,7,21,2,22,7,22,2,23,7,23,2,24,7,24,2,25,7,25,2,26,7,26,2,27,
+7,27,2,28,7,28,2,29,7,29,2,30,7,30,2,31,7,31,2,32,7,32,2,33,7,33,2,34,7,
+34,2,35,7,35,2,36,7,36,2,37,7,37,2,38,7,38,2,39,7,39,2,40,7,40,2,41,7,41,
+2,42,7,42,2,43,7,43,2,44,7,44,2,45,7,45,2,46,7,46,2,47,7,47,2,48,7,48,2,
+49,7,49,2,50,7,50,2,51,7,51,2,52,7,52,2,53,7,53,2,54,7,54,2,55,7,55,2,56,
+7,56,2,57,7,57,2,58,7,58,2,59,7,59,2,60,7,60,2,61,7,61,2,62,7,62,2,63,7,
+63,2,64,7,64,2,65,7,65,2,66,7,66,1,0,1,0,5,0,137,8,0,10,0,12,0,140,9,0,1,
+0,1,0,5,0,144,8,0,10,0,12,0,147,9,0,1,0,1,0,1,1,1,1,1,1,1,1,1,2,1,2,1,2,
+1,2,1,2,3,2,160,8,2,1,3,1,3,1,3,1,3,1,3,3,3,167,8,3,1,4,1,4,1,4,1,4,5,4,
+173,8,4,10,4,12,4,176,9,4,1,4,1,4,1,5,1,5,1,5,1,5,1,6,1,6,1,6,5,6,187,8,
+6,10,6,12,6,190,9,6,1,6,1,6,1,6,3,6,195,8,6,1,7,1,7,1,7,1,7,5,7,201,8,7,
+10,7,12,7,204,9,7,1,7,1,7,1,8,1,8,1,8,1,8,1,8,3,8,213,8,8,1,9,1,9,3,9,217,
+8,9,1,9,1,9,1,10,1,10,3,10,223,8,10,1,10,1,10,1,11,1,11,1,11,5,11,230,8,
+11,10,11,12,11,233,9,11,1,11,3,11,236,8,11,1,12,1,12,1,12,1,12,3,12,242,
+8,12,1,12,1,12,1,12,1,13,1,13,1,13,3,13,250,8,13,1,14,1,14,5,14,254,8,14,
+10,14,12,14,257,9,14,1,14,1,14,1,15,1,15,5,15,263,8,15,10,15,12,15,266,9,
+15,1,15,1,15,1,16,1,16,1,16,1,16,5,16,274,8,16,10,16,12,16,277,9,16,1,17,
+5,17,280,8,17,10,17,12,17,283,9,17,1,18,1,18,3,18,287,8,18,1,19,3,19,290,
+8,19,1,19,1,19,3,19,294,8,19,1,19,3,19,297,8,19,1,19,3,19,300,8,19,1,19,
+3,19,303,8,19,1,19,5,19,306,8,19,10,19,12,19,309,9,19,1,19,1,19,1,19,1,19,
+1,19,1,20,5,20,317,8,20,10,20,12,20,320,9,20,1,20,3,20,323,8,20,1,21,1,21,
+1,21,1,21,1,22,1,22,1,22,1,23,1,23,3,23,334,8,23,1,24,1,24,1,24,1,25,1,25,
+1,25,1,25,5,25,343,8,25,10,25,12,25,346,9,25,1,26,1,26,1,26,1,27,1,27,1,
+27,1,27,1,28,4,28,356,8,28,11,28,12,28,357,1,29,1,29,1,30,1,30,1,31,1,31,
+1,31,5,31,367,8,31,10,31,12,31,370,9,31,1,32,1,32,1,32,3,32,375,8,32,1,33,
+3,33,378,8,33,1,33,1,33,3,33,382,8,33,1,33,1,33,1,33,1,33,1,34,1,34,1,35,
+1,35,1,35,5,35,393,8,35,10,35,12,35,396,9,35,1,36,1,36,3,36,400,8,36,1,36,
+3,36,403,8,36,1,37,4,37,406,8,37,11,37,12,37,407,1,37,3,37,411,8,37,1,38,
+1,38,3,38,415,8,38,1,38,1,38,3,38,419,8,38,1,38,1,38,3,38,423,8,38,3,38,
+425,8,38,1,39,1,39,1,39,1,39,1,40,1,40,1,40,1,40,5,40,435,8,40,10,40,12,
+40,438,9,40,1,41,1,41,1,41,1,41,1,41,1,41,3,41,446,8,41,1,42,1,42,3,42,450,
+8,42,1,43,1,43,3,43,454,8,43,1,44,1,44,1,44,5,44,459,8,44,10,44,12,44,462,
+9,44,1,45,3,45,465,8,45,1,45,4,45,468,8,45,11,45,12,45,469,1,45,3,45,473,
+8,45,1,46,1,46,1,46,3,46,478,8,46,1,46,1,46,1,46,3,46,483,8,46,1,46,1,46,
+1,46,1,46,3,46,489,8,46,3,46,491,8,46,3,46,493,8,46,1,47,1,47,1,47,1,47,
+5,47,499,8,47,10,47,12,47,502,9,47,1,47,1,47,1,48,1,48,1,48,1,48,1,48,3,
+48,511,8,48,1,49,1,49,1,49,1,49,3,49,517,8,49,1,50,1,50,3,50,521,8,50,1,
+51,1,51,1,52,1,52,3,52,527,8,52,1,52,1,52,3,52,531,8,52,1,52,1,52,3,52,535,
+8,52,3,52,537,8,52,1,53,1,53,1,53,1,53,1,53,3,53,544,8,53,1,54,1,54,1,54,
+1,54,3,54,550,8,54,1,55,1,55,3,55,554,8,55,1,56,1,56,1,56,1,56,3,56,560,
+8,56,1,57,1,57,1,57,1,57,5,57,566,8,57,10,57,12,57,569,9,57,1,57,1,57,1,
+58,1,58,3,58,575,8,58,1,58,1,58,3,58,579,8,58,1,58,1,58,3,58,583,8,58,1,
+59,1,59,3,59,587,8,59,1,59,5,59,590,8,59,10,59,12,59,593,9,59,1,59,3,59,
+596,8,59,1,59,1,59,1,59,1,60,1,60,3,60,603,8,60,1,60,3,60,606,8,60,1,61,
+1,61,1,61,1,61,1,62,1,62,3,62,614,8,62,1,62,1,62,3,62,618,8,62,3,62,620,
+8,62,1,63,1,63,1,63,1,63,5,63,626,8,63,10,63,12,63,629,9,63,1,63,1,63,1,
+64,1,64,1,64,1,64,1,64,3,64,638,8,64,3,64,640,8,64,1,65,1,65,1,66,1,66,1,
+66,5,66,647,8,66,10,66,12,66,650,9,66,1,66,0,0,67,0,2,4,6,8,10,12,14,16,
+18,20,22,24,26,28,30,32,34,36,38,40,42,44,46,48,50,52,54,56,58,60,62,64,
+66,68,70,72,74,76,78,80,82,84,86,88,90,92,94,96,98,100,102,104,106,108,110,
+112,114,116,118,120,122,124,126,128,130,132,0,3,2,0,16,16,20,22,2,0,40,40,
+43,43,1,0,1,2,687,0,134,1,0,0,0,2,150,1,0,0,0,4,159,1,0,0,0,6,166,1,0,0,
+0,8,168,1,0,0,0,10,179,1,0,0,0,12,194,1,0,0,0,14,196,1,0,0,0,16,212,1,0,
+0,0,18,214,1,0,0,0,20,220,1,0,0,0,22,226,1,0,0,0,24,237,1,0,0,0,26,249,1,
+0,0,0,28,251,1,0,0,0,30,260,1,0,0,0,32,269,1,0,0,0,34,281,1,0,0,0,36,286,
+1,0,0,0,38,289,1,0,0,0,40,318,1,0,0,0,42,324,1,0,0,0,44,328,1,0,0,0,46,333,
+1,0,0,0,48,335,1,0,0,0,50,338,1,0,0,0,52,347,1,0,0,0,54,350,1,0,0,0,56,355,
+1,0,0,0,58,359,1,0,0,0,60,361,1,0,0,0,62,363,1,0,0,0,64,371,1,0,0,0,66,377,
+1,0,0,0,68,387,1,0,0,0,70,389,1,0,0,0,72,402,1,0,0,0,74,410,1,0,0,0,76,424,
+1,0,0,0,78,426,1,0,0,0,80,430,1,0,0,0,82,445,1,0,0,0,84,449,1,0,0,0,86,453,
+1,0,0,0,88,455,1,0,0,0,90,472,1,0,0,0,92,492,1,0,0,0,94,494,1,0,0,0,96,510,
+1,0,0,0,98,512,1,0,0,0,100,518,1,0,0,0,102,522,1,0,0,0,104,536,1,0,0,0,106,
+543,1,0,0,0,108,549,1,0,0,0,110,551,1,0,0,0,112,559,1,0,0,0,114,561,1,0,
+0,0,116,582,1,0,0,0,118,584,1,0,0,0,120,600,1,0,0,0,122,607,1,0,0,0,124,
+619,1,0,0,0,126,621,1,0,0,0,128,639,1,0,0,0,130,641,1,0,0,0,132,643,1,0,
+0,0,134,138,3,2,1,0,135,137,3,6,3,0,136,135,1,0,0,0,137,140,1,0,0,0,138,
+136,1,0,0,0,138,139,1,0,0,0,139,141,1,0,0,0,140,138,1,0,0,0,141,145,3,34,
+17,0,142,144,3,32,16,0,143,142,1,0,0,0,144,147,1,0,0,0,145,143,1,0,0,0,145,
+146,1,0,0,0,146,148,1,0,0,0,147,145,1,0,0,0,148,149,5,0,0,1,149,1,1,0,0,
+0,150,151,3,4,2,0,151,152,3,130,65,0,152,153,5,32,0,0,153,3,1,0,0,0,154,
+155,5,17,0,0,155,160,5,19,0,0,156,157,5,18,0,0,157,160,5,19,0,0,158,160,
+5,19,0,0,159,154,1,0,0,0,159,156,1,0,0,0,159,158,1,0,0,0,160,5,1,0,0,0,161,
+167,3,8,4,0,162,167,3,14,7,0,163,167,3,18,9,0,164,167,3,20,10,0,165,167,
+3,24,12,0,166,161,1,0,0,0,166,162,1,0,0,0,166,163,1,0,0,0,166,164,1,0,0,
+0,166,165,1,0,0,0,167,7,1,0,0,0,168,174,5,12,0,0,169,170,3,10,5,0,170,171,
+5,32,0,0,171,173,1,0,0,0,172,169,1,0,0,0,173,176,1,0,0,0,174,172,1,0,0,0,
+174,175,1,0,0,0,175,177,1,0,0,0,176,174,1,0,0,0,177,178,5,36,0,0,178,9,1,
+0,0,0,179,180,3,130,65,0,180,181,5,40,0,0,181,182,3,12,6,0,182,11,1,0,0,
+0,183,188,3,130,65,0,184,185,5,48,0,0,185,187,3,130,65,0,186,184,1,0,0,0,
+187,190,1,0,0,0,188,186,1,0,0,0,188,189,1,0,0,0,189,195,1,0,0,0,190,188,
+1,0,0,0,191,195,5,8,0,0,192,195,3,28,14,0,193,195,5,7,0,0,194,183,1,0,0,
+0,194,191,1,0,0,0,194,192,1,0,0,0,194,193,1,0,0,0,195,13,1,0,0,0,196,197,
+5,15,0,0,197,202,3,16,8,0,198,199,5,31,0,0,199,201,3,16,8,0,200,198,1,0,
+0,0,201,204,1,0,0,0,202,200,1,0,0,0,202,203,1,0,0,0,203,205,1,0,0,0,204,
+202,1,0,0,0,205,206,5,32,0,0,206,15,1,0,0,0,207,208,3,130,65,0,208,209,5,
+40,0,0,209,210,3,130,65,0,210,213,1,0,0,0,211,213,3,130,65,0,212,207,1,0,
+0,0,212,211,1,0,0,0,213,17,1,0,0,0,214,216,5,13,0,0,215,217,3,22,11,0,216,
+215,1,0,0,0,216,217,1,0,0,0,217,218,1,0,0,0,218,219,5,36,0,0,219,19,1,0,
+0,0,220,222,5,14,0,0,221,223,3,22,11,0,222,221,1,0,0,0,222,223,1,0,0,0,223,
+224,1,0,0,0,224,225,5,36,0,0,225,21,1,0,0,0,226,231,3,130,65,0,227,228,5,
+31,0,0,228,230,3,130,65,0,229,227,1,0,0,0,230,233,1,0,0,0,231,229,1,0,0,
+0,231,232,1,0,0,0,232,235,1,0,0,0,233,231,1,0,0,0,234,236,5,31,0,0,235,234,
+1,0,0,0,235,236,1,0,0,0,236,23,1,0,0,0,237,241,5,49,0,0,238,239,3,26,13,
+0,239,240,5,30,0,0,240,242,1,0,0,0,241,238,1,0,0,0,241,242,1,0,0,0,242,243,
+1,0,0,0,243,244,3,130,65,0,244,245,3,28,14,0,245,25,1,0,0,0,246,250,3,130,
+65,0,247,250,5,17,0,0,248,250,5,18,0,0,249,246,1,0,0,0,249,247,1,0,0,0,249,
+248,1,0,0,0,250,27,1,0,0,0,251,255,5,11,0,0,252,254,5,60,0,0,253,252,1,0,
+0,0,254,257,1,0,0,0,255,253,1,0,0,0,255,256,1,0,0,0,256,258,1,0,0,0,257,
+255,1,0,0,0,258,259,5,58,0,0,259,29,1,0,0,0,260,264,5,10,0,0,261,263,5,57,
+0,0,262,261,1,0,0,0,263,266,1,0,0,0,264,262,1,0,0,0,264,265,1,0,0,0,265,
+267,1,0,0,0,266,264,1,0,0,0,267,268,5,55,0,0,268,31,1,0,0,0,269,270,5,28,
+0,0,270,271,3,130,65,0,271,275,5,32,0,0,272,274,3,66,33,0,273,272,1,0,0,
+0,274,277,1,0,0,0,275,273,1,0,0,0,275,276,1,0,0,0,276,33,1,0,0,0,277,275,
+1,0,0,0,278,280,3,36,18,0,279,278,1,0,0,0,280,283,1,0,0,0,281,279,1,0,0,
+0,281,282,1,0,0,0,282,35,1,0,0,0,283,281,1,0,0,0,284,287,3,38,19,0,285,287,
+3,66,33,0,286,284,1,0,0,0,286,285,1,0,0,0,287,37,1,0,0,0,288,290,3,56,28,
+0,289,288,1,0,0,0,289,290,1,0,0,0,290,291,1,0,0,0,291,293,5,2,0,0,292,294,
+3,30,15,0,293,292,1,0,0,0,293,294,1,0,0,0,294,296,1,0,0,0,295,297,3,48,24,
+0,296,295,1,0,0,0,296,297,1,0,0,0,297,299,1,0,0,0,298,300,3,50,25,0,299,
+298,1,0,0,0,299,300,1,0,0,0,300,302,1,0,0,0,301,303,3,52,26,0,302,301,1,
+0,0,0,302,303,1,0,0,0,303,307,1,0,0,0,304,306,3,46,23,0,305,304,1,0,0,0,
+306,309,1,0,0,0,307,305,1,0,0,0,307,308,1,0,0,0,308,310,1,0,0,0,309,307,
+1,0,0,0,310,311,5,29,0,0,311,312,3,60,30,0,312,313,5,32,0,0,313,314,3,40,
+20,0,314,39,1,0,0,0,315,317,3,42,21,0,316,315,1,0,0,0,317,320,1,0,0,0,318,
+316,1,0,0,0,318,319,1,0,0,0,319,322,1,0,0,0,320,318,1,0,0,0,321,323,3,44,
+22,0,322,321,1,0,0,0,322,323,1,0,0,0,323,41,1,0,0,0,324,325,5,26,0,0,325,
+326,3,30,15,0,326,327,3,28,14,0,327,43,1,0,0,0,328,329,5,27,0,0,329,330,
+3,28,14,0,330,45,1,0,0,0,331,334,3,8,4,0,332,334,3,54,27,0,333,331,1,0,0,
+0,333,332,1,0,0,0,334,47,1,0,0,0,335,336,5,23,0,0,336,337,3,30,15,0,337,
+49,1,0,0,0,338,339,5,25,0,0,339,344,3,132,66,0,340,341,5,31,0,0,341,343,
+3,132,66,0,342,340,1,0,0,0,343,346,1,0,0,0,344,342,1,0,0,0,344,345,1,0,0,
+0,345,51,1,0,0,0,346,344,1,0,0,0,347,348,5,24,0,0,348,349,3,30,15,0,349,
+53,1,0,0,0,350,351,5,49,0,0,351,352,3,130,65,0,352,353,3,28,14,0,353,55,
+1,0,0,0,354,356,3,58,29,0,355,354,1,0,0,0,356,357,1,0,0,0,357,355,1,0,0,
+0,357,358,1,0,0,0,358,57,1,0,0,0,359,360,7,0,0,0,360,59,1,0,0,0,361,362,
+3,62,31,0,362,61,1,0,0,0,363,368,3,64,32,0,364,365,5,45,0,0,365,367,3,64,
+32,0,366,364,1,0,0,0,367,370,1,0,0,0,368,366,1,0,0,0,368,369,1,0,0,0,369,
+63,1,0,0,0,370,368,1,0,0,0,371,374,3,90,45,0,372,373,5,50,0,0,373,375,3,
+130,65,0,374,372,1,0,0,0,374,375,1,0,0,0,375,65,1,0,0,0,376,378,5,16,0,0,
+377,376,1,0,0,0,377,378,1,0,0,0,378,379,1,0,0,0,379,381,5,1,0,0,380,382,
+3,8,4,0,381,380,1,0,0,0,381,382,1,0,0,0,382,383,1,0,0,0,383,384,5,29,0,0,
+384,385,3,68,34,0,385,386,5,32,0,0,386,67,1,0,0,0,387,388,3,70,35,0,388,
+69,1,0,0,0,389,394,3,72,36,0,390,391,5,45,0,0,391,393,3,72,36,0,392,390,
+1,0,0,0,393,396,1,0,0,0,394,392,1,0,0,0,394,395,1,0,0,0,395,71,1,0,0,0,396,
+394,1,0,0,0,397,399,3,74,37,0,398,400,3,80,40,0,399,398,1,0,0,0,399,400,
+1,0,0,0,400,403,1,0,0,0,401,403,1,0,0,0,402,397,1,0,0,0,402,401,1,0,0,0,
+403,73,1,0,0,0,404,406,3,76,38,0,405,404,1,0,0,0,406,407,1,0,0,0,407,405,
+1,0,0,0,407,408,1,0,0,0,408,411,1,0,0,0,409,411,1,0,0,0,410,405,1,0,0,0,
+410,409,1,0,0,0,411,75,1,0,0,0,412,414,3,106,53,0,413,415,3,104,52,0,414,
+413,1,0,0,0,414,415,1,0,0,0,415,425,1,0,0,0,416,418,3,78,39,0,417,419,3,
+104,52,0,418,417,1,0,0,0,418,419,1,0,0,0,419,425,1,0,0,0,420,422,3,28,14,
+0,421,423,5,41,0,0,422,421,1,0,0,0,422,423,1,0,0,0,423,425,1,0,0,0,424,412,
+1,0,0,0,424,416,1,0,0,0,424,420,1,0,0,0,425,77,1,0,0,0,426,427,5,33,0,0,
+427,428,3,70,35,0,428,429,5,34,0,0,429,79,1,0,0,0,430,431,5,37,0,0,431,436,
+3,82,41,0,432,433,5,31,0,0,433,435,3,82,41,0,434,432,1,0,0,0,435,438,1,0,
+0,0,436,434,1,0,0,0,436,437,1,0,0,0,437,81,1,0,0,0,438,436,1,0,0,0,439,440,
+3,84,42,0,440,441,5,33,0,0,441,442,3,86,43,0,442,443,5,34,0,0,443,446,1,
+0,0,0,444,446,3,84,42,0,445,439,1,0,0,0,445,444,1,0,0,0,446,83,1,0,0,0,447,
+450,3,130,65,0,448,450,5,28,0,0,449,447,1,0,0,0,449,448,1,0,0,0,450,85,1,
+0,0,0,451,454,3,130,65,0,452,454,5,7,0,0,453,451,1,0,0,0,453,452,1,0,0,0,
+454,87,1,0,0,0,455,460,3,90,45,0,456,457,5,45,0,0,457,459,3,90,45,0,458,
+456,1,0,0,0,459,462,1,0,0,0,460,458,1,0,0,0,460,461,1,0,0,0,461,89,1,0,0,
+0,462,460,1,0,0,0,463,465,3,126,63,0,464,463,1,0,0,0,464,465,1,0,0,0,465,
+467,1,0,0,0,466,468,3,92,46,0,467,466,1,0,0,0,468,469,1,0,0,0,469,467,1,
+0,0,0,469,470,1,0,0,0,470,473,1,0,0,0,471,473,1,0,0,0,472,464,1,0,0,0,472,
+471,1,0,0,0,473,91,1,0,0,0,474,477,3,98,49,0,475,478,3,104,52,0,476,478,
+1,0,0,0,477,475,1,0,0,0,477,476,1,0,0,0,478,493,1,0,0,0,479,482,3,108,54,
+0,480,483,3,104,52,0,481,483,1,0,0,0,482,480,1,0,0,0,482,481,1,0,0,0,483,
+493,1,0,0,0,484,493,3,100,50,0,485,490,3,28,14,0,486,488,5,41,0,0,487,489,
+3,94,47,0,488,487,1,0,0,0,488,489,1,0,0,0,489,491,1,0,0,0,490,486,1,0,0,
+0,490,491,1,0,0,0,491,493,1,0,0,0,492,474,1,0,0,0,492,479,1,0,0,0,492,484,
+1,0,0,0,492,485,1,0,0,0,493,93,1,0,0,0,494,495,5,38,0,0,495,500,3,96,48,
+0,496,497,5,31,0,0,497,499,3,96,48,0,498,496,1,0,0,0,499,502,1,0,0,0,500,
+498,1,0,0,0,500,501,1,0,0,0,501,503,1,0,0,0,502,500,1,0,0,0,503,504,5,39,
+0,0,504,95,1,0,0,0,505,511,3,128,64,0,506,507,3,130,65,0,507,508,5,40,0,
+0,508,509,3,28,14,0,509,511,1,0,0,0,510,505,1,0,0,0,510,506,1,0,0,0,511,
+97,1,0,0,0,512,513,3,130,65,0,513,516,7,1,0,0,514,517,3,108,54,0,515,517,
+3,118,59,0,516,514,1,0,0,0,516,515,1,0,0,0,517,99,1,0,0,0,518,520,3,118,
+59,0,519,521,3,102,51,0,520,519,1,0,0,0,520,521,1,0,0,0,521,101,1,0,0,0,
+522,523,3,104,52,0,523,103,1,0,0,0,524,526,5,41,0,0,525,527,5,41,0,0,526,
+525,1,0,0,0,526,527,1,0,0,0,527,537,1,0,0,0,528,530,5,42,0,0,529,531,5,41,
+0,0,530,529,1,0,0,0,530,531,1,0,0,0,531,537,1,0,0,0,532,534,5,44,0,0,533,
+535,5,41,0,0,534,533,1,0,0,0,534,535,1,0,0,0,535,537,1,0,0,0,536,524,1,0,
+0,0,536,528,1,0,0,0,536,532,1,0,0,0,537,105,1,0,0,0,538,544,3,122,61,0,539,
+544,3,124,62,0,540,544,3,112,56,0,541,544,5,3,0,0,542,544,3,110,55,0,543,
+538,1,0,0,0,543,539,1,0,0,0,543,540,1,0,0,0,543,541,1,0,0,0,543,542,1,0,
+0,0,544,107,1,0,0,0,545,550,3,124,62,0,546,550,3,120,60,0,547,550,3,112,
+56,0,548,550,3,110,55,0,549,545,1,0,0,0,549,546,1,0,0,0,549,547,1,0,0,0,
+549,548,1,0,0,0,550,109,1,0,0,0,551,553,5,48,0,0,552,554,3,126,63,0,553,
+552,1,0,0,0,553,554,1,0,0,0,554,111,1,0,0,0,555,556,5,51,0,0,556,560,3,116,
+58,0,557,558,5,51,0,0,558,560,3,114,57,0,559,555,1,0,0,0,559,557,1,0,0,0,
+560,113,1,0,0,0,561,562,5,33,0,0,562,567,3,116,58,0,563,564,5,45,0,0,564,
+566,3,116,58,0,565,563,1,0,0,0,566,569,1,0,0,0,567,565,1,0,0,0,567,568,1,
+0,0,0,568,570,1,0,0,0,569,567,1,0,0,0,570,571,5,34,0,0,571,115,1,0,0,0,572,
+574,5,1,0,0,573,575,3,126,63,0,574,573,1,0,0,0,574,575,1,0,0,0,575,583,1,
+0,0,0,576,578,5,8,0,0,577,579,3,126,63,0,578,577,1,0,0,0,578,579,1,0,0,0,
+579,583,1,0,0,0,580,583,3,122,61,0,581,583,5,3,0,0,582,572,1,0,0,0,582,576,
+1,0,0,0,582,580,1,0,0,0,582,581,1,0,0,0,583,117,1,0,0,0,584,595,5,33,0,0,
+585,587,3,8,4,0,586,585,1,0,0,0,586,587,1,0,0,0,587,591,1,0,0,0,588,590,
+3,54,27,0,589,588,1,0,0,0,590,593,1,0,0,0,591,589,1,0,0,0,591,592,1,0,0,
+0,592,594,1,0,0,0,593,591,1,0,0,0,594,596,5,29,0,0,595,586,1,0,0,0,595,596,
+1,0,0,0,596,597,1,0,0,0,597,598,3,88,44,0,598,599,5,34,0,0,599,119,1,0,0,
+0,600,602,5,2,0,0,601,603,3,30,15,0,602,601,1,0,0,0,602,603,1,0,0,0,603,
+605,1,0,0,0,604,606,3,126,63,0,605,604,1,0,0,0,605,606,1,0,0,0,606,121,1,
+0,0,0,607,608,5,8,0,0,608,609,5,47,0,0,609,610,5,8,0,0,610,123,1,0,0,0,611,
+613,5,1,0,0,612,614,3,126,63,0,613,612,1,0,0,0,613,614,1,0,0,0,614,620,1,
+0,0,0,615,617,5,8,0,0,616,618,3,126,63,0,617,616,1,0,0,0,617,618,1,0,0,0,
+618,620,1,0,0,0,619,611,1,0,0,0,619,615,1,0,0,0,620,125,1,0,0,0,621,622,
+5,38,0,0,622,627,3,128,64,0,623,624,5,31,0,0,624,626,3,128,64,0,625,623,
+1,0,0,0,626,629,1,0,0,0,627,625,1,0,0,0,627,628,1,0,0,0,628,630,1,0,0,0,
+629,627,1,0,0,0,630,631,5,39,0,0,631,127,1,0,0,0,632,640,3,130,65,0,633,
+634,3,130,65,0,634,637,5,40,0,0,635,638,3,130,65,0,636,638,5,8,0,0,637,635,
+1,0,0,0,637,636,1,0,0,0,638,640,1,0,0,0,639,632,1,0,0,0,639,633,1,0,0,0,
+640,129,1,0,0,0,641,642,7,2,0,0,642,131,1,0,0,0,643,648,3,130,65,0,644,645,
+5,48,0,0,645,647,3,130,65,0,646,644,1,0,0,0,647,650,1,0,0,0,648,646,1,0,
+0,0,648,649,1,0,0,0,649,133,1,0,0,0,650,648,1,0,0,0,85,138,145,159,166,174,
+188,194,202,212,216,222,231,235,241,249,255,264,275,281,286,289,293,296,
+299,302,307,318,322,333,344,357,368,374,377,381,394,399,402,407,410,414,
+418,422,424,436,445,449,453,460,464,469,472,477,482,488,490,492,500,510,
+516,520,526,530,534,536,543,549,553,559,567,574,578,582,586,591,595,602,
+605,613,617,619,627,637,639,648];
+
+
+const atn = new antlr4.atn.ATNDeserializer().deserialize(serializedATN);
+
+const decisionsToDFA = atn.decisionToState.map( (ds, index) => new antlr4.dfa.DFA(ds, index) );
+
+const sharedContextCache = new antlr4.atn.PredictionContextCache();
+
+export default class ANTLRv4Parser extends antlr4.Parser {
+
+    static grammarFileName = "ANTLRv4Parser.g4";
+    static literalNames = [ null, null, null, null, null, null, null, null, 
+                            null, null, null, null, null, null, null, "'import'", 
+                            "'fragment'", "'lexer'", "'parser'", "'grammar'", 
+                            "'protected'", "'public'", "'private'", "'returns'", 
+                            "'locals'", "'throws'", "'catch'", "'finally'", 
+                            "'mode'" ];
+    static symbolicNames = [ null, "TOKEN_REF", "RULE_REF", "LEXER_CHAR_SET", 
+                             "DOC_COMMENT", "BLOCK_COMMENT", "LINE_COMMENT", 
+                             "INT", "STRING_LITERAL", "UNTERMINATED_STRING_LITERAL", 
+                             "BEGIN_ARGUMENT", "BEGIN_ACTION", "OPTIONS", 
+                             "TOKENS", "CHANNELS", "IMPORT", "FRAGMENT", 
+                             "LEXER", "PARSER", "GRAMMAR", "PROTECTED", 
+                             "PUBLIC", "PRIVATE", "RETURNS", "LOCALS", "THROWS", 
+                             "CATCH", "FINALLY", "MODE", "COLON", "COLONCOLON", 
+                             "COMMA", "SEMI", "LPAREN", "RPAREN", "LBRACE", 
+                             "RBRACE", "RARROW", "LT", "GT", "ASSIGN", "QUESTION", 
+                             "STAR", "PLUS_ASSIGN", "PLUS", "OR", "DOLLAR", 
+                             "RANGE", "DOT", "AT", "POUND", "NOT", "ID", 
+                             "WS", "ERRCHAR", "END_ARGUMENT", "UNTERMINATED_ARGUMENT", 
+                             "ARGUMENT_CONTENT", "END_ACTION", "UNTERMINATED_ACTION", 
+                             "ACTION_CONTENT", "UNTERMINATED_CHAR_SET" ];
+    static ruleNames = [ "grammarSpec", "grammarDecl", "grammarType", "prequelConstruct", 
+                         "optionsSpec", "option", "optionValue", "delegateGrammars", 
+                         "delegateGrammar", "tokensSpec", "channelsSpec", 
+                         "idList", "action_", "actionScopeName", "actionBlock", 
+                         "argActionBlock", "modeSpec", "rules", "ruleSpec", 
+                         "parserRuleSpec", "exceptionGroup", "exceptionHandler", 
+                         "finallyClause", "rulePrequel", "ruleReturns", 
+                         "throwsSpec", "localsSpec", "ruleAction", "ruleModifiers", 
+                         "ruleModifier", "ruleBlock", "ruleAltList", "labeledAlt", 
+                         "lexerRuleSpec", "lexerRuleBlock", "lexerAltList", 
+                         "lexerAlt", "lexerElements", "lexerElement", "lexerBlock", 
+                         "lexerCommands", "lexerCommand", "lexerCommandName", 
+                         "lexerCommandExpr", "altList", "alternative", "element", 
+                         "predicateOptions", "predicateOption", "labeledElement", 
+                         "ebnf", "blockSuffix", "ebnfSuffix", "lexerAtom", 
+                         "atom", "wildcard", "notSet", "blockSet", "setElement", 
+                         "block", "ruleref", "characterRange", "terminalDef", 
+                         "elementOptions", "elementOption", "identifier", 
+                         "qualifiedIdentifier" ];
+
+    constructor(input) {
+        super(input);
+        this._interp = new antlr4.atn.ParserATNSimulator(this, atn, decisionsToDFA, sharedContextCache);
+        this.ruleNames = ANTLRv4Parser.ruleNames;
+        this.literalNames = ANTLRv4Parser.literalNames;
+        this.symbolicNames = ANTLRv4Parser.symbolicNames;
+    }
+
+
+
+	grammarSpec() {
+	    let localctx = new GrammarSpecContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 0, ANTLRv4Parser.RULE_grammarSpec);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 134;
+	        this.grammarDecl();
+	        this.state = 138;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while((((_la) & ~0x1f) === 0 && ((1 << _la) & 61440) !== 0) || _la===49) {
+	            this.state = 135;
+	            this.prequelConstruct();
+	            this.state = 140;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	        this.state = 141;
+	        this.rules();
+	        this.state = 145;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===28) {
+	            this.state = 142;
+	            this.modeSpec();
+	            this.state = 147;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	        this.state = 148;
+	        this.match(ANTLRv4Parser.EOF);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	grammarDecl() {
+	    let localctx = new GrammarDeclContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 2, ANTLRv4Parser.RULE_grammarDecl);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 150;
+	        this.grammarType();
+	        this.state = 151;
+	        this.identifier();
+	        this.state = 152;
+	        this.match(ANTLRv4Parser.SEMI);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	grammarType() {
+	    let localctx = new GrammarTypeContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 4, ANTLRv4Parser.RULE_grammarType);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 159;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 17:
+	            this.state = 154;
+	            this.match(ANTLRv4Parser.LEXER);
+	            this.state = 155;
+	            this.match(ANTLRv4Parser.GRAMMAR);
+	            break;
+	        case 18:
+	            this.state = 156;
+	            this.match(ANTLRv4Parser.PARSER);
+	            this.state = 157;
+	            this.match(ANTLRv4Parser.GRAMMAR);
+	            break;
+	        case 19:
+	            this.state = 158;
+	            this.match(ANTLRv4Parser.GRAMMAR);
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	prequelConstruct() {
+	    let localctx = new PrequelConstructContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 6, ANTLRv4Parser.RULE_prequelConstruct);
+	    try {
+	        this.state = 166;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 12:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 161;
+	            this.optionsSpec();
+	            break;
+	        case 15:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 162;
+	            this.delegateGrammars();
+	            break;
+	        case 13:
+	            this.enterOuterAlt(localctx, 3);
+	            this.state = 163;
+	            this.tokensSpec();
+	            break;
+	        case 14:
+	            this.enterOuterAlt(localctx, 4);
+	            this.state = 164;
+	            this.channelsSpec();
+	            break;
+	        case 49:
+	            this.enterOuterAlt(localctx, 5);
+	            this.state = 165;
+	            this.action_();
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	optionsSpec() {
+	    let localctx = new OptionsSpecContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 8, ANTLRv4Parser.RULE_optionsSpec);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 168;
+	        this.match(ANTLRv4Parser.OPTIONS);
+	        this.state = 174;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===1 || _la===2) {
+	            this.state = 169;
+	            this.option();
+	            this.state = 170;
+	            this.match(ANTLRv4Parser.SEMI);
+	            this.state = 176;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	        this.state = 177;
+	        this.match(ANTLRv4Parser.RBRACE);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	option() {
+	    let localctx = new OptionContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 10, ANTLRv4Parser.RULE_option);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 179;
+	        this.identifier();
+	        this.state = 180;
+	        this.match(ANTLRv4Parser.ASSIGN);
+	        this.state = 181;
+	        this.optionValue();
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	optionValue() {
+	    let localctx = new OptionValueContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 12, ANTLRv4Parser.RULE_optionValue);
+	    var _la = 0;
+	    try {
+	        this.state = 194;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 1:
+	        case 2:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 183;
+	            this.identifier();
+	            this.state = 188;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            while(_la===48) {
+	                this.state = 184;
+	                this.match(ANTLRv4Parser.DOT);
+	                this.state = 185;
+	                this.identifier();
+	                this.state = 190;
+	                this._errHandler.sync(this);
+	                _la = this._input.LA(1);
+	            }
+	            break;
+	        case 8:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 191;
+	            this.match(ANTLRv4Parser.STRING_LITERAL);
+	            break;
+	        case 11:
+	            this.enterOuterAlt(localctx, 3);
+	            this.state = 192;
+	            this.actionBlock();
+	            break;
+	        case 7:
+	            this.enterOuterAlt(localctx, 4);
+	            this.state = 193;
+	            this.match(ANTLRv4Parser.INT);
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	delegateGrammars() {
+	    let localctx = new DelegateGrammarsContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 14, ANTLRv4Parser.RULE_delegateGrammars);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 196;
+	        this.match(ANTLRv4Parser.IMPORT);
+	        this.state = 197;
+	        this.delegateGrammar();
+	        this.state = 202;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===31) {
+	            this.state = 198;
+	            this.match(ANTLRv4Parser.COMMA);
+	            this.state = 199;
+	            this.delegateGrammar();
+	            this.state = 204;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	        this.state = 205;
+	        this.match(ANTLRv4Parser.SEMI);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	delegateGrammar() {
+	    let localctx = new DelegateGrammarContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 16, ANTLRv4Parser.RULE_delegateGrammar);
+	    try {
+	        this.state = 212;
+	        this._errHandler.sync(this);
+	        var la_ = this._interp.adaptivePredict(this._input,8,this._ctx);
+	        switch(la_) {
+	        case 1:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 207;
+	            this.identifier();
+	            this.state = 208;
+	            this.match(ANTLRv4Parser.ASSIGN);
+	            this.state = 209;
+	            this.identifier();
+	            break;
+
+	        case 2:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 211;
+	            this.identifier();
+	            break;
+
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	tokensSpec() {
+	    let localctx = new TokensSpecContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 18, ANTLRv4Parser.RULE_tokensSpec);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 214;
+	        this.match(ANTLRv4Parser.TOKENS);
+	        this.state = 216;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===1 || _la===2) {
+	            this.state = 215;
+	            this.idList();
+	        }
+
+	        this.state = 218;
+	        this.match(ANTLRv4Parser.RBRACE);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	channelsSpec() {
+	    let localctx = new ChannelsSpecContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 20, ANTLRv4Parser.RULE_channelsSpec);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 220;
+	        this.match(ANTLRv4Parser.CHANNELS);
+	        this.state = 222;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===1 || _la===2) {
+	            this.state = 221;
+	            this.idList();
+	        }
+
+	        this.state = 224;
+	        this.match(ANTLRv4Parser.RBRACE);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	idList() {
+	    let localctx = new IdListContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 22, ANTLRv4Parser.RULE_idList);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 226;
+	        this.identifier();
+	        this.state = 231;
+	        this._errHandler.sync(this);
+	        var _alt = this._interp.adaptivePredict(this._input,11,this._ctx)
+	        while(_alt!=2 && _alt!=antlr4.atn.ATN.INVALID_ALT_NUMBER) {
+	            if(_alt===1) {
+	                this.state = 227;
+	                this.match(ANTLRv4Parser.COMMA);
+	                this.state = 228;
+	                this.identifier(); 
+	            }
+	            this.state = 233;
+	            this._errHandler.sync(this);
+	            _alt = this._interp.adaptivePredict(this._input,11,this._ctx);
+	        }
+
+	        this.state = 235;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===31) {
+	            this.state = 234;
+	            this.match(ANTLRv4Parser.COMMA);
+	        }
+
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	action_() {
+	    let localctx = new Action_Context(this, this._ctx, this.state);
+	    this.enterRule(localctx, 24, ANTLRv4Parser.RULE_action_);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 237;
+	        this.match(ANTLRv4Parser.AT);
+	        this.state = 241;
+	        this._errHandler.sync(this);
+	        var la_ = this._interp.adaptivePredict(this._input,13,this._ctx);
+	        if(la_===1) {
+	            this.state = 238;
+	            this.actionScopeName();
+	            this.state = 239;
+	            this.match(ANTLRv4Parser.COLONCOLON);
+
+	        }
+	        this.state = 243;
+	        this.identifier();
+	        this.state = 244;
+	        this.actionBlock();
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	actionScopeName() {
+	    let localctx = new ActionScopeNameContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 26, ANTLRv4Parser.RULE_actionScopeName);
+	    try {
+	        this.state = 249;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 1:
+	        case 2:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 246;
+	            this.identifier();
+	            break;
+	        case 17:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 247;
+	            this.match(ANTLRv4Parser.LEXER);
+	            break;
+	        case 18:
+	            this.enterOuterAlt(localctx, 3);
+	            this.state = 248;
+	            this.match(ANTLRv4Parser.PARSER);
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	actionBlock() {
+	    let localctx = new ActionBlockContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 28, ANTLRv4Parser.RULE_actionBlock);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 251;
+	        this.match(ANTLRv4Parser.BEGIN_ACTION);
+	        this.state = 255;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===60) {
+	            this.state = 252;
+	            this.match(ANTLRv4Parser.ACTION_CONTENT);
+	            this.state = 257;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	        this.state = 258;
+	        this.match(ANTLRv4Parser.END_ACTION);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	argActionBlock() {
+	    let localctx = new ArgActionBlockContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 30, ANTLRv4Parser.RULE_argActionBlock);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 260;
+	        this.match(ANTLRv4Parser.BEGIN_ARGUMENT);
+	        this.state = 264;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===57) {
+	            this.state = 261;
+	            this.match(ANTLRv4Parser.ARGUMENT_CONTENT);
+	            this.state = 266;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	        this.state = 267;
+	        this.match(ANTLRv4Parser.END_ARGUMENT);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	modeSpec() {
+	    let localctx = new ModeSpecContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 32, ANTLRv4Parser.RULE_modeSpec);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 269;
+	        this.match(ANTLRv4Parser.MODE);
+	        this.state = 270;
+	        this.identifier();
+	        this.state = 271;
+	        this.match(ANTLRv4Parser.SEMI);
+	        this.state = 275;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===1 || _la===16) {
+	            this.state = 272;
+	            this.lexerRuleSpec();
+	            this.state = 277;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	rules() {
+	    let localctx = new RulesContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 34, ANTLRv4Parser.RULE_rules);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 281;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while((((_la) & ~0x1f) === 0 && ((1 << _la) & 7405574) !== 0)) {
+	            this.state = 278;
+	            this.ruleSpec();
+	            this.state = 283;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	ruleSpec() {
+	    let localctx = new RuleSpecContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 36, ANTLRv4Parser.RULE_ruleSpec);
+	    try {
+	        this.state = 286;
+	        this._errHandler.sync(this);
+	        var la_ = this._interp.adaptivePredict(this._input,19,this._ctx);
+	        switch(la_) {
+	        case 1:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 284;
+	            this.parserRuleSpec();
+	            break;
+
+	        case 2:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 285;
+	            this.lexerRuleSpec();
+	            break;
+
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	parserRuleSpec() {
+	    let localctx = new ParserRuleSpecContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 38, ANTLRv4Parser.RULE_parserRuleSpec);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 289;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if((((_la) & ~0x1f) === 0 && ((1 << _la) & 7405568) !== 0)) {
+	            this.state = 288;
+	            this.ruleModifiers();
+	        }
+
+	        this.state = 291;
+	        this.match(ANTLRv4Parser.RULE_REF);
+	        this.state = 293;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===10) {
+	            this.state = 292;
+	            this.argActionBlock();
+	        }
+
+	        this.state = 296;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===23) {
+	            this.state = 295;
+	            this.ruleReturns();
+	        }
+
+	        this.state = 299;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===25) {
+	            this.state = 298;
+	            this.throwsSpec();
+	        }
+
+	        this.state = 302;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===24) {
+	            this.state = 301;
+	            this.localsSpec();
+	        }
+
+	        this.state = 307;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===12 || _la===49) {
+	            this.state = 304;
+	            this.rulePrequel();
+	            this.state = 309;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	        this.state = 310;
+	        this.match(ANTLRv4Parser.COLON);
+	        this.state = 311;
+	        this.ruleBlock();
+	        this.state = 312;
+	        this.match(ANTLRv4Parser.SEMI);
+	        this.state = 313;
+	        this.exceptionGroup();
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	exceptionGroup() {
+	    let localctx = new ExceptionGroupContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 40, ANTLRv4Parser.RULE_exceptionGroup);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 318;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===26) {
+	            this.state = 315;
+	            this.exceptionHandler();
+	            this.state = 320;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	        this.state = 322;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===27) {
+	            this.state = 321;
+	            this.finallyClause();
+	        }
+
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	exceptionHandler() {
+	    let localctx = new ExceptionHandlerContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 42, ANTLRv4Parser.RULE_exceptionHandler);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 324;
+	        this.match(ANTLRv4Parser.CATCH);
+	        this.state = 325;
+	        this.argActionBlock();
+	        this.state = 326;
+	        this.actionBlock();
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	finallyClause() {
+	    let localctx = new FinallyClauseContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 44, ANTLRv4Parser.RULE_finallyClause);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 328;
+	        this.match(ANTLRv4Parser.FINALLY);
+	        this.state = 329;
+	        this.actionBlock();
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	rulePrequel() {
+	    let localctx = new RulePrequelContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 46, ANTLRv4Parser.RULE_rulePrequel);
+	    try {
+	        this.state = 333;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 12:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 331;
+	            this.optionsSpec();
+	            break;
+	        case 49:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 332;
+	            this.ruleAction();
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	ruleReturns() {
+	    let localctx = new RuleReturnsContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 48, ANTLRv4Parser.RULE_ruleReturns);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 335;
+	        this.match(ANTLRv4Parser.RETURNS);
+	        this.state = 336;
+	        this.argActionBlock();
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	throwsSpec() {
+	    let localctx = new ThrowsSpecContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 50, ANTLRv4Parser.RULE_throwsSpec);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 338;
+	        this.match(ANTLRv4Parser.THROWS);
+	        this.state = 339;
+	        this.qualifiedIdentifier();
+	        this.state = 344;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===31) {
+	            this.state = 340;
+	            this.match(ANTLRv4Parser.COMMA);
+	            this.state = 341;
+	            this.qualifiedIdentifier();
+	            this.state = 346;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	localsSpec() {
+	    let localctx = new LocalsSpecContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 52, ANTLRv4Parser.RULE_localsSpec);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 347;
+	        this.match(ANTLRv4Parser.LOCALS);
+	        this.state = 348;
+	        this.argActionBlock();
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	ruleAction() {
+	    let localctx = new RuleActionContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 54, ANTLRv4Parser.RULE_ruleAction);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 350;
+	        this.match(ANTLRv4Parser.AT);
+	        this.state = 351;
+	        this.identifier();
+	        this.state = 352;
+	        this.actionBlock();
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	ruleModifiers() {
+	    let localctx = new RuleModifiersContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 56, ANTLRv4Parser.RULE_ruleModifiers);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 355; 
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        do {
+	            this.state = 354;
+	            this.ruleModifier();
+	            this.state = 357; 
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        } while((((_la) & ~0x1f) === 0 && ((1 << _la) & 7405568) !== 0));
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	ruleModifier() {
+	    let localctx = new RuleModifierContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 58, ANTLRv4Parser.RULE_ruleModifier);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 359;
+	        _la = this._input.LA(1);
+	        if(!((((_la) & ~0x1f) === 0 && ((1 << _la) & 7405568) !== 0))) {
+	        this._errHandler.recoverInline(this);
+	        }
+	        else {
+	        	this._errHandler.reportMatch(this);
+	            this.consume();
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	ruleBlock() {
+	    let localctx = new RuleBlockContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 60, ANTLRv4Parser.RULE_ruleBlock);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 361;
+	        this.ruleAltList();
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	ruleAltList() {
+	    let localctx = new RuleAltListContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 62, ANTLRv4Parser.RULE_ruleAltList);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 363;
+	        this.labeledAlt();
+	        this.state = 368;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===45) {
+	            this.state = 364;
+	            this.match(ANTLRv4Parser.OR);
+	            this.state = 365;
+	            this.labeledAlt();
+	            this.state = 370;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	labeledAlt() {
+	    let localctx = new LabeledAltContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 64, ANTLRv4Parser.RULE_labeledAlt);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 371;
+	        this.alternative();
+	        this.state = 374;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===50) {
+	            this.state = 372;
+	            this.match(ANTLRv4Parser.POUND);
+	            this.state = 373;
+	            this.identifier();
+	        }
+
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	lexerRuleSpec() {
+	    let localctx = new LexerRuleSpecContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 66, ANTLRv4Parser.RULE_lexerRuleSpec);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 377;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===16) {
+	            this.state = 376;
+	            this.match(ANTLRv4Parser.FRAGMENT);
+	        }
+
+	        this.state = 379;
+	        this.match(ANTLRv4Parser.TOKEN_REF);
+	        this.state = 381;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===12) {
+	            this.state = 380;
+	            this.optionsSpec();
+	        }
+
+	        this.state = 383;
+	        this.match(ANTLRv4Parser.COLON);
+	        this.state = 384;
+	        this.lexerRuleBlock();
+	        this.state = 385;
+	        this.match(ANTLRv4Parser.SEMI);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	lexerRuleBlock() {
+	    let localctx = new LexerRuleBlockContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 68, ANTLRv4Parser.RULE_lexerRuleBlock);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 387;
+	        this.lexerAltList();
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	lexerAltList() {
+	    let localctx = new LexerAltListContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 70, ANTLRv4Parser.RULE_lexerAltList);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 389;
+	        this.lexerAlt();
+	        this.state = 394;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===45) {
+	            this.state = 390;
+	            this.match(ANTLRv4Parser.OR);
+	            this.state = 391;
+	            this.lexerAlt();
+	            this.state = 396;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	lexerAlt() {
+	    let localctx = new LexerAltContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 72, ANTLRv4Parser.RULE_lexerAlt);
+	    var _la = 0;
+	    try {
+	        this.state = 402;
+	        this._errHandler.sync(this);
+	        var la_ = this._interp.adaptivePredict(this._input,37,this._ctx);
+	        switch(la_) {
+	        case 1:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 397;
+	            this.lexerElements();
+	            this.state = 399;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(_la===37) {
+	                this.state = 398;
+	                this.lexerCommands();
+	            }
+
+	            break;
+
+	        case 2:
+	            this.enterOuterAlt(localctx, 2);
+
+	            break;
+
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	lexerElements() {
+	    let localctx = new LexerElementsContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 74, ANTLRv4Parser.RULE_lexerElements);
+	    var _la = 0;
+	    try {
+	        this.state = 410;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 1:
+	        case 3:
+	        case 8:
+	        case 11:
+	        case 33:
+	        case 48:
+	        case 51:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 405; 
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            do {
+	                this.state = 404;
+	                this.lexerElement();
+	                this.state = 407; 
+	                this._errHandler.sync(this);
+	                _la = this._input.LA(1);
+	            } while((((_la) & ~0x1f) === 0 && ((1 << _la) & 2314) !== 0) || ((((_la - 33)) & ~0x1f) === 0 && ((1 << (_la - 33)) & 294913) !== 0));
+	            break;
+	        case 32:
+	        case 34:
+	        case 37:
+	        case 45:
+	            this.enterOuterAlt(localctx, 2);
+
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	lexerElement() {
+	    let localctx = new LexerElementContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 76, ANTLRv4Parser.RULE_lexerElement);
+	    var _la = 0;
+	    try {
+	        this.state = 424;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 1:
+	        case 3:
+	        case 8:
+	        case 48:
+	        case 51:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 412;
+	            this.lexerAtom();
+	            this.state = 414;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(((((_la - 41)) & ~0x1f) === 0 && ((1 << (_la - 41)) & 11) !== 0)) {
+	                this.state = 413;
+	                this.ebnfSuffix();
+	            }
+
+	            break;
+	        case 33:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 416;
+	            this.lexerBlock();
+	            this.state = 418;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(((((_la - 41)) & ~0x1f) === 0 && ((1 << (_la - 41)) & 11) !== 0)) {
+	                this.state = 417;
+	                this.ebnfSuffix();
+	            }
+
+	            break;
+	        case 11:
+	            this.enterOuterAlt(localctx, 3);
+	            this.state = 420;
+	            this.actionBlock();
+	            this.state = 422;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(_la===41) {
+	                this.state = 421;
+	                this.match(ANTLRv4Parser.QUESTION);
+	            }
+
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	lexerBlock() {
+	    let localctx = new LexerBlockContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 78, ANTLRv4Parser.RULE_lexerBlock);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 426;
+	        this.match(ANTLRv4Parser.LPAREN);
+	        this.state = 427;
+	        this.lexerAltList();
+	        this.state = 428;
+	        this.match(ANTLRv4Parser.RPAREN);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	lexerCommands() {
+	    let localctx = new LexerCommandsContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 80, ANTLRv4Parser.RULE_lexerCommands);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 430;
+	        this.match(ANTLRv4Parser.RARROW);
+	        this.state = 431;
+	        this.lexerCommand();
+	        this.state = 436;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===31) {
+	            this.state = 432;
+	            this.match(ANTLRv4Parser.COMMA);
+	            this.state = 433;
+	            this.lexerCommand();
+	            this.state = 438;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	lexerCommand() {
+	    let localctx = new LexerCommandContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 82, ANTLRv4Parser.RULE_lexerCommand);
+	    try {
+	        this.state = 445;
+	        this._errHandler.sync(this);
+	        var la_ = this._interp.adaptivePredict(this._input,45,this._ctx);
+	        switch(la_) {
+	        case 1:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 439;
+	            this.lexerCommandName();
+	            this.state = 440;
+	            this.match(ANTLRv4Parser.LPAREN);
+	            this.state = 441;
+	            this.lexerCommandExpr();
+	            this.state = 442;
+	            this.match(ANTLRv4Parser.RPAREN);
+	            break;
+
+	        case 2:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 444;
+	            this.lexerCommandName();
+	            break;
+
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	lexerCommandName() {
+	    let localctx = new LexerCommandNameContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 84, ANTLRv4Parser.RULE_lexerCommandName);
+	    try {
+	        this.state = 449;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 1:
+	        case 2:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 447;
+	            this.identifier();
+	            break;
+	        case 28:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 448;
+	            this.match(ANTLRv4Parser.MODE);
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	lexerCommandExpr() {
+	    let localctx = new LexerCommandExprContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 86, ANTLRv4Parser.RULE_lexerCommandExpr);
+	    try {
+	        this.state = 453;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 1:
+	        case 2:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 451;
+	            this.identifier();
+	            break;
+	        case 7:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 452;
+	            this.match(ANTLRv4Parser.INT);
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	altList() {
+	    let localctx = new AltListContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 88, ANTLRv4Parser.RULE_altList);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 455;
+	        this.alternative();
+	        this.state = 460;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===45) {
+	            this.state = 456;
+	            this.match(ANTLRv4Parser.OR);
+	            this.state = 457;
+	            this.alternative();
+	            this.state = 462;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	alternative() {
+	    let localctx = new AlternativeContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 90, ANTLRv4Parser.RULE_alternative);
+	    var _la = 0;
+	    try {
+	        this.state = 472;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 1:
+	        case 2:
+	        case 8:
+	        case 11:
+	        case 33:
+	        case 38:
+	        case 48:
+	        case 51:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 464;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(_la===38) {
+	                this.state = 463;
+	                this.elementOptions();
+	            }
+
+	            this.state = 467; 
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            do {
+	                this.state = 466;
+	                this.element();
+	                this.state = 469; 
+	                this._errHandler.sync(this);
+	                _la = this._input.LA(1);
+	            } while((((_la) & ~0x1f) === 0 && ((1 << _la) & 2310) !== 0) || ((((_la - 33)) & ~0x1f) === 0 && ((1 << (_la - 33)) & 294913) !== 0));
+	            break;
+	        case 32:
+	        case 34:
+	        case 45:
+	        case 50:
+	            this.enterOuterAlt(localctx, 2);
+
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	element() {
+	    let localctx = new ElementContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 92, ANTLRv4Parser.RULE_element);
+	    var _la = 0;
+	    try {
+	        this.state = 492;
+	        this._errHandler.sync(this);
+	        var la_ = this._interp.adaptivePredict(this._input,56,this._ctx);
+	        switch(la_) {
+	        case 1:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 474;
+	            this.labeledElement();
+	            this.state = 477;
+	            this._errHandler.sync(this);
+	            switch(this._input.LA(1)) {
+	            case 41:
+	            case 42:
+	            case 44:
+	                this.state = 475;
+	                this.ebnfSuffix();
+	                break;
+	            case 1:
+	            case 2:
+	            case 8:
+	            case 11:
+	            case 32:
+	            case 33:
+	            case 34:
+	            case 45:
+	            case 48:
+	            case 50:
+	            case 51:
+	                break;
+	            default:
+	                throw new antlr4.error.NoViableAltException(this);
+	            }
+	            break;
+
+	        case 2:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 479;
+	            this.atom();
+	            this.state = 482;
+	            this._errHandler.sync(this);
+	            switch(this._input.LA(1)) {
+	            case 41:
+	            case 42:
+	            case 44:
+	                this.state = 480;
+	                this.ebnfSuffix();
+	                break;
+	            case 1:
+	            case 2:
+	            case 8:
+	            case 11:
+	            case 32:
+	            case 33:
+	            case 34:
+	            case 45:
+	            case 48:
+	            case 50:
+	            case 51:
+	                break;
+	            default:
+	                throw new antlr4.error.NoViableAltException(this);
+	            }
+	            break;
+
+	        case 3:
+	            this.enterOuterAlt(localctx, 3);
+	            this.state = 484;
+	            this.ebnf();
+	            break;
+
+	        case 4:
+	            this.enterOuterAlt(localctx, 4);
+	            this.state = 485;
+	            this.actionBlock();
+	            this.state = 490;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(_la===41) {
+	                this.state = 486;
+	                this.match(ANTLRv4Parser.QUESTION);
+	                this.state = 488;
+	                this._errHandler.sync(this);
+	                _la = this._input.LA(1);
+	                if(_la===38) {
+	                    this.state = 487;
+	                    this.predicateOptions();
+	                }
+
+	            }
+
+	            break;
+
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	predicateOptions() {
+	    let localctx = new PredicateOptionsContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 94, ANTLRv4Parser.RULE_predicateOptions);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 494;
+	        this.match(ANTLRv4Parser.LT);
+	        this.state = 495;
+	        this.predicateOption();
+	        this.state = 500;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===31) {
+	            this.state = 496;
+	            this.match(ANTLRv4Parser.COMMA);
+	            this.state = 497;
+	            this.predicateOption();
+	            this.state = 502;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	        this.state = 503;
+	        this.match(ANTLRv4Parser.GT);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	predicateOption() {
+	    let localctx = new PredicateOptionContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 96, ANTLRv4Parser.RULE_predicateOption);
+	    try {
+	        this.state = 510;
+	        this._errHandler.sync(this);
+	        var la_ = this._interp.adaptivePredict(this._input,58,this._ctx);
+	        switch(la_) {
+	        case 1:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 505;
+	            this.elementOption();
+	            break;
+
+	        case 2:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 506;
+	            this.identifier();
+	            this.state = 507;
+	            this.match(ANTLRv4Parser.ASSIGN);
+	            this.state = 508;
+	            this.actionBlock();
+	            break;
+
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	labeledElement() {
+	    let localctx = new LabeledElementContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 98, ANTLRv4Parser.RULE_labeledElement);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 512;
+	        this.identifier();
+	        this.state = 513;
+	        _la = this._input.LA(1);
+	        if(!(_la===40 || _la===43)) {
+	        this._errHandler.recoverInline(this);
+	        }
+	        else {
+	        	this._errHandler.reportMatch(this);
+	            this.consume();
+	        }
+	        this.state = 516;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 1:
+	        case 2:
+	        case 8:
+	        case 48:
+	        case 51:
+	            this.state = 514;
+	            this.atom();
+	            break;
+	        case 33:
+	            this.state = 515;
+	            this.block();
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	ebnf() {
+	    let localctx = new EbnfContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 100, ANTLRv4Parser.RULE_ebnf);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 518;
+	        this.block();
+	        this.state = 520;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(((((_la - 41)) & ~0x1f) === 0 && ((1 << (_la - 41)) & 11) !== 0)) {
+	            this.state = 519;
+	            this.blockSuffix();
+	        }
+
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	blockSuffix() {
+	    let localctx = new BlockSuffixContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 102, ANTLRv4Parser.RULE_blockSuffix);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 522;
+	        this.ebnfSuffix();
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	ebnfSuffix() {
+	    let localctx = new EbnfSuffixContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 104, ANTLRv4Parser.RULE_ebnfSuffix);
+	    var _la = 0;
+	    try {
+	        this.state = 536;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 41:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 524;
+	            this.match(ANTLRv4Parser.QUESTION);
+	            this.state = 526;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(_la===41) {
+	                this.state = 525;
+	                this.match(ANTLRv4Parser.QUESTION);
+	            }
+
+	            break;
+	        case 42:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 528;
+	            this.match(ANTLRv4Parser.STAR);
+	            this.state = 530;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(_la===41) {
+	                this.state = 529;
+	                this.match(ANTLRv4Parser.QUESTION);
+	            }
+
+	            break;
+	        case 44:
+	            this.enterOuterAlt(localctx, 3);
+	            this.state = 532;
+	            this.match(ANTLRv4Parser.PLUS);
+	            this.state = 534;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(_la===41) {
+	                this.state = 533;
+	                this.match(ANTLRv4Parser.QUESTION);
+	            }
+
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	lexerAtom() {
+	    let localctx = new LexerAtomContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 106, ANTLRv4Parser.RULE_lexerAtom);
+	    try {
+	        this.state = 543;
+	        this._errHandler.sync(this);
+	        var la_ = this._interp.adaptivePredict(this._input,65,this._ctx);
+	        switch(la_) {
+	        case 1:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 538;
+	            this.characterRange();
+	            break;
+
+	        case 2:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 539;
+	            this.terminalDef();
+	            break;
+
+	        case 3:
+	            this.enterOuterAlt(localctx, 3);
+	            this.state = 540;
+	            this.notSet();
+	            break;
+
+	        case 4:
+	            this.enterOuterAlt(localctx, 4);
+	            this.state = 541;
+	            this.match(ANTLRv4Parser.LEXER_CHAR_SET);
+	            break;
+
+	        case 5:
+	            this.enterOuterAlt(localctx, 5);
+	            this.state = 542;
+	            this.wildcard();
+	            break;
+
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	atom() {
+	    let localctx = new AtomContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 108, ANTLRv4Parser.RULE_atom);
+	    try {
+	        this.state = 549;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 1:
+	        case 8:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 545;
+	            this.terminalDef();
+	            break;
+	        case 2:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 546;
+	            this.ruleref();
+	            break;
+	        case 51:
+	            this.enterOuterAlt(localctx, 3);
+	            this.state = 547;
+	            this.notSet();
+	            break;
+	        case 48:
+	            this.enterOuterAlt(localctx, 4);
+	            this.state = 548;
+	            this.wildcard();
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	wildcard() {
+	    let localctx = new WildcardContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 110, ANTLRv4Parser.RULE_wildcard);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 551;
+	        this.match(ANTLRv4Parser.DOT);
+	        this.state = 553;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===38) {
+	            this.state = 552;
+	            this.elementOptions();
+	        }
+
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	notSet() {
+	    let localctx = new NotSetContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 112, ANTLRv4Parser.RULE_notSet);
+	    try {
+	        this.state = 559;
+	        this._errHandler.sync(this);
+	        var la_ = this._interp.adaptivePredict(this._input,68,this._ctx);
+	        switch(la_) {
+	        case 1:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 555;
+	            this.match(ANTLRv4Parser.NOT);
+	            this.state = 556;
+	            this.setElement();
+	            break;
+
+	        case 2:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 557;
+	            this.match(ANTLRv4Parser.NOT);
+	            this.state = 558;
+	            this.blockSet();
+	            break;
+
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	blockSet() {
+	    let localctx = new BlockSetContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 114, ANTLRv4Parser.RULE_blockSet);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 561;
+	        this.match(ANTLRv4Parser.LPAREN);
+	        this.state = 562;
+	        this.setElement();
+	        this.state = 567;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===45) {
+	            this.state = 563;
+	            this.match(ANTLRv4Parser.OR);
+	            this.state = 564;
+	            this.setElement();
+	            this.state = 569;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	        this.state = 570;
+	        this.match(ANTLRv4Parser.RPAREN);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	setElement() {
+	    let localctx = new SetElementContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 116, ANTLRv4Parser.RULE_setElement);
+	    var _la = 0;
+	    try {
+	        this.state = 582;
+	        this._errHandler.sync(this);
+	        var la_ = this._interp.adaptivePredict(this._input,72,this._ctx);
+	        switch(la_) {
+	        case 1:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 572;
+	            this.match(ANTLRv4Parser.TOKEN_REF);
+	            this.state = 574;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(_la===38) {
+	                this.state = 573;
+	                this.elementOptions();
+	            }
+
+	            break;
+
+	        case 2:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 576;
+	            this.match(ANTLRv4Parser.STRING_LITERAL);
+	            this.state = 578;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(_la===38) {
+	                this.state = 577;
+	                this.elementOptions();
+	            }
+
+	            break;
+
+	        case 3:
+	            this.enterOuterAlt(localctx, 3);
+	            this.state = 580;
+	            this.characterRange();
+	            break;
+
+	        case 4:
+	            this.enterOuterAlt(localctx, 4);
+	            this.state = 581;
+	            this.match(ANTLRv4Parser.LEXER_CHAR_SET);
+	            break;
+
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	block() {
+	    let localctx = new BlockContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 118, ANTLRv4Parser.RULE_block);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 584;
+	        this.match(ANTLRv4Parser.LPAREN);
+	        this.state = 595;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===12 || _la===29 || _la===49) {
+	            this.state = 586;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(_la===12) {
+	                this.state = 585;
+	                this.optionsSpec();
+	            }
+
+	            this.state = 591;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            while(_la===49) {
+	                this.state = 588;
+	                this.ruleAction();
+	                this.state = 593;
+	                this._errHandler.sync(this);
+	                _la = this._input.LA(1);
+	            }
+	            this.state = 594;
+	            this.match(ANTLRv4Parser.COLON);
+	        }
+
+	        this.state = 597;
+	        this.altList();
+	        this.state = 598;
+	        this.match(ANTLRv4Parser.RPAREN);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	ruleref() {
+	    let localctx = new RulerefContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 120, ANTLRv4Parser.RULE_ruleref);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 600;
+	        this.match(ANTLRv4Parser.RULE_REF);
+	        this.state = 602;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===10) {
+	            this.state = 601;
+	            this.argActionBlock();
+	        }
+
+	        this.state = 605;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        if(_la===38) {
+	            this.state = 604;
+	            this.elementOptions();
+	        }
+
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	characterRange() {
+	    let localctx = new CharacterRangeContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 122, ANTLRv4Parser.RULE_characterRange);
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 607;
+	        this.match(ANTLRv4Parser.STRING_LITERAL);
+	        this.state = 608;
+	        this.match(ANTLRv4Parser.RANGE);
+	        this.state = 609;
+	        this.match(ANTLRv4Parser.STRING_LITERAL);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	terminalDef() {
+	    let localctx = new TerminalDefContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 124, ANTLRv4Parser.RULE_terminalDef);
+	    var _la = 0;
+	    try {
+	        this.state = 619;
+	        this._errHandler.sync(this);
+	        switch(this._input.LA(1)) {
+	        case 1:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 611;
+	            this.match(ANTLRv4Parser.TOKEN_REF);
+	            this.state = 613;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(_la===38) {
+	                this.state = 612;
+	                this.elementOptions();
+	            }
+
+	            break;
+	        case 8:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 615;
+	            this.match(ANTLRv4Parser.STRING_LITERAL);
+	            this.state = 617;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	            if(_la===38) {
+	                this.state = 616;
+	                this.elementOptions();
+	            }
+
+	            break;
+	        default:
+	            throw new antlr4.error.NoViableAltException(this);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	elementOptions() {
+	    let localctx = new ElementOptionsContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 126, ANTLRv4Parser.RULE_elementOptions);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 621;
+	        this.match(ANTLRv4Parser.LT);
+	        this.state = 622;
+	        this.elementOption();
+	        this.state = 627;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===31) {
+	            this.state = 623;
+	            this.match(ANTLRv4Parser.COMMA);
+	            this.state = 624;
+	            this.elementOption();
+	            this.state = 629;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	        this.state = 630;
+	        this.match(ANTLRv4Parser.GT);
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	elementOption() {
+	    let localctx = new ElementOptionContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 128, ANTLRv4Parser.RULE_elementOption);
+	    try {
+	        this.state = 639;
+	        this._errHandler.sync(this);
+	        var la_ = this._interp.adaptivePredict(this._input,83,this._ctx);
+	        switch(la_) {
+	        case 1:
+	            this.enterOuterAlt(localctx, 1);
+	            this.state = 632;
+	            this.identifier();
+	            break;
+
+	        case 2:
+	            this.enterOuterAlt(localctx, 2);
+	            this.state = 633;
+	            this.identifier();
+	            this.state = 634;
+	            this.match(ANTLRv4Parser.ASSIGN);
+	            this.state = 637;
+	            this._errHandler.sync(this);
+	            switch(this._input.LA(1)) {
+	            case 1:
+	            case 2:
+	                this.state = 635;
+	                this.identifier();
+	                break;
+	            case 8:
+	                this.state = 636;
+	                this.match(ANTLRv4Parser.STRING_LITERAL);
+	                break;
+	            default:
+	                throw new antlr4.error.NoViableAltException(this);
+	            }
+	            break;
+
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	identifier() {
+	    let localctx = new IdentifierContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 130, ANTLRv4Parser.RULE_identifier);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 641;
+	        _la = this._input.LA(1);
+	        if(!(_la===1 || _la===2)) {
+	        this._errHandler.recoverInline(this);
+	        }
+	        else {
+	        	this._errHandler.reportMatch(this);
+	            this.consume();
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+
+	qualifiedIdentifier() {
+	    let localctx = new QualifiedIdentifierContext(this, this._ctx, this.state);
+	    this.enterRule(localctx, 132, ANTLRv4Parser.RULE_qualifiedIdentifier);
+	    var _la = 0;
+	    try {
+	        this.enterOuterAlt(localctx, 1);
+	        this.state = 643;
+	        this.identifier();
+	        this.state = 648;
+	        this._errHandler.sync(this);
+	        _la = this._input.LA(1);
+	        while(_la===48) {
+	            this.state = 644;
+	            this.match(ANTLRv4Parser.DOT);
+	            this.state = 645;
+	            this.identifier();
+	            this.state = 650;
+	            this._errHandler.sync(this);
+	            _la = this._input.LA(1);
+	        }
+	    } catch (re) {
+	    	if(re instanceof antlr4.error.RecognitionException) {
+		        localctx.exception = re;
+		        this._errHandler.reportError(this, re);
+		        this._errHandler.recover(this, re);
+		    } else {
+		    	throw re;
+		    }
+	    } finally {
+	        this.exitRule();
+	    }
+	    return localctx;
+	}
+
+
+}
+
+ANTLRv4Parser.EOF = antlr4.Token.EOF;
+ANTLRv4Parser.TOKEN_REF = 1;
+ANTLRv4Parser.RULE_REF = 2;
+ANTLRv4Parser.LEXER_CHAR_SET = 3;
+ANTLRv4Parser.DOC_COMMENT = 4;
+ANTLRv4Parser.BLOCK_COMMENT = 5;
+ANTLRv4Parser.LINE_COMMENT = 6;
+ANTLRv4Parser.INT = 7;
+ANTLRv4Parser.STRING_LITERAL = 8;
+ANTLRv4Parser.UNTERMINATED_STRING_LITERAL = 9;
+ANTLRv4Parser.BEGIN_ARGUMENT = 10;
+ANTLRv4Parser.BEGIN_ACTION = 11;
+ANTLRv4Parser.OPTIONS = 12;
+ANTLRv4Parser.TOKENS = 13;
+ANTLRv4Parser.CHANNELS = 14;
+ANTLRv4Parser.IMPORT = 15;
+ANTLRv4Parser.FRAGMENT = 16;
+ANTLRv4Parser.LEXER = 17;
+ANTLRv4Parser.PARSER = 18;
+ANTLRv4Parser.GRAMMAR = 19;
+ANTLRv4Parser.PROTECTED = 20;
+ANTLRv4Parser.PUBLIC = 21;
+ANTLRv4Parser.PRIVATE = 22;
+ANTLRv4Parser.RETURNS = 23;
+ANTLRv4Parser.LOCALS = 24;
+ANTLRv4Parser.THROWS = 25;
+ANTLRv4Parser.CATCH = 26;
+ANTLRv4Parser.FINALLY = 27;
+ANTLRv4Parser.MODE = 28;
+ANTLRv4Parser.COLON = 29;
+ANTLRv4Parser.COLONCOLON = 30;
+ANTLRv4Parser.COMMA = 31;
+ANTLRv4Parser.SEMI = 32;
+ANTLRv4Parser.LPAREN = 33;
+ANTLRv4Parser.RPAREN = 34;
+ANTLRv4Parser.LBRACE = 35;
+ANTLRv4Parser.RBRACE = 36;
+ANTLRv4Parser.RARROW = 37;
+ANTLRv4Parser.LT = 38;
+ANTLRv4Parser.GT = 39;
+ANTLRv4Parser.ASSIGN = 40;
+ANTLRv4Parser.QUESTION = 41;
+ANTLRv4Parser.STAR = 42;
+ANTLRv4Parser.PLUS_ASSIGN = 43;
+ANTLRv4Parser.PLUS = 44;
+ANTLRv4Parser.OR = 45;
+ANTLRv4Parser.DOLLAR = 46;
+ANTLRv4Parser.RANGE = 47;
+ANTLRv4Parser.DOT = 48;
+ANTLRv4Parser.AT = 49;
+ANTLRv4Parser.POUND = 50;
+ANTLRv4Parser.NOT = 51;
+ANTLRv4Parser.ID = 52;
+ANTLRv4Parser.WS = 53;
+ANTLRv4Parser.ERRCHAR = 54;
+ANTLRv4Parser.END_ARGUMENT = 55;
+ANTLRv4Parser.UNTERMINATED_ARGUMENT = 56;
+ANTLRv4Parser.ARGUMENT_CONTENT = 57;
+ANTLRv4Parser.END_ACTION = 58;
+ANTLRv4Parser.UNTERMINATED_ACTION = 59;
+ANTLRv4Parser.ACTION_CONTENT = 60;
+ANTLRv4Parser.UNTERMINATED_CHAR_SET = 61;
+
+ANTLRv4Parser.RULE_grammarSpec = 0;
+ANTLRv4Parser.RULE_grammarDecl = 1;
+ANTLRv4Parser.RULE_grammarType = 2;
+ANTLRv4Parser.RULE_prequelConstruct = 3;
+ANTLRv4Parser.RULE_optionsSpec = 4;
+ANTLRv4Parser.RULE_option = 5;
+ANTLRv4Parser.RULE_optionValue = 6;
+ANTLRv4Parser.RULE_delegateGrammars = 7;
+ANTLRv4Parser.RULE_delegateGrammar = 8;
+ANTLRv4Parser.RULE_tokensSpec = 9;
+ANTLRv4Parser.RULE_channelsSpec = 10;
+ANTLRv4Parser.RULE_idList = 11;
+ANTLRv4Parser.RULE_action_ = 12;
+ANTLRv4Parser.RULE_actionScopeName = 13;
+ANTLRv4Parser.RULE_actionBlock = 14;
+ANTLRv4Parser.RULE_argActionBlock = 15;
+ANTLRv4Parser.RULE_modeSpec = 16;
+ANTLRv4Parser.RULE_rules = 17;
+ANTLRv4Parser.RULE_ruleSpec = 18;
+ANTLRv4Parser.RULE_parserRuleSpec = 19;
+ANTLRv4Parser.RULE_exceptionGroup = 20;
+ANTLRv4Parser.RULE_exceptionHandler = 21;
+ANTLRv4Parser.RULE_finallyClause = 22;
+ANTLRv4Parser.RULE_rulePrequel = 23;
+ANTLRv4Parser.RULE_ruleReturns = 24;
+ANTLRv4Parser.RULE_throwsSpec = 25;
+ANTLRv4Parser.RULE_localsSpec = 26;
+ANTLRv4Parser.RULE_ruleAction = 27;
+ANTLRv4Parser.RULE_ruleModifiers = 28;
+ANTLRv4Parser.RULE_ruleModifier = 29;
+ANTLRv4Parser.RULE_ruleBlock = 30;
+ANTLRv4Parser.RULE_ruleAltList = 31;
+ANTLRv4Parser.RULE_labeledAlt = 32;
+ANTLRv4Parser.RULE_lexerRuleSpec = 33;
+ANTLRv4Parser.RULE_lexerRuleBlock = 34;
+ANTLRv4Parser.RULE_lexerAltList = 35;
+ANTLRv4Parser.RULE_lexerAlt = 36;
+ANTLRv4Parser.RULE_lexerElements = 37;
+ANTLRv4Parser.RULE_lexerElement = 38;
+ANTLRv4Parser.RULE_lexerBlock = 39;
+ANTLRv4Parser.RULE_lexerCommands = 40;
+ANTLRv4Parser.RULE_lexerCommand = 41;
+ANTLRv4Parser.RULE_lexerCommandName = 42;
+ANTLRv4Parser.RULE_lexerCommandExpr = 43;
+ANTLRv4Parser.RULE_altList = 44;
+ANTLRv4Parser.RULE_alternative = 45;
+ANTLRv4Parser.RULE_element = 46;
+ANTLRv4Parser.RULE_predicateOptions = 47;
+ANTLRv4Parser.RULE_predicateOption = 48;
+ANTLRv4Parser.RULE_labeledElement = 49;
+ANTLRv4Parser.RULE_ebnf = 50;
+ANTLRv4Parser.RULE_blockSuffix = 51;
+ANTLRv4Parser.RULE_ebnfSuffix = 52;
+ANTLRv4Parser.RULE_lexerAtom = 53;
+ANTLRv4Parser.RULE_atom = 54;
+ANTLRv4Parser.RULE_wildcard = 55;
+ANTLRv4Parser.RULE_notSet = 56;
+ANTLRv4Parser.RULE_blockSet = 57;
+ANTLRv4Parser.RULE_setElement = 58;
+ANTLRv4Parser.RULE_block = 59;
+ANTLRv4Parser.RULE_ruleref = 60;
+ANTLRv4Parser.RULE_characterRange = 61;
+ANTLRv4Parser.RULE_terminalDef = 62;
+ANTLRv4Parser.RULE_elementOptions = 63;
+ANTLRv4Parser.RULE_elementOption = 64;
+ANTLRv4Parser.RULE_identifier = 65;
+ANTLRv4Parser.RULE_qualifiedIdentifier = 66;
+
+class GrammarSpecContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_grammarSpec;
+    }
+
+	grammarDecl() {
+	    return this.getTypedRuleContext(GrammarDeclContext,0);
+	};
+
+	rules() {
+	    return this.getTypedRuleContext(RulesContext,0);
+	};
+
+	EOF() {
+	    return this.getToken(ANTLRv4Parser.EOF, 0);
+	};
+
+	prequelConstruct = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(PrequelConstructContext);
+	    } else {
+	        return this.getTypedRuleContext(PrequelConstructContext,i);
+	    }
+	};
+
+	modeSpec = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(ModeSpecContext);
+	    } else {
+	        return this.getTypedRuleContext(ModeSpecContext,i);
+	    }
+	};
+
+
+}
+
+
+
+class GrammarDeclContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_grammarDecl;
+    }
+
+	grammarType() {
+	    return this.getTypedRuleContext(GrammarTypeContext,0);
+	};
+
+	identifier() {
+	    return this.getTypedRuleContext(IdentifierContext,0);
+	};
+
+	SEMI() {
+	    return this.getToken(ANTLRv4Parser.SEMI, 0);
+	};
+
+
+}
+
+
+
+class GrammarTypeContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_grammarType;
+    }
+
+	LEXER() {
+	    return this.getToken(ANTLRv4Parser.LEXER, 0);
+	};
+
+	GRAMMAR() {
+	    return this.getToken(ANTLRv4Parser.GRAMMAR, 0);
+	};
+
+	PARSER() {
+	    return this.getToken(ANTLRv4Parser.PARSER, 0);
+	};
+
+
+}
+
+
+
+class PrequelConstructContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_prequelConstruct;
+    }
+
+	optionsSpec() {
+	    return this.getTypedRuleContext(OptionsSpecContext,0);
+	};
+
+	delegateGrammars() {
+	    return this.getTypedRuleContext(DelegateGrammarsContext,0);
+	};
+
+	tokensSpec() {
+	    return this.getTypedRuleContext(TokensSpecContext,0);
+	};
+
+	channelsSpec() {
+	    return this.getTypedRuleContext(ChannelsSpecContext,0);
+	};
+
+	action_() {
+	    return this.getTypedRuleContext(Action_Context,0);
+	};
+
+
+}
+
+
+
+class OptionsSpecContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_optionsSpec;
+    }
+
+	OPTIONS() {
+	    return this.getToken(ANTLRv4Parser.OPTIONS, 0);
+	};
+
+	RBRACE() {
+	    return this.getToken(ANTLRv4Parser.RBRACE, 0);
+	};
+
+	option = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(OptionContext);
+	    } else {
+	        return this.getTypedRuleContext(OptionContext,i);
+	    }
+	};
+
+	SEMI = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.SEMI);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.SEMI, i);
+	    }
+	};
+
+
+
+}
+
+
+
+class OptionContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_option;
+    }
+
+	identifier() {
+	    return this.getTypedRuleContext(IdentifierContext,0);
+	};
+
+	ASSIGN() {
+	    return this.getToken(ANTLRv4Parser.ASSIGN, 0);
+	};
+
+	optionValue() {
+	    return this.getTypedRuleContext(OptionValueContext,0);
+	};
+
+
+}
+
+
+
+class OptionValueContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_optionValue;
+    }
+
+	identifier = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(IdentifierContext);
+	    } else {
+	        return this.getTypedRuleContext(IdentifierContext,i);
+	    }
+	};
+
+	DOT = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.DOT);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.DOT, i);
+	    }
+	};
+
+
+	STRING_LITERAL() {
+	    return this.getToken(ANTLRv4Parser.STRING_LITERAL, 0);
+	};
+
+	actionBlock() {
+	    return this.getTypedRuleContext(ActionBlockContext,0);
+	};
+
+	INT() {
+	    return this.getToken(ANTLRv4Parser.INT, 0);
+	};
+
+
+}
+
+
+
+class DelegateGrammarsContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_delegateGrammars;
+    }
+
+	IMPORT() {
+	    return this.getToken(ANTLRv4Parser.IMPORT, 0);
+	};
+
+	delegateGrammar = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(DelegateGrammarContext);
+	    } else {
+	        return this.getTypedRuleContext(DelegateGrammarContext,i);
+	    }
+	};
+
+	SEMI() {
+	    return this.getToken(ANTLRv4Parser.SEMI, 0);
+	};
+
+	COMMA = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.COMMA);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.COMMA, i);
+	    }
+	};
+
+
+
+}
+
+
+
+class DelegateGrammarContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_delegateGrammar;
+    }
+
+	identifier = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(IdentifierContext);
+	    } else {
+	        return this.getTypedRuleContext(IdentifierContext,i);
+	    }
+	};
+
+	ASSIGN() {
+	    return this.getToken(ANTLRv4Parser.ASSIGN, 0);
+	};
+
+
+}
+
+
+
+class TokensSpecContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_tokensSpec;
+    }
+
+	TOKENS() {
+	    return this.getToken(ANTLRv4Parser.TOKENS, 0);
+	};
+
+	RBRACE() {
+	    return this.getToken(ANTLRv4Parser.RBRACE, 0);
+	};
+
+	idList() {
+	    return this.getTypedRuleContext(IdListContext,0);
+	};
+
+
+}
+
+
+
+class ChannelsSpecContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_channelsSpec;
+    }
+
+	CHANNELS() {
+	    return this.getToken(ANTLRv4Parser.CHANNELS, 0);
+	};
+
+	RBRACE() {
+	    return this.getToken(ANTLRv4Parser.RBRACE, 0);
+	};
+
+	idList() {
+	    return this.getTypedRuleContext(IdListContext,0);
+	};
+
+
+}
+
+
+
+class IdListContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_idList;
+    }
+
+	identifier = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(IdentifierContext);
+	    } else {
+	        return this.getTypedRuleContext(IdentifierContext,i);
+	    }
+	};
+
+	COMMA = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.COMMA);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.COMMA, i);
+	    }
+	};
+
+
+
+}
+
+
+
+class Action_Context extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_action_;
+    }
+
+	AT() {
+	    return this.getToken(ANTLRv4Parser.AT, 0);
+	};
+
+	identifier() {
+	    return this.getTypedRuleContext(IdentifierContext,0);
+	};
+
+	actionBlock() {
+	    return this.getTypedRuleContext(ActionBlockContext,0);
+	};
+
+	actionScopeName() {
+	    return this.getTypedRuleContext(ActionScopeNameContext,0);
+	};
+
+	COLONCOLON() {
+	    return this.getToken(ANTLRv4Parser.COLONCOLON, 0);
+	};
+
+
+}
+
+
+
+class ActionScopeNameContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_actionScopeName;
+    }
+
+	identifier() {
+	    return this.getTypedRuleContext(IdentifierContext,0);
+	};
+
+	LEXER() {
+	    return this.getToken(ANTLRv4Parser.LEXER, 0);
+	};
+
+	PARSER() {
+	    return this.getToken(ANTLRv4Parser.PARSER, 0);
+	};
+
+
+}
+
+
+
+class ActionBlockContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_actionBlock;
+    }
+
+	BEGIN_ACTION() {
+	    return this.getToken(ANTLRv4Parser.BEGIN_ACTION, 0);
+	};
+
+	END_ACTION() {
+	    return this.getToken(ANTLRv4Parser.END_ACTION, 0);
+	};
+
+	ACTION_CONTENT = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.ACTION_CONTENT);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.ACTION_CONTENT, i);
+	    }
+	};
+
+
+
+}
+
+
+
+class ArgActionBlockContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_argActionBlock;
+    }
+
+	BEGIN_ARGUMENT() {
+	    return this.getToken(ANTLRv4Parser.BEGIN_ARGUMENT, 0);
+	};
+
+	END_ARGUMENT() {
+	    return this.getToken(ANTLRv4Parser.END_ARGUMENT, 0);
+	};
+
+	ARGUMENT_CONTENT = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.ARGUMENT_CONTENT);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.ARGUMENT_CONTENT, i);
+	    }
+	};
+
+
+
+}
+
+
+
+class ModeSpecContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_modeSpec;
+    }
+
+	MODE() {
+	    return this.getToken(ANTLRv4Parser.MODE, 0);
+	};
+
+	identifier() {
+	    return this.getTypedRuleContext(IdentifierContext,0);
+	};
+
+	SEMI() {
+	    return this.getToken(ANTLRv4Parser.SEMI, 0);
+	};
+
+	lexerRuleSpec = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(LexerRuleSpecContext);
+	    } else {
+	        return this.getTypedRuleContext(LexerRuleSpecContext,i);
+	    }
+	};
+
+
+}
+
+
+
+class RulesContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_rules;
+    }
+
+	ruleSpec = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(RuleSpecContext);
+	    } else {
+	        return this.getTypedRuleContext(RuleSpecContext,i);
+	    }
+	};
+
+
+}
+
+
+
+class RuleSpecContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_ruleSpec;
+    }
+
+	parserRuleSpec() {
+	    return this.getTypedRuleContext(ParserRuleSpecContext,0);
+	};
+
+	lexerRuleSpec() {
+	    return this.getTypedRuleContext(LexerRuleSpecContext,0);
+	};
+
+
+}
+
+
+
+class ParserRuleSpecContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_parserRuleSpec;
+    }
+
+	RULE_REF() {
+	    return this.getToken(ANTLRv4Parser.RULE_REF, 0);
+	};
+
+	COLON() {
+	    return this.getToken(ANTLRv4Parser.COLON, 0);
+	};
+
+	ruleBlock() {
+	    return this.getTypedRuleContext(RuleBlockContext,0);
+	};
+
+	SEMI() {
+	    return this.getToken(ANTLRv4Parser.SEMI, 0);
+	};
+
+	exceptionGroup() {
+	    return this.getTypedRuleContext(ExceptionGroupContext,0);
+	};
+
+	ruleModifiers() {
+	    return this.getTypedRuleContext(RuleModifiersContext,0);
+	};
+
+	argActionBlock() {
+	    return this.getTypedRuleContext(ArgActionBlockContext,0);
+	};
+
+	ruleReturns() {
+	    return this.getTypedRuleContext(RuleReturnsContext,0);
+	};
+
+	throwsSpec() {
+	    return this.getTypedRuleContext(ThrowsSpecContext,0);
+	};
+
+	localsSpec() {
+	    return this.getTypedRuleContext(LocalsSpecContext,0);
+	};
+
+	rulePrequel = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(RulePrequelContext);
+	    } else {
+	        return this.getTypedRuleContext(RulePrequelContext,i);
+	    }
+	};
+
+
+}
+
+
+
+class ExceptionGroupContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_exceptionGroup;
+    }
+
+	exceptionHandler = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(ExceptionHandlerContext);
+	    } else {
+	        return this.getTypedRuleContext(ExceptionHandlerContext,i);
+	    }
+	};
+
+	finallyClause() {
+	    return this.getTypedRuleContext(FinallyClauseContext,0);
+	};
+
+
+}
+
+
+
+class ExceptionHandlerContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_exceptionHandler;
+    }
+
+	CATCH() {
+	    return this.getToken(ANTLRv4Parser.CATCH, 0);
+	};
+
+	argActionBlock() {
+	    return this.getTypedRuleContext(ArgActionBlockContext,0);
+	};
+
+	actionBlock() {
+	    return this.getTypedRuleContext(ActionBlockContext,0);
+	};
+
+
+}
+
+
+
+class FinallyClauseContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_finallyClause;
+    }
+
+	FINALLY() {
+	    return this.getToken(ANTLRv4Parser.FINALLY, 0);
+	};
+
+	actionBlock() {
+	    return this.getTypedRuleContext(ActionBlockContext,0);
+	};
+
+
+}
+
+
+
+class RulePrequelContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_rulePrequel;
+    }
+
+	optionsSpec() {
+	    return this.getTypedRuleContext(OptionsSpecContext,0);
+	};
+
+	ruleAction() {
+	    return this.getTypedRuleContext(RuleActionContext,0);
+	};
+
+
+}
+
+
+
+class RuleReturnsContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_ruleReturns;
+    }
+
+	RETURNS() {
+	    return this.getToken(ANTLRv4Parser.RETURNS, 0);
+	};
+
+	argActionBlock() {
+	    return this.getTypedRuleContext(ArgActionBlockContext,0);
+	};
+
+
+}
+
+
+
+class ThrowsSpecContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_throwsSpec;
+    }
+
+	THROWS() {
+	    return this.getToken(ANTLRv4Parser.THROWS, 0);
+	};
+
+	qualifiedIdentifier = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(QualifiedIdentifierContext);
+	    } else {
+	        return this.getTypedRuleContext(QualifiedIdentifierContext,i);
+	    }
+	};
+
+	COMMA = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.COMMA);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.COMMA, i);
+	    }
+	};
+
+
+
+}
+
+
+
+class LocalsSpecContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_localsSpec;
+    }
+
+	LOCALS() {
+	    return this.getToken(ANTLRv4Parser.LOCALS, 0);
+	};
+
+	argActionBlock() {
+	    return this.getTypedRuleContext(ArgActionBlockContext,0);
+	};
+
+
+}
+
+
+
+class RuleActionContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_ruleAction;
+    }
+
+	AT() {
+	    return this.getToken(ANTLRv4Parser.AT, 0);
+	};
+
+	identifier() {
+	    return this.getTypedRuleContext(IdentifierContext,0);
+	};
+
+	actionBlock() {
+	    return this.getTypedRuleContext(ActionBlockContext,0);
+	};
+
+
+}
+
+
+
+class RuleModifiersContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_ruleModifiers;
+    }
+
+	ruleModifier = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(RuleModifierContext);
+	    } else {
+	        return this.getTypedRuleContext(RuleModifierContext,i);
+	    }
+	};
+
+
+}
+
+
+
+class RuleModifierContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_ruleModifier;
+    }
+
+	PUBLIC() {
+	    return this.getToken(ANTLRv4Parser.PUBLIC, 0);
+	};
+
+	PRIVATE() {
+	    return this.getToken(ANTLRv4Parser.PRIVATE, 0);
+	};
+
+	PROTECTED() {
+	    return this.getToken(ANTLRv4Parser.PROTECTED, 0);
+	};
+
+	FRAGMENT() {
+	    return this.getToken(ANTLRv4Parser.FRAGMENT, 0);
+	};
+
+
+}
+
+
+
+class RuleBlockContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_ruleBlock;
+    }
+
+	ruleAltList() {
+	    return this.getTypedRuleContext(RuleAltListContext,0);
+	};
+
+
+}
+
+
+
+class RuleAltListContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_ruleAltList;
+    }
+
+	labeledAlt = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(LabeledAltContext);
+	    } else {
+	        return this.getTypedRuleContext(LabeledAltContext,i);
+	    }
+	};
+
+	OR = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.OR);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.OR, i);
+	    }
+	};
+
+
+
+}
+
+
+
+class LabeledAltContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_labeledAlt;
+    }
+
+	alternative() {
+	    return this.getTypedRuleContext(AlternativeContext,0);
+	};
+
+	POUND() {
+	    return this.getToken(ANTLRv4Parser.POUND, 0);
+	};
+
+	identifier() {
+	    return this.getTypedRuleContext(IdentifierContext,0);
+	};
+
+
+}
+
+
+
+class LexerRuleSpecContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_lexerRuleSpec;
+    }
+
+	TOKEN_REF() {
+	    return this.getToken(ANTLRv4Parser.TOKEN_REF, 0);
+	};
+
+	COLON() {
+	    return this.getToken(ANTLRv4Parser.COLON, 0);
+	};
+
+	lexerRuleBlock() {
+	    return this.getTypedRuleContext(LexerRuleBlockContext,0);
+	};
+
+	SEMI() {
+	    return this.getToken(ANTLRv4Parser.SEMI, 0);
+	};
+
+	FRAGMENT() {
+	    return this.getToken(ANTLRv4Parser.FRAGMENT, 0);
+	};
+
+	optionsSpec() {
+	    return this.getTypedRuleContext(OptionsSpecContext,0);
+	};
+
+
+}
+
+
+
+class LexerRuleBlockContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_lexerRuleBlock;
+    }
+
+	lexerAltList() {
+	    return this.getTypedRuleContext(LexerAltListContext,0);
+	};
+
+
+}
+
+
+
+class LexerAltListContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_lexerAltList;
+    }
+
+	lexerAlt = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(LexerAltContext);
+	    } else {
+	        return this.getTypedRuleContext(LexerAltContext,i);
+	    }
+	};
+
+	OR = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.OR);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.OR, i);
+	    }
+	};
+
+
+
+}
+
+
+
+class LexerAltContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_lexerAlt;
+    }
+
+	lexerElements() {
+	    return this.getTypedRuleContext(LexerElementsContext,0);
+	};
+
+	lexerCommands() {
+	    return this.getTypedRuleContext(LexerCommandsContext,0);
+	};
+
+
+}
+
+
+
+class LexerElementsContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_lexerElements;
+    }
+
+	lexerElement = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(LexerElementContext);
+	    } else {
+	        return this.getTypedRuleContext(LexerElementContext,i);
+	    }
+	};
+
+
+}
+
+
+
+class LexerElementContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_lexerElement;
+    }
+
+	lexerAtom() {
+	    return this.getTypedRuleContext(LexerAtomContext,0);
+	};
+
+	ebnfSuffix() {
+	    return this.getTypedRuleContext(EbnfSuffixContext,0);
+	};
+
+	lexerBlock() {
+	    return this.getTypedRuleContext(LexerBlockContext,0);
+	};
+
+	actionBlock() {
+	    return this.getTypedRuleContext(ActionBlockContext,0);
+	};
+
+	QUESTION() {
+	    return this.getToken(ANTLRv4Parser.QUESTION, 0);
+	};
+
+
+}
+
+
+
+class LexerBlockContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_lexerBlock;
+    }
+
+	LPAREN() {
+	    return this.getToken(ANTLRv4Parser.LPAREN, 0);
+	};
+
+	lexerAltList() {
+	    return this.getTypedRuleContext(LexerAltListContext,0);
+	};
+
+	RPAREN() {
+	    return this.getToken(ANTLRv4Parser.RPAREN, 0);
+	};
+
+
+}
+
+
+
+class LexerCommandsContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_lexerCommands;
+    }
+
+	RARROW() {
+	    return this.getToken(ANTLRv4Parser.RARROW, 0);
+	};
+
+	lexerCommand = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(LexerCommandContext);
+	    } else {
+	        return this.getTypedRuleContext(LexerCommandContext,i);
+	    }
+	};
+
+	COMMA = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.COMMA);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.COMMA, i);
+	    }
+	};
+
+
+
+}
+
+
+
+class LexerCommandContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_lexerCommand;
+    }
+
+	lexerCommandName() {
+	    return this.getTypedRuleContext(LexerCommandNameContext,0);
+	};
+
+	LPAREN() {
+	    return this.getToken(ANTLRv4Parser.LPAREN, 0);
+	};
+
+	lexerCommandExpr() {
+	    return this.getTypedRuleContext(LexerCommandExprContext,0);
+	};
+
+	RPAREN() {
+	    return this.getToken(ANTLRv4Parser.RPAREN, 0);
+	};
+
+
+}
+
+
+
+class LexerCommandNameContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_lexerCommandName;
+    }
+
+	identifier() {
+	    return this.getTypedRuleContext(IdentifierContext,0);
+	};
+
+	MODE() {
+	    return this.getToken(ANTLRv4Parser.MODE, 0);
+	};
+
+
+}
+
+
+
+class LexerCommandExprContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_lexerCommandExpr;
+    }
+
+	identifier() {
+	    return this.getTypedRuleContext(IdentifierContext,0);
+	};
+
+	INT() {
+	    return this.getToken(ANTLRv4Parser.INT, 0);
+	};
+
+
+}
+
+
+
+class AltListContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_altList;
+    }
+
+	alternative = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(AlternativeContext);
+	    } else {
+	        return this.getTypedRuleContext(AlternativeContext,i);
+	    }
+	};
+
+	OR = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.OR);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.OR, i);
+	    }
+	};
+
+
+
+}
+
+
+
+class AlternativeContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_alternative;
+    }
+
+	elementOptions() {
+	    return this.getTypedRuleContext(ElementOptionsContext,0);
+	};
+
+	element = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(ElementContext);
+	    } else {
+	        return this.getTypedRuleContext(ElementContext,i);
+	    }
+	};
+
+
+}
+
+
+
+class ElementContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_element;
+    }
+
+	labeledElement() {
+	    return this.getTypedRuleContext(LabeledElementContext,0);
+	};
+
+	ebnfSuffix() {
+	    return this.getTypedRuleContext(EbnfSuffixContext,0);
+	};
+
+	atom() {
+	    return this.getTypedRuleContext(AtomContext,0);
+	};
+
+	ebnf() {
+	    return this.getTypedRuleContext(EbnfContext,0);
+	};
+
+	actionBlock() {
+	    return this.getTypedRuleContext(ActionBlockContext,0);
+	};
+
+	QUESTION() {
+	    return this.getToken(ANTLRv4Parser.QUESTION, 0);
+	};
+
+	predicateOptions() {
+	    return this.getTypedRuleContext(PredicateOptionsContext,0);
+	};
+
+
+}
+
+
+
+class PredicateOptionsContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_predicateOptions;
+    }
+
+	LT() {
+	    return this.getToken(ANTLRv4Parser.LT, 0);
+	};
+
+	predicateOption = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(PredicateOptionContext);
+	    } else {
+	        return this.getTypedRuleContext(PredicateOptionContext,i);
+	    }
+	};
+
+	GT() {
+	    return this.getToken(ANTLRv4Parser.GT, 0);
+	};
+
+	COMMA = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.COMMA);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.COMMA, i);
+	    }
+	};
+
+
+
+}
+
+
+
+class PredicateOptionContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_predicateOption;
+    }
+
+	elementOption() {
+	    return this.getTypedRuleContext(ElementOptionContext,0);
+	};
+
+	identifier() {
+	    return this.getTypedRuleContext(IdentifierContext,0);
+	};
+
+	ASSIGN() {
+	    return this.getToken(ANTLRv4Parser.ASSIGN, 0);
+	};
+
+	actionBlock() {
+	    return this.getTypedRuleContext(ActionBlockContext,0);
+	};
+
+
+}
+
+
+
+class LabeledElementContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_labeledElement;
+    }
+
+	identifier() {
+	    return this.getTypedRuleContext(IdentifierContext,0);
+	};
+
+	ASSIGN() {
+	    return this.getToken(ANTLRv4Parser.ASSIGN, 0);
+	};
+
+	PLUS_ASSIGN() {
+	    return this.getToken(ANTLRv4Parser.PLUS_ASSIGN, 0);
+	};
+
+	atom() {
+	    return this.getTypedRuleContext(AtomContext,0);
+	};
+
+	block() {
+	    return this.getTypedRuleContext(BlockContext,0);
+	};
+
+
+}
+
+
+
+class EbnfContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_ebnf;
+    }
+
+	block() {
+	    return this.getTypedRuleContext(BlockContext,0);
+	};
+
+	blockSuffix() {
+	    return this.getTypedRuleContext(BlockSuffixContext,0);
+	};
+
+
+}
+
+
+
+class BlockSuffixContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_blockSuffix;
+    }
+
+	ebnfSuffix() {
+	    return this.getTypedRuleContext(EbnfSuffixContext,0);
+	};
+
+
+}
+
+
+
+class EbnfSuffixContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_ebnfSuffix;
+    }
+
+	QUESTION = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.QUESTION);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.QUESTION, i);
+	    }
+	};
+
+
+	STAR() {
+	    return this.getToken(ANTLRv4Parser.STAR, 0);
+	};
+
+	PLUS() {
+	    return this.getToken(ANTLRv4Parser.PLUS, 0);
+	};
+
+
+}
+
+
+
+class LexerAtomContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_lexerAtom;
+    }
+
+	characterRange() {
+	    return this.getTypedRuleContext(CharacterRangeContext,0);
+	};
+
+	terminalDef() {
+	    return this.getTypedRuleContext(TerminalDefContext,0);
+	};
+
+	notSet() {
+	    return this.getTypedRuleContext(NotSetContext,0);
+	};
+
+	LEXER_CHAR_SET() {
+	    return this.getToken(ANTLRv4Parser.LEXER_CHAR_SET, 0);
+	};
+
+	wildcard() {
+	    return this.getTypedRuleContext(WildcardContext,0);
+	};
+
+
+}
+
+
+
+class AtomContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_atom;
+    }
+
+	terminalDef() {
+	    return this.getTypedRuleContext(TerminalDefContext,0);
+	};
+
+	ruleref() {
+	    return this.getTypedRuleContext(RulerefContext,0);
+	};
+
+	notSet() {
+	    return this.getTypedRuleContext(NotSetContext,0);
+	};
+
+	wildcard() {
+	    return this.getTypedRuleContext(WildcardContext,0);
+	};
+
+
+}
+
+
+
+class WildcardContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_wildcard;
+    }
+
+	DOT() {
+	    return this.getToken(ANTLRv4Parser.DOT, 0);
+	};
+
+	elementOptions() {
+	    return this.getTypedRuleContext(ElementOptionsContext,0);
+	};
+
+
+}
+
+
+
+class NotSetContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_notSet;
+    }
+
+	NOT() {
+	    return this.getToken(ANTLRv4Parser.NOT, 0);
+	};
+
+	setElement() {
+	    return this.getTypedRuleContext(SetElementContext,0);
+	};
+
+	blockSet() {
+	    return this.getTypedRuleContext(BlockSetContext,0);
+	};
+
+
+}
+
+
+
+class BlockSetContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_blockSet;
+    }
+
+	LPAREN() {
+	    return this.getToken(ANTLRv4Parser.LPAREN, 0);
+	};
+
+	setElement = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(SetElementContext);
+	    } else {
+	        return this.getTypedRuleContext(SetElementContext,i);
+	    }
+	};
+
+	RPAREN() {
+	    return this.getToken(ANTLRv4Parser.RPAREN, 0);
+	};
+
+	OR = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.OR);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.OR, i);
+	    }
+	};
+
+
+
+}
+
+
+
+class SetElementContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_setElement;
+    }
+
+	TOKEN_REF() {
+	    return this.getToken(ANTLRv4Parser.TOKEN_REF, 0);
+	};
+
+	elementOptions() {
+	    return this.getTypedRuleContext(ElementOptionsContext,0);
+	};
+
+	STRING_LITERAL() {
+	    return this.getToken(ANTLRv4Parser.STRING_LITERAL, 0);
+	};
+
+	characterRange() {
+	    return this.getTypedRuleContext(CharacterRangeContext,0);
+	};
+
+	LEXER_CHAR_SET() {
+	    return this.getToken(ANTLRv4Parser.LEXER_CHAR_SET, 0);
+	};
+
+
+}
+
+
+
+class BlockContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_block;
+    }
+
+	LPAREN() {
+	    return this.getToken(ANTLRv4Parser.LPAREN, 0);
+	};
+
+	altList() {
+	    return this.getTypedRuleContext(AltListContext,0);
+	};
+
+	RPAREN() {
+	    return this.getToken(ANTLRv4Parser.RPAREN, 0);
+	};
+
+	COLON() {
+	    return this.getToken(ANTLRv4Parser.COLON, 0);
+	};
+
+	optionsSpec() {
+	    return this.getTypedRuleContext(OptionsSpecContext,0);
+	};
+
+	ruleAction = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(RuleActionContext);
+	    } else {
+	        return this.getTypedRuleContext(RuleActionContext,i);
+	    }
+	};
+
+
+}
+
+
+
+class RulerefContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_ruleref;
+    }
+
+	RULE_REF() {
+	    return this.getToken(ANTLRv4Parser.RULE_REF, 0);
+	};
+
+	argActionBlock() {
+	    return this.getTypedRuleContext(ArgActionBlockContext,0);
+	};
+
+	elementOptions() {
+	    return this.getTypedRuleContext(ElementOptionsContext,0);
+	};
+
+
+}
+
+
+
+class CharacterRangeContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_characterRange;
+    }
+
+	STRING_LITERAL = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.STRING_LITERAL);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.STRING_LITERAL, i);
+	    }
+	};
+
+
+	RANGE() {
+	    return this.getToken(ANTLRv4Parser.RANGE, 0);
+	};
+
+
+}
+
+
+
+class TerminalDefContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_terminalDef;
+    }
+
+	TOKEN_REF() {
+	    return this.getToken(ANTLRv4Parser.TOKEN_REF, 0);
+	};
+
+	elementOptions() {
+	    return this.getTypedRuleContext(ElementOptionsContext,0);
+	};
+
+	STRING_LITERAL() {
+	    return this.getToken(ANTLRv4Parser.STRING_LITERAL, 0);
+	};
+
+
+}
+
+
+
+class ElementOptionsContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_elementOptions;
+    }
+
+	LT() {
+	    return this.getToken(ANTLRv4Parser.LT, 0);
+	};
+
+	elementOption = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(ElementOptionContext);
+	    } else {
+	        return this.getTypedRuleContext(ElementOptionContext,i);
+	    }
+	};
+
+	GT() {
+	    return this.getToken(ANTLRv4Parser.GT, 0);
+	};
+
+	COMMA = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.COMMA);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.COMMA, i);
+	    }
+	};
+
+
+
+}
+
+
+
+class ElementOptionContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_elementOption;
+    }
+
+	identifier = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(IdentifierContext);
+	    } else {
+	        return this.getTypedRuleContext(IdentifierContext,i);
+	    }
+	};
+
+	ASSIGN() {
+	    return this.getToken(ANTLRv4Parser.ASSIGN, 0);
+	};
+
+	STRING_LITERAL() {
+	    return this.getToken(ANTLRv4Parser.STRING_LITERAL, 0);
+	};
+
+
+}
+
+
+
+class IdentifierContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_identifier;
+    }
+
+	RULE_REF() {
+	    return this.getToken(ANTLRv4Parser.RULE_REF, 0);
+	};
+
+	TOKEN_REF() {
+	    return this.getToken(ANTLRv4Parser.TOKEN_REF, 0);
+	};
+
+
+}
+
+
+
+class QualifiedIdentifierContext extends antlr4.ParserRuleContext {
+
+    constructor(parser, parent, invokingState) {
+        if(parent===undefined) {
+            parent = null;
+        }
+        if(invokingState===undefined || invokingState===null) {
+            invokingState = -1;
+        }
+        super(parent, invokingState);
+        this.parser = parser;
+        this.ruleIndex = ANTLRv4Parser.RULE_qualifiedIdentifier;
+    }
+
+	identifier = function(i) {
+	    if(i===undefined) {
+	        i = null;
+	    }
+	    if(i===null) {
+	        return this.getTypedRuleContexts(IdentifierContext);
+	    } else {
+	        return this.getTypedRuleContext(IdentifierContext,i);
+	    }
+	};
+
+	DOT = function(i) {
+		if(i===undefined) {
+			i = null;
+		}
+	    if(i===null) {
+	        return this.getTokens(ANTLRv4Parser.DOT);
+	    } else {
+	        return this.getToken(ANTLRv4Parser.DOT, i);
+	    }
+	};
+
+
+
+}
+
+
+
+
+ANTLRv4Parser.GrammarSpecContext = GrammarSpecContext; 
+ANTLRv4Parser.GrammarDeclContext = GrammarDeclContext; 
+ANTLRv4Parser.GrammarTypeContext = GrammarTypeContext; 
+ANTLRv4Parser.PrequelConstructContext = PrequelConstructContext; 
+ANTLRv4Parser.OptionsSpecContext = OptionsSpecContext; 
+ANTLRv4Parser.OptionContext = OptionContext; 
+ANTLRv4Parser.OptionValueContext = OptionValueContext; 
+ANTLRv4Parser.DelegateGrammarsContext = DelegateGrammarsContext; 
+ANTLRv4Parser.DelegateGrammarContext = DelegateGrammarContext; 
+ANTLRv4Parser.TokensSpecContext = TokensSpecContext; 
+ANTLRv4Parser.ChannelsSpecContext = ChannelsSpecContext; 
+ANTLRv4Parser.IdListContext = IdListContext; 
+ANTLRv4Parser.Action_Context = Action_Context; 
+ANTLRv4Parser.ActionScopeNameContext = ActionScopeNameContext; 
+ANTLRv4Parser.ActionBlockContext = ActionBlockContext; 
+ANTLRv4Parser.ArgActionBlockContext = ArgActionBlockContext; 
+ANTLRv4Parser.ModeSpecContext = ModeSpecContext; 
+ANTLRv4Parser.RulesContext = RulesContext; 
+ANTLRv4Parser.RuleSpecContext = RuleSpecContext; 
+ANTLRv4Parser.ParserRuleSpecContext = ParserRuleSpecContext; 
+ANTLRv4Parser.ExceptionGroupContext = ExceptionGroupContext; 
+ANTLRv4Parser.ExceptionHandlerContext = ExceptionHandlerContext; 
+ANTLRv4Parser.FinallyClauseContext = FinallyClauseContext; 
+ANTLRv4Parser.RulePrequelContext = RulePrequelContext; 
+ANTLRv4Parser.RuleReturnsContext = RuleReturnsContext; 
+ANTLRv4Parser.ThrowsSpecContext = ThrowsSpecContext; 
+ANTLRv4Parser.LocalsSpecContext = LocalsSpecContext; 
+ANTLRv4Parser.RuleActionContext = RuleActionContext; 
+ANTLRv4Parser.RuleModifiersContext = RuleModifiersContext; 
+ANTLRv4Parser.RuleModifierContext = RuleModifierContext; 
+ANTLRv4Parser.RuleBlockContext = RuleBlockContext; 
+ANTLRv4Parser.RuleAltListContext = RuleAltListContext; 
+ANTLRv4Parser.LabeledAltContext = LabeledAltContext; 
+ANTLRv4Parser.LexerRuleSpecContext = LexerRuleSpecContext; 
+ANTLRv4Parser.LexerRuleBlockContext = LexerRuleBlockContext; 
+ANTLRv4Parser.LexerAltListContext = LexerAltListContext; 
+ANTLRv4Parser.LexerAltContext = LexerAltContext; 
+ANTLRv4Parser.LexerElementsContext = LexerElementsContext; 
+ANTLRv4Parser.LexerElementContext = LexerElementContext; 
+ANTLRv4Parser.LexerBlockContext = LexerBlockContext; 
+ANTLRv4Parser.LexerCommandsContext = LexerCommandsContext; 
+ANTLRv4Parser.LexerCommandContext = LexerCommandContext; 
+ANTLRv4Parser.LexerCommandNameContext = LexerCommandNameContext; 
+ANTLRv4Parser.LexerCommandExprContext = LexerCommandExprContext; 
+ANTLRv4Parser.AltListContext = AltListContext; 
+ANTLRv4Parser.AlternativeContext = AlternativeContext; 
+ANTLRv4Parser.ElementContext = ElementContext; 
+ANTLRv4Parser.PredicateOptionsContext = PredicateOptionsContext; 
+ANTLRv4Parser.PredicateOptionContext = PredicateOptionContext; 
+ANTLRv4Parser.LabeledElementContext = LabeledElementContext; 
+ANTLRv4Parser.EbnfContext = EbnfContext; 
+ANTLRv4Parser.BlockSuffixContext = BlockSuffixContext; 
+ANTLRv4Parser.EbnfSuffixContext = EbnfSuffixContext; 
+ANTLRv4Parser.LexerAtomContext = LexerAtomContext; 
+ANTLRv4Parser.AtomContext = AtomContext; 
+ANTLRv4Parser.WildcardContext = WildcardContext; 
+ANTLRv4Parser.NotSetContext = NotSetContext; 
+ANTLRv4Parser.BlockSetContext = BlockSetContext; 
+ANTLRv4Parser.SetElementContext = SetElementContext; 
+ANTLRv4Parser.BlockContext = BlockContext; 
+ANTLRv4Parser.RulerefContext = RulerefContext; 
+ANTLRv4Parser.CharacterRangeContext = CharacterRangeContext; 
+ANTLRv4Parser.TerminalDefContext = TerminalDefContext; 
+ANTLRv4Parser.ElementOptionsContext = ElementOptionsContext; 
+ANTLRv4Parser.ElementOptionContext = ElementOptionContext; 
+ANTLRv4Parser.IdentifierContext = IdentifierContext; 
+ANTLRv4Parser.QualifiedIdentifierContext = QualifiedIdentifierContext; 
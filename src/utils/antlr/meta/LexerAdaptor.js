@@ -0,0 +1,110 @@
+import antlr4 from 'antlr4';
+import ANTLRv4Lexer from './ANTLRv4Lexer.js';
+
+/**
+ * Base class of the generated ANTLRv4Lexer: the lexer actions of the grammar
+ * call into it, and it tracks which construct the lexer is in so `[` can
+ * start either rule arguments or a lexer char set. JavaScript port of the
+ * adaptor that comes with the grammar in grammars-v4.
+ */
+export default class LexerAdaptor extends antlr4.Lexer {
+    /** Types for the constructs ended by a closing brace rather than a semicolon */
+    static PREQUEL_CONSTRUCT = -10;
+    static OPTIONS_CONSTRUCT = -11;
+
+    constructor(input) {
+        super(input);
+        /**
+         * TOKEN_REF inside a lexer rule, RULE_REF inside a parser rule, or the
+         * construct outside of rules; INVALID_TYPE between them
+         */
+        this._currentRuleType = antlr4.Token.INVALID_TYPE;
+    }
+
+    getCurrentRuleType() {
+        return this._currentRuleType;
+    }
+
+    setCurrentRuleType(ruleType) {
+        this._currentRuleType = ruleType;
+    }
+
+    handleBeginArgument() {
+        if (this.inLexerRule()) {
+            this.pushMode(ANTLRv4Lexer.LexerCharSet);
+            this.more();
+        } else {
+            this.pushMode(ANTLRv4Lexer.Argument);
+        }
+    }
+
+    handleEndArgument() {
+        this.popMode();
+        if (this._modeStack.length > 0) {
+            this._type = ANTLRv4Lexer.ARGUMENT_CONTENT;
+        }
+    }
+
+    handleEndAction() {
+        const oldMode = this._mode;
+        const newMode = this.popMode();
+        const isActionWithinAction = this._modeStack.length > 0
+            && newMode === ANTLRv4Lexer.TargetLanguageAction
+            && oldMode === newMode;
+
+        if (isActionWithinAction) {
+            this._type = ANTLRv4Lexer.ACTION_CONTENT;
+        }
+    }
+
+    emit() {
+        const type = this._type;
+        if ((type === ANTLRv4Lexer.OPTIONS || type === ANTLRv4Lexer.TOKENS || type === ANTLRv4Lexer.CHANNELS)
+            && this._currentRuleType === antlr4.Token.INVALID_TYPE) {
+            // Enter a prequel construct ending with an RBRACE
+            this._currentRuleType = LexerAdaptor.PREQUEL_CONSTRUCT;
+        } else if (type === ANTLRv4Lexer.OPTIONS && this._currentRuleType === ANTLRv4Lexer.TOKEN_REF) {
+            this._currentRuleType = LexerAdaptor.OPTIONS_CONSTRUCT;
+        } else if (type === ANTLRv4Lexer.RBRACE && this._currentRuleType === LexerAdaptor.PREQUEL_CONSTRUCT) {
+            // Exit the prequel construct
+            this._currentRuleType = antlr4.Token.INVALID_TYPE;
+        } else if (type === ANTLRv4Lexer.RBRACE && this._currentRuleType === LexerAdaptor.OPTIONS_CONSTRUCT) {
+            // Exit the options of a lexer rule
+            this._currentRuleType = ANTLRv4Lexer.TOKEN_REF;
+        } else if (type === ANTLRv4Lexer.AT && this._currentRuleType === antlr4.Token.INVALID_TYPE) {
+            // Enter an action
+            this._currentRuleType = ANTLRv4Lexer.AT;
+        } else if (type === ANTLRv4Lexer.SEMI && this._currentRuleType === LexerAdaptor.OPTIONS_CONSTRUCT) {
+            // A ';' in options { ... } doesn't end the rule
+        } else if (type === ANTLRv4Lexer.END_ACTION && this._currentRuleType === ANTLRv4Lexer.AT) {
+            // Exit the action
+            this._currentRuleType = antlr4.Token.INVALID_TYPE;
+        } else if (type === ANTLRv4Lexer.ID) {
+            const firstChar = this._input.getText(this._tokenStartCharIndex, this._tokenStartCharIndex);
+            this._type = firstChar === firstChar.toUpperCase() && firstChar !== firstChar.toLowerCase()
+                ? ANTLRv4Lexer.TOKEN_REF
+                : ANTLRv4Lexer.RULE_REF;
+            if (this._currentRuleType === antlr4.Token.INVALID_TYPE) {
+                // Outside of a rule, the name starts a lexer or parser rule
+                this._currentRuleType = this._type;
+            }
+        } else if (type === ANTLRv4Lexer.SEMI) {
+            // Exit the rule
+            this._currentRuleType = antlr4.Token.INVALID_TYPE;
+        }
+        return super.emit();
+    }
+
+    inLexerRule() {
+        return this._currentRuleType === ANTLRv4Lexer.TOKEN_REF;
+    }
+
+    inParserRule() {
+        return this._currentRuleType === ANTLRv4Lexer.RULE_REF;
+    }
+
+    reset() {
+        this._currentRuleType = antlr4.Token.INVALID_TYPE;
+        super.reset();
+    }
+}
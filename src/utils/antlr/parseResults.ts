@@ -0,0 +1,199 @@
+/**
+ * Turns what a parse worker or the grammar interpreter reports into a
+ * ParseResult: tokens are referenced by index, and positions are resolved
+ * against the input text here. Nothing here needs Node, so results are
+ * built the same way in the server and in the browser.
+ */
+import type { InputAmbiguity, ParseError, ParseNode, ParseResult, Token } from './types';
+import type { WorkerAmbiguity, WorkerParseResponse, WorkerTreeNode } from './JavaWorker';
+
+/**
+ * Build the result of a parse from the worker's response. Profiling and
+ * trace data are left to the caller.
+ * @param startRule - Start rule the parse was requested with
+ * @param hasParser - Whether the grammars have a parser; without one the input was only tokenized
+ */
+export function buildParseResult(
+    response: WorkerParseResponse,
+    input: string,
+    startRule: string | undefined,
+    hasParser: boolean
+): ParseResult {
+    const tokens = response.tokens;
+    const tree = response.tree
+        ? buildParseTree(response.tree, tokens, response.errors, input)
+        : buildTokenTree(tokens, input);
+    const errors = [...response.errors];
+    if (startRule && !hasParser) {
+        errors.push({
+            line: 1,
+            column: 0,
+            message: `No parser grammar, so start rule ${startRule} was ignored and the input was only tokenized`,
+            severity: 'info',
+        });
+    }
+
+    return {
+        tree,
+        errors,
+        tokens,
+        duration: 0,
+        timing: response.timing,
+        ambiguities: resolveAmbiguities(response.ambiguities ?? [], tokens, input),
+        tokenizeOnly: !startRule || !hasParser,
+        modeTransitions: response.modeTransitions,
+    };
+}
+
+/**
+ * Convert the worker's tree into our ParseNode structure.
+ * Terminals reference their token by index, so positions are exact even
+ * when several tokens share the same text.
+ */
+export function buildParseTree(
+    root: WorkerTreeNode,
+    tokens: Token[],
+    errors: ParseError[],
+    inputText: string
+): ParseNode {
+    const lineStarts = computeLineStarts(inputText);
+    const parserErrors = errors.filter(e => e.source === 'parser');
+    let nodeId = 0;
+
+    const setSpan = (node: ParseNode, first: Token, last: Token): void => {
+        const end = endPosition(lineStarts, last.stop);
+        node.startIndex = first.start;
+        node.stopIndex = last.stop;
+        node.startLine = first.line;
+        node.startColumn = first.column;
+        node.endLine = end.line;
+        node.endColumn = end.column;
+        node.matchedText = inputText.substring(first.start, last.stop + 1);
+    };
+
+    const convert = (n: WorkerTreeNode): ParseNode => {
+        if (n.type === 'rule') {
+            const node: ParseNode = {
+                id: `node_${nodeId++}`,
+                type: 'rule',
+                name: n.name ?? '',
+            };
+            const children = (n.children ?? []).map(convert);
+            if (children.length > 0) {
+                node.children = children;
+            }
+
+            const first = n.start !== undefined ? tokens[n.start] : undefined;
+            const last = n.stop !== undefined ? tokens[n.stop] : undefined;
+            if (first && last && last.tokenIndex >= first.tokenIndex) {
+                setSpan(node, first, last);
+            }
+            return node;
+        }
+
+        const token = n.tokenIndex !== undefined && n.tokenIndex >= 0 ? tokens[n.tokenIndex] : undefined;
+        const node: ParseNode = {
+            id: `token_${nodeId++}`,
+            type: n.type,
+            name: token?.text ?? n.text ?? '',
+        };
+
+        if (token) {
+            node.token = token;
+            setSpan(node, token, token);
+        }
+
+        if (n.type === 'error') {
+            if (!token) {
+                // Conjured by the parser, e.g. "<missing ')'>"
+                const missing = node.name.match(/^<missing (.*)>$/);
+                node.error = missing ? `Missing token ${missing[1]}` : 'Missing token';
+            } else {
+                const error = parserErrors.find(e => e.line === token.line && e.column === token.column);
+                node.error = error?.message ?? `Unexpected token ${token.text}`;
+            }
+        }
+
+        return node;
+    };
+
+    return convert(root);
+}
+
+/**
+ * Tree for a tokenize-only run: the tokens under a single root, so the
+ * tree views still show every token of the input
+ */
+export function buildTokenTree(tokens: Token[], inputText: string): ParseNode {
+    return buildParseTree(
+        {
+            type: 'rule',
+            name: 'tokens',
+            start: 0,
+            stop: tokens.length - 1,
+            children: tokens.map(token => ({ type: 'token', tokenIndex: token.tokenIndex })),
+        },
+        tokens,
+        [],
+        inputText
+    );
+}
+
+/**
+ * Character offsets at which each line of the text starts
+ */
+function computeLineStarts(text: string): number[] {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            lineStarts.push(i + 1);
+        }
+    }
+    return lineStarts;
+}
+
+/**
+ * Position after the character at stopIndex (end column is exclusive)
+ */
+function endPosition(lineStarts: number[], stopIndex: number): { line: number; column: number } {
+    const offset = stopIndex + 1;
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) low = mid;
+        else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] };
+}
+
+/**
+ * Resolve the token span of each reported ambiguity to input positions
+ */
+export function resolveAmbiguities(
+    ambiguities: WorkerAmbiguity[],
+    tokens: Token[],
+    inputText: string
+): InputAmbiguity[] {
+    const lineStarts = computeLineStarts(inputText);
+
+    return ambiguities.flatMap(({ startToken, stopToken, ...ambiguity }) => {
+        const first = tokens[startToken];
+        // Prediction may look ahead to EOF, whose token has no text
+        const last = tokens[Math.max(startToken, Math.min(stopToken, tokens.length - 1))];
+        if (!first || !last) return [];
+
+        const stopIndex = Math.max(first.start, last.stop);
+        const end = endPosition(lineStarts, stopIndex);
+        return [{
+            ...ambiguity,
+            startIndex: first.start,
+            stopIndex,
+            startLine: first.line,
+            startColumn: first.column,
+            endLine: end.line,
+            endColumn: end.column,
+            text: inputText.substring(first.start, stopIndex + 1),
+        }];
+    });
+}
@@ -0,0 +1,72 @@
+import { GrammarDiagnostic } from './types';
+
+/**
+ * Matches a tool message such as:
+ *   error(56): Expr.g4:3:8: reference to undefined rule: foo
+ *   warning(125): Expr.g4:5:0: implicit definition of token ID in parser
+ *   error(99): Expr.g4::: grammar Expr has no rules
+ *   error(7):  cannot find or open file: Missing.g4
+ */
+const DIAGNOSTIC_PATTERN = /^(error|warning)\((\d+)\):\s*(?:(.+?):(\d*):(\d*):)?\s*(.*)$/;
+
+/**
+ * Parse the ANTLR tool's output into structured diagnostics.
+ *
+ * @param output - Tool output (stderr and stdout combined)
+ * @param fileNames - Maps the file names the tool was given to the names the client uses
+ */
+export function parseToolDiagnostics(
+    output: string,
+    fileNames: Map<string, string> = new Map()
+): GrammarDiagnostic[] {
+    const diagnostics: GrammarDiagnostic[] = [];
+
+    for (const rawLine of output.split('\n')) {
+        const line = rawLine.trimEnd();
+        if (!line.trim()) continue;
+
+        const match = line.match(DIAGNOSTIC_PATTERN);
+        if (!match) {
+            const previous = diagnostics[diagnostics.length - 1];
+            if (previous && /^\s/.test(line)) {
+                // Continuation of a multi-line message
+                previous.message += `\n${line.trim()}`;
+            } else {
+                diagnostics.push({ severity: 'error', message: line.trim() });
+            }
+            continue;
+        }
+
+        const [, severity, code, file, lineNumber, column, message] = match;
+        const diagnostic: GrammarDiagnostic = {
+            severity: severity as GrammarDiagnostic['severity'],
+            code: parseInt(code, 10),
+            message: message.replace(/^:\s*/, ''),
+        };
+
+        if (file) {
+            diagnostic.file = fileNames.get(file) ?? file;
+        }
+        if (lineNumber) {
+            diagnostic.line = parseInt(lineNumber, 10);
+        }
+        if (column) {
+            diagnostic.column = parseInt(column, 10);
+        }
+
+        diagnostics.push(diagnostic);
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Format a diagnostic the way the tool prints it
+ */
+export function formatToolDiagnostic(diagnostic: GrammarDiagnostic): string {
+    const prefix = diagnostic.code !== undefined ? `${diagnostic.severity}(${diagnostic.code}): ` : '';
+    const location = diagnostic.file
+        ? `${diagnostic.file}:${diagnostic.line ?? ''}:${diagnostic.column ?? ''}: `
+        : '';
+    return `${prefix}${location}${diagnostic.message}`;
+}